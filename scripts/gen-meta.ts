@@ -222,6 +222,7 @@ export const DEFAULT_MODEL_PRESETS: ModelConfig[] = [
 		description: "Claude Opus 4.5",
 		supportsTools: true,
 		supportsThinking: true,
+		supportsVision: true,
 		contextWindow: 200000,
 		baseUrl: "https://gaccode.com/claudecode/v1",
 		apiKey: "${anthropicKey}",
@@ -233,6 +234,7 @@ export const DEFAULT_MODEL_PRESETS: ModelConfig[] = [
 		description: "Claude Sonnet 4.5",
 		supportsTools: true,
 		supportsThinking: true,
+		supportsVision: true,
 		contextWindow: 200000,
 		baseUrl: "https://gaccode.com/claudecode/v1",
 		apiKey: "${anthropicKey}",
@@ -6,9 +6,12 @@ import StatusBar from "./components/StatusBar.js";
 import StaticMessage, { type Message } from "./components/StaticMessage.js";
 import StreamingMessage from "./components/StreamingMessage.js";
 import { AskUserMenu } from "./components/AskUserMenu.js";
+import DiffView from "./components/DiffView.js";
 import useTerminalWidth from "./hooks/useTerminalWidth.js";
 import { useSessionManager } from "./hooks/useSessionManager.js";
 import { useAskUser } from "./hooks/useAskUser.js";
+import { useToolPermission } from "./hooks/useToolPermission.js";
+import { useFileChangeReview } from "./hooks/useFileChangeReview.js";
 import { useMessageQueue } from "./hooks/useMessageQueue.js";
 import { SLASH_COMMANDS } from "./constants/commands.js";
 import { VERSION, APP_NAME } from "./constants/meta.js";
@@ -20,9 +23,11 @@ import {
 } from "./models/input.js";
 import {
 	handleCommand,
+	parseCommandText,
 	type CommandCallbacks,
 } from "./services/commandHandler.js";
 import { getToolRegistry } from "./services/tools/registry.js";
+import { initCheckpointStore } from "./services/tools/checkpointStore.js";
 import {
 	createAIServiceFromConfig,
 	type IAIService,
@@ -30,6 +35,8 @@ import {
 } from "./services/ai/index.js";
 import type { InitResult } from "./utils/init.js";
 import { resumeInput } from "./utils/stdin.js";
+import { appendMemory, parseMemoryNote } from "./utils/memory.js";
+import { watchCustomCommands } from "./utils/customCommands.js";
 import { t } from "./i18n/index.js";
 import {
 	isThinkingEnabled,
@@ -37,6 +44,8 @@ import {
 	isPlanModeEnabled,
 } from "./utils/config.js";
 import { SessionStore } from "./services/ai/sessionStore.js";
+import type { MessageOverrides } from "./services/ai/messageQueue.js";
+import { extractFileReferences } from "./services/ai/contentBuilder.js";
 import { clearCommandCache } from "./constants/commands.js";
 import { clearScreen } from "./utils/platform.js";
 
@@ -73,6 +82,24 @@ export default function App({ initResult }: Props) {
 		askUserReasoningOffsetRef,
 	} = useAskUser();
 
+	const {
+		pendingPermission,
+		handlePermissionSelect,
+		handlePermissionCancel,
+		onToolPermission,
+	} = useToolPermission();
+
+	const {
+		pendingReview,
+		handleReviewSelect,
+		handleReviewCancel,
+		onFileChangeReview,
+	} = useFileChangeReview();
+
+	// ask_user、权限确认或文件修改预览菜单显示时隐藏输入框
+	const hasPendingPrompt =
+		!!pendingAskUser || !!pendingPermission || !!pendingReview;
+
 	// AI 加载状态（将来用于显示加载指示器）
 	const [, setIsLoading] = useState(false);
 
@@ -83,6 +110,9 @@ export default function App({ initResult }: Props) {
 		usagePercent: number;
 		isNearLimit: boolean;
 		isFull: boolean;
+		cacheReadTokens: number;
+		cacheCreationTokens: number;
+		totalCost: number;
 	} | null>(null);
 
 	// AI 服务实例（从初始化结果获取）
@@ -97,6 +127,12 @@ export default function App({ initResult }: Props) {
 	// Auto-save 引用（需要在 saveCurrentSession 定义后设置）
 	const saveSessionRef = useRef<(() => void) | null>(null);
 
+	// 注入输入框的文本（/edit 放回最后一条用户消息）
+	const [injectText, setInjectText] = useState("");
+
+	// 下一条提交的消息是否替换最后一轮对话（/edit 后为 true）
+	const editingLastMessageRef = useRef(false);
+
 	// 更新 usage 状态的辅助函数
 	const updateUsageStatus = useCallback(() => {
 		if (aiServiceRef.current) {
@@ -108,6 +144,9 @@ export default function App({ initResult }: Props) {
 				usagePercent: status.usagePercent,
 				isNearLimit: status.isNearLimit,
 				isFull: status.isFull,
+				cacheReadTokens: status.cacheReadTokens,
+				cacheCreationTokens: status.cacheCreationTokens,
+				totalCost: status.totalCost,
 			});
 		} else {
 			setUsageStatus(null);
@@ -126,8 +165,11 @@ export default function App({ initResult }: Props) {
 		sessionStoreRef,
 		sessionNew,
 		sessionSwitch,
+		sessionFork,
 		sessionDelete,
 		sessionClear,
+		sessionRewind,
+		sessionRollbackLastTurn,
 		saveCurrentSession,
 	} = useSessionManager({
 		aiServiceRef,
@@ -148,6 +190,8 @@ export default function App({ initResult }: Props) {
 		askUserReasoningOffsetRef,
 		updateUsageStatus,
 		createAskUserCallback,
+		onToolPermission,
+		onFileChangeReview,
 	});
 
 	// 组件挂载后恢复 stdin 输入（之前在 cli.tsx 中被暂停）
@@ -155,9 +199,17 @@ export default function App({ initResult }: Props) {
 		resumeInput();
 	}, []);
 
+	// 监听自定义命令文件变化（热重载斜杠命令）
+	useEffect(() => watchCustomCommands(), []);
+
 	// 发送消息给 AI（支持文件附件）
 	const sendToAI = useCallback(
-		(content: string, files: FileReference[] = [], isUserMessage = true) => {
+		(
+			content: string,
+			files: FileReference[] = [],
+			isUserMessage = true,
+			overrides?: MessageOverrides,
+		) => {
 			// 检查 AI 服务是否可用
 			if (!aiServiceRef.current) {
 				// 显示用户消息
@@ -212,6 +264,7 @@ export default function App({ initResult }: Props) {
 				content,
 				files,
 				isPlanModeEnabled(),
+				overrides,
 			);
 
 			if (isUserMessage) {
@@ -332,6 +385,7 @@ export default function App({ initResult }: Props) {
 			if (store) {
 				const newInfo = store.createSession();
 				store.setActiveSessionId(newInfo.id);
+				initCheckpointStore(process.cwd(), newInfo.id);
 
 				// 重建 AI 服务
 				const registry = getToolRegistry();
@@ -390,6 +444,65 @@ export default function App({ initResult }: Props) {
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, []);
 
+	// 重新发送历史消息（重新读取其中 @ 引用的文件，沿用原消息的覆盖项）
+	const resendMessage = useCallback(
+		(
+			text: string,
+			files: FileReference[] = [],
+			overrides?: MessageOverrides,
+		) => {
+			const references = extractFileReferences(text, process.cwd()).filter(
+				(ref) => !files.some((file) => file.path === ref.path),
+			);
+			sendToAI(text, [...files, ...references], true, overrides);
+		},
+		[sendToAI],
+	);
+
+	// 回滚最后一轮对话并重新发送同一条用户消息（/retry）
+	const retry = useCallback(async () => {
+		editingLastMessageRef.current = false;
+		const message = sessionRollbackLastTurn();
+		if (!message) {
+			setMessages((prev) => [
+				...prev,
+				{
+					content: t("retry.nothingToRetry"),
+					type: "system",
+					markdown: false,
+				},
+			]);
+			return;
+		}
+		resendMessage(
+			message.displayContent ?? message.content,
+			[],
+			message.overrides,
+		);
+	}, [sessionRollbackLastTurn, resendMessage]);
+
+	// 把最后一条用户消息放回输入框，提交时替换原来的一轮（/edit）
+	const editLastMessage = useCallback(() => {
+		const message = aiServiceRef.current?.getSession().getLastUserMessage();
+		if (!message) {
+			setMessages((prev) => [
+				...prev,
+				{
+					content: t("retry.nothingToRetry"),
+					type: "system",
+					markdown: false,
+				},
+			]);
+			return;
+		}
+		editingLastMessageRef.current = true;
+		setInjectText(message.displayContent ?? message.content);
+		setMessages((prev) => [
+			...prev,
+			{ content: t("retry.editing"), type: "system", markdown: false },
+		]);
+	}, []);
+
 	// 设置 compactRef 以便 processMessage 可以调用 compact
 	useEffect(() => {
 		compactRef.current = compact;
@@ -404,7 +517,7 @@ export default function App({ initResult }: Props) {
 	const commandCallbacks: CommandCallbacks = useMemo(
 		() => ({
 			showMessage,
-			sendToAI,
+			sendToAI: (content, overrides) => sendToAI(content, [], true, overrides),
 			setConfig,
 			compact,
 			stop: stopProcessing,
@@ -412,8 +525,12 @@ export default function App({ initResult }: Props) {
 			exit,
 			sessionNew,
 			sessionSwitch,
+			sessionFork,
 			sessionDelete,
 			sessionClear,
+			rewind: sessionRewind,
+			retry,
+			editLastMessage,
 		}),
 		[
 			showMessage,
@@ -425,14 +542,45 @@ export default function App({ initResult }: Props) {
 			exit,
 			sessionNew,
 			sessionSwitch,
+			sessionFork,
 			sessionDelete,
 			sessionClear,
+			sessionRewind,
+			retry,
+			editLastMessage,
 		],
 	);
 
 	const handleSubmit = useCallback(
 		async (input: UserInput) => {
 			if (isMessageInput(input)) {
+				// "# 内容" 追加到项目记忆文件，不发送给 AI
+				const memoryNote =
+					input.files.length === 0 ? parseMemoryNote(input.text) : null;
+				if (memoryNote) {
+					setMessages((prev) => [
+						...prev,
+						{ content: input.text, type: "user" },
+					]);
+					try {
+						const file = appendMemory(process.cwd(), memoryNote);
+						showMessage(t("memory.added", { path: file }));
+					} catch (error) {
+						showMessage(
+							t("memory.addFailed", {
+								error: error instanceof Error ? error.message : String(error),
+							}),
+						);
+					}
+					return;
+				}
+				// /edit 后提交的消息替换最后一轮对话
+				if (editingLastMessageRef.current) {
+					editingLastMessageRef.current = false;
+					const message = sessionRollbackLastTurn();
+					resendMessage(input.text, input.files, message?.overrides);
+					return;
+				}
 				// 发送消息给 AI（带文件附件）
 				sendToAI(input.text, input.files);
 			} else if (isCommandInput(input)) {
@@ -444,16 +592,43 @@ export default function App({ initResult }: Props) {
 						{ content: input.text, type: "user" },
 					]);
 				}
+				// 执行命令时取消 /edit
+				if (editingLastMessageRef.current) {
+					editingLastMessageRef.current = false;
+					setMessages((prev) => [
+						...prev,
+						{
+							content: t("retry.editCancelled"),
+							type: "system",
+							markdown: false,
+						},
+					]);
+				}
+				// 手动输入的 "/name 参数"（未从菜单选择）需要解析出命令路径和参数
+				const parsed =
+					input.commandPath.length === 0 ? parseCommandText(input.text) : null;
 				await handleCommand(
-					input.commandPath,
+					parsed?.path ?? input.commandPath,
 					{ appName: APP_NAME, version: VERSION },
 					commandCallbacks,
+					undefined,
+					parsed?.args,
 				);
 			}
 		},
-		[sendToAI, commandCallbacks],
+		[
+			sendToAI,
+			showMessage,
+			commandCallbacks,
+			sessionRollbackLastTurn,
+			resendMessage,
+		],
 	);
 
+	const handleInjectTextHandled = useCallback(() => {
+		setInjectText("");
+	}, []);
+
 	const handleClear = useCallback(() => {
 		clearScreenAndReset();
 	}, [clearScreenAndReset]);
@@ -516,8 +691,8 @@ export default function App({ initResult }: Props) {
 					<StreamingMessage message={streamingMessage} width={terminalWidth} />
 				)}
 
-				{/* 输出区域与输入框分隔线（无 ask_user 菜单时显示） */}
-				{!pendingAskUser && (
+				{/* 输出区域与输入框分隔线（无 ask_user / 权限 / 文件预览菜单时显示） */}
+				{!hasPendingPrompt && (
 					<Box flexShrink={0}>
 						<Divider />
 					</Box>
@@ -536,15 +711,46 @@ export default function App({ initResult }: Props) {
 					</Box>
 				)}
 
+				{/* 工具权限确认菜单（不在 allow 列表中的工具调用等待批准时显示） */}
+				{pendingPermission && !pendingAskUser && (
+					<Box flexShrink={0}>
+						<AskUserMenu
+							question={pendingPermission.question}
+							options={pendingPermission.options}
+							onSelect={handlePermissionSelect}
+							onCancel={handlePermissionCancel}
+							columns={terminalWidth}
+							customInputLabel={t("permission.denyWithNote")}
+						/>
+					</Box>
+				)}
+
+				{/* 文件修改预览（file_write / file_edit 的 diff 等待接受或拒绝） */}
+				{pendingReview && !pendingAskUser && !pendingPermission && (
+					<Box flexDirection="column" flexShrink={0}>
+						<DiffView diff={pendingReview.request.diff} width={terminalWidth} />
+						<AskUserMenu
+							question={pendingReview.question}
+							options={pendingReview.options}
+							onSelect={handleReviewSelect}
+							onCancel={handleReviewCancel}
+							columns={terminalWidth}
+							customInputLabel={t("fileReview.rejectWithNote")}
+						/>
+					</Box>
+				)}
+
 				{/* 输入框区域 */}
-				<Box flexShrink={0} display={!pendingAskUser ? "flex" : "none"}>
+				<Box flexShrink={0} display={!hasPendingPrompt ? "flex" : "none"}>
 					<AutocompleteInput
 						prompt="> "
 						onSubmit={handleSubmit}
 						onClear={handleClear}
 						onExit={clearAndExit}
 						slashCommands={SLASH_COMMANDS}
-						isActive={!pendingAskUser}
+						isActive={!hasPendingPrompt}
+						injectText={injectText}
+						onInjectTextHandled={handleInjectTextHandled}
 					/>
 				</Box>
 
@@ -562,6 +768,9 @@ export default function App({ initResult }: Props) {
 						usagePercent={usageStatus?.usagePercent}
 						isNearLimit={usageStatus?.isNearLimit}
 						isFull={usageStatus?.isFull}
+						cacheReadTokens={usageStatus?.cacheReadTokens}
+						cacheCreationTokens={usageStatus?.cacheCreationTokens}
+						sessionCost={usageStatus?.totalCost}
 					/>
 				</Box>
 			</Box>
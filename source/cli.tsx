@@ -2,17 +2,29 @@
 import { render } from "ink";
 import meow from "meow";
 import App from "./app.js";
+import SessionPicker from "./components/SessionPicker.js";
 import Welcome from "./components/Welcome.js";
 import { initAppData } from "./utils/appdata.js";
 import { initConfig, isFirstTimeUser } from "./utils/config.js";
-import { setFlags } from "./utils/flags.js";
+import { setFlags, isOutputFormat, OUTPUT_FORMATS } from "./utils/flags.js";
 import { initLocalSettings } from "./utils/localsettings.js";
 import { initPlatform, clearScreen } from "./utils/platform.js";
 import { initApp, type InitResult } from "./utils/init.js";
+import { closeMcpClients } from "./services/tools/mcp/client.js";
+import { killAllBackgroundProcesses } from "./services/tools/backgroundProcesses.js";
+import {
+	initSessionStore,
+	type SessionInfo,
+	type SessionStore,
+} from "./services/ai/sessionStore.js";
 import { initI18n } from "./i18n/index.js";
-
-// 清屏（跨平台）
-clearScreen();
+import {
+	runHeadless,
+	readPipedStdin,
+	STDIN_INITIAL_TIMEOUT_MS,
+	buildHeadlessPrompt,
+	parseAllowedTools,
+} from "./headless.js";
 
 // 同步初始化（配置文件等）
 initConfig();
@@ -34,12 +46,46 @@ const cli = meow({
 			type: "boolean",
 			shortFlag: "v",
 		},
+		print: {
+			type: "boolean",
+			shortFlag: "p",
+		},
+		outputFormat: {
+			type: "string",
+			default: "text",
+		},
+		model: {
+			type: "string",
+		},
+		plan: {
+			type: "boolean",
+		},
+		maxToolRounds: {
+			type: "number",
+		},
+		allowedTools: {
+			type: "string",
+			isMultiple: true,
+		},
+		continue: {
+			type: "boolean",
+			shortFlag: "c",
+		},
+		resume: {
+			type: "string",
+			shortFlag: "r",
+		},
 	},
 });
 
 // 设置命令行参数
 setFlags(cli.flags);
 
+// 无头模式不清屏（输出可能被管道或重定向）
+if (!cli.flags.print) {
+	clearScreen();
+}
+
 // 如果用户请求帮助，输出帮助信息后退出
 if (cli.flags.help) {
 	console.log(`
@@ -47,14 +93,163 @@ axiomate - A terminal-based CLI application
 
 Usage:
   axiomate [options]
+  axiomate --continue
+  axiomate --resume [id|name]
+  axiomate -p [options] "prompt"
+  cat file | axiomate -p [options] ["prompt"]
 
 Options:
-  -h, --help       Show this help message and exit
-  -v, --verbose    Enable verbose logging (trace level)
+  -h, --help                 Show this help message and exit
+  -v, --verbose              Enable verbose logging (trace level)
+  -c, --continue             Continue the most recent session in this directory
+  -r, --resume [id|name]     Resume a session by ID, ID prefix or name;
+                             without a value, pick one from a list
+
+Non-interactive mode:
+  -p, --print                Print the answer to stdout and exit
+  --output-format <format>   Output format: text, json, stream-json (default: text)
+  --model <id>               Use this model for this run only
+  --plan                     Run in plan mode
+  --max-tool-rounds <n>      Maximum tool call rounds (default: 40)
+  --allowed-tools <pattern>  Allow tool calls matching pattern (repeatable or
+                             comma-separated, same syntax as permissions.allow)
 `);
 	process.exit(0);
 }
 
+if (cli.flags.continue && cli.flags.resume !== undefined) {
+	console.error("--continue and --resume cannot be used together");
+	process.exit(1);
+}
+if (cli.flags.print && (cli.flags.continue || cli.flags.resume !== undefined)) {
+	console.error("--continue and --resume are not available with --print");
+	process.exit(1);
+}
+
+/**
+ * 等待 stdout 写完后退出（避免管道输出被截断）
+ */
+function exitAfterFlush(code: number): void {
+	process.stdout.write("", () => process.exit(code));
+}
+
+/**
+ * 无头模式：不渲染 UI，输出回答后退出
+ */
+async function runPrintMode() {
+	const { outputFormat, maxToolRounds } = cli.flags;
+
+	if (!isOutputFormat(outputFormat)) {
+		console.error(
+			`Invalid --output-format: ${outputFormat}. Expected one of: ${OUTPUT_FORMATS.join(", ")}`,
+		);
+		process.exit(1);
+	}
+	if (
+		maxToolRounds !== undefined &&
+		(!Number.isInteger(maxToolRounds) || maxToolRounds < 1)
+	) {
+		console.error(
+			`Invalid --max-tool-rounds: ${maxToolRounds}. Expected a positive integer`,
+		);
+		process.exit(1);
+	}
+
+	// 提示词作为参数给出时，管道输入是可选的附加内容，只短暂等待
+	const prompt = buildHeadlessPrompt(
+		cli.input.join(" "),
+		await readPipedStdin(
+			process.stdin,
+			cli.input.length > 0 ? STDIN_INITIAL_TIMEOUT_MS : undefined,
+		),
+	);
+
+	// Ctrl+C 中止当前请求
+	const controller = new AbortController();
+	process.once("SIGINT", () => controller.abort());
+
+	const exitCode = await runHeadless({
+		prompt,
+		outputFormat,
+		modelId: cli.flags.model,
+		planMode: cli.flags.plan,
+		maxToolRounds,
+		allowedTools: parseAllowedTools(cli.flags.allowedTools),
+		signal: controller.signal,
+	});
+	await closeMcpClients();
+	killAllBackgroundProcesses();
+	exitAfterFlush(exitCode);
+}
+
+/**
+ * 显示 session 选择页面
+ * @returns 选中的 session ID，按 Esc 时返回 null
+ */
+function pickSession(
+	sessions: SessionInfo[],
+	store: SessionStore,
+): Promise<string | null> {
+	return new Promise((resolve) => {
+		const finish = (id: string | null) => {
+			pickerInstance.unmount();
+			clearScreen();
+			resolve(id);
+		};
+		const pickerInstance = render(
+			<SessionPicker
+				sessions={sessions}
+				getPreview={(id, maxMessages) =>
+					store.getSessionPreview(id, maxMessages)
+				}
+				onSelect={(id) => finish(id)}
+				onCancel={() => finish(null)}
+			/>,
+		);
+	});
+}
+
+/**
+ * --continue / --resume：在启动 App 前切换活跃 session
+ * App 初始化时加载活跃 session，找不到匹配的 session 时报错退出
+ */
+async function openRequestedSession(initResult: InitResult): Promise<void> {
+	const { continue: continueLatest, resume } = cli.flags;
+	if (!continueLatest && resume === undefined) return;
+
+	const store = await initSessionStore(
+		initResult.aiService?.getContextWindow() ?? 32768,
+	);
+
+	let sessionId: string | null;
+	if (continueLatest) {
+		sessionId = store.getLatestSessionForCwd(process.cwd())?.id ?? null;
+		if (!sessionId) {
+			console.error(`No previous session found in ${process.cwd()}`);
+			process.exit(1);
+		}
+	} else {
+		const candidates = resume
+			? store.findSessions(resume)
+			: store.listSessions().filter((s) => s.messageCount > 0);
+		if (candidates.length === 0) {
+			console.error(
+				resume ? `No session matches "${resume}"` : "No sessions to resume",
+			);
+			process.exit(1);
+		}
+		sessionId =
+			candidates.length === 1
+				? candidates[0]!.id
+				: await pickSession(candidates, store);
+		if (!sessionId) {
+			process.exit(0);
+		}
+	}
+
+	store.setActiveSessionId(sessionId);
+}
+
 async function main() {
 	// 快速初始化（内置工具 + AI 服务）
 	let initResult: InitResult;
@@ -94,6 +289,8 @@ async function main() {
 		clearScreen();
 	}
 
+	await openRequestedSession(initResult);
+
 	// 正常启动 App
 	// 使用 incrementalRendering 减少滚动时的条纹问题
 	const { waitUntilExit } = render(<App initResult={initResult} />, {
@@ -101,7 +298,13 @@ async function main() {
 		incrementalRendering: true,
 	});
 	await waitUntilExit();
+	await closeMcpClients();
+	killAllBackgroundProcesses();
 	clearScreen();
 }
 
-main();
+if (cli.flags.print) {
+	runPrintMode();
+} else {
+	main();
+}
@@ -29,6 +29,8 @@ type AskUserMenuProps = {
 	columns: number;
 	/** Maximum allLines for custom input (default: 10) */
 	maxInputLines?: number;
+	/** Label of the custom input option (default: askUser.customInput) */
+	customInputLabel?: string;
 };
 
 export function AskUserMenu({
@@ -38,10 +40,10 @@ export function AskUserMenu({
 	onCancel,
 	columns,
 	maxInputLines = 10,
+	customInputLabel = t("askUser.customInput"),
 }: AskUserMenuProps) {
 	// Limit to max 3 options + custom input
 	const limitedOptions = options.slice(0, 3);
-	const customInputLabel = t("askUser.customInput");
 	const allOptions =
 		limitedOptions.length > 0
 			? [...limitedOptions, customInputLabel]
@@ -85,6 +85,7 @@ export function SlashMenu({
 							{cmd.prefix ?? (path.length === 0 ? "/" : "  ")}
 							{cmd.name}
 						</Text>
+						{cmd.argumentHint && <Text color="cyan"> {cmd.argumentHint}</Text>}
 						{cmd.description && <Text color="gray"> - {cmd.description}</Text>}
 						{cmd.children && cmd.children.length > 0 && (
 							<Text color="gray"> →</Text>
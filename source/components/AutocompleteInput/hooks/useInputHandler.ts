@@ -125,6 +125,9 @@ export function useInputHandler({
 						// 如果命令有子选项，进入下一层级
 						if (selectedCmd.children && selectedCmd.children.length > 0) {
 							dispatch({ type: "ENTER_SLASH_LEVEL", name: selectedCmd.name });
+						} else if (selectedCmd.argumentHint) {
+							// 需要参数的命令：补全命令名，等待用户输入参数后再提交
+							dispatch({ type: "ENTER_COMMAND_ARGS", name: selectedCmd.name });
 						} else {
 							// 选择最终命令并提交
 							// 注意：这里先 dispatch 更新状态（用于显示），然后创建相同的 instance 提交
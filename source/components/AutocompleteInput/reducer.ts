@@ -280,6 +280,17 @@ export function editorReducer(
 			};
 		}
 
+		case "ENTER_COMMAND_ARGS": {
+			// 需要参数的命令：路径转为纯文本 "/a b "，提交时由命令文本解析出路径和参数
+			if (!isSlashMode(state.uiMode)) return state;
+			const text = `/${[...state.instance.commandPath, action.name].join(" ")} `;
+			return {
+				...state,
+				instance: updateInstanceFromText(text, text.length, [], []),
+				uiMode: { type: "slash", selectedIndex: 0 },
+			};
+		}
+
 		case "EXIT_SLASH_LEVEL": {
 			if (!isSlashMode(state.uiMode)) return state;
 
@@ -50,7 +50,14 @@ export {
  */
 export type CommandAction =
 	| { type: "internal"; handler?: string }
-	| { type: "prompt"; template: string }
+	| {
+			type: "prompt";
+			template: string;
+			/** 本条消息使用的模型 ID */
+			model?: string;
+			/** 无需确认即可执行的工具权限模式 */
+			allowedTools?: string[];
+	  }
 	| { type: "config"; key: string };
 
 /**
@@ -64,6 +71,8 @@ export type SlashCommand = {
 	action?: CommandAction;
 	/** 可选的前缀指示器（如 ▸ 表示当前选中项） */
 	prefix?: string;
+	/** 参数提示（如 "<file>"），设置后选中命令时等待输入参数而不是直接提交 */
+	argumentHint?: string;
 };
 
 /**
@@ -118,6 +127,7 @@ export type EditorAction =
 	| { type: "SELECT_SLASH"; index: number }
 	| { type: "ENTER_SLASH_LEVEL"; name: string }
 	| { type: "SELECT_FINAL_COMMAND"; name: string } // 选择最终命令（无子命令）
+	| { type: "ENTER_COMMAND_ARGS"; name: string } // 选择需要参数的命令，转为纯文本等待输入参数
 	| { type: "EXIT_SLASH_LEVEL" }
 	// 文件选择操作
 	| { type: "ENTER_FILE"; atPosition: number; prefix: string; suffix: string }
@@ -0,0 +1,49 @@
+/**
+ * DiffView component
+ * Renders a unified diff with colored lines (used for file change review)
+ */
+
+import { Box, Text } from "ink";
+import { useTranslation } from "../hooks/useTranslation.js";
+
+type Props = {
+	/** Unified diff text */
+	diff: string;
+	/** Terminal width */
+	width: number;
+	/** Maximum lines shown (default: 40) */
+	maxLines?: number;
+};
+
+/**
+ * Get the color of a diff line
+ */
+function getLineColor(line: string): string | undefined {
+	if (line.startsWith("+++") || line.startsWith("---")) return "gray";
+	if (line.startsWith("@@")) return "cyan";
+	if (line.startsWith("+")) return "green";
+	if (line.startsWith("-")) return "red";
+	return undefined;
+}
+
+export default function DiffView({ diff, width, maxLines = 40 }: Props) {
+	const { t } = useTranslation();
+	const lines = diff ? diff.split("\n") : [];
+	const visibleLines = lines.slice(0, maxLines);
+	const hiddenCount = lines.length - visibleLines.length;
+
+	return (
+		<Box flexDirection="column" width={width}>
+			{visibleLines.map((line, index) => (
+				<Text key={index} color={getLineColor(line)} wrap="truncate-end">
+					{line || " "}
+				</Text>
+			))}
+			{hiddenCount > 0 && (
+				<Text color="gray">
+					{t("fileReview.moreLines", { count: hiddenCount })}
+				</Text>
+			)}
+		</Box>
+	);
+}
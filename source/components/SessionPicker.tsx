@@ -0,0 +1,174 @@
+/**
+ * Session 选择页面
+ *
+ * axiomate --resume 未指定 session（或匹配到多个）时显示
+ * 上下键选择，列表下方显示选中 session 的最近几条消息
+ * Enter 打开选中的 session，Esc 退出
+ */
+
+import { Box, Text, useInput } from "ink";
+import { useEffect, useMemo, useState } from "react";
+import { THEME_LIGHT_YELLOW, THEME_PINK } from "../constants/colors.js";
+import { APP_NAME, VERSION } from "../constants/meta.js";
+import useTerminalHeight from "../hooks/useTerminalHeight.js";
+import useTerminalWidth from "../hooks/useTerminalWidth.js";
+import { useTranslation } from "../hooks/useTranslation.js";
+import type {
+	SessionInfo,
+	SessionPreviewMessage,
+} from "../services/ai/sessionStore.js";
+import { resumeInput } from "../utils/stdin.js";
+import Divider from "./Divider.js";
+
+/**
+ * 预览区域最多显示的消息数
+ */
+const PREVIEW_MESSAGES = 4;
+
+type Props = {
+	/** 可选的 session（按更新时间降序） */
+	sessions: SessionInfo[];
+	/** 读取 session 最近的消息 */
+	getPreview: (id: string, maxMessages: number) => SessionPreviewMessage[];
+	onSelect: (id: string) => void;
+	onCancel: () => void;
+};
+
+/**
+ * 截断为单行（换行替换为空格）
+ */
+function toSingleLine(text: string, maxLength: number): string {
+	const line = text.replace(/\s+/g, " ").trim();
+	if (line.length <= maxLength) return line;
+	return line.substring(0, Math.max(0, maxLength - 3)) + "...";
+}
+
+export default function SessionPicker({
+	sessions,
+	getPreview,
+	onSelect,
+	onCancel,
+}: Props) {
+	const terminalHeight = useTerminalHeight();
+	const terminalWidth = useTerminalWidth();
+	const { t } = useTranslation();
+	const [selectedIndex, setSelectedIndex] = useState(0);
+
+	// 组件挂载后恢复 stdin 输入（之前在 cli.tsx 中被暂停）
+	useEffect(() => {
+		resumeInput();
+	}, []);
+
+	useInput((_input, key) => {
+		if (key.upArrow) {
+			setSelectedIndex((i) => (i > 0 ? i - 1 : sessions.length - 1));
+		} else if (key.downArrow) {
+			setSelectedIndex((i) => (i < sessions.length - 1 ? i + 1 : 0));
+		} else if (key.return) {
+			const session = sessions[selectedIndex];
+			if (session) onSelect(session.id);
+		} else if (key.escape) {
+			onCancel();
+		}
+	});
+
+	const selected = sessions[selectedIndex];
+	const preview = useMemo(
+		() => (selected ? getPreview(selected.id, PREVIEW_MESSAGES) : []),
+		[selected, getPreview],
+	);
+
+	// 标题栏、分隔线、预览和底部提示之外的行数用于列表（每个 session 占 2 行）
+	const listRows = Math.max(
+		1,
+		Math.floor((terminalHeight - PREVIEW_MESSAGES - 8) / 2),
+	);
+	// 保持选中项在可见窗口内
+	const start = Math.min(
+		Math.max(0, selectedIndex - listRows + 1),
+		Math.max(0, sessions.length - listRows),
+	);
+	const visible = sessions.slice(start, start + listRows);
+	const textWidth = Math.max(20, terminalWidth - 4);
+
+	return (
+		<Box flexDirection="column" height={terminalHeight}>
+			{/* 顶部标题栏 */}
+			<Box flexShrink={0}>
+				<Text bold>
+					<Text color={THEME_PINK}>{APP_NAME}</Text>
+					<Text color={THEME_LIGHT_YELLOW}> v{VERSION}</Text>
+					<Text> - {t("sessionPicker.title")}</Text>
+				</Text>
+			</Box>
+
+			<Box flexShrink={0}>
+				<Divider />
+			</Box>
+
+			{/* session 列表 */}
+			<Box flexGrow={1} flexDirection="column">
+				{visible.map((session, i) => {
+					const isSelected = start + i === selectedIndex;
+					return (
+						<Box key={session.id} flexDirection="column">
+							<Text
+								color={isSelected ? THEME_PINK : undefined}
+								bold={isSelected}
+							>
+								{isSelected ? "▸ " : "  "}
+								{toSingleLine(session.name, textWidth)}
+							</Text>
+							<Text dimColor>
+								{"  "}
+								{toSingleLine(
+									t("sessionPicker.details", {
+										id: session.id.substring(0, 8),
+										count: session.messageCount,
+										date: new Date(session.updatedAt).toLocaleString(),
+										cwd: session.cwd ?? "-",
+									}),
+									textWidth,
+								)}
+							</Text>
+						</Box>
+					);
+				})}
+			</Box>
+
+			{/* 选中 session 的最近消息 */}
+			<Box flexShrink={0}>
+				<Divider />
+			</Box>
+			<Box flexShrink={0} flexDirection="column">
+				{preview.length === 0 ? (
+					<Text dimColor>{t("sessionPicker.noPreview")}</Text>
+				) : (
+					preview.map((message, i) => (
+						<Text key={i}>
+							<Text color={message.role === "user" ? "green" : "cyan"}>
+								{message.role === "user"
+									? t("sessionPicker.user")
+									: t("sessionPicker.assistant")}
+								:{" "}
+							</Text>
+							{toSingleLine(message.content, textWidth - 12)}
+						</Text>
+					))
+				)}
+			</Box>
+
+			<Box flexShrink={0}>
+				<Divider />
+			</Box>
+
+			{/* 底部提示 */}
+			<Box flexShrink={0} justifyContent="space-between" width="100%">
+				<Text color="green">{t("sessionPicker.hint")}</Text>
+				<Text dimColor>
+					{selectedIndex + 1}/{sessions.length}
+				</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -2,6 +2,8 @@ import { Box, Text } from "ink";
 import { useCallback, useEffect } from "react";
 import { THEME_PINK, THEME_LIGHT_YELLOW } from "../constants/colors.js";
 import { useTranslation } from "../hooks/useTranslation.js";
+import type { ToolRun } from "../models/toolRun.js";
+import ToolRunView from "./ToolRunView.js";
 
 /**
  * ask_user 问答对
@@ -18,6 +20,8 @@ export type Message = {
 	reasoningCollapsed?: boolean;
 	askUserQA?: AskUserQA;
 	askUserCollapsed?: boolean;
+	/** 本条消息中执行的工具调用 */
+	toolRuns?: ToolRun[];
 	type?: "user" | "system" | "welcome" | "user-answer";
 	streaming?: boolean;
 	queued?: boolean;
@@ -182,7 +186,7 @@ export default function StaticMessage({ message, width }: Props) {
 				);
 			}
 		});
-	} else if (!message.reasoning && !message.askUserQA) {
+	} else if (!message.reasoning && !message.askUserQA && !message.toolRuns) {
 		// 空消息
 		const content = renderContent(message);
 		const msgLines = content.split("\n");
@@ -208,7 +212,12 @@ export default function StaticMessage({ message, width }: Props) {
 		});
 	}
 
-	// 3. 渲染 ask_user 问答（如果有）
+	// 3. 渲染工具调用（如果有）
+	message.toolRuns?.forEach((run) => {
+		rows.push(<ToolRunView key={`tool-${run.id}`} run={run} width={width} />);
+	});
+
+	// 4. 渲染 ask_user 问答（如果有）
 	if (message.askUserQA) {
 		const qa = message.askUserQA;
 		rows.push(
@@ -1,5 +1,6 @@
 import { Box, Text } from "ink";
 import { useTranslation } from "../hooks/useTranslation.js";
+import { formatCost } from "../services/ai/costTracker.js";
 
 type Props = {
 	planMode?: boolean;
@@ -8,6 +9,11 @@ type Props = {
 	usagePercent?: number;
 	isNearLimit?: boolean;
 	isFull?: boolean;
+	/** Cumulative prompt cache reads/writes of the session */
+	cacheReadTokens?: number;
+	cacheCreationTokens?: number;
+	/** Cumulative cost of the session in USD (hidden when 0) */
+	sessionCost?: number;
 };
 
 /**
@@ -33,6 +39,9 @@ export default function StatusBar({
 	usagePercent,
 	isNearLimit,
 	isFull,
+	cacheReadTokens = 0,
+	cacheCreationTokens = 0,
+	sessionCost = 0,
 }: Props) {
 	const { t } = useTranslation();
 
@@ -69,10 +78,37 @@ export default function StatusBar({
 		);
 	};
 
+	// Render prompt cache display (hidden until the API reports cache usage)
+	const renderCache = () => {
+		if (cacheReadTokens <= 0 && cacheCreationTokens <= 0) {
+			return null;
+		}
+		return (
+			<Text color="gray">
+				{t("statusBar.cache", {
+					read: formatTokens(cacheReadTokens),
+					write: formatTokens(cacheCreationTokens),
+				})}{" "}
+			</Text>
+		);
+	};
+
+	// Render session cost (hidden when the model has no pricing)
+	const renderCost = () => {
+		if (sessionCost <= 0) {
+			return null;
+		}
+		return <Text color="gray">{formatCost(sessionCost)} </Text>;
+	};
+
 	return (
 		<Box flexShrink={0} justifyContent="flex-end" width="100%">
 			{/* Plan/Action 模式指示器 */}
 			{renderPlanMode()}
+			{/* Prompt cache 指示器 */}
+			{renderCache()}
+			{/* Session 费用 */}
+			{renderCost()}
 			{/* Usage 指示器 */}
 			{renderUsage()}
 		</Box>
@@ -1,8 +1,9 @@
 import { Box, Text } from "ink";
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { THEME_PINK, THEME_LIGHT_YELLOW } from "../constants/colors.js";
 import { useTranslation } from "../hooks/useTranslation.js";
 import type { Message } from "./StaticMessage.js";
+import ToolRunView from "./ToolRunView.js";
 
 type Props = {
 	message: Message;
@@ -49,6 +50,18 @@ export default function StreamingMessage({ message, width }: Props) {
 		getMarkedInstance(width);
 	}, [width]);
 
+	// 有工具正在运行时每秒刷新已用时间
+	const [now, setNow] = useState(Date.now());
+	const hasRunningTool = !!message.toolRuns?.some(
+		(run) => run.status === "running",
+	);
+	useEffect(() => {
+		if (!hasRunningTool) return;
+		setNow(Date.now());
+		const timer = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(timer);
+	}, [hasRunningTool]);
+
 	// 渲染消息内容 - 使用 useMemo 缓存
 	const renderedContent = useMemo(() => {
 		if (message.markdown === false) {
@@ -103,7 +116,7 @@ export default function StreamingMessage({ message, width }: Props) {
 				);
 			}
 		});
-	} else if (!message.reasoning) {
+	} else if (!message.reasoning && !message.toolRuns) {
 		// 没有内容也没有思考（空消息或仅有 queued 状态）
 		if (message.queued) {
 			rows.push(
@@ -126,7 +139,19 @@ export default function StreamingMessage({ message, width }: Props) {
 		}
 	}
 
-	// 3. 渲染 ask_user 问答（如果有）- 流式消息通常不会有这个
+	// 3. 渲染工具调用（运行中显示输出尾部，结束后显示结果预览）
+	message.toolRuns?.forEach((run) => {
+		rows.push(
+			<ToolRunView
+				key={`tool-${run.id}`}
+				run={run}
+				width={width}
+				now={Math.max(now, run.startedAt)}
+			/>,
+		);
+	});
+
+	// 4. 渲染 ask_user 问答（如果有）- 流式消息通常不会有这个
 	if (message.askUserQA) {
 		const qa = message.askUserQA;
 		rows.push(
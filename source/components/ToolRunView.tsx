@@ -0,0 +1,110 @@
+/**
+ * ToolRunView - 渲染工具调用块
+ * 名称、状态标记、耗时、格式化后的参数，
+ * 运行中显示输出尾部，结束后显示结果的前几行
+ */
+
+import { Box, Text } from "ink";
+import { useTranslation } from "../hooks/useTranslation.js";
+import {
+	formatElapsed,
+	formatToolRunArguments,
+	getToolRunLineCount,
+	getToolRunTailLines,
+	type ToolRun,
+} from "../models/toolRun.js";
+
+type Props = {
+	run: ToolRun;
+	width: number;
+	/** 当前时间（运行中计算已用时间） */
+	now?: number;
+	/** 输出预览行数（默认 5） */
+	previewLines?: number;
+	/** 参数最多显示的行数（默认 8） */
+	argumentLines?: number;
+};
+
+const STATUS_ICONS = {
+	running: "⠿",
+	success: "✓",
+	error: "✗",
+} as const;
+
+const STATUS_COLORS = {
+	running: "cyan",
+	success: "green",
+	error: "red",
+} as const;
+
+export default function ToolRunView({
+	run,
+	width,
+	now = Date.now(),
+	previewLines = 5,
+	argumentLines = 8,
+}: Props) {
+	const { t } = useTranslation();
+	const lineCount = getToolRunLineCount(run);
+
+	const details: string[] = [];
+	if (run.status === "running") {
+		details.push(formatElapsed(Math.max(0, now - run.startedAt)));
+	} else if (run.duration !== undefined) {
+		details.push(formatElapsed(run.duration));
+	}
+	if (lineCount > 0) {
+		details.push(t("message.toolLines", { count: lineCount }));
+	}
+
+	const args = formatToolRunArguments(run.arguments);
+	const argLines = args ? args.split("\n") : [];
+	const hiddenArgLines = argLines.length - argumentLines;
+
+	// 运行中显示最新输出，结束后显示结果开头
+	const outputLines =
+		run.status === "running"
+			? getToolRunTailLines(run, previewLines)
+			: (run.result?.lines.slice(0, previewLines) ?? []);
+	const hiddenOutputLines =
+		run.status === "running" ? 0 : lineCount - outputLines.length;
+
+	return (
+		<Box flexDirection="column" width={width}>
+			<Text wrap="truncate-end">
+				<Text color={STATUS_COLORS[run.status]}>
+					{STATUS_ICONS[run.status]}{" "}
+				</Text>
+				<Text bold>{run.name}</Text>
+				{details.length > 0 && (
+					<Text dimColor>{" · " + details.join(" · ")}</Text>
+				)}
+			</Text>
+			{argLines.slice(0, argumentLines).map((line, index) => (
+				<Text key={`arg-${index}`} color="gray" wrap="truncate-end">
+					{"  " + line}
+				</Text>
+			))}
+			{hiddenArgLines > 0 && (
+				<Text color="gray">
+					{"  " + t("message.toolMoreLines", { count: hiddenArgLines })}
+				</Text>
+			)}
+			{outputLines.map((line, index) => (
+				<Text
+					key={`output-${index}`}
+					dimColor
+					color={run.status === "error" ? "red" : undefined}
+					wrap="truncate-end"
+				>
+					{"  │ " + line}
+				</Text>
+			))}
+			{hiddenOutputLines > 0 && (
+				<Text dimColor>
+					{"  │ " + t("message.toolMoreLines", { count: hiddenOutputLines })}
+				</Text>
+			)}
+		</Box>
+	);
+}
@@ -10,6 +10,20 @@ import {
 } from "../utils/config.js";
 import { t, addLocaleChangeListener } from "../i18n/index.js";
 import { getSessionStore } from "../services/ai/sessionStore.js";
+import { EXPORT_FORMATS } from "../services/ai/sessionExport.js";
+import { getLastSearchResults } from "../services/ai/sessionSearch.js";
+import {
+	getCheckpointStore,
+	addCheckpointChangeListener,
+} from "../services/tools/checkpointStore.js";
+import { getMcpClientManager } from "../services/tools/mcp/client.js";
+import { getBackgroundProcessManager } from "../services/tools/backgroundProcesses.js";
+import { STATS_WINDOWS } from "../services/tools/usageStats.js";
+import { INIT_MEMORY_PROMPT } from "./prompts.js";
+import {
+	loadCustomCommands,
+	addCustomCommandsChangeListener,
+} from "../utils/customCommands.js";
 
 /**
  * 根据模型配置生成模型选择命令
@@ -75,21 +89,38 @@ function getCurrentSessionDisplay(): string {
 
 /**
  * 生成 session 切换子命令
+ * 默认只列出当前项目的 session，其他项目有 session 时追加 "--all" 子命令列出全部
+ * @param all 是否列出所有项目的 session
  */
-function generateSessionSwitchCommands(): SlashCommand[] {
+function generateSessionSwitchCommands(all = false): SlashCommand[] {
 	const store = getSessionStore();
 	if (!store) return [];
 
-	const sessions = store.listSessions();
+	const sessions = store.listSessions({ all });
 	const activeId = store.getActiveSessionId();
 
-	return sessions
+	const commands: SlashCommand[] = sessions
 		.filter((s) => s.id !== activeId) // 排除当前活跃 session
 		.map((session) => ({
 			name: session.name, // 使用 session 名称作为命令名
-			description: `${session.id.substring(0, 8)} (${session.messageCount} msgs)`,
+			description:
+				all && session.projectRoot
+					? `${session.id.substring(0, 8)} (${session.messageCount} msgs) ${session.projectRoot}`
+					: `${session.id.substring(0, 8)} (${session.messageCount} msgs)`,
 			action: { type: "internal" as const, handler: "session_switch" },
 		}));
+
+	const hasOtherProjects =
+		store.listSessions({ all: true }).length > sessions.length;
+	if (!all && hasOtherProjects) {
+		commands.push({
+			name: "--all",
+			description: t("commands.session.switchAllDesc"),
+			children: generateSessionSwitchCommands(true),
+			action: { type: "internal", handler: "session_switch_empty" },
+		});
+	}
+	return commands;
 }
 
 /**
@@ -111,11 +142,136 @@ function generateSessionDeleteCommands(): SlashCommand[] {
 		}));
 }
 
+/**
+ * 生成最近一次 session 搜索结果的子命令（选中后切换到该 session）
+ */
+function generateSessionSearchCommands(): SlashCommand[] {
+	return getLastSearchResults().map((result, index) => ({
+		name: String(index + 1), // 使用结果序号作为命令名
+		description: `${result.session.name} - ${result.snippet.text}`,
+		action: { type: "internal" as const, handler: "session_search_select" },
+	}));
+}
+
+/**
+ * 生成 session 分叉子命令（当前 session 的用户消息，最新的在前）
+ */
+function generateSessionForkCommands(): SlashCommand[] {
+	const store = getSessionStore();
+	const activeId = store?.getActiveSessionId();
+	if (!store || !activeId) return [];
+
+	return store
+		.listUserMessages(activeId)
+		.map((message, index) => {
+			const firstLine = message.trim().split("\n")[0] ?? "";
+			const preview =
+				firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+			return {
+				name: String(index + 1), // 使用用户消息序号作为命令名
+				description: preview,
+				action: { type: "internal" as const, handler: "session_fork" },
+			};
+		})
+		.reverse();
+}
+
+/**
+ * 检查当前 session 是否自动接受文件修改
+ */
+function isAutoAcceptEditsEnabled(): boolean {
+	return getSessionStore()?.getActiveSession()?.autoAcceptEdits === true;
+}
+
+/**
+ * 生成 rewind 子命令（最新的轮次在前）
+ */
+function generateRewindCommands(): SlashCommand[] {
+	const store = getCheckpointStore();
+	if (!store) return [];
+
+	return store
+		.listTurns()
+		.reverse()
+		.map((turn) => {
+			const firstLine = turn.prompt.split("\n")[0] ?? "";
+			const preview =
+				firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+			return {
+				name: String(turn.id), // 使用轮次 ID 作为命令名
+				description: `${preview} (${t("checkpoint.fileCount", { count: turn.files.length })})`,
+				action: { type: "internal" as const, handler: "rewind_select" },
+			};
+		});
+}
+
+/**
+ * 生成 MCP server 子命令
+ * @param handler 选中 server 时的处理器
+ * @param connectedOnly 是否只列出已连接的 server
+ */
+function generateMcpServerCommands(
+	handler: string,
+	connectedOnly = false,
+): SlashCommand[] {
+	return getMcpClientManager()
+		.listServers()
+		.filter((server) => !connectedOnly || server.status === "connected")
+		.map((server) => ({
+			name: server.name, // 使用 server 名称作为命令名
+			description: `${server.transport} [${t(`mcp.status.${server.status}`)}]`,
+			action: { type: "internal" as const, handler },
+		}));
+}
+
+/**
+ * 生成运行中的后台进程子命令
+ * @param handler 选中进程时的处理器
+ */
+function generateBackgroundProcessCommands(handler: string): SlashCommand[] {
+	return getBackgroundProcessManager()
+		.list()
+		.filter((info) => info.status === "running")
+		.map((info) => ({
+			name: info.id, // 使用进程 ID 作为命令名
+			description: info.command,
+			action: { type: "internal" as const, handler },
+		}));
+}
+
+/**
+ * 生成自定义命令（.axiomate/commands/*.md），与内置命令同名的跳过
+ */
+function generateCustomCommands(builtinNames: Set<string>): SlashCommand[] {
+	return loadCustomCommands()
+		.filter((command) => !builtinNames.has(command.name))
+		.map((command) => ({
+			name: command.name,
+			description: `${command.description} (${t(`customCommands.source.${command.source}`)})`,
+			argumentHint: command.argumentHint,
+			action: {
+				type: "prompt" as const,
+				template: command.template,
+				model: command.model,
+				allowedTools: command.allowedTools,
+			},
+		}));
+}
+
 /**
  * 获取斜杠命令列表（使用当前语言）
  * 这个函数在运行时调用，使用当前激活的语言
  */
 export function getSlashCommands(): SlashCommand[] {
+	const builtinCommands = getBuiltinCommands();
+	const builtinNames = new Set(builtinCommands.map((command) => command.name));
+	return [...builtinCommands, ...generateCustomCommands(builtinNames)];
+}
+
+/**
+ * 获取内置斜杠命令
+ */
+function getBuiltinCommands(): SlashCommand[] {
 	// 获取当前状态用于显示
 	const currentModelName = getCurrentModelDisplay();
 	const currentSessionName = getCurrentSessionDisplay();
@@ -125,6 +281,9 @@ export function getSlashCommands(): SlashCommand[] {
 		? t("common.on")
 		: t("common.off");
 	const planStatus = isPlanModeEnabled() ? t("common.on") : t("common.off");
+	const autoAcceptStatus = isAutoAcceptEditsEnabled()
+		? t("common.on")
+		: t("common.off");
 
 	return [
 		{
@@ -173,6 +332,24 @@ export function getSlashCommands(): SlashCommand[] {
 				},
 			],
 		},
+		{
+			name: "autoaccept",
+			description: `${t("commands.autoaccept.description")} [${autoAcceptStatus}]`,
+			children: [
+				{
+					name: "on",
+					description: t("commands.autoaccept.onDesc"),
+					action: { type: "internal", handler: "autoaccept_on" },
+					prefix: isAutoAcceptEditsEnabled() ? "▸ " : "  ",
+				},
+				{
+					name: "off",
+					description: t("commands.autoaccept.offDesc"),
+					action: { type: "internal", handler: "autoaccept_off" },
+					prefix: isAutoAcceptEditsEnabled() ? "  " : "▸ ",
+				},
+			],
+		},
 		{
 			name: "session",
 			description: currentSessionName
@@ -182,6 +359,7 @@ export function getSlashCommands(): SlashCommand[] {
 				{
 					name: "list",
 					description: t("commands.session.listDesc"),
+					argumentHint: "[--all]",
 					action: { type: "internal", handler: "session_list" },
 				},
 				{
@@ -203,11 +381,93 @@ export function getSlashCommands(): SlashCommand[] {
 					// 当没有可删除的 session 时，使用 action 显示提示信息
 					action: { type: "internal", handler: "session_delete_empty" },
 				},
+				{
+					name: "fork",
+					description: t("commands.session.forkDesc"),
+					argumentHint: "[message]",
+					children: generateSessionForkCommands(),
+					// 直接执行 "/session fork" 时复制全部历史
+					action: { type: "internal", handler: "session_fork" },
+				},
+				{
+					name: "search",
+					description: t("commands.session.searchDesc"),
+					argumentHint: "<query|/regex/>",
+					children: generateSessionSearchCommands(),
+					action: { type: "internal", handler: "session_search" },
+				},
 				{
 					name: "clear",
 					description: t("commands.session.clearDesc"),
+					argumentHint: "[--all]",
 					action: { type: "internal", handler: "session_clear" },
 				},
+				{
+					name: "export",
+					description: t("commands.session.exportDesc"),
+					children: EXPORT_FORMATS.map((format) => ({
+						name: format,
+						description: t(`commands.session.export.${format}`),
+						argumentHint: "[path]",
+						action: { type: "internal" as const, handler: "session_export" },
+					})),
+					// 手动输入 "/session export" 时默认导出 Markdown
+					action: { type: "internal", handler: "session_export" },
+				},
+				{
+					name: "import",
+					description: t("commands.session.importDesc"),
+					argumentHint: "<file.json>",
+					action: { type: "internal", handler: "session_import" },
+				},
+			],
+		},
+		{
+			name: "undo",
+			description: t("commands.undo.description"),
+			action: { type: "internal", handler: "undo" },
+		},
+		{
+			name: "rewind",
+			description: t("commands.rewind.description"),
+			children: generateRewindCommands(),
+			// 当没有可回退的轮次时，使用 action 显示提示信息
+			action: { type: "internal", handler: "rewind_empty" },
+		},
+		{
+			name: "retry",
+			description: t("commands.retry.description"),
+			action: { type: "internal", handler: "retry" },
+		},
+		{
+			name: "edit",
+			description: t("commands.edit.description"),
+			action: { type: "internal", handler: "edit_last_message" },
+		},
+		{
+			name: "init",
+			description: t("commands.init.description"),
+			action: { type: "prompt", template: INIT_MEMORY_PROMPT },
+		},
+		{
+			name: "memory",
+			description: t("commands.memory.description"),
+			children: [
+				{
+					name: "show",
+					description: t("commands.memory.showDesc"),
+					action: { type: "internal", handler: "memory_show" },
+				},
+				{
+					name: "open",
+					description: t("commands.memory.openDesc"),
+					action: { type: "internal", handler: "memory_open" },
+				},
+				{
+					name: "add",
+					description: t("commands.memory.addDesc"),
+					action: { type: "internal", handler: "memory_add" },
+				},
 			],
 		},
 		{
@@ -220,6 +480,11 @@ export function getSlashCommands(): SlashCommand[] {
 			description: t("commands.stop.description"),
 			action: { type: "internal", handler: "stop" },
 		},
+		{
+			name: "cost",
+			description: t("commands.cost.description"),
+			action: { type: "internal", handler: "cost" },
+		},
 		{
 			name: "tools",
 			description: t("commands.tools.description"),
@@ -237,10 +502,58 @@ export function getSlashCommands(): SlashCommand[] {
 				{
 					name: "stats",
 					description: t("commands.tools.statsDesc"),
+					children: STATS_WINDOWS.map((window) => ({
+						name: window,
+						description: t(`commands.tools.statsWindow.${window}`),
+						action: { type: "internal" as const, handler: "tools_stats" },
+					})),
+					// 手动输入 "/tools stats" 时默认统计最近 7 天
 					action: { type: "internal", handler: "tools_stats" },
 				},
 			],
 		},
+		{
+			name: "mcp",
+			description: t("commands.mcp.description"),
+			children: [
+				{
+					name: "list",
+					description: t("commands.mcp.listDesc"),
+					action: { type: "internal", handler: "mcp_list" },
+				},
+				{
+					name: "reconnect",
+					description: t("commands.mcp.reconnectDesc"),
+					children: generateMcpServerCommands("mcp_reconnect"),
+					// 没有配置 server 时，使用 action 显示提示信息
+					action: { type: "internal", handler: "mcp_empty" },
+				},
+				{
+					name: "disable",
+					description: t("commands.mcp.disableDesc"),
+					children: generateMcpServerCommands("mcp_disable", true),
+					action: { type: "internal", handler: "mcp_empty" },
+				},
+			],
+		},
+		{
+			name: "bg",
+			description: t("commands.bg.description"),
+			children: [
+				{
+					name: "list",
+					description: t("commands.bg.listDesc"),
+					action: { type: "internal", handler: "bg_list" },
+				},
+				{
+					name: "kill",
+					description: t("commands.bg.killDesc"),
+					children: generateBackgroundProcessCommands("bg_kill"),
+					// 没有运行中的进程时，使用 action 显示提示信息
+					action: { type: "internal", handler: "bg_empty" },
+				},
+			],
+		},
 		{
 			name: "suggestion",
 			description: `${t("commands.suggestion.description")} [${suggestionStatus}]`,
@@ -312,6 +625,26 @@ addLocaleChangeListener(() => {
 	cachedCommands = null;
 });
 
+// 监听文件检查点变化，更新 /rewind 子命令
+addCheckpointChangeListener(() => {
+	cachedCommands = null;
+});
+
+// 监听 MCP server 状态变化，更新 /mcp 子命令
+getMcpClientManager().addChangeListener(() => {
+	cachedCommands = null;
+});
+
+// 监听后台进程启动/结束，更新 /bg 子命令
+getBackgroundProcessManager().addChangeListener(() => {
+	cachedCommands = null;
+});
+
+// 监听自定义命令文件变化（热重载）
+addCustomCommandsChangeListener(() => {
+	cachedCommands = null;
+});
+
 export const SLASH_COMMANDS: SlashCommand[] = new Proxy([] as SlashCommand[], {
 	get(target, prop) {
 		if (!cachedCommands) {
@@ -53,6 +53,12 @@ When user asks to create a plan AND execute it:
 - When reading files, detect encoding (UTF-8, UTF-8 with BOM, GBK, etc.) and line endings (LF/CRLF)
 - UTF-8 encoding should be used preferentially.
 - When writing files, preserve the original encoding and line ending format
+- Use \`file_list\`, \`file_glob\` and \`file_grep\` to explore the project instead of shell commands (ls, find, grep)
+
+## Long-running Commands
+
+- Run dev servers, watchers and other commands that do not exit on their own with \`background_start\`, never with a blocking shell call
+- Check progress with \`background_output\` and stop the process with \`background_kill\` when it is no longer needed
 
 ## File Context
 
@@ -127,25 +133,45 @@ Use checkbox format for implementation steps:
 [Risks, tradeoffs, or open questions]
 \`\`\``;
 
+/**
+ * Prompt sent by /init to draft the project memory file
+ */
+export const INIT_MEMORY_PROMPT = `Create or update the \`AXIOMATE.md\` file in the project root (the working directory). It is loaded into your system prompt at the start of every session, so it should hold what a new contributor would need to know to work in this repository.
+
+1. Explore the project: README, package/build manifests, CI config, lint/format config and the top-level source layout
+2. Write concise Markdown covering:
+   - Build, test, lint and run commands (including how to run a single test)
+   - Code style and conventions that are not obvious from the linters
+   - Architecture overview: main directories and what lives where
+   - Files or directories that must not be edited (generated code, vendored code, etc.)
+3. If \`AXIOMATE.md\` already exists, read it first and improve it instead of discarding its content
+
+Keep it short and specific to this project - no generic advice.`;
+
 /**
  * Build system prompt with runtime context
  * @param cwd Current working directory
  * @param projectType Detected project type
  * @param planMode Whether plan mode is enabled
+ * @param memory Merged AXIOMATE.md memory (see utils/memory.ts)
  */
 export function buildSystemPrompt(
 	cwd?: string,
 	projectType?: string,
 	planMode: boolean = false,
+	memory?: string,
 ): string {
 	const basePrompt = planMode ? PLAN_SYSTEM_PROMPT : BASE_SYSTEM_PROMPT;
+	const memorySection = memory
+		? `\n\n## Project Memory\n\nInstructions from AXIOMATE.md memory files. Follow them; later files are more specific and take precedence.\n\n${memory}`
+		: "";
 
 	if (!cwd) {
-		return basePrompt;
+		return basePrompt + memorySection;
 	}
 
 	const contextLine = `\n\n## Current Environment\n\n- Working directory: \`${cwd}\`\n- Project type: ${projectType || "unknown"}`;
-	return basePrompt + contextLine;
+	return basePrompt + contextLine + memorySection;
 }
 
 /**
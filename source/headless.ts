@@ -0,0 +1,380 @@
+/**
+ * 无头模式（--print / -p）
+ *
+ * 不渲染 Ink UI，直接驱动 AIService.streamMessage，把回答写到 stdout
+ * 用于 shell 管道、git hooks 和 CI 脚本
+ *
+ * 工具调用权限：permissions.allow 和 --allowed-tools 之外的调用一律拒绝
+ * （无人可以确认），拒绝原因会作为工具结果返回给 AI
+ */
+
+import { getToolRegistry } from "./services/tools/registry.js";
+import { initMcpClients } from "./services/tools/mcp/client.js";
+import { matchesPermissionPattern } from "./services/tools/permissions.js";
+import { cleanupScriptsDir } from "./services/tools/scriptWriter.js";
+import {
+	createAIServiceFromConfig,
+	getCurrentModel,
+	getModelById,
+	getAllModels,
+	type ModelConfig,
+} from "./services/ai/index.js";
+import type {
+	ToolPermissionCallback,
+	ToolPermissionRequest,
+} from "./services/ai/types.js";
+import { checkDailyBudget, formatCost } from "./services/ai/costTracker.js";
+import { getDailyBudget, setPlanModeOverride } from "./utils/config.js";
+import type { OutputFormat } from "./utils/flags.js";
+
+/**
+ * 输出目标（默认 process.stdout / process.stderr，测试时可替换）
+ */
+export type HeadlessOutput = {
+	write: (text: string) => void;
+};
+
+/**
+ * 无头模式运行选项
+ */
+export type HeadlessOptions = {
+	/** 发送给 AI 的提示词 */
+	prompt: string;
+	/** 输出格式 */
+	outputFormat: OutputFormat;
+	/** 覆盖当前模型 ID（仅本次运行） */
+	modelId?: string;
+	/** 是否以 Plan 模式运行 */
+	planMode?: boolean;
+	/** 最大工具调用轮数 */
+	maxToolRounds?: number;
+	/** 额外允许的工具调用模式（语法同 permissions.allow） */
+	allowedTools?: string[];
+	/** 中止信号（如 SIGINT） */
+	signal?: AbortSignal;
+	/** 标准输出 */
+	stdout?: HeadlessOutput;
+	/** 标准错误输出 */
+	stderr?: HeadlessOutput;
+};
+
+/**
+ * 被拒绝的工具调用
+ */
+export type DeniedToolCall = {
+	tool: string;
+	subject: string;
+};
+
+/**
+ * 命令行已提供提示词时，等待管道输入第一段数据的时间
+ */
+export const STDIN_INITIAL_TIMEOUT_MS = 1000;
+
+/**
+ * 读取管道输入的 stdin（交互终端返回空字符串）
+ * @param initialTimeoutMs 等待第一段数据的时间，超时视为没有管道输入
+ *   （CI、cron 等环境的 stdin 可能是一直不关闭的管道，不设置时会等到 EOF）
+ */
+export async function readPipedStdin(
+	stream: NodeJS.ReadStream = process.stdin,
+	initialTimeoutMs?: number,
+): Promise<string> {
+	if (stream.isTTY) {
+		return "";
+	}
+
+	stream.setEncoding("utf8");
+	return new Promise((resolve, reject) => {
+		let data = "";
+		const timer =
+			initialTimeoutMs === undefined
+				? undefined
+				: setTimeout(() => {
+						// 不再读取，释放 stdin 以免阻止进程退出
+						stream.removeAllListeners("data");
+						stream.destroy();
+						resolve("");
+					}, initialTimeoutMs);
+
+		stream.on("data", (chunk: string) => {
+			clearTimeout(timer);
+			data += chunk;
+		});
+		stream.once("end", () => {
+			clearTimeout(timer);
+			resolve(data);
+		});
+		stream.once("error", (error) => {
+			clearTimeout(timer);
+			reject(error);
+		});
+	});
+}
+
+/**
+ * 合并命令行提示词和管道输入
+ * 两者都有时，命令行提示词在前，管道内容作为附加上下文
+ */
+export function buildHeadlessPrompt(
+	argPrompt: string,
+	stdinContent: string,
+): string {
+	const prompt = argPrompt.trim();
+	const piped = stdinContent.trimEnd();
+
+	if (prompt && piped) {
+		return `${prompt}\n\n${piped}`;
+	}
+	return prompt || piped;
+}
+
+/**
+ * 解析 --allowed-tools 参数（可重复，也可用逗号分隔）
+ */
+export function parseAllowedTools(values: string[] | undefined): string[] {
+	if (!values) {
+		return [];
+	}
+	return values
+		.flatMap((value) => value.split(","))
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern.length > 0);
+}
+
+/**
+ * 创建无头模式的工具权限回调
+ * 匹配 allowedTools 的调用放行，其余拒绝并通知 onDenied
+ */
+export function createHeadlessPermissionHandler(
+	allowedTools: string[],
+	onDenied?: (request: ToolPermissionRequest) => void,
+): ToolPermissionCallback {
+	return async (request) => {
+		const allowed = allowedTools.some((pattern) =>
+			matchesPermissionPattern(
+				pattern,
+				request.toolId,
+				request.actionName,
+				request.subject,
+			),
+		);
+		if (allowed) {
+			return { type: "allow" };
+		}
+
+		onDenied?.(request);
+		return {
+			type: "deny",
+			note: `Tool calls cannot be confirmed in non-interactive mode. Allow it with --allowed-tools "${request.allowPattern}".`,
+		};
+	};
+}
+
+/**
+ * 解析本次运行使用的模型
+ */
+function resolveModel(modelId: string | undefined): ModelConfig {
+	if (modelId) {
+		const model = getModelById(modelId);
+		if (!model) {
+			const available = getAllModels()
+				.map((m) => m.model)
+				.join(", ");
+			throw new Error(
+				`Unknown model: ${modelId}. Available models: ${available || "(none)"}`,
+			);
+		}
+		return model;
+	}
+
+	const model = getCurrentModel();
+	if (!model) {
+		throw new Error(
+			"No model configured. Run axiomate interactively once to set up a model.",
+		);
+	}
+	return model;
+}
+
+/**
+ * 等待外部工具发现和 MCP Server 连接完成（无头模式只运行一次，需要完整工具列表）
+ */
+async function loadAllTools(): Promise<ReturnType<typeof getToolRegistry>> {
+	const registry = getToolRegistry();
+	await registry.loadBuiltinTools();
+	registry.discoverExternalAsync();
+	await new Promise<void>((resolve) => {
+		registry.onDiscoveryComplete(() => resolve());
+	});
+	await initMcpClients();
+	return registry;
+}
+
+/**
+ * 运行无头模式
+ *
+ * @returns 进程退出码（0 成功，1 失败）
+ */
+export async function runHeadless(options: HeadlessOptions): Promise<number> {
+	const stdout = options.stdout ?? process.stdout;
+	const stderr = options.stderr ?? process.stderr;
+	const format = options.outputFormat;
+	const startTime = Date.now();
+	const deniedTools: DeniedToolCall[] = [];
+
+	const writeEvent = (event: Record<string, unknown>) => {
+		stdout.write(JSON.stringify(event) + "\n");
+	};
+
+	const reportError = (message: string) => {
+		if (format === "text") {
+			stderr.write(`Error: ${message}\n`);
+		} else {
+			writeEvent({ type: "error", isError: true, error: message });
+		}
+	};
+
+	if (!options.prompt.trim()) {
+		reportError(
+			'No prompt provided. Pass it as an argument (axiomate -p "prompt") or pipe it through stdin.',
+		);
+		return 1;
+	}
+
+	const planMode = options.planMode ?? false;
+
+	try {
+		const model = resolveModel(options.modelId);
+
+		// 超出每日预算时拒绝运行，接近预算时提示
+		const budget = checkDailyBudget(getDailyBudget());
+		if (budget?.state === "exceeded") {
+			throw new Error(
+				`Daily budget exceeded: spent ${formatCost(budget.spent)} of ${formatCost(budget.budget)} today.`,
+			);
+		}
+		if (budget?.state === "warning" && format === "text") {
+			stderr.write(
+				`Warning: spent ${formatCost(budget.spent)} of the ${formatCost(budget.budget)} daily budget today.\n`,
+			);
+		}
+
+		// 清理上次运行的临时脚本文件
+		cleanupScriptsDir(process.cwd());
+		const registry = await loadAllTools();
+
+		const aiService = createAIServiceFromConfig(registry, {
+			model,
+			maxToolCallRounds: options.maxToolRounds,
+		});
+		if (!aiService) {
+			throw new Error(
+				`Model ${model.model} is not configured (missing baseUrl).`,
+			);
+		}
+
+		// AIService 在工具调用后读取 Plan 模式，使用进程内的值，不修改配置文件
+		setPlanModeOverride(planMode);
+
+		const onToolPermission = createHeadlessPermissionHandler(
+			options.allowedTools ?? [],
+			(request) => {
+				const tool = `${request.toolId}_${request.actionName}`;
+				deniedTools.push({ tool, subject: request.subject });
+				if (format === "text") {
+					stderr.write(`Denied tool call: ${tool}\n`);
+				} else if (format === "stream-json") {
+					writeEvent({
+						type: "tool_denied",
+						tool,
+						subject: request.subject,
+					});
+				}
+			},
+		);
+
+		if (format === "stream-json") {
+			writeEvent({ type: "start", model: model.model });
+		}
+
+		// 记录已输出的长度（onChunk 提供的是累积内容）
+		let writtenContent = 0;
+		let writtenReasoning = 0;
+
+		const result = await aiService.streamMessage(
+			options.prompt,
+			{ cwd: process.cwd(), selectedFiles: [] },
+			{
+				onChunk: ({ reasoning, content }) => {
+					if (format === "stream-json" && reasoning.length > writtenReasoning) {
+						writeEvent({
+							type: "reasoning",
+							delta: reasoning.slice(writtenReasoning),
+						});
+						writtenReasoning = reasoning.length;
+					}
+					if (content.length > writtenContent) {
+						const delta = content.slice(writtenContent);
+						writtenContent = content.length;
+						if (format === "text") {
+							stdout.write(delta);
+						} else if (format === "stream-json") {
+							writeEvent({ type: "content", delta });
+						}
+					}
+				},
+				onToolPermission,
+				onModelFallback: (modelId, error) => {
+					if (format === "text") {
+						stderr.write(
+							`Request failed (${error.message}), retrying with ${modelId}\n`,
+						);
+					} else if (format === "stream-json") {
+						writeEvent({
+							type: "model_fallback",
+							model: modelId,
+							error: error.message,
+						});
+					}
+				},
+			},
+			{ signal: options.signal, planMode },
+		);
+
+		switch (format) {
+			case "text":
+				// 未流式输出的部分（如达到最大轮数的提示）
+				if (result.length > writtenContent) {
+					stdout.write(result.slice(writtenContent));
+				}
+				if (result && !result.endsWith("\n")) {
+					stdout.write("\n");
+				}
+				break;
+			case "json":
+			case "stream-json":
+				writeEvent({
+					type: "result",
+					isError: false,
+					result,
+					model: model.model,
+					durationMs: Date.now() - startTime,
+					usedTokens: aiService.getSessionStatus().usedTokens,
+					deniedTools,
+				});
+				break;
+		}
+
+		return 0;
+	} catch (error) {
+		if (error instanceof Error && error.name === "AbortError") {
+			reportError("Aborted");
+		} else {
+			reportError(error instanceof Error ? error.message : String(error));
+		}
+		return 1;
+	} finally {
+		setPlanModeOverride(null);
+	}
+}
@@ -0,0 +1,127 @@
+import { useState, useCallback } from "react";
+import type {
+	FileChangeReviewRequest,
+	FileChangeReviewDecision,
+} from "../services/ai/types.js";
+import { getSessionStore } from "../services/ai/sessionStore.js";
+import { clearCommandCache } from "../constants/commands.js";
+import { t } from "../i18n/index.js";
+
+export type FileChangeReviewState = {
+	/** Current pending file change review, or null if none */
+	pendingReview: {
+		request: FileChangeReviewRequest;
+		question: string;
+		options: string[];
+		onResolve: (answer: string) => void;
+	} | null;
+	/** Handle user selection from the review menu */
+	handleReviewSelect: (answer: string) => void;
+	/** Handle user cancellation of the review menu (treated as reject) */
+	handleReviewCancel: () => void;
+	/** onFileChangeReview callback for AI service */
+	onFileChangeReview: (
+		request: FileChangeReviewRequest,
+	) => Promise<FileChangeReviewDecision>;
+};
+
+/**
+ * Check whether the active session auto-accepts file changes
+ */
+function isAutoAcceptEnabled(): boolean {
+	return getSessionStore()?.getActiveSession()?.autoAcceptEdits === true;
+}
+
+/**
+ * Turn on auto-accept for the active session
+ */
+function enableAutoAccept(): void {
+	const store = getSessionStore();
+	const activeId = store?.getActiveSessionId();
+	if (store && activeId) {
+		store.setAutoAcceptEdits(activeId, true);
+		clearCommandCache();
+	}
+}
+
+/**
+ * Hook for managing file change review prompts
+ * Shows the diff of a pending file_write / file_edit above AskUserMenu:
+ * options are accept / accept all in this session / reject,
+ * custom input rejects the change and returns the text to the AI as a note
+ */
+export function useFileChangeReview(): FileChangeReviewState {
+	const [pendingReview, setPendingReview] = useState<{
+		request: FileChangeReviewRequest;
+		question: string;
+		options: string[];
+		onResolve: (answer: string) => void;
+	} | null>(null);
+
+	const handleReviewSelect = useCallback(
+		(answer: string) => {
+			if (pendingReview) {
+				pendingReview.onResolve(answer);
+				setPendingReview(null);
+			}
+		},
+		[pendingReview],
+	);
+
+	const handleReviewCancel = useCallback(() => {
+		if (pendingReview) {
+			pendingReview.onResolve(""); // Empty string indicates reject
+			setPendingReview(null);
+		}
+	}, [pendingReview]);
+
+	const onFileChangeReview = useCallback(
+		(request: FileChangeReviewRequest): Promise<FileChangeReviewDecision> => {
+			if (isAutoAcceptEnabled()) {
+				return Promise.resolve({ type: "accept" });
+			}
+
+			const accept = t("fileReview.accept");
+			const acceptAll = t("fileReview.acceptAll");
+			const reject = t("fileReview.reject");
+
+			return new Promise((resolve) => {
+				setPendingReview({
+					request,
+					question: t(
+						request.isNewFile
+							? "fileReview.questionCreate"
+							: "fileReview.questionEdit",
+						{
+							path: request.path,
+							additions: request.additions,
+							deletions: request.deletions,
+						},
+					),
+					options: [accept, acceptAll, reject],
+					onResolve: (answer: string) => {
+						if (answer === accept) {
+							resolve({ type: "accept" });
+						} else if (answer === acceptAll) {
+							enableAutoAccept();
+							resolve({ type: "accept" });
+						} else if (answer === reject || answer === "") {
+							resolve({ type: "reject" });
+						} else {
+							// Custom input: reject with the user's note
+							resolve({ type: "reject", note: answer });
+						}
+					},
+				});
+			});
+		},
+		[],
+	);
+
+	return {
+		pendingReview,
+		handleReviewSelect,
+		handleReviewCancel,
+		onFileChangeReview,
+	};
+}
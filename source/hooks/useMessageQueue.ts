@@ -1,14 +1,37 @@
 import { useRef, useEffect, useCallback } from "react";
 import type { Message } from "../components/StaticMessage.js";
 import type { IAIService, MatchContext } from "../services/ai/index.js";
+import type {
+	ToolPermissionCallback,
+	FileChangeReviewCallback,
+} from "../services/ai/types.js";
 import type { FileReference } from "../models/input.js";
 import { buildMessageContent } from "../services/ai/contentBuilder.js";
+import { isContextLengthError } from "../services/ai/errors.js";
+import {
+	checkDailyBudget,
+	formatCost,
+	formatDay,
+} from "../services/ai/costTracker.js";
+import { isImageFile } from "../services/ai/imageReader.js";
+import {
+	getCurrentModelId,
+	getDailyBudget,
+	modelSupportsVision,
+} from "../utils/config.js";
 import {
 	MessageQueue,
 	type QueuedMessage,
+	type MessageOverrides,
 	type ProcessorOptions,
 	type StreamContent,
 } from "../services/ai/messageQueue.js";
+import { matchesPermissionPattern } from "../services/tools/permissions.js";
+import type { ToolOutputEvent } from "../services/ai/types.js";
+import {
+	applyToolOutputEvent,
+	finishRunningToolRuns,
+} from "../models/toolRun.js";
 import { t } from "../i18n/index.js";
 
 export type MessageQueueState = {
@@ -23,6 +46,7 @@ export type MessageQueueState = {
 		content: string,
 		files: FileReference[],
 		planMode: boolean,
+		overrides?: MessageOverrides,
 	) => string;
 };
 
@@ -38,8 +62,42 @@ type MessageQueueOptions = {
 	createAskUserCallback: (
 		setMessages: React.Dispatch<React.SetStateAction<Message[]>>,
 	) => (question: string, options: string[]) => Promise<string>;
+	onToolPermission: ToolPermissionCallback;
+	onFileChangeReview: FileChangeReviewCallback;
 };
 
+/**
+ * Wrap permission callbacks so calls matching allowedTools run without asking
+ */
+function withAllowedTools(
+	allowedTools: string[] | undefined,
+	onToolPermission: ToolPermissionCallback,
+	onFileChangeReview: FileChangeReviewCallback,
+): {
+	onToolPermission: ToolPermissionCallback;
+	onFileChangeReview: FileChangeReviewCallback;
+} {
+	if (!allowedTools || allowedTools.length === 0) {
+		return { onToolPermission, onFileChangeReview };
+	}
+
+	const isAllowed = (toolId: string, actionName: string, subject: string) =>
+		allowedTools.some((pattern) =>
+			matchesPermissionPattern(pattern, toolId, actionName, subject),
+		);
+
+	return {
+		onToolPermission: async (request) =>
+			isAllowed(request.toolId, request.actionName, request.subject)
+				? { type: "allow" }
+				: onToolPermission(request),
+		onFileChangeReview: async (request) =>
+			isAllowed(request.toolId, request.actionName, request.path)
+				? { type: "accept" }
+				: onFileChangeReview(request),
+	};
+}
+
 /**
  * Hook for managing the message queue and streaming
  */
@@ -56,6 +114,8 @@ export function useMessageQueue(
 		askUserReasoningOffsetRef,
 		updateUsageStatus,
 		createAskUserCallback,
+		onToolPermission,
+		onFileChangeReview,
 	} = options;
 
 	const messageQueueRef = useRef<MessageQueue | null>(null);
@@ -65,6 +125,39 @@ export function useMessageQueue(
 		content: "",
 		reasoning: "",
 	});
+	// Tool output events waiting to be rendered (output is throttled)
+	const pendingToolEventsRef = useRef<ToolOutputEvent[]>([]);
+	const toolOutputTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	// Day the budget warning was last shown (warn once per day)
+	const budgetWarnedDayRef = useRef<string | null>(null);
+
+	// Apply pending tool output events to the streaming message
+	const flushToolEvents = useCallback(() => {
+		if (toolOutputTimerRef.current) {
+			clearTimeout(toolOutputTimerRef.current);
+			toolOutputTimerRef.current = null;
+		}
+		const events = pendingToolEventsRef.current;
+		if (events.length === 0) return;
+		pendingToolEventsRef.current = [];
+
+		setMessages((prev) => {
+			const streamingIndex = prev.findIndex((msg) => msg.streaming);
+			if (streamingIndex === -1) {
+				return prev;
+			}
+			const newMessages = [...prev];
+			const streamingMsg = newMessages[streamingIndex]!;
+			newMessages[streamingIndex] = {
+				...streamingMsg,
+				toolRuns: events.reduce(
+					(runs, event) => applyToolOutputEvent(runs, event),
+					streamingMsg.toolRuns ?? [],
+				),
+			};
+			return newMessages;
+		});
+	}, [setMessages]);
 
 	// Message processor function
 	const processMessage = useCallback(
@@ -77,6 +170,45 @@ export function useMessageQueue(
 				throw new Error(t("ai.notConfigured"));
 			}
 
+			// Block when today's spend exceeds the daily budget, warn when close
+			const budget = checkDailyBudget(getDailyBudget());
+			if (budget && budget.state !== "ok") {
+				const params = {
+					spent: formatCost(budget.spent),
+					budget: formatCost(budget.budget),
+					percent: `${Math.round((budget.spent / budget.budget) * 100)}%`,
+				};
+				if (budget.state === "exceeded") {
+					throw new Error(t("cost.budgetExceeded", params));
+				}
+				const today = formatDay(Date.now());
+				if (budgetWarnedDayRef.current !== today) {
+					budgetWarnedDayRef.current = today;
+					setMessages((prev) => [
+						...prev,
+						{
+							content: t("cost.budgetWarning", params),
+							type: "system" as const,
+							markdown: false,
+						},
+					]);
+				}
+			}
+
+			// Refuse image attachments for models without vision support
+			const imageFiles = queuedMessage.files.filter(
+				(f) => !f.isDirectory && isImageFile(f.path),
+			);
+			const modelId = queuedMessage.overrides?.model ?? getCurrentModelId();
+			if (imageFiles.length > 0 && !modelSupportsVision(modelId)) {
+				throw new Error(
+					t("ai.visionNotSupported", {
+						model: modelId,
+						files: imageFiles.map((f) => f.path).join(", "),
+					}),
+				);
+			}
+
 			const cwd = process.cwd();
 
 			// Estimate message size first, check if compact is needed
@@ -146,20 +278,81 @@ export function useMessageQueue(
 			// 注意：queuedMessage.content 已经是用户输入的完整内容，不需要再追加文件引用
 			const displayContent = queuedMessage.content;
 
-			return aiService.streamMessage(
-				buildResult.content,
-				context,
-				{
-					onStart: processorOptions?.streamCallbacks?.onStart,
-					onChunk: processorOptions?.streamCallbacks?.onChunk,
-					onEnd: processorOptions?.streamCallbacks?.onEnd,
-				},
-				{ signal: processorOptions?.signal, planMode: queuedMessage.planMode },
-				onAskUser,
-				displayContent,
+			// Custom commands may pre-approve tools and override the model
+			const overrides = queuedMessage.overrides;
+			const permissionCallbacks = withAllowedTools(
+				overrides?.allowedTools,
+				onToolPermission,
+				onFileChangeReview,
 			);
+
+			// Note fallback model switches in the conversation
+			const onModelFallback = (modelId: string, error: Error) => {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("ai.modelFallback", {
+							model: modelId,
+							error: error.message,
+						}),
+						type: "system" as const,
+						markdown: false,
+					},
+				]);
+			};
+
+			const send = (service: IAIService) =>
+				service.streamMessage(
+					buildResult.content,
+					context,
+					{
+						onStart: processorOptions?.streamCallbacks?.onStart,
+						onChunk: processorOptions?.streamCallbacks?.onChunk,
+						onEnd: processorOptions?.streamCallbacks?.onEnd,
+						onToolOutput: processorOptions?.streamCallbacks?.onToolOutput,
+						onModelFallback,
+						...permissionCallbacks,
+					},
+					{
+						signal: processorOptions?.signal,
+						planMode: queuedMessage.planMode,
+						modelId: overrides?.model,
+						images: buildResult.images,
+						overrides,
+					},
+					onAskUser,
+					displayContent,
+				);
+
+			try {
+				return await send(aiService);
+			} catch (error) {
+				// Context window exceeded: compact once and retry on the new session
+				if (!isContextLengthError(error) || !compactRef.current) {
+					throw error;
+				}
+				setMessages((prev) => [
+					...prev.map((msg) =>
+						msg.streaming ? { ...msg, streaming: false } : msg,
+					),
+					{
+						content: t("ai.contextExceeded"),
+						type: "system" as const,
+						markdown: false,
+					},
+				]);
+				await compactRef.current();
+				return send(aiServiceRef.current ?? aiService);
+			}
 		},
-		[aiServiceRef, setMessages, compactRef, createAskUserCallback],
+		[
+			aiServiceRef,
+			setMessages,
+			compactRef,
+			createAskUserCallback,
+			onToolPermission,
+			onFileChangeReview,
+		],
 	);
 
 	// Initialize message queue
@@ -214,6 +407,7 @@ export function useMessageQueue(
 				// Queue finished processing
 			},
 			onStopped: (queuedCount, currentContent) => {
+				flushToolEvents();
 				currentStreamingIdRef.current = null;
 				const msg =
 					queuedCount > 0 || currentContent?.content
@@ -231,11 +425,13 @@ export function useMessageQueue(
 					const streamingIndex = prev.findIndex((m) => m.streaming);
 					if (streamingIndex !== -1) {
 						const newMessages = [...prev];
+						const toolRuns = newMessages[streamingIndex]?.toolRuns;
 						newMessages[streamingIndex] = {
 							...newMessages[streamingIndex],
 							streaming: false,
 							reasoningCollapsed:
 								(newMessages[streamingIndex]?.reasoning?.length ?? 0) > 0,
+							toolRuns: toolRuns && finishRunningToolRuns(toolRuns),
 						};
 						return [
 							...newMessages,
@@ -307,10 +503,23 @@ export function useMessageQueue(
 					return newMessages;
 				});
 			},
+			onToolOutput: (id, event) => {
+				if (currentStreamingIdRef.current !== id) {
+					return;
+				}
+				pendingToolEventsRef.current.push(event);
+				// Start/end update immediately, output at most every 100ms
+				if (event.type !== "output") {
+					flushToolEvents();
+				} else if (!toolOutputTimerRef.current) {
+					toolOutputTimerRef.current = setTimeout(flushToolEvents, 100);
+				}
+			},
 			onStreamEnd: (id, finalContent: StreamContent) => {
 				if (currentStreamingIdRef.current !== id) {
 					return;
 				}
+				flushToolEvents();
 				setMessages((prev) => {
 					const streamingIndex = prev.findIndex((msg) => msg.streaming);
 					if (streamingIndex === -1) {
@@ -335,7 +544,8 @@ export function useMessageQueue(
 					const hasContent = displayContent.trim().length > 0;
 					const hasReasoning = displayReasoning.trim().length > 0;
 					const hasAskUserQA = !!streamingMsg?.askUserQA;
-					if (!hasContent && !hasReasoning && !hasAskUserQA) {
+					const hasToolRuns = (streamingMsg?.toolRuns?.length ?? 0) > 0;
+					if (!hasContent && !hasReasoning && !hasAskUserQA && !hasToolRuns) {
 						// Remove empty message
 						newMessages.splice(streamingIndex, 1);
 					} else {
@@ -349,7 +559,14 @@ export function useMessageQueue(
 					}
 
 					// Auto-fold previous messages' reasoning and askUserQA
-					for (let i = (hasContent || hasReasoning || hasAskUserQA ? streamingIndex : newMessages.length) - 1; i >= 0; i--) {
+					for (
+						let i =
+							(hasContent || hasReasoning || hasAskUserQA || hasToolRuns
+								? streamingIndex
+								: newMessages.length) - 1;
+						i >= 0;
+						i--
+					) {
 						const msg = newMessages[i];
 						if (!msg) continue;
 						const needsFoldReasoning =
@@ -385,6 +602,7 @@ export function useMessageQueue(
 		};
 	}, [
 		processMessage,
+		flushToolEvents,
 		aiServiceRef,
 		setMessages,
 		setIsLoading,
@@ -406,8 +624,16 @@ export function useMessageQueue(
 
 	// Enqueue a message
 	const enqueue = useCallback(
-		(content: string, files: FileReference[], planMode: boolean) => {
-			return messageQueueRef.current?.enqueue(content, files, planMode) ?? "";
+		(
+			content: string,
+			files: FileReference[],
+			planMode: boolean,
+			overrides?: MessageOverrides,
+		) => {
+			return (
+				messageQueueRef.current?.enqueue(content, files, planMode, overrides) ??
+				""
+			);
 		},
 		[],
 	);
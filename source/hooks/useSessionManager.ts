@@ -1,10 +1,20 @@
 import { useRef, useCallback, useEffect } from "react";
 import type { Message } from "../components/StaticMessage.js";
 import type { IAIService } from "../services/ai/index.js";
+import type { ChatMessage } from "../services/ai/types.js";
 import { createAIServiceFromConfig } from "../services/ai/index.js";
 import { getToolRegistry } from "../services/tools/registry.js";
 import { initSessionStore, SessionStore } from "../services/ai/sessionStore.js";
+import {
+	initCheckpointStore,
+	getCheckpointStore,
+	deleteCheckpoints,
+} from "../services/tools/checkpointStore.js";
 import { clearCommandCache } from "../constants/commands.js";
+import {
+	applyToolOutputEvent,
+	parseToolResultMessage,
+} from "../models/toolRun.js";
 import { t } from "../i18n/index.js";
 
 export type SessionManagerState = {
@@ -14,10 +24,16 @@ export type SessionManagerState = {
 	sessionNew: () => Promise<void>;
 	/** Switch to a different session */
 	sessionSwitch: (id: string) => Promise<void>;
+	/** Fork the active session (before the given user message, or all of it) and switch to the fork */
+	sessionFork: (beforeUserMessage?: number) => Promise<void>;
 	/** Delete a session */
 	sessionDelete: (id: string) => void;
-	/** Clear all sessions and create a new one */
-	sessionClear: () => Promise<void>;
+	/** Clear this project's sessions (or every project's) and create a new one */
+	sessionClear: (all?: boolean) => Promise<void>;
+	/** Restore files and conversation to before the given turn */
+	sessionRewind: (turnId: number) => Promise<void>;
+	/** Remove the last turn from the conversation, undo its file changes and return its user message (null if there is none) */
+	sessionRollbackLastTurn: () => ChatMessage | null;
 	/** Save the current session */
 	saveCurrentSession: () => void;
 };
@@ -41,8 +57,10 @@ function parseHistoryToUIMessages(
 		displayContent?: string;
 		reasoning_content?: string;
 		tool_calls?: Array<{
+			id: string;
 			function: { name: string; arguments: string };
 		}>;
+		tool_call_id?: string;
 	}>,
 ): Message[] {
 	const uiMessages: Message[] = [];
@@ -50,6 +68,11 @@ function parseHistoryToUIMessages(
 		question: string;
 		options: string[];
 	} | null = null;
+	// Tool calls waiting for their result: call ID -> call and UI message index
+	const pendingToolCalls = new Map<
+		string,
+		{ name: string; arguments: string; messageIndex: number }
+	>();
 
 	for (const msg of history) {
 		if (msg.role === "user") {
@@ -86,15 +109,54 @@ function parseHistoryToUIMessages(
 					}
 				}
 			}
+			const toolCalls = (msg.tool_calls ?? []).filter(
+				(toolCall) => toolCall.function.name !== "askuser_ask",
+			);
 			// Add assistant content if present
-			if (msg.content || msg.reasoning_content || hasAskUserToolCall) {
+			if (
+				msg.content ||
+				msg.reasoning_content ||
+				hasAskUserToolCall ||
+				toolCalls.length > 0
+			) {
 				uiMessages.push({
 					content: msg.content || "",
 					reasoning: msg.reasoning_content || "",
 					reasoningCollapsed: true, // Collapsed by default when restored
+					toolRuns: toolCalls.length > 0 ? [] : undefined,
 				});
+				for (const toolCall of toolCalls) {
+					pendingToolCalls.set(toolCall.id, {
+						...toolCall.function,
+						messageIndex: uiMessages.length - 1,
+					});
+				}
+			}
+		} else if (msg.role === "tool") {
+			// Attach tool results to the assistant message that made the call
+			const call = msg.tool_call_id
+				? pendingToolCalls.get(msg.tool_call_id)
+				: undefined;
+			const uiMsg = call && uiMessages[call.messageIndex];
+			if (call && uiMsg && msg.tool_call_id) {
+				pendingToolCalls.delete(msg.tool_call_id);
+				uiMessages[call.messageIndex] = {
+					...uiMsg,
+					toolRuns: applyToolOutputEvent(
+						uiMsg.toolRuns ?? [],
+						{
+							type: "end",
+							callId: msg.tool_call_id,
+							name: call.name,
+							arguments: call.arguments,
+							...parseToolResultMessage(msg.content),
+						},
+						0,
+					),
+				};
+				continue;
 			}
-		} else if (msg.role === "tool" && msg.content) {
+
 			// Parse tool message, extract ask_user answer
 			const content = msg.content;
 			const askUserMatch = content.match(/^\[Ask User\] User answered: (.+)$/s);
@@ -149,6 +211,11 @@ export function useSessionManager(
 			const activeId = store.getActiveSessionId();
 			let sessionIsEmpty = true;
 
+			// File checkpoints follow the active session
+			if (activeId) {
+				initCheckpointStore(process.cwd(), activeId);
+			}
+
 			if (activeId && aiServiceRef.current) {
 				const session = await store.loadSession(activeId);
 				if (session) {
@@ -195,6 +262,9 @@ export function useSessionManager(
 
 		const session = aiService.getSession();
 		store.saveSession(session, activeId);
+
+		// Message counts and fork points in the session commands changed
+		clearCommandCache();
 	}, [aiServiceRef]);
 
 	// Create new session
@@ -208,6 +278,7 @@ export function useSessionManager(
 		// Create new session
 		const newInfo = store.createSession();
 		store.setActiveSessionId(newInfo.id);
+		initCheckpointStore(process.cwd(), newInfo.id);
 
 		// Rebuild AI service with new empty session
 		const registry = getToolRegistry();
@@ -263,6 +334,7 @@ export function useSessionManager(
 
 			// Switch active session
 			store.setActiveSessionId(id);
+			initCheckpointStore(process.cwd(), id);
 			const info = store.getSessionById(id);
 
 			// Restore session to AI service
@@ -334,8 +406,9 @@ export function useSessionManager(
 				return;
 			}
 
-			// Delete session
+			// Delete session and its file checkpoints
 			store.deleteSession(id);
+			deleteCheckpoints(process.cwd(), id);
 
 			// Show success message
 			setMessages((prev) => [
@@ -352,43 +425,209 @@ export function useSessionManager(
 		[setMessages],
 	);
 
-	// Clear all sessions and create a new one
-	const sessionClear = useCallback(async () => {
-		const store = sessionStoreRef.current;
-		if (!store) return;
+	// Fork the active session into a new branch session
+	const sessionFork = useCallback(
+		async (beforeUserMessage?: number) => {
+			const store = sessionStoreRef.current;
+			const activeId = store?.getActiveSessionId();
+			if (!store || !activeId) return;
 
-		// Clear all sessions and create new
-		const newInfo = store.clearAllSessions();
+			// Save current session so the fork includes the latest messages
+			saveCurrentSession();
 
-		// Rebuild AI service
-		const registry = getToolRegistry();
-		(aiServiceRef as React.MutableRefObject<IAIService | null>).current =
-			createAIServiceFromConfig(registry);
+			const info = store.forkSession(activeId, beforeUserMessage);
+			if (!info) {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("session.notFound"),
+						type: "system",
+						markdown: false,
+					},
+				]);
+				return;
+			}
 
-		// Clear screen and reset Static component
-		clearScreenAndReset();
+			await sessionSwitch(info.id);
+		},
+		[saveCurrentSession, sessionSwitch, setMessages],
+	);
 
-		// Show success message
-		setMessages([
-			{
-				content: t("session.allCleared", { name: newInfo.name }),
-				type: "system",
-			},
-		]);
+	// Clear this project's sessions (or every project's) and create a new one
+	const sessionClear = useCallback(
+		async (all = false) => {
+			const store = sessionStoreRef.current;
+			if (!store) return;
 
-		// Clear command cache
-		clearCommandCache();
+			// Delete file checkpoints of the cleared sessions (kept next to where each session ran)
+			for (const info of store.listSessions({ all })) {
+				deleteCheckpoints(info.cwd ?? process.cwd(), info.id);
+			}
+
+			// Clear sessions and create new
+			const newInfo = store.clearAllSessions({ all });
+			initCheckpointStore(process.cwd(), newInfo.id);
+
+			// Rebuild AI service
+			const registry = getToolRegistry();
+			(aiServiceRef as React.MutableRefObject<IAIService | null>).current =
+				createAIServiceFromConfig(registry);
+
+			// Clear screen and reset Static component
+			clearScreenAndReset();
+
+			// Show success message
+			setMessages([
+				{
+					content: t(
+						all ? "session.allProjectsCleared" : "session.allCleared",
+						{
+							name: newInfo.name,
+						},
+					),
+					type: "system",
+				},
+			]);
+
+			// Clear command cache
+			clearCommandCache();
+
+			// Update usage status
+			updateUsageStatus();
+		},
+		[aiServiceRef, setMessages, clearScreenAndReset, updateUsageStatus],
+	);
+
+	// Restore files and conversation to before the given turn
+	const sessionRewind = useCallback(
+		async (turnId: number) => {
+			const checkpointStore = getCheckpointStore();
+			const result = checkpointStore?.restoreTo(turnId);
+			if (!result) {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("checkpoint.notFound"),
+						type: "system",
+						markdown: false,
+					},
+				]);
+				return;
+			}
+
+			// Roll back conversation to before the turn's user message
+			const aiService = aiServiceRef.current;
+			if (aiService) {
+				aiService.getSession().rollback(result.turn.session);
+				saveCurrentSession();
+			}
+
+			// Clear screen and re-render the remaining history
+			clearScreenAndReset();
+			const history = aiService?.getSession().getHistory() ?? [];
+			setMessages(parseHistoryToUIMessages(history));
+
+			const lines = [
+				t("checkpoint.restored", {
+					count: result.restoredFiles.length,
+					prompt: result.turn.prompt.split("\n")[0] ?? "",
+				}),
+				...result.restoredFiles.map((file) => `- ${file}`),
+			];
+			if (result.failedFiles.length > 0) {
+				lines.push(
+					"",
+					t("checkpoint.restoreFailed", { count: result.failedFiles.length }),
+					...result.failedFiles.map((file) => `- ${file}`),
+				);
+			}
+			setMessages((prev) => [
+				...prev,
+				{
+					content: lines.join("\n"),
+					type: "system",
+				},
+			]);
+
+			// Update usage status
+			updateUsageStatus();
+		},
+		[
+			aiServiceRef,
+			saveCurrentSession,
+			setMessages,
+			clearScreenAndReset,
+			updateUsageStatus,
+		],
+	);
+
+	// Remove the last user message with its replies and tool rounds (/retry, edit and resend)
+	const sessionRollbackLastTurn = useCallback((): ChatMessage | null => {
+		const aiService = aiServiceRef.current;
+		const session = aiService?.getSession();
+		const message = session?.rollbackLastTurn() ?? null;
+		if (!session || !message) return null;
+
+		// Like /rewind, undo the file changes of the removed turn so the
+		// resent message starts from the same files as the original
+		const checkpointStore = getCheckpointStore();
+		const lastTurn = checkpointStore?.getLastTurn();
+		const restored =
+			lastTurn &&
+			lastTurn.session.messageCount === session.checkpoint().messageCount &&
+			lastTurn.prompt === (message.displayContent ?? message.content)
+				? checkpointStore!.restoreTo(lastTurn.id)
+				: null;
+
+		saveCurrentSession();
+
+		// Clear screen and re-render the remaining history
+		clearScreenAndReset();
+		setMessages(parseHistoryToUIMessages(session.getHistory()));
+
+		if (
+			restored &&
+			(restored.restoredFiles.length > 0 || restored.failedFiles.length > 0)
+		) {
+			const lines = [
+				t("retry.filesRestored", { count: restored.restoredFiles.length }),
+				...restored.restoredFiles.map((file) => `- ${file}`),
+			];
+			if (restored.failedFiles.length > 0) {
+				lines.push(
+					"",
+					t("checkpoint.restoreFailed", {
+						count: restored.failedFiles.length,
+					}),
+					...restored.failedFiles.map((file) => `- ${file}`),
+				);
+			}
+			setMessages((prev) => [
+				...prev,
+				{ content: lines.join("\n"), type: "system" },
+			]);
+		}
 
 		// Update usage status
 		updateUsageStatus();
-	}, [aiServiceRef, setMessages, clearScreenAndReset, updateUsageStatus]);
+		return message;
+	}, [
+		aiServiceRef,
+		saveCurrentSession,
+		setMessages,
+		clearScreenAndReset,
+		updateUsageStatus,
+	]);
 
 	return {
 		sessionStoreRef,
 		sessionNew,
 		sessionSwitch,
+		sessionFork,
 		sessionDelete,
 		sessionClear,
+		sessionRewind,
+		sessionRollbackLastTurn,
 		saveCurrentSession,
 	};
 }
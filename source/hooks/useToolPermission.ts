@@ -0,0 +1,111 @@
+import { useState, useCallback } from "react";
+import type {
+	ToolPermissionRequest,
+	ToolPermissionDecision,
+} from "../services/ai/types.js";
+import { t } from "../i18n/index.js";
+
+/** Maximum characters of the call subject shown in the prompt */
+const MAX_SUBJECT_PREVIEW = 500;
+
+export type ToolPermissionState = {
+	/** Current pending permission prompt, or null if none */
+	pendingPermission: {
+		question: string;
+		options: string[];
+		onResolve: (answer: string) => void;
+	} | null;
+	/** Handle user selection from the permission menu */
+	handlePermissionSelect: (answer: string) => void;
+	/** Handle user cancellation of the permission menu (treated as deny) */
+	handlePermissionCancel: () => void;
+	/** onToolPermission callback for AI service */
+	onToolPermission: (
+		request: ToolPermissionRequest,
+	) => Promise<ToolPermissionDecision>;
+};
+
+/**
+ * Build the question shown in the permission menu
+ */
+function buildPermissionQuestion(request: ToolPermissionRequest): string {
+	const title = t("permission.question", {
+		tool: `${request.toolName}:${request.actionName}`,
+	});
+	const subject = request.subject.trim();
+	if (!subject) {
+		return title;
+	}
+	const preview =
+		subject.length > MAX_SUBJECT_PREVIEW
+			? subject.slice(0, MAX_SUBJECT_PREVIEW) + "…"
+			: subject;
+	return `${title}\n${preview}`;
+}
+
+/**
+ * Hook for managing tool call permission prompts
+ * Reuses AskUserMenu: options are allow once / always allow / deny,
+ * custom input denies the call and returns the text to the AI as a note
+ */
+export function useToolPermission(): ToolPermissionState {
+	const [pendingPermission, setPendingPermission] = useState<{
+		question: string;
+		options: string[];
+		onResolve: (answer: string) => void;
+	} | null>(null);
+
+	const handlePermissionSelect = useCallback(
+		(answer: string) => {
+			if (pendingPermission) {
+				pendingPermission.onResolve(answer);
+				setPendingPermission(null);
+			}
+		},
+		[pendingPermission],
+	);
+
+	const handlePermissionCancel = useCallback(() => {
+		if (pendingPermission) {
+			pendingPermission.onResolve(""); // Empty string indicates deny
+			setPendingPermission(null);
+		}
+	}, [pendingPermission]);
+
+	const onToolPermission = useCallback(
+		(request: ToolPermissionRequest): Promise<ToolPermissionDecision> => {
+			const allowOnce = t("permission.allowOnce");
+			const alwaysAllow = t("permission.alwaysAllow", {
+				pattern: request.allowPattern,
+			});
+			const deny = t("permission.deny");
+
+			return new Promise((resolve) => {
+				setPendingPermission({
+					question: buildPermissionQuestion(request),
+					options: [allowOnce, alwaysAllow, deny],
+					onResolve: (answer: string) => {
+						if (answer === allowOnce) {
+							resolve({ type: "allow" });
+						} else if (answer === alwaysAllow) {
+							resolve({ type: "always" });
+						} else if (answer === deny || answer === "") {
+							resolve({ type: "deny" });
+						} else {
+							// Custom input: deny with the user's note
+							resolve({ type: "deny", note: answer });
+						}
+					},
+				});
+			});
+		},
+		[],
+	);
+
+	return {
+		pendingPermission,
+		handlePermissionSelect,
+		handlePermissionCancel,
+		onToolPermission,
+	};
+}
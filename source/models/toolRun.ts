@@ -0,0 +1,218 @@
+/**
+ * 工具运行记录
+ * 记录 AI 消息中的工具调用：运行中显示输出尾部和已用时间，
+ * 结束后显示结果状态、耗时和输出预览
+ */
+
+import type { ToolOutputEvent } from "../services/ai/types.js";
+
+/**
+ * 运行中保留的输出字符数（只用于显示尾部）
+ */
+const MAX_TAIL_SIZE = 4096;
+
+/**
+ * 结束后保留的结果行数（只用于预览）
+ */
+const MAX_RESULT_LINES = 20;
+
+export type ToolRunStatus = "running" | "success" | "error";
+
+/**
+ * 工具调用结果预览
+ */
+export type ToolRunResult = {
+	/** 结果的前几行 */
+	lines: string[];
+	/** 结果总行数 */
+	lineCount: number;
+};
+
+/**
+ * 单个工具调用的运行状态
+ */
+export type ToolRun = {
+	/** tool_call_id */
+	id: string;
+	/** 工具调用名称（toolId_action） */
+	name: string;
+	/** 参数（JSON 字符串） */
+	arguments: string;
+	status: ToolRunStatus;
+	/** 开始时间（会话恢复的记录为 0） */
+	startedAt: number;
+	/** 执行耗时（毫秒），未执行（如被拒绝）时不设置 */
+	duration?: number;
+	/** 运行中最近的输出（stdout 和 stderr 按到达顺序合并） */
+	tail: string;
+	/** 运行中输出的换行符总数 */
+	newlines: number;
+	/** 结束后的结果预览 */
+	result?: ToolRunResult;
+};
+
+/**
+ * 应用工具执行进度事件，返回新的运行列表
+ */
+export function applyToolOutputEvent(
+	runs: ToolRun[],
+	event: ToolOutputEvent,
+	now: number = Date.now(),
+): ToolRun[] {
+	if (event.type === "start") {
+		return [
+			...runs,
+			{
+				id: event.callId,
+				name: event.name,
+				arguments: event.arguments,
+				status: "running",
+				startedAt: now,
+				tail: "",
+				newlines: 0,
+			},
+		];
+	}
+
+	if (event.type === "output") {
+		return runs.map((run) =>
+			run.id === event.callId ? appendToolRunOutput(run, event.chunk) : run,
+		);
+	}
+
+	const finished = {
+		status: event.success ? "success" : "error",
+		duration: event.duration,
+		tail: "",
+		newlines: 0,
+		result: createToolRunResult(event.output),
+	} as const;
+
+	// 执行前失败或被拒绝的调用没有 start 事件
+	if (!runs.some((run) => run.id === event.callId)) {
+		return [
+			...runs,
+			{
+				id: event.callId,
+				name: event.name,
+				arguments: event.arguments,
+				startedAt: now,
+				...finished,
+			},
+		];
+	}
+	return runs.map((run) =>
+		run.id === event.callId ? { ...run, ...finished } : run,
+	);
+}
+
+/**
+ * 将仍在运行的工具标记为失败（请求被停止时，避免历史中残留运行状态）
+ */
+export function finishRunningToolRuns(
+	runs: ToolRun[],
+	now: number = Date.now(),
+): ToolRun[] {
+	return runs.map((run) =>
+		run.status === "running"
+			? { ...run, status: "error", duration: now - run.startedAt }
+			: run,
+	);
+}
+
+/**
+ * 追加输出并更新行数
+ */
+function appendToolRunOutput(run: ToolRun, chunk: string): ToolRun {
+	const tail = run.tail + chunk;
+	return {
+		...run,
+		tail: tail.length > MAX_TAIL_SIZE ? tail.slice(-MAX_TAIL_SIZE) : tail,
+		newlines: run.newlines + (chunk.match(/\n/g)?.length ?? 0),
+	};
+}
+
+/**
+ * 创建结果预览
+ */
+function createToolRunResult(output: string): ToolRunResult {
+	const lines = output.replace(/\n$/, "").split("\n");
+	if (lines.length === 1 && lines[0] === "") {
+		return { lines: [], lineCount: 0 };
+	}
+	return { lines: lines.slice(0, MAX_RESULT_LINES), lineCount: lines.length };
+}
+
+/**
+ * 获取输出总行数（运行中按实时输出统计，最后一行没有换行符时也计入）
+ */
+export function getToolRunLineCount(run: ToolRun): number {
+	if (run.result) return run.result.lineCount;
+	const partial = run.tail.length > 0 && !run.tail.endsWith("\n");
+	return run.newlines + (partial ? 1 : 0);
+}
+
+/**
+ * 获取运行中输出的最后几行
+ */
+export function getToolRunTailLines(run: ToolRun, count: number): string[] {
+	const lines = run.tail.replace(/\n$/, "").split("\n");
+	if (lines.length === 1 && lines[0] === "") return [];
+	// 丢弃因截断而不完整的第一行
+	if (run.tail.length >= MAX_TAIL_SIZE && lines.length > 1) {
+		lines.shift();
+	}
+	// 进度条等用 \r 覆盖的行只显示最后一段
+	return lines
+		.slice(-count)
+		.map((line) => line.slice(line.lastIndexOf("\r") + 1));
+}
+
+/**
+ * 格式化参数（JSON 缩进；空对象返回空字符串；无法解析时原样返回）
+ */
+export function formatToolRunArguments(args: string): string {
+	try {
+		const parsed: unknown = JSON.parse(args);
+		if (
+			parsed &&
+			typeof parsed === "object" &&
+			Object.keys(parsed).length === 0
+		) {
+			return "";
+		}
+		return JSON.stringify(parsed, null, 2);
+	} catch {
+		return args.trim();
+	}
+}
+
+/**
+ * 解析会话中保存的工具结果消息（格式见 ToolCallHandler）
+ * 如 "[Git:status] (120ms)\nOn branch main"、"Error: Tool "x" not found"
+ */
+export function parseToolResultMessage(content: string): {
+	success: boolean;
+	duration?: number;
+	output: string;
+} {
+	let output = content;
+	let duration: number | undefined;
+	const infoMatch = content.match(/^\[[^\]\n]+:[^\]\n]+\](?: \((\d+)ms\))?\n/);
+	if (infoMatch) {
+		output = content.slice(infoMatch[0].length);
+		duration = infoMatch[1] ? Number(infoMatch[1]) : undefined;
+	}
+	return { success: !output.startsWith("Error: "), duration, output };
+}
+
+/**
+ * 格式化耗时，如 "850ms"、"12.3s"、"3m 2s"
+ */
+export function formatElapsed(ms: number): string {
+	if (ms < 1000) return `${ms}ms`;
+	if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+	const minutes = Math.floor(ms / 60_000);
+	const seconds = Math.floor((ms % 60_000) / 1000);
+	return `${minutes}m ${seconds}s`;
+}
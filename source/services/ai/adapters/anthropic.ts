@@ -5,7 +5,7 @@
 
 import type { DiscoveredTool } from "../../tools/types.js";
 import type { AnthropicTool, ToolCall, ChatMessage } from "../types.js";
-import { paramsToJsonSchema } from "./openai.js";
+import { actionToJsonSchema } from "./openai.js";
 
 /**
  * 将单个 DiscoveredTool 转换为 Anthropic 工具格式
@@ -18,7 +18,7 @@ export function toolToAnthropic(tool: DiscoveredTool): AnthropicTool[] {
 	return tool.actions.map((action) => ({
 		name: `${tool.id}_${action.name}`,
 		description: `[${tool.name}] ${action.description}`,
-		input_schema: paramsToJsonSchema(action.parameters),
+		input_schema: actionToJsonSchema(action),
 	}));
 }
 
@@ -75,40 +75,52 @@ export function buildAnthropicToolResultMessage(
 	};
 }
 
+/**
+ * prompt caching 断点标记
+ */
+export type AnthropicCacheControl = { type: "ephemeral" };
+
+/**
+ * Anthropic 图片来源（base64 编码）
+ */
+export type AnthropicImageSource = {
+	type: "base64";
+	media_type: string;
+	data: string;
+};
+
+/**
+ * Anthropic 消息内容块
+ */
+export type AnthropicContentBlock = {
+	type: string;
+	tool_use_id?: string;
+	content?: string;
+	text?: string;
+	thinking?: string;
+	id?: string;
+	name?: string;
+	input?: Record<string, unknown>;
+	source?: AnthropicImageSource;
+	cache_control?: AnthropicCacheControl;
+};
+
+/**
+ * Anthropic API 消息
+ */
+export type AnthropicMessage = {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+};
+
 /**
  * 将聊天消息转换为 Anthropic API 格式
  * Anthropic 的消息格式与 OpenAI 有所不同
  */
-export function toAnthropicMessages(messages: ChatMessage[]): Array<{
-	role: "user" | "assistant";
-	content:
-		| string
-		| Array<{
-				type: string;
-				tool_use_id?: string;
-				content?: string;
-				text?: string;
-				thinking?: string;
-				id?: string;
-				name?: string;
-				input?: Record<string, unknown>;
-		  }>;
-}> {
-	const result: Array<{
-		role: "user" | "assistant";
-		content:
-			| string
-			| Array<{
-					type: string;
-					tool_use_id?: string;
-					content?: string;
-					text?: string;
-					thinking?: string;
-					id?: string;
-					name?: string;
-					input?: Record<string, unknown>;
-			  }>;
-	}> = [];
+export function toAnthropicMessages(
+	messages: ChatMessage[],
+): AnthropicMessage[] {
+	const result: AnthropicMessage[] = [];
 
 	// 收集连续的 tool 消息
 	let pendingToolResults: Array<{
@@ -143,24 +155,35 @@ export function toAnthropicMessages(messages: ChatMessage[]): Array<{
 		}
 
 		if (msg.role === "user") {
-			result.push({
-				role: "user",
-				content: msg.content,
-			});
+			if (msg.images && msg.images.length > 0) {
+				// 附带图片：image 块在前，text 块在后（Anthropic 推荐的顺序）
+				result.push({
+					role: "user",
+					content: [
+						...msg.images.map((image) => ({
+							type: "image",
+							source: {
+								type: "base64" as const,
+								media_type: image.mimeType,
+								data: image.data,
+							},
+						})),
+						{ type: "text", text: msg.content },
+					],
+				});
+			} else {
+				result.push({
+					role: "user",
+					content: msg.content,
+				});
+			}
 		} else if (msg.role === "assistant") {
 			// 检查是否需要使用 content 数组格式（有 thinking 或 tool_calls）
 			const hasThinking = !!msg.reasoning_content;
 			const hasToolCalls = msg.tool_calls && msg.tool_calls.length > 0;
 
 			if (hasThinking || hasToolCalls) {
-				const content: Array<{
-					type: string;
-					text?: string;
-					thinking?: string;
-					id?: string;
-					name?: string;
-					input?: Record<string, unknown>;
-				}> = [];
+				const content: AnthropicContentBlock[] = [];
 
 				// 1. 先添加 thinking 块（Anthropic 要求 thinking 在前）
 				if (msg.reasoning_content) {
@@ -223,3 +246,54 @@ export function extractSystemMessage(
 	const systemMsg = messages.find((m) => m.role === "system");
 	return systemMsg?.content;
 }
+
+const EPHEMERAL_CACHE: AnthropicCacheControl = { type: "ephemeral" };
+
+/**
+ * 为 system prompt 添加缓存断点（转换为 text 块数组）
+ */
+export function cacheAnthropicSystem(
+	systemPrompt: string,
+): AnthropicContentBlock[] {
+	return [{ type: "text", text: systemPrompt, cache_control: EPHEMERAL_CACHE }];
+}
+
+/**
+ * 为工具列表添加缓存断点（标记在最后一个工具上，覆盖全部工具定义）
+ */
+export function cacheAnthropicTools(tools: AnthropicTool[]): AnthropicTool[] {
+	if (tools.length === 0) return tools;
+	return [
+		...tools.slice(0, -1),
+		{ ...tools[tools.length - 1]!, cache_control: EPHEMERAL_CACHE },
+	];
+}
+
+/**
+ * 为最后一条消息添加缓存断点，下一轮请求可复用到此为止的对话前缀
+ * thinking 块不能设置 cache_control，标记在最后一个非 thinking 块上
+ */
+export function cacheAnthropicMessages(
+	messages: AnthropicMessage[],
+): AnthropicMessage[] {
+	const last = messages[messages.length - 1];
+	if (!last) return messages;
+
+	let content: AnthropicContentBlock[];
+	if (typeof last.content === "string") {
+		if (!last.content) return messages;
+		content = [
+			{ type: "text", text: last.content, cache_control: EPHEMERAL_CACHE },
+		];
+	} else {
+		let index = last.content.length - 1;
+		while (index >= 0 && last.content[index]!.type === "thinking") {
+			index--;
+		}
+		if (index < 0) return messages;
+		content = last.content.map((block, i) =>
+			i === index ? { ...block, cache_control: EPHEMERAL_CACHE } : block,
+		);
+	}
+	return [...messages.slice(0, -1), { ...last, content }];
+}
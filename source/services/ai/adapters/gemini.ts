@@ -0,0 +1,258 @@
+/**
+ * Gemini 协议适配器
+ * 在 ChatMessage / OpenAITool 与 Gemini generateContent 格式之间转换
+ */
+
+import type {
+	ChatMessage,
+	ToolCall,
+	OpenAITool,
+	JSONSchema,
+} from "../types.js";
+
+/**
+ * Gemini 内容片段
+ * thought: true 表示思考内容（需要在请求中设置 includeThoughts）
+ * thoughtSignature: 思考模型附在 functionCall 上的签名，回传时缺失会被拒绝（400）
+ */
+export type GeminiPart = {
+	text?: string;
+	thought?: boolean;
+	inlineData?: { mimeType: string; data: string };
+	functionCall?: { name: string; args?: Record<string, unknown> };
+	functionResponse?: { name: string; response: Record<string, unknown> };
+	thoughtSignature?: string;
+};
+
+/**
+ * Gemini 消息（assistant 对应 model 角色）
+ */
+export type GeminiContent = {
+	role: "user" | "model";
+	parts: GeminiPart[];
+};
+
+/**
+ * Gemini 参数 schema（OpenAPI 子集，不支持 default）
+ */
+export type GeminiSchema = {
+	type: string;
+	description?: string;
+	properties?: Record<string, GeminiSchema>;
+	required?: string[];
+	items?: GeminiSchema;
+	enum?: string[];
+};
+
+/**
+ * Gemini 函数声明
+ */
+export type GeminiFunctionDeclaration = {
+	name: string;
+	description: string;
+	parameters?: GeminiSchema;
+};
+
+/**
+ * Gemini 工具（所有函数声明放在同一个工具中）
+ */
+export type GeminiTool = {
+	functionDeclarations: GeminiFunctionDeclaration[];
+};
+
+/**
+ * 转换 JSON Schema 为 Gemini schema
+ * Gemini 只接受字符串类型的 enum，且不支持 default
+ */
+function toGeminiSchema(schema: JSONSchema): GeminiSchema {
+	const result: GeminiSchema = { type: schema.type };
+	if (schema.description) {
+		result.description = schema.description;
+	}
+	if (schema.properties) {
+		result.properties = Object.fromEntries(
+			Object.entries(schema.properties).map(([name, prop]) => [
+				name,
+				toGeminiSchema(prop),
+			]),
+		);
+	}
+	if (schema.required && schema.required.length > 0) {
+		result.required = schema.required;
+	}
+	if (schema.items) {
+		result.items = toGeminiSchema(schema.items);
+	}
+	if (schema.enum && schema.type === "string") {
+		result.enum = schema.enum.map(String);
+	}
+	return result;
+}
+
+/**
+ * 将 OpenAI 工具格式转换为 Gemini 工具格式
+ * 没有参数的函数不设置 parameters（Gemini 不接受空的 OBJECT）
+ */
+export function toGeminiTools(tools: OpenAITool[]): GeminiTool[] {
+	if (tools.length === 0) {
+		return [];
+	}
+
+	return [
+		{
+			functionDeclarations: tools.map((tool) => {
+				const declaration: GeminiFunctionDeclaration = {
+					name: tool.function.name,
+					description: tool.function.description,
+				};
+				const properties = tool.function.parameters.properties ?? {};
+				if (Object.keys(properties).length > 0) {
+					declaration.parameters = toGeminiSchema({
+						type: "object",
+						properties,
+						required: tool.function.parameters.required,
+					});
+				}
+				return declaration;
+			}),
+		},
+	];
+}
+
+/**
+ * 解析工具调用参数（无效 JSON 视为空参数）
+ */
+function parseArguments(args: string): Record<string, unknown> {
+	try {
+		const parsed: unknown = JSON.parse(args || "{}");
+		return parsed && typeof parsed === "object"
+			? (parsed as Record<string, unknown>)
+			: {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * 将聊天消息转换为 Gemini contents
+ * - system 消息通过 systemInstruction 单独发送
+ * - 工具结果通过 functionResponse 回传，需要按 tool_call_id 找回函数名
+ * - 连续的工具结果合并为一条 user 消息
+ * - 思考内容不回传
+ */
+export function toGeminiContents(messages: ChatMessage[]): GeminiContent[] {
+	const result: GeminiContent[] = [];
+	const toolNames = new Map<string, string>();
+	let pendingResponses: GeminiPart[] = [];
+
+	const flushResponses = () => {
+		if (pendingResponses.length > 0) {
+			result.push({ role: "user", parts: pendingResponses });
+			pendingResponses = [];
+		}
+	};
+
+	for (const msg of messages) {
+		if (msg.role === "system") {
+			continue;
+		}
+
+		if (msg.role === "tool") {
+			pendingResponses.push({
+				functionResponse: {
+					name: toolNames.get(msg.tool_call_id || "") || "unknown",
+					response: { content: msg.content },
+				},
+			});
+			continue;
+		}
+
+		flushResponses();
+
+		if (msg.role === "user") {
+			result.push({
+				role: "user",
+				parts: [
+					{ text: msg.content },
+					...(msg.images ?? []).map((image) => ({
+						inlineData: { mimeType: image.mimeType, data: image.data },
+					})),
+				],
+			});
+			continue;
+		}
+
+		const parts: GeminiPart[] = [];
+		if (msg.content) {
+			parts.push({ text: msg.content });
+		}
+		for (const tc of msg.tool_calls ?? []) {
+			toolNames.set(tc.id, tc.function.name);
+			parts.push({
+				functionCall: {
+					name: tc.function.name,
+					args: parseArguments(tc.function.arguments),
+				},
+				...(tc.thought_signature
+					? { thoughtSignature: tc.thought_signature }
+					: {}),
+			});
+		}
+		if (parts.length === 0) {
+			parts.push({ text: "" });
+		}
+		result.push({ role: "model", parts });
+	}
+
+	flushResponses();
+	return result;
+}
+
+/**
+ * 构建 systemInstruction（没有 system 消息时返回 undefined）
+ */
+export function toGeminiSystemInstruction(
+	messages: ChatMessage[],
+): { parts: GeminiPart[] } | undefined {
+	const systemMsg = messages.find((m) => m.role === "system");
+	return systemMsg?.content
+		? { parts: [{ text: systemMsg.content }] }
+		: undefined;
+}
+
+/**
+ * 解析 Gemini 响应片段
+ * Gemini 不返回工具调用 ID，按顺序生成
+ */
+export function parseGeminiParts(
+	parts: GeminiPart[],
+	callIdPrefix = `call_${Date.now()}`,
+): { content: string; reasoning: string; toolCalls: ToolCall[] } {
+	let content = "";
+	let reasoning = "";
+	const toolCalls: ToolCall[] = [];
+
+	for (const part of parts) {
+		if (part.functionCall) {
+			toolCalls.push({
+				id: `${callIdPrefix}_${toolCalls.length}`,
+				type: "function",
+				function: {
+					name: part.functionCall.name,
+					arguments: JSON.stringify(part.functionCall.args ?? {}),
+				},
+				...(part.thoughtSignature
+					? { thought_signature: part.thoughtSignature }
+					: {}),
+			});
+		} else if (part.text) {
+			if (part.thought) {
+				reasoning += part.text;
+			} else {
+				content += part.text;
+			}
+		}
+	}
+
+	return { content, reasoning, toolCalls };
+}
@@ -6,6 +6,7 @@ export {
 	toOpenAITools,
 	toolToOpenAI,
 	paramsToJsonSchema,
+	actionToJsonSchema,
 	parseOpenAIToolCalls,
 	buildOpenAIToolResultMessage,
 	toOpenAIMessages,
@@ -19,3 +20,12 @@ export {
 	toAnthropicMessages,
 	extractSystemMessage,
 } from "./anthropic.js";
+
+export {
+	toGeminiTools,
+	toGeminiContents,
+	toGeminiSystemInstruction,
+	parseGeminiParts,
+} from "./gemini.js";
+
+export { toOllamaMessages, parseOllamaToolCalls } from "./ollama.js";
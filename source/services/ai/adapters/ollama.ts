@@ -0,0 +1,104 @@
+/**
+ * Ollama 协议适配器
+ * 在 ChatMessage 与 Ollama 原生 /api/chat 格式之间转换
+ * Ollama 的工具定义与 OpenAI 相同，但工具调用参数是对象，且没有调用 ID
+ */
+
+import type { ChatMessage, ToolCall } from "../types.js";
+
+/**
+ * Ollama 工具调用
+ */
+export type OllamaToolCall = {
+	function: {
+		name: string;
+		arguments: Record<string, unknown>;
+	};
+};
+
+/**
+ * Ollama 消息
+ * - thinking: 思考内容（think 参数启用时返回）
+ * - tool_name: 工具结果对应的工具名
+ */
+export type OllamaMessage = {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string;
+	thinking?: string;
+	/** base64 编码的图片（不含 data URI 前缀） */
+	images?: string[];
+	tool_calls?: OllamaToolCall[];
+	tool_name?: string;
+};
+
+/**
+ * 解析工具调用参数（无效 JSON 视为空参数）
+ */
+function parseArguments(args: string): Record<string, unknown> {
+	try {
+		const parsed: unknown = JSON.parse(args || "{}");
+		return parsed && typeof parsed === "object"
+			? (parsed as Record<string, unknown>)
+			: {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * 将聊天消息转换为 Ollama 格式
+ * 工具结果按 tool_call_id 找回工具名
+ */
+export function toOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+	const toolNames = new Map<string, string>();
+
+	return messages.map((msg) => {
+		const result: OllamaMessage = { role: msg.role, content: msg.content };
+
+		if (msg.reasoning_content) {
+			result.thinking = msg.reasoning_content;
+		}
+
+		if (msg.images && msg.images.length > 0) {
+			result.images = msg.images.map((image) => image.data);
+		}
+
+		if (msg.tool_calls && msg.tool_calls.length > 0) {
+			result.tool_calls = msg.tool_calls.map((tc) => {
+				toolNames.set(tc.id, tc.function.name);
+				return {
+					function: {
+						name: tc.function.name,
+						arguments: parseArguments(tc.function.arguments),
+					},
+				};
+			});
+		}
+
+		if (msg.role === "tool" && msg.tool_call_id) {
+			const name = toolNames.get(msg.tool_call_id);
+			if (name) {
+				result.tool_name = name;
+			}
+		}
+
+		return result;
+	});
+}
+
+/**
+ * 解析 Ollama 工具调用（Ollama 不返回调用 ID，按顺序生成）
+ */
+export function parseOllamaToolCalls(
+	toolCalls: OllamaToolCall[],
+	callIdPrefix = `call_${Date.now()}`,
+): ToolCall[] {
+	return toolCalls.map((tc, index) => ({
+		id: `${callIdPrefix}_${index}`,
+		type: "function" as const,
+		function: {
+			name: tc.function.name,
+			arguments: JSON.stringify(tc.function.arguments ?? {}),
+		},
+	}));
+}
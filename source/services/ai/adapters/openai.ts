@@ -3,7 +3,11 @@
  * 将本地 DiscoveredTool 转换为 OpenAI Function Calling 格式
  */
 
-import type { DiscoveredTool, ToolParameter } from "../../tools/types.js";
+import type {
+	DiscoveredTool,
+	ToolAction,
+	ToolParameter,
+} from "../../tools/types.js";
 import type {
 	OpenAITool,
 	JSONSchema,
@@ -68,6 +72,29 @@ export function paramsToJsonSchema(params: ToolParameter[]): {
 	};
 }
 
+/**
+ * 获取动作的参数 JSON Schema
+ * MCP 工具带有原始 inputSchema，直接使用以保留嵌套结构
+ */
+export function actionToJsonSchema(action: ToolAction): {
+	type: "object";
+	properties: Record<string, JSONSchema>;
+	required: string[];
+} {
+	if (action.inputSchema) {
+		return {
+			...action.inputSchema,
+			type: "object",
+			properties: (action.inputSchema.properties ?? {}) as Record<
+				string,
+				JSONSchema
+			>,
+			required: action.inputSchema.required ?? [],
+		};
+	}
+	return paramsToJsonSchema(action.parameters);
+}
+
 /**
  * 将单个 DiscoveredTool 转换为 OpenAI 工具格式
  * 每个 action 对应一个 function
@@ -82,7 +109,7 @@ export function toolToOpenAI(tool: DiscoveredTool): OpenAITool[] {
 		function: {
 			name: `${tool.id}_${action.name}`,
 			description: `[${tool.name}] ${action.description}`,
-			parameters: paramsToJsonSchema(action.parameters),
+			parameters: actionToJsonSchema(action),
 		},
 	}));
 }
@@ -134,12 +161,35 @@ export function buildOpenAIToolResultMessage(
 	};
 }
 
+/**
+ * OpenAI 多模态内容片段（图片以 data URI 发送）
+ */
+export type OpenAIContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
+/**
+ * 转换消息内容（附带图片时使用内容片段数组）
+ */
+function toOpenAIContent(msg: ChatMessage): string | OpenAIContentPart[] {
+	if (!msg.images || msg.images.length === 0) {
+		return msg.content;
+	}
+	return [
+		{ type: "text", text: msg.content },
+		...msg.images.map((image) => ({
+			type: "image_url" as const,
+			image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+		})),
+	];
+}
+
 /**
  * 将聊天消息转换为 OpenAI API 格式
  */
 export function toOpenAIMessages(messages: ChatMessage[]): Array<{
 	role: string;
-	content: string;
+	content: string | OpenAIContentPart[];
 	tool_call_id?: string;
 	tool_calls?: Array<{
 		id: string;
@@ -153,7 +203,7 @@ export function toOpenAIMessages(messages: ChatMessage[]): Array<{
 	return messages.map((msg) => {
 		const base: {
 			role: string;
-			content: string;
+			content: string | OpenAIContentPart[];
 			tool_call_id?: string;
 			tool_calls?: Array<{
 				id: string;
@@ -162,7 +212,7 @@ export function toOpenAIMessages(messages: ChatMessage[]): Array<{
 			}>;
 		} = {
 			role: msg.role,
-			content: msg.content,
+			content: toOpenAIContent(msg),
 		};
 
 		if (msg.tool_call_id) {
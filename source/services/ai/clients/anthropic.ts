@@ -19,11 +19,21 @@ import {
 	toAnthropicMessages,
 	extractSystemMessage,
 	parseAnthropicToolUse,
+	cacheAnthropicSystem,
+	cacheAnthropicTools,
+	cacheAnthropicMessages,
 } from "../adapters/anthropic.js";
 import {
 	isThinkingEnabled,
 	currentModelSupportsThinking,
 } from "../../../utils/config.js";
+import {
+	AIRequestError,
+	classifyHttpError,
+	createHttpError,
+	type AIErrorKind,
+} from "../errors.js";
+import { withRetry } from "./retry.js";
 
 /**
  * Anthropic API 响应类型
@@ -45,12 +55,41 @@ type AnthropicAPIResponse = {
 	model: string;
 	stop_reason: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence";
 	stop_sequence: string | null;
-	usage: {
-		input_tokens: number;
-		output_tokens: number;
-	};
+	usage: AnthropicUsage;
+};
+
+/**
+ * Anthropic usage 信息
+ * input_tokens 不包含缓存读取和写入的 token
+ */
+type AnthropicUsage = {
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_input_tokens?: number;
+	cache_creation_input_tokens?: number;
 };
 
+/**
+ * 默认最大输出 token 数（模型未配置 maxOutputTokens 时使用）
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * 转换为统一的 usage 格式（prompt_tokens 包含缓存 token）
+ */
+function toUsage(usage: AnthropicUsage): NonNullable<AIResponse["usage"]> {
+	const cacheRead = usage.cache_read_input_tokens || 0;
+	const cacheCreation = usage.cache_creation_input_tokens || 0;
+	const promptTokens = usage.input_tokens + cacheRead + cacheCreation;
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: usage.output_tokens,
+		total_tokens: promptTokens + usage.output_tokens,
+		...(cacheRead > 0 && { cache_read_tokens: cacheRead }),
+		...(cacheCreation > 0 && { cache_creation_tokens: cacheCreation }),
+	};
+}
+
 /**
  * 将 OpenAI 工具格式转换为 Anthropic 格式
  */
@@ -62,6 +101,27 @@ function openAIToolsToAnthropic(tools: OpenAITool[]): AnthropicTool[] {
 	}));
 }
 
+/**
+ * 流式响应中 error 事件的错误分类
+ * 过载和限流在流已建立后才可能出现
+ */
+function classifyStreamError(
+	type: string | undefined,
+	message: string,
+): AIErrorKind {
+	switch (type) {
+		case "overloaded_error":
+		case "rate_limit_error":
+		case "api_error":
+			return "retryable";
+		case "authentication_error":
+		case "permission_error":
+			return "auth";
+		default:
+			return classifyHttpError(400, message);
+	}
+}
+
 /**
  * Anthropic 客户端
  */
@@ -81,45 +141,66 @@ export class AnthropicClient implements IAIClient {
 		return { ...this.config };
 	}
 
-	async chat(
+	/**
+	 * 构建请求体（chat 和 streamChat 共用）
+	 * 启用 prompt caching 时在 system prompt、工具定义和最后一条消息上设置缓存断点
+	 */
+	private buildRequestBody(
 		messages: ChatMessage[],
 		tools?: OpenAITool[],
-	): Promise<AIResponse> {
-		// 构建 URL：baseUrl 应该已经包含 /v1，只需添加 /messages
-		const baseUrl =
-			this.config.baseUrl?.replace(/\/$/, "") || "https://api.anthropic.com/v1";
-		const url = `${baseUrl}/messages`;
-
-		// 提取 system 消息
-		const systemPrompt = extractSystemMessage(messages);
+	): Record<string, unknown> {
+		const caching = this.config.promptCaching !== false;
+		const anthropicMessages = toAnthropicMessages(messages);
 
 		const body: Record<string, unknown> = {
 			model: this.config.model,
-			messages: toAnthropicMessages(messages),
-			max_tokens: 4096,
+			messages: caching
+				? cacheAnthropicMessages(anthropicMessages)
+				: anthropicMessages,
+			max_tokens: this.config.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
 		};
 
+		// 提取 system 消息
+		const systemPrompt = extractSystemMessage(messages);
 		if (systemPrompt) {
-			body.system = systemPrompt;
+			body.system = caching ? cacheAnthropicSystem(systemPrompt) : systemPrompt;
 		}
 
 		if (tools && tools.length > 0) {
-			body.tools = openAIToolsToAnthropic(tools);
+			const anthropicTools = openAIToolsToAnthropic(tools);
+			body.tools = caching
+				? cacheAnthropicTools(anthropicTools)
+				: anthropicTools;
 		}
 
 		// 如果启用思考模式且当前模型支持，添加 thinking 参数
+		// Anthropic 使用 thinking 参数（与 OpenAI 的 enable_thinking 不同）
 		if (isThinkingEnabled() && currentModelSupportsThinking()) {
 			body.thinking = {
 				type: "enabled",
-				budget_tokens: 10000,
+				budget_tokens: 10000, // 默认思考预算
 			};
+		} else if (this.config.temperature !== undefined) {
+			// 思考模式不支持自定义 temperature
+			body.temperature = this.config.temperature;
 		}
 
-		let lastError: Error | null = null;
-		const maxRetries = this.config.maxRetries || 3;
+		return body;
+	}
 
-		for (let attempt = 0; attempt < maxRetries; attempt++) {
-			try {
+	async chat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+	): Promise<AIResponse> {
+		// 构建 URL：baseUrl 应该已经包含 /v1，只需添加 /messages
+		const baseUrl =
+			this.config.baseUrl?.replace(/\/$/, "") || "https://api.anthropic.com/v1";
+		const url = `${baseUrl}/messages`;
+
+		const body = this.buildRequestBody(messages, tools);
+
+		return withRetry(
+			async () => {
 				const controller = new AbortController();
 				const timeoutId = setTimeout(
 					() => controller.abort(),
@@ -141,28 +222,14 @@ export class AnthropicClient implements IAIClient {
 				clearTimeout(timeoutId);
 
 				if (!response.ok) {
-					const errorText = await response.text();
-					throw new Error(
-						`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`,
-					);
+					throw await createHttpError("Anthropic", response);
 				}
 
 				const data = (await response.json()) as AnthropicAPIResponse;
 				return this.parseResponse(data);
-			} catch (error) {
-				lastError = error instanceof Error ? error : new Error(String(error));
-
-				if (attempt === maxRetries - 1 || lastError.name === "AbortError") {
-					throw lastError;
-				}
-
-				await new Promise((resolve) =>
-					setTimeout(resolve, Math.pow(2, attempt) * 1000),
-				);
-			}
-		}
-
-		throw lastError || new Error("Unknown error");
+			},
+			{ maxRetries: this.config.maxRetries || 3 },
+		);
 	}
 
 	private parseResponse(data: AnthropicAPIResponse): AIResponse {
@@ -229,11 +296,7 @@ export class AnthropicClient implements IAIClient {
 		return {
 			message,
 			finish_reason: finishReason,
-			usage: {
-				prompt_tokens: data.usage.input_tokens,
-				completion_tokens: data.usage.output_tokens,
-				total_tokens: data.usage.input_tokens + data.usage.output_tokens,
-			},
+			usage: toUsage(data.usage),
 		};
 	}
 
@@ -269,33 +332,11 @@ export class AnthropicClient implements IAIClient {
 			this.config.baseUrl?.replace(/\/$/, "") || "https://api.anthropic.com/v1";
 		const url = `${baseUrl}/messages`;
 
-		// 提取 system 消息
-		const systemPrompt = extractSystemMessage(messages);
-
-		const body: Record<string, unknown> = {
-			model: this.config.model,
-			messages: toAnthropicMessages(messages),
-			max_tokens: 4096,
+		const body = {
+			...this.buildRequestBody(messages, tools),
 			stream: true, // 启用流式响应
 		};
 
-		if (systemPrompt) {
-			body.system = systemPrompt;
-		}
-
-		if (tools && tools.length > 0) {
-			body.tools = openAIToolsToAnthropic(tools);
-		}
-
-		// 如果启用思考模式且当前模型支持，添加 thinking 参数
-		// Anthropic 使用 thinking 参数（与 OpenAI 的 enable_thinking 不同）
-		if (isThinkingEnabled() && currentModelSupportsThinking()) {
-			body.thinking = {
-				type: "enabled",
-				budget_tokens: 10000, // 默认思考预算
-			};
-		}
-
 		// 创建内部 AbortController 用于超时
 		const timeoutController = new AbortController();
 		// 连接超时：等待服务器响应（使用配置的 timeout）
@@ -338,27 +379,29 @@ export class AnthropicClient implements IAIClient {
 		};
 
 		try {
-			const response = await fetch(url, {
-				method: "POST",
-				headers: {
-					"x-api-key": this.config.apiKey ?? "",
-					"anthropic-version": "2023-06-01",
-					"anthropic-beta": "interleaved-thinking-2025-05-14",
-					"Content-Type": "application/json",
+			const response = await withRetry(
+				async () => {
+					const res = await fetch(url, {
+						method: "POST",
+						headers: {
+							"x-api-key": this.config.apiKey ?? "",
+							"anthropic-version": "2023-06-01",
+							"anthropic-beta": "interleaved-thinking-2025-05-14",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify(body),
+						signal: timeoutController.signal,
+					});
+					if (!res.ok) {
+						throw await createHttpError("Anthropic", res);
+					}
+					return res;
 				},
-				body: JSON.stringify(body),
-				signal: timeoutController.signal,
-			});
+				{ maxRetries: this.config.maxRetries || 3, signal: externalSignal },
+			);
 
 			clearTimeout(connectionTimeoutId);
 
-			if (!response.ok) {
-				const errorText = await response.text();
-				throw new Error(
-					`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`,
-				);
-			}
-
 			if (!response.body) {
 				throw new Error("Response body is null");
 			}
@@ -388,6 +431,8 @@ export class AnthropicClient implements IAIClient {
 			// 跟踪 usage 信息
 			let inputTokens = 0;
 			let outputTokens = 0;
+			let cacheReadTokens = 0;
+			let cacheCreationTokens = 0;
 
 			// 开始流式读取，启动活动超时
 			resetActivityTimeout();
@@ -428,6 +473,10 @@ export class AnthropicClient implements IAIClient {
 								if (event.message?.usage) {
 									inputTokens = event.message.usage.input_tokens || 0;
 									outputTokens = event.message.usage.output_tokens || 0;
+									cacheReadTokens =
+										event.message.usage.cache_read_input_tokens || 0;
+									cacheCreationTokens =
+										event.message.usage.cache_creation_input_tokens || 0;
 								}
 								break;
 
@@ -524,11 +573,12 @@ export class AnthropicClient implements IAIClient {
 								// 构建 usage 信息
 								const usageInfo =
 									inputTokens > 0 || outputTokens > 0
-										? {
-												prompt_tokens: inputTokens,
-												completion_tokens: outputTokens,
-												total_tokens: inputTokens + outputTokens,
-											}
+										? toUsage({
+												input_tokens: inputTokens,
+												output_tokens: outputTokens,
+												cache_read_input_tokens: cacheReadTokens,
+												cache_creation_input_tokens: cacheCreationTokens,
+											})
 										: undefined;
 
 								if (toolCalls.length > 0) {
@@ -551,8 +601,10 @@ export class AnthropicClient implements IAIClient {
 							}
 
 							case "error": {
-								throw new Error(
-									`Anthropic streaming error: ${event.error?.message || "Unknown error"}`,
+								const message: string = event.error?.message || "Unknown error";
+								throw new AIRequestError(
+									`Anthropic streaming error: ${message}`,
+									classifyStreamError(event.error?.type, message),
 								);
 							}
 						}
@@ -0,0 +1,390 @@
+/**
+ * Gemini 客户端实现
+ * 支持 Google Gemini API (generateContent / streamGenerateContent)
+ */
+
+import type {
+	IAIClient,
+	AIClientConfig,
+	ChatMessage,
+	AIResponse,
+	AIStreamChunk,
+	OpenAITool,
+	FinishReason,
+	StreamOptions,
+} from "../types.js";
+import {
+	toGeminiContents,
+	toGeminiSystemInstruction,
+	toGeminiTools,
+	parseGeminiParts,
+	type GeminiPart,
+} from "../adapters/gemini.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+} from "../../../utils/config.js";
+import { createHttpError } from "../errors.js";
+import { withRetry } from "./retry.js";
+
+/**
+ * Gemini API 响应类型（流式响应的每个 chunk 也是这个结构）
+ */
+type GeminiAPIResponse = {
+	candidates?: Array<{
+		content?: { role: string; parts?: GeminiPart[] };
+		finishReason?: string;
+	}>;
+	usageMetadata?: GeminiUsage;
+};
+
+/**
+ * Gemini usage 信息
+ * candidatesTokenCount 不包含思考 token
+ */
+type GeminiUsage = {
+	promptTokenCount?: number;
+	candidatesTokenCount?: number;
+	thoughtsTokenCount?: number;
+	cachedContentTokenCount?: number;
+};
+
+/**
+ * 转换为统一的 usage 格式（completion_tokens 包含思考 token）
+ */
+function toUsage(usage: GeminiUsage): NonNullable<AIResponse["usage"]> {
+	const promptTokens = usage.promptTokenCount || 0;
+	const completionTokens =
+		(usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+	const cacheRead = usage.cachedContentTokenCount || 0;
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: promptTokens + completionTokens,
+		...(cacheRead > 0 && { cache_read_tokens: cacheRead }),
+	};
+}
+
+/**
+ * Gemini 客户端
+ */
+export class GeminiClient implements IAIClient {
+	private config: AIClientConfig;
+
+	constructor(config: AIClientConfig) {
+		this.config = {
+			baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+			timeout: 60000,
+			maxRetries: 3,
+			...config,
+		};
+	}
+
+	getConfig(): AIClientConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * 构建请求 URL，如 .../models/gemini-2.5-pro:generateContent
+	 */
+	private buildUrl(method: string): string {
+		const baseUrl =
+			this.config.baseUrl?.replace(/\/$/, "") ||
+			"https://generativelanguage.googleapis.com/v1beta";
+		return `${baseUrl}/models/${this.config.model}:${method}`;
+	}
+
+	/**
+	 * 构建请求体（chat 和 streamChat 共用）
+	 */
+	private buildRequestBody(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+	): Record<string, unknown> {
+		const body: Record<string, unknown> = {
+			contents: toGeminiContents(messages),
+		};
+
+		const systemInstruction = toGeminiSystemInstruction(messages);
+		if (systemInstruction) {
+			body.systemInstruction = systemInstruction;
+		}
+
+		if (tools && tools.length > 0) {
+			body.tools = toGeminiTools(tools);
+		}
+
+		const generationConfig: Record<string, unknown> = {};
+		if (this.config.maxOutputTokens !== undefined) {
+			generationConfig.maxOutputTokens = this.config.maxOutputTokens;
+		}
+		if (this.config.temperature !== undefined) {
+			generationConfig.temperature = this.config.temperature;
+		}
+		// 如果启用思考模式且当前模型支持，返回思考内容
+		if (isThinkingEnabled() && currentModelSupportsThinking()) {
+			generationConfig.thinkingConfig = { includeThoughts: true };
+		}
+		if (Object.keys(generationConfig).length > 0) {
+			body.generationConfig = generationConfig;
+		}
+
+		return body;
+	}
+
+	private buildHeaders(): Record<string, string> {
+		return {
+			"x-goog-api-key": this.config.apiKey ?? "",
+			"Content-Type": "application/json",
+		};
+	}
+
+	async chat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+	): Promise<AIResponse> {
+		const url = this.buildUrl("generateContent");
+		const body = this.buildRequestBody(messages, tools);
+
+		return withRetry(
+			async () => {
+				const controller = new AbortController();
+				const timeoutId = setTimeout(
+					() => controller.abort(),
+					this.config.timeout || 60000,
+				);
+
+				const response = await fetch(url, {
+					method: "POST",
+					headers: this.buildHeaders(),
+					body: JSON.stringify(body),
+					signal: controller.signal,
+				});
+
+				clearTimeout(timeoutId);
+
+				if (!response.ok) {
+					throw await createHttpError("Gemini", response);
+				}
+
+				const data = (await response.json()) as GeminiAPIResponse;
+				return this.parseResponse(data);
+			},
+			{ maxRetries: this.config.maxRetries || 3 },
+		);
+	}
+
+	private parseResponse(data: GeminiAPIResponse): AIResponse {
+		const candidate = data.candidates?.[0];
+		if (!candidate) {
+			throw new Error("No response from Gemini API");
+		}
+
+		const { content, reasoning, toolCalls } = parseGeminiParts(
+			candidate.content?.parts ?? [],
+		);
+
+		const message: ChatMessage = {
+			role: "assistant",
+			content,
+		};
+
+		if (reasoning) {
+			message.reasoning_content = reasoning;
+		}
+
+		if (toolCalls.length > 0) {
+			message.tool_calls = toolCalls;
+		}
+
+		return {
+			message,
+			finish_reason:
+				toolCalls.length > 0
+					? "tool_calls"
+					: this.parseFinishReason(candidate.finishReason),
+			usage: data.usageMetadata && toUsage(data.usageMetadata),
+		};
+	}
+
+	/**
+	 * 解析 finishReason
+	 * Gemini 没有 tool_calls 结束原因，工具调用时同样返回 STOP
+	 */
+	private parseFinishReason(reason: string | undefined): FinishReason {
+		switch (reason) {
+			case "MAX_TOKENS":
+				return "length";
+			default:
+				return "stop";
+		}
+	}
+
+	/**
+	 * 流式聊天请求
+	 * 使用 alt=sse 参数，每个 SSE data 是一个完整的 GenerateContentResponse
+	 * @param messages 消息列表
+	 * @param tools 工具列表（可选）
+	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
+	 */
+	async *streamChat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		const url = `${this.buildUrl("streamGenerateContent")}?alt=sse`;
+		const body = this.buildRequestBody(messages, tools);
+
+		// 创建内部 AbortController 用于超时
+		const timeoutController = new AbortController();
+		// 连接超时：等待服务器响应（使用配置的 timeout）
+		const connectionTimeoutId = setTimeout(
+			() => timeoutController.abort(),
+			this.config.timeout || 180000,
+		);
+
+		// 如果有外部 signal，监听它并联动中止
+		const externalSignal = options?.signal;
+		let externalAbortHandler: (() => void) | undefined;
+
+		if (externalSignal) {
+			// 如果外部 signal 已经 aborted，立即中止
+			if (externalSignal.aborted) {
+				clearTimeout(connectionTimeoutId);
+				throw new DOMException("Request was aborted", "AbortError");
+			}
+			// 监听外部 signal 的 abort 事件
+			externalAbortHandler = () => timeoutController.abort();
+			externalSignal.addEventListener("abort", externalAbortHandler);
+		}
+
+		// 活动超时：流式传输期间，每次收到数据重置
+		const streamTimeout = this.config.timeout || 600000;
+		let activityTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+		const resetActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+			}
+			activityTimeoutId = setTimeout(() => {
+				timeoutController.abort();
+			}, streamTimeout);
+		};
+
+		const clearActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+				activityTimeoutId = null;
+			}
+		};
+
+		try {
+			const response = await withRetry(
+				async () => {
+					const res = await fetch(url, {
+						method: "POST",
+						headers: this.buildHeaders(),
+						body: JSON.stringify(body),
+						signal: timeoutController.signal,
+					});
+					if (!res.ok) {
+						throw await createHttpError("Gemini", res);
+					}
+					return res;
+				},
+				{ maxRetries: this.config.maxRetries || 3, signal: externalSignal },
+			);
+
+			clearTimeout(connectionTimeoutId);
+
+			if (!response.body) {
+				throw new Error("Response body is null");
+			}
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = "";
+
+			// 累积 functionCall 片段（流结束时统一生成工具调用）
+			const functionCallParts: GeminiPart[] = [];
+			let finishReason: string | undefined;
+			// 跟踪 usage 信息（每个 chunk 都可能携带，以最后一个为准）
+			let streamUsage: AIStreamChunk["usage"];
+
+			// 开始流式读取，启动活动超时
+			resetActivityTimeout();
+
+			while (true) {
+				const { done, value } = await reader.read();
+
+				// 每次收到数据时重置活动超时
+				if (!done) {
+					resetActivityTimeout();
+				}
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || ""; // 保留最后未完成的行
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+					if (!trimmed || !trimmed.startsWith("data: ")) continue;
+
+					try {
+						const chunk = JSON.parse(trimmed.slice(6)) as GeminiAPIResponse;
+
+						if (chunk.usageMetadata) {
+							streamUsage = toUsage(chunk.usageMetadata);
+						}
+
+						const candidate = chunk.candidates?.[0];
+						if (!candidate) continue;
+
+						if (candidate.finishReason) {
+							finishReason = candidate.finishReason;
+						}
+
+						const parts = candidate.content?.parts ?? [];
+						functionCallParts.push(
+							...parts.filter((part) => part.functionCall),
+						);
+
+						const { content, reasoning } = parseGeminiParts(parts);
+						if (content || reasoning) {
+							yield {
+								delta: { content, reasoning_content: reasoning },
+							};
+						}
+					} catch {
+						// JSON 解析失败，跳过这行
+						continue;
+					}
+				}
+			}
+
+			// 流结束，生成最终 chunk
+			const { toolCalls } = parseGeminiParts(functionCallParts);
+			if (toolCalls.length > 0) {
+				yield {
+					delta: { content: "", tool_calls: toolCalls },
+					finish_reason: "tool_calls",
+					usage: streamUsage,
+				};
+			} else {
+				yield {
+					delta: { content: "" },
+					finish_reason: this.parseFinishReason(finishReason),
+					usage: streamUsage,
+				};
+			}
+		} finally {
+			clearTimeout(connectionTimeoutId);
+			clearActivityTimeout();
+			// 清理外部 signal 监听器
+			if (externalSignal && externalAbortHandler) {
+				externalSignal.removeEventListener("abort", externalAbortHandler);
+			}
+		}
+	}
+}
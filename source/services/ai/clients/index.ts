@@ -4,3 +4,5 @@
 
 export { OpenAIClient } from "./openai.js";
 export { AnthropicClient } from "./anthropic.js";
+export { GeminiClient } from "./gemini.js";
+export { OllamaClient } from "./ollama.js";
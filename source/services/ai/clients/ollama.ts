@@ -0,0 +1,394 @@
+/**
+ * Ollama 客户端实现
+ * 使用 Ollama 原生 /api/chat 接口（NDJSON 流式响应）
+ */
+
+import type {
+	IAIClient,
+	AIClientConfig,
+	ChatMessage,
+	AIResponse,
+	AIStreamChunk,
+	OpenAITool,
+	FinishReason,
+	StreamOptions,
+} from "../types.js";
+import {
+	toOllamaMessages,
+	parseOllamaToolCalls,
+	type OllamaMessage,
+	type OllamaToolCall,
+} from "../adapters/ollama.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+} from "../../../utils/config.js";
+import { createHttpError } from "../errors.js";
+import { withRetry } from "./retry.js";
+
+/**
+ * Ollama API 响应类型（流式响应的每一行也是这个结构）
+ * prompt_eval_count / eval_count 只在 done 为 true 时返回
+ */
+type OllamaAPIResponse = {
+	model: string;
+	message?: OllamaMessage;
+	done: boolean;
+	done_reason?: string;
+	prompt_eval_count?: number;
+	eval_count?: number;
+	error?: string;
+};
+
+/**
+ * 转换为统一的 usage 格式（没有统计信息时返回 undefined）
+ */
+function toUsage(data: OllamaAPIResponse): AIResponse["usage"] {
+	if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+		return undefined;
+	}
+	const promptTokens = data.prompt_eval_count || 0;
+	const completionTokens = data.eval_count || 0;
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: promptTokens + completionTokens,
+	};
+}
+
+/**
+ * Ollama 客户端
+ */
+export class OllamaClient implements IAIClient {
+	private config: AIClientConfig;
+
+	constructor(config: AIClientConfig) {
+		this.config = {
+			baseUrl: "http://localhost:11434",
+			timeout: 60000,
+			maxRetries: 3,
+			...config,
+		};
+	}
+
+	getConfig(): AIClientConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * 构建请求 URL
+	 * 兼容按 OpenAI 兼容接口填写的 baseUrl（如 http://localhost:11434/v1）
+	 */
+	private buildUrl(): string {
+		const baseUrl =
+			this.config.baseUrl?.replace(/\/$/, "").replace(/\/(v1|api)$/, "") ||
+			"http://localhost:11434";
+		return `${baseUrl}/api/chat`;
+	}
+
+	/**
+	 * 构建请求体（chat 和 streamChat 共用）
+	 */
+	private buildRequestBody(
+		messages: ChatMessage[],
+		tools: OpenAITool[] | undefined,
+		stream: boolean,
+	): Record<string, unknown> {
+		const body: Record<string, unknown> = {
+			model: this.config.model,
+			messages: toOllamaMessages(messages),
+			stream,
+		};
+
+		// Ollama 的工具定义与 OpenAI 格式相同
+		if (tools && tools.length > 0) {
+			body.tools = tools;
+		}
+
+		// 支持思考的模型显式传递 think 开关，其他模型不发送（否则会报错）
+		if (currentModelSupportsThinking()) {
+			body.think = isThinkingEnabled();
+		}
+
+		const options: Record<string, unknown> = {};
+		if (this.config.maxOutputTokens !== undefined) {
+			options.num_predict = this.config.maxOutputTokens;
+		}
+		if (this.config.temperature !== undefined) {
+			options.temperature = this.config.temperature;
+		}
+		if (Object.keys(options).length > 0) {
+			body.options = options;
+		}
+
+		return body;
+	}
+
+	private buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+		// 本地 Ollama 不需要认证，远程代理可能需要
+		if (this.config.apiKey) {
+			headers.Authorization = `Bearer ${this.config.apiKey}`;
+		}
+		return headers;
+	}
+
+	async chat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+	): Promise<AIResponse> {
+		const url = this.buildUrl();
+		const body = this.buildRequestBody(messages, tools, false);
+
+		return withRetry(
+			async () => {
+				const controller = new AbortController();
+				const timeoutId = setTimeout(
+					() => controller.abort(),
+					this.config.timeout || 60000,
+				);
+
+				const response = await fetch(url, {
+					method: "POST",
+					headers: this.buildHeaders(),
+					body: JSON.stringify(body),
+					signal: controller.signal,
+				});
+
+				clearTimeout(timeoutId);
+
+				if (!response.ok) {
+					throw await createHttpError("Ollama", response);
+				}
+
+				const data = (await response.json()) as OllamaAPIResponse;
+				return this.parseResponse(data);
+			},
+			{ maxRetries: this.config.maxRetries || 3 },
+		);
+	}
+
+	private parseResponse(data: OllamaAPIResponse): AIResponse {
+		if (!data.message) {
+			throw new Error("No response from Ollama API");
+		}
+
+		const message: ChatMessage = {
+			role: "assistant",
+			content: data.message.content || "",
+		};
+
+		if (data.message.thinking) {
+			message.reasoning_content = data.message.thinking;
+		}
+
+		const toolCalls = data.message.tool_calls ?? [];
+		if (toolCalls.length > 0) {
+			message.tool_calls = parseOllamaToolCalls(toolCalls);
+		}
+
+		return {
+			message,
+			finish_reason:
+				toolCalls.length > 0
+					? "tool_calls"
+					: this.parseFinishReason(data.done_reason),
+			usage: toUsage(data),
+		};
+	}
+
+	/**
+	 * 解析 done_reason
+	 * Ollama 没有 tool_calls 结束原因，工具调用时同样返回 stop
+	 */
+	private parseFinishReason(reason: string | undefined): FinishReason {
+		switch (reason) {
+			case "length":
+				return "length";
+			default:
+				return "stop";
+		}
+	}
+
+	/**
+	 * 流式聊天请求
+	 * 响应为 NDJSON，每行一个 JSON 对象，最后一行 done 为 true
+	 * @param messages 消息列表
+	 * @param tools 工具列表（可选）
+	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
+	 */
+	async *streamChat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		const url = this.buildUrl();
+		const body = this.buildRequestBody(messages, tools, true);
+
+		// 创建内部 AbortController 用于超时
+		const timeoutController = new AbortController();
+		// 连接超时：等待服务器响应（使用配置的 timeout，本地模型加载可能较慢）
+		const connectionTimeoutId = setTimeout(
+			() => timeoutController.abort(),
+			this.config.timeout || 180000,
+		);
+
+		// 如果有外部 signal，监听它并联动中止
+		const externalSignal = options?.signal;
+		let externalAbortHandler: (() => void) | undefined;
+
+		if (externalSignal) {
+			// 如果外部 signal 已经 aborted，立即中止
+			if (externalSignal.aborted) {
+				clearTimeout(connectionTimeoutId);
+				throw new DOMException("Request was aborted", "AbortError");
+			}
+			// 监听外部 signal 的 abort 事件
+			externalAbortHandler = () => timeoutController.abort();
+			externalSignal.addEventListener("abort", externalAbortHandler);
+		}
+
+		// 活动超时：流式传输期间，每次收到数据重置
+		const streamTimeout = this.config.timeout || 600000;
+		let activityTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+		const resetActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+			}
+			activityTimeoutId = setTimeout(() => {
+				timeoutController.abort();
+			}, streamTimeout);
+		};
+
+		const clearActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+				activityTimeoutId = null;
+			}
+		};
+
+		try {
+			const response = await withRetry(
+				async () => {
+					const res = await fetch(url, {
+						method: "POST",
+						headers: this.buildHeaders(),
+						body: JSON.stringify(body),
+						signal: timeoutController.signal,
+					});
+					if (!res.ok) {
+						throw await createHttpError("Ollama", res);
+					}
+					return res;
+				},
+				{ maxRetries: this.config.maxRetries || 3, signal: externalSignal },
+			);
+
+			clearTimeout(connectionTimeoutId);
+
+			if (!response.body) {
+				throw new Error("Response body is null");
+			}
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = "";
+
+			// 累积工具调用（流结束时统一生成 ID）
+			const accumulatedToolCalls: OllamaToolCall[] = [];
+
+			// 开始流式读取，启动活动超时
+			resetActivityTimeout();
+
+			while (true) {
+				const { done, value } = await reader.read();
+
+				// 每次收到数据时重置活动超时
+				if (!done) {
+					resetActivityTimeout();
+				}
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || ""; // 保留最后未完成的行
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+					if (!trimmed) continue;
+
+					let chunk: OllamaAPIResponse;
+					try {
+						chunk = JSON.parse(trimmed) as OllamaAPIResponse;
+					} catch {
+						// JSON 解析失败，跳过这行
+						continue;
+					}
+
+					// 流中途的错误（如模型加载失败）
+					if (chunk.error) {
+						throw new Error(`Ollama stream error: ${chunk.error}`);
+					}
+
+					if (chunk.message?.tool_calls) {
+						accumulatedToolCalls.push(...chunk.message.tool_calls);
+					}
+
+					const content = chunk.message?.content || "";
+					const thinking = chunk.message?.thinking || "";
+					if (content || thinking) {
+						yield {
+							delta: { content, reasoning_content: thinking },
+						};
+					}
+
+					if (chunk.done) {
+						if (accumulatedToolCalls.length > 0) {
+							yield {
+								delta: {
+									content: "",
+									tool_calls: parseOllamaToolCalls(accumulatedToolCalls),
+								},
+								finish_reason: "tool_calls",
+								usage: toUsage(chunk),
+							};
+						} else {
+							yield {
+								delta: { content: "" },
+								finish_reason: this.parseFinishReason(chunk.done_reason),
+								usage: toUsage(chunk),
+							};
+						}
+						return;
+					}
+				}
+			}
+
+			// 流结束但没有收到 done 行，补充一个结束 chunk
+			if (accumulatedToolCalls.length > 0) {
+				yield {
+					delta: {
+						content: "",
+						tool_calls: parseOllamaToolCalls(accumulatedToolCalls),
+					},
+					finish_reason: "tool_calls",
+				};
+			} else {
+				yield {
+					delta: { content: "" },
+					finish_reason: "stop",
+				};
+			}
+		} finally {
+			clearTimeout(connectionTimeoutId);
+			clearActivityTimeout();
+			// 清理外部 signal 监听器
+			if (externalSignal && externalAbortHandler) {
+				externalSignal.removeEventListener("abort", externalAbortHandler);
+			}
+		}
+	}
+}
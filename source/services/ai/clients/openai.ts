@@ -16,6 +16,8 @@ import type {
 } from "../types.js";
 import { toOpenAIMessages, parseOpenAIToolCalls } from "../adapters/openai.js";
 import { getThinkingParams } from "../../../utils/config.js";
+import { createHttpError } from "../errors.js";
+import { withRetry } from "./retry.js";
 
 /**
  * OpenAI API 响应类型
@@ -41,13 +43,33 @@ type OpenAIAPIResponse = {
 		};
 		finish_reason: string;
 	}>;
-	usage?: {
-		prompt_tokens: number;
-		completion_tokens: number;
-		total_tokens: number;
-	};
+	usage?: OpenAIUsage;
+};
+
+/**
+ * OpenAI usage 信息
+ * cached_tokens 为自动 prompt 缓存命中的 token 数（已包含在 prompt_tokens 中）
+ */
+type OpenAIUsage = {
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+	prompt_tokens_details?: { cached_tokens?: number };
 };
 
+/**
+ * 转换为统一的 usage 格式
+ */
+function toUsage(usage: OpenAIUsage): NonNullable<AIResponse["usage"]> {
+	const cacheRead = usage.prompt_tokens_details?.cached_tokens || 0;
+	return {
+		prompt_tokens: usage.prompt_tokens,
+		completion_tokens: usage.completion_tokens,
+		total_tokens: usage.total_tokens,
+		...(cacheRead > 0 && { cache_read_tokens: cacheRead }),
+	};
+}
+
 /**
  * OpenAI 客户端
  */
@@ -67,6 +89,18 @@ export class OpenAIClient implements IAIClient {
 		return { ...this.config };
 	}
 
+	/**
+	 * 附加模型配置的生成参数（未配置时使用 API 默认值）
+	 */
+	private applyGenerationParams(body: Record<string, unknown>): void {
+		if (this.config.maxOutputTokens !== undefined) {
+			body.max_tokens = this.config.maxOutputTokens;
+		}
+		if (this.config.temperature !== undefined) {
+			body.temperature = this.config.temperature;
+		}
+	}
+
 	async chat(
 		messages: ChatMessage[],
 		tools?: OpenAITool[],
@@ -81,6 +115,8 @@ export class OpenAIClient implements IAIClient {
 			messages: toOpenAIMessages(messages),
 		};
 
+		this.applyGenerationParams(body);
+
 		if (tools && tools.length > 0) {
 			body.tools = tools;
 			body.tool_choice = "auto";
@@ -92,11 +128,8 @@ export class OpenAIClient implements IAIClient {
 			Object.assign(body, thinkingParams);
 		}
 
-		let lastError: Error | null = null;
-		const maxRetries = this.config.maxRetries || 3;
-
-		for (let attempt = 0; attempt < maxRetries; attempt++) {
-			try {
+		return withRetry(
+			async () => {
 				const controller = new AbortController();
 				const timeoutId = setTimeout(
 					() => controller.abort(),
@@ -116,30 +149,14 @@ export class OpenAIClient implements IAIClient {
 				clearTimeout(timeoutId);
 
 				if (!response.ok) {
-					const errorText = await response.text();
-					throw new Error(
-						`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
-					);
+					throw await createHttpError("OpenAI", response);
 				}
 
 				const data = (await response.json()) as OpenAIAPIResponse;
 				return this.parseResponse(data);
-			} catch (error) {
-				lastError = error instanceof Error ? error : new Error(String(error));
-
-				// 如果是最后一次尝试或者是中止错误，直接抛出
-				if (attempt === maxRetries - 1 || lastError.name === "AbortError") {
-					throw lastError;
-				}
-
-				// 等待后重试
-				await new Promise((resolve) =>
-					setTimeout(resolve, Math.pow(2, attempt) * 1000),
-				);
-			}
-		}
-
-		throw lastError || new Error("Unknown error");
+			},
+			{ maxRetries: this.config.maxRetries || 3 },
+		);
 	}
 
 	private parseResponse(data: OpenAIAPIResponse): AIResponse {
@@ -164,7 +181,7 @@ export class OpenAIClient implements IAIClient {
 		return {
 			message,
 			finish_reason: finishReason,
-			usage: data.usage,
+			usage: data.usage && toUsage(data.usage),
 		};
 	}
 
@@ -209,6 +226,8 @@ export class OpenAIClient implements IAIClient {
 			stream_options: { include_usage: true }, // 请求在流结束时返回 usage
 		};
 
+		this.applyGenerationParams(body);
+
 		if (tools && tools.length > 0) {
 			body.tools = tools;
 			body.tool_choice = "auto";
@@ -264,25 +283,27 @@ export class OpenAIClient implements IAIClient {
 		};
 
 		try {
-			const response = await fetch(url, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${this.config.apiKey}`,
-					"Content-Type": "application/json",
+			const response = await withRetry(
+				async () => {
+					const res = await fetch(url, {
+						method: "POST",
+						headers: {
+							Authorization: `Bearer ${this.config.apiKey}`,
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify(body),
+						signal: timeoutController.signal,
+					});
+					if (!res.ok) {
+						throw await createHttpError("OpenAI", res);
+					}
+					return res;
 				},
-				body: JSON.stringify(body),
-				signal: timeoutController.signal,
-			});
+				{ maxRetries: this.config.maxRetries || 3, signal: externalSignal },
+			);
 
 			clearTimeout(connectionTimeoutId);
 
-			if (!response.ok) {
-				const errorText = await response.text();
-				throw new Error(
-					`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
-				);
-			}
-
 			if (!response.body) {
 				throw new Error("Response body is null");
 			}
@@ -304,13 +325,7 @@ export class OpenAIClient implements IAIClient {
 			// 跟踪是否已经 yield 过带 finish_reason 的 chunk
 			let hasYieldedFinish = false;
 			// 跟踪 usage 信息（OpenAI 在启用 stream_options 时会在流结束时返回）
-			let streamUsage:
-				| {
-						prompt_tokens: number;
-						completion_tokens: number;
-						total_tokens: number;
-				  }
-				| undefined;
+			let streamUsage: AIStreamChunk["usage"];
 
 			// 开始流式读取，启动活动超时
 			resetActivityTimeout();
@@ -352,7 +367,7 @@ export class OpenAIClient implements IAIClient {
 						// 情况1: 最终 chunk 只有 usage，没有 choices
 						// 情况2: 最后一个有 choices 的 chunk 同时包含 usage
 						if (chunk.usage) {
-							streamUsage = chunk.usage;
+							streamUsage = toUsage(chunk.usage);
 						}
 
 						if (!chunk.choices?.length) continue;
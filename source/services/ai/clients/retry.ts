@@ -0,0 +1,75 @@
+/**
+ * 客户端请求重试
+ * 只重试可恢复的错误（限流、过载、网络错误），优先使用服务端的 Retry-After
+ */
+
+import { AIRequestError, getErrorKind, isAbortError } from "../errors.js";
+
+// Retry-After 等待上限，避免服务端要求过长等待时卡住会话
+const MAX_RETRY_AFTER_MS = 60000;
+
+export type RetryOptions = {
+	/** 最大尝试次数（包含首次请求） */
+	maxRetries: number;
+	/** 外部中止信号（等待重试期间也会响应） */
+	signal?: AbortSignal;
+};
+
+/**
+ * 计算第 attempt 次失败后的等待时间
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+	if (error instanceof AIRequestError && error.retryAfterMs !== undefined) {
+		return Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS);
+	}
+	return Math.pow(2, attempt) * 1000;
+}
+
+/**
+ * 可中止的等待
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException("Request was aborted", "AbortError"));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(new DOMException("Request was aborted", "AbortError"));
+		};
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * 执行请求，失败时按错误类型决定是否重试
+ */
+export async function withRetry<T>(
+	request: () => Promise<T>,
+	options: RetryOptions,
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await request();
+		} catch (error) {
+			const lastError =
+				error instanceof Error ? error : new Error(String(error));
+
+			// 最后一次尝试、中止或不可重试的错误直接抛出
+			if (
+				attempt >= options.maxRetries - 1 ||
+				isAbortError(lastError) ||
+				getErrorKind(lastError) !== "retryable"
+			) {
+				throw lastError;
+			}
+
+			await sleep(getRetryDelay(lastError, attempt), options.signal);
+		}
+	}
+}
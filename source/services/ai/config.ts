@@ -8,6 +8,7 @@ import {
 	getModelById,
 	getDefaultModel,
 	type ModelConfig,
+	type ApiProtocol,
 } from "../../constants/models.js";
 import {
 	getCurrentModelId,
@@ -64,7 +65,7 @@ export function getModelApiConfig(model: ModelConfig): {
 	baseUrl: string;
 	apiKey?: string;
 	apiModel: string;
-	protocol: "openai" | "anthropic";
+	protocol: ApiProtocol;
 } | null {
 	const apiConfig = getModelApiConfigFromConfig(model.model);
 	if (!apiConfig) {
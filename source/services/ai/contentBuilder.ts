@@ -3,10 +3,14 @@
  * 组装用户消息和文件内容，处理 @ 符号转换
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
 import type { FileReference } from "../../models/input.js";
+import type { ImageContent } from "./types.js";
 import { readFileContents, formatFilesAsXml } from "./fileReader.js";
 import {
 	estimateTokens,
+	estimateImagesTokens,
 	truncateFilesProportionally,
 } from "./tokenEstimator.js";
 
@@ -16,6 +20,8 @@ import {
 export type ContentBuildResult = {
 	/** 最终发送给 AI 的内容 */
 	content: string;
+	/** 随消息发送的图片（@选择 的图片文件） */
+	images: ImageContent[];
 	/** 是否有文件被截断 */
 	wasTruncated: boolean;
 	/** 截断提示信息（如果有截断） */
@@ -70,6 +76,7 @@ export async function buildMessageContent(
 		const estimatedTokens = estimateTokens(userMessage);
 		return {
 			content: userMessage,
+			images: [],
 			wasTruncated: false,
 			truncationNotice: "",
 			fileSummary: "",
@@ -84,12 +91,15 @@ export async function buildMessageContent(
 	// 2. 转换用户消息（移除 @ 符号，改为文字描述）
 	const transformedMessage = transformUserMessage(userMessage, fileRefs);
 
-	// 3. 估算用户消息的 token
+	// 3. 估算用户消息和图片的 token（图片不截断）
 	const messageTokens = estimateTokens(transformedMessage);
+	const imageTokens = estimateImagesTokens(
+		readResult.files.flatMap((f) => (f.image ? [f.image] : [])),
+	);
 
-	// 文件可用的 token = 可用空间 - 消息 token - 缓冲
+	// 文件可用的 token = 可用空间 - 消息 token - 图片 token - 缓冲
 	// 注意：availableTokens 已经预留了响应空间（25%），不需要再减去 reserveForResponse
-	const availableForFiles = availableTokens - messageTokens - 500;
+	const availableForFiles = availableTokens - messageTokens - imageTokens - 500;
 
 	// 4. 检查是否需要截断
 	let wasTruncated = false;
@@ -98,11 +108,12 @@ export async function buildMessageContent(
 		path: string;
 		content: string;
 		isDirectory: boolean;
+		image?: ImageContent;
 		error?: string;
 	}>;
 
 	const fileContentsForCheck = readResult.files
-		.filter((f) => !f.error)
+		.filter((f) => !f.error && !f.image)
 		.map((f) => ({ path: f.path, content: f.content }));
 
 	const totalFileTokens = fileContentsForCheck.reduce(
@@ -117,6 +128,7 @@ export async function buildMessageContent(
 		processedFiles = readResult.files.map((f) => ({
 			...f,
 			content: "[Content omitted due to context limit]",
+			image: undefined,
 		}));
 	} else if (totalFileTokens > availableForFiles) {
 		// 需要截断
@@ -136,7 +148,7 @@ export async function buildMessageContent(
 
 		// 合并截断后的文件和有错误的文件
 		processedFiles = readResult.files.map((f) => {
-			if (f.error) {
+			if (f.error || f.image) {
 				return f;
 			}
 			const truncated = truncatedFiles.find((tf) => tf.path === f.path);
@@ -156,9 +168,11 @@ export async function buildMessageContent(
 			content: f.content,
 			size: f.content.length,
 			isDirectory: f.isDirectory,
+			image: f.image,
 			error: f.error,
 		})),
 	);
+	const images = processedFiles.flatMap((f) => (f.image ? [f.image] : []));
 
 	// 6. 生成文件摘要
 	const fileNames = fileRefs.map((f) => f.path.split(/[/\\]/).pop()).join(", ");
@@ -168,10 +182,12 @@ export async function buildMessageContent(
 	const finalContent = `${xmlContent}\n\n${transformedMessage}`;
 
 	// 估算最终内容的 token 数
-	const estimatedTokens = estimateTokens(finalContent);
+	const estimatedTokens =
+		estimateTokens(finalContent) + estimateImagesTokens(images);
 
 	return {
 		content: finalContent,
+		images,
 		wasTruncated,
 		truncationNotice,
 		fileSummary,
@@ -212,3 +228,32 @@ export function transformUserMessage(
 
 	return result;
 }
+
+/**
+ * 从消息文本中提取 @ 引用的文件（用于重新发送历史消息）
+ * 历史消息只保存了文本，只保留仍然存在的路径
+ *
+ * @param message 用户原始消息（包含 @path）
+ * @param cwd 当前工作目录
+ * @returns 文件引用列表
+ */
+export function extractFileReferences(
+	message: string,
+	cwd: string,
+): FileReference[] {
+	const files: FileReference[] = [];
+	for (const match of message.matchAll(/(?:^|\s)@(\S+)/g)) {
+		// 目录选择时可能带尾部分隔符
+		const filePath = match[1]!.replace(/[/\\]+$/, "");
+		if (!filePath || files.some((f) => f.path === filePath)) {
+			continue;
+		}
+		try {
+			const stat = fs.statSync(path.resolve(cwd, filePath));
+			files.push({ path: filePath, isDirectory: stat.isDirectory() });
+		} catch {
+			// 不是文件路径（如邮箱、@提及）或文件已删除
+		}
+	}
+	return files;
+}
@@ -0,0 +1,239 @@
+/**
+ * 模型用量与费用统计
+ *
+ * 每次请求的 token 用量和按模型价格计算的费用追加到
+ * ~/.axiomate/usage.jsonl，按会话、模型和日期汇总（/cost、每日预算）
+ */
+
+import { getUsagePath } from "../../utils/appdata.js";
+import type { ModelPricing } from "../../utils/config.js";
+import {
+	appendJsonlRecord,
+	loadJsonlRecords,
+} from "../../utils/jsonlRecords.js";
+import { logger } from "../../utils/logger.js";
+import type { TokenUsage } from "./session.js";
+
+/**
+ * 今日费用达到预算的此比例时警告
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * 单次请求的用量记录
+ */
+export type UsageRecord = {
+	timestamp: number;
+	/** 模型 ID */
+	model: string;
+	sessionId?: string;
+	/** 输入 token（包含缓存读写） */
+	promptTokens: number;
+	completionTokens: number;
+	cacheReadTokens: number;
+	cacheCreationTokens: number;
+	/** 费用（美元） */
+	cost: number;
+};
+
+/**
+ * 用量合计
+ */
+export type UsageTotals = {
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	cacheReadTokens: number;
+	cacheCreationTokens: number;
+	cost: number;
+};
+
+/**
+ * 用量汇总
+ */
+export type UsageSummary = {
+	total: UsageTotals;
+	/** 按费用降序 */
+	byModel: Array<UsageTotals & { model: string }>;
+	/** 按日期降序（本地时间 YYYY-MM-DD） */
+	byDay: Array<UsageTotals & { day: string }>;
+};
+
+/**
+ * 每日预算状态
+ */
+export type BudgetStatus = {
+	state: "ok" | "warning" | "exceeded";
+	/** 今日已花费（美元） */
+	spent: number;
+	budget: number;
+};
+
+/**
+ * 按模型价格计算一次请求的费用（美元）
+ * prompt_tokens 已包含缓存读写的 token，需要分开计价
+ */
+export function calculateCost(
+	usage: TokenUsage,
+	pricing: ModelPricing | undefined,
+): number {
+	if (!pricing) {
+		return 0;
+	}
+	const cacheRead = usage.cache_read_tokens ?? 0;
+	const cacheWrite = usage.cache_creation_tokens ?? 0;
+	const uncachedInput = Math.max(
+		0,
+		usage.prompt_tokens - cacheRead - cacheWrite,
+	);
+	return (
+		(uncachedInput * pricing.input +
+			cacheRead * (pricing.cacheRead ?? pricing.input) +
+			cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+			usage.completion_tokens * pricing.output) /
+		1_000_000
+	);
+}
+
+/**
+ * 追加一条用量记录（出错只记录日志，不抛出）
+ */
+export function recordUsage(
+	record: UsageRecord,
+	file: string = getUsagePath(),
+): void {
+	try {
+		appendJsonlRecord(file, record);
+	} catch (error) {
+		logger.warn("Failed to record usage", {
+			path: file,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * 加载 timestamp >= since 的记录（跳过损坏的行）
+ */
+export function loadUsageRecords(
+	since: number = 0,
+	file: string = getUsagePath(),
+): UsageRecord[] {
+	return loadJsonlRecords<UsageRecord>(file, since);
+}
+
+/**
+ * 获取本地时间当天 0 点的时间戳
+ */
+export function getDayStart(now = Date.now()): number {
+	const date = new Date(now);
+	date.setHours(0, 0, 0, 0);
+	return date.getTime();
+}
+
+/**
+ * 格式化为本地日期 YYYY-MM-DD
+ */
+export function formatDay(timestamp: number): string {
+	const date = new Date(timestamp);
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function emptyTotals(): UsageTotals {
+	return {
+		requests: 0,
+		promptTokens: 0,
+		completionTokens: 0,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		cost: 0,
+	};
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+	totals.requests++;
+	totals.promptTokens += record.promptTokens;
+	totals.completionTokens += record.completionTokens;
+	totals.cacheReadTokens += record.cacheReadTokens;
+	totals.cacheCreationTokens += record.cacheCreationTokens;
+	totals.cost += record.cost;
+}
+
+/**
+ * 汇总用量记录
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+	const total = emptyTotals();
+	const byModel = new Map<string, UsageTotals>();
+	const byDay = new Map<string, UsageTotals>();
+
+	for (const record of records) {
+		addRecord(total, record);
+		for (const [groups, key] of [
+			[byModel, record.model],
+			[byDay, formatDay(record.timestamp)],
+		] as const) {
+			let totals = groups.get(key);
+			if (!totals) {
+				totals = emptyTotals();
+				groups.set(key, totals);
+			}
+			addRecord(totals, record);
+		}
+	}
+
+	return {
+		total,
+		byModel: [...byModel]
+			.map(([model, totals]) => ({ model, ...totals }))
+			.sort((a, b) => b.cost - a.cost || a.model.localeCompare(b.model)),
+		byDay: [...byDay]
+			.map(([day, totals]) => ({ day, ...totals }))
+			.sort((a, b) => b.day.localeCompare(a.day)),
+	};
+}
+
+/**
+ * 获取今日费用
+ */
+export function getTodayCost(
+	file: string = getUsagePath(),
+	now = Date.now(),
+): number {
+	return loadUsageRecords(getDayStart(now), file).reduce(
+		(sum, record) => sum + record.cost,
+		0,
+	);
+}
+
+/**
+ * 检查每日预算（未设置预算时返回 null）
+ */
+export function checkDailyBudget(
+	budget: number | undefined,
+	file: string = getUsagePath(),
+	now = Date.now(),
+): BudgetStatus | null {
+	if (budget === undefined) {
+		return null;
+	}
+	const spent = getTodayCost(file, now);
+	const state =
+		spent >= budget
+			? "exceeded"
+			: spent >= budget * BUDGET_WARNING_RATIO
+				? "warning"
+				: "ok";
+	return { state, spent, budget };
+}
+
+/**
+ * 格式化费用（小额保留更多小数位）
+ */
+export function formatCost(cost: number): string {
+	return cost > 0 && cost < 0.01
+		? `$${cost.toFixed(4)}`
+		: `$${cost.toFixed(2)}`;
+}
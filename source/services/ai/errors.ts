@@ -0,0 +1,156 @@
+/**
+ * AI 请求错误分类
+ * 区分可重试错误、认证错误、上下文超限和内容过滤，供重试、模型回退和自动 compact 使用
+ */
+
+/**
+ * 错误类型
+ * - retryable: 限流、过载、服务端错误，稍后重试可能成功
+ * - auth: API key 无效或无权限，重试无意义
+ * - context_length: 请求超出模型上下文窗口，需要 compact 后重试
+ * - content_filter: 内容被安全策略拦截
+ * - other: 其他请求错误（如参数错误）
+ */
+export type AIErrorKind =
+	"retryable" | "auth" | "context_length" | "content_filter" | "other";
+
+/**
+ * AI 请求错误（携带分类和服务端建议的重试等待时间）
+ */
+export class AIRequestError extends Error {
+	readonly kind: AIErrorKind;
+	readonly status?: number;
+	/** 服务端通过 Retry-After 建议的等待时间（毫秒） */
+	readonly retryAfterMs?: number;
+
+	constructor(
+		message: string,
+		kind: AIErrorKind,
+		options?: { status?: number; retryAfterMs?: number },
+	) {
+		super(message);
+		this.name = "AIRequestError";
+		this.kind = kind;
+		this.status = options?.status;
+		this.retryAfterMs = options?.retryAfterMs;
+	}
+}
+
+// 各服务商的上下文超限错误描述
+const CONTEXT_LENGTH_PATTERNS = [
+	/context[_ ]length/i,
+	/context window/i,
+	/maximum context/i,
+	/prompt is too long/i,
+	/input is too long/i,
+	/too many tokens/i,
+	/exceeds the maximum number of tokens/i,
+];
+
+// 各服务商的内容过滤错误描述
+const CONTENT_FILTER_PATTERNS = [
+	/content[_ ]?(filter|policy|management)/i,
+	/safety/i,
+	/moderation/i,
+];
+
+// 限流、超时和服务端过载（529 为 Anthropic overloaded）
+const RETRYABLE_STATUSES = new Set([
+	408, 409, 425, 429, 500, 502, 503, 504, 529,
+]);
+
+/**
+ * 根据 HTTP 状态码和响应内容对错误分类
+ * 状态码优先：限流和服务端错误的描述里也可能出现 tokens、safety 等字样，
+ * 上下文超限的描述只在 400/413 响应中识别
+ */
+export function classifyHttpError(status: number, body: string): AIErrorKind {
+	if (status === 401 || status === 403) {
+		return "auth";
+	}
+	if (RETRYABLE_STATUSES.has(status) || status >= 500) {
+		return "retryable";
+	}
+	if (
+		status === 413 ||
+		(status === 400 &&
+			CONTEXT_LENGTH_PATTERNS.some((pattern) => pattern.test(body)))
+	) {
+		return "context_length";
+	}
+	if (CONTENT_FILTER_PATTERNS.some((pattern) => pattern.test(body))) {
+		return "content_filter";
+	}
+	return "other";
+}
+
+/**
+ * 解析 Retry-After 响应头（支持秒数、HTTP 日期和毫秒扩展头）
+ */
+export function parseRetryAfter(
+	headers: Pick<Headers, "get"> | undefined,
+): number | undefined {
+	const ms = headers?.get("retry-after-ms");
+	if (ms && !Number.isNaN(Number(ms))) {
+		return Math.max(0, Number(ms));
+	}
+
+	const value = headers?.get("retry-after");
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+	return undefined;
+}
+
+/**
+ * 根据失败的 HTTP 响应创建分类后的错误
+ */
+export async function createHttpError(
+	provider: string,
+	response: Response,
+): Promise<AIRequestError> {
+	const errorText = await response.text();
+	return new AIRequestError(
+		`${provider} API error: ${response.status} ${response.statusText} - ${errorText}`,
+		classifyHttpError(response.status, errorText),
+		{
+			status: response.status,
+			retryAfterMs: parseRetryAfter(response.headers),
+		},
+	);
+}
+
+/**
+ * 获取错误类型（网络错误等未分类错误视为可重试）
+ */
+export function getErrorKind(error: unknown): AIErrorKind {
+	if (error instanceof AIRequestError) {
+		return error.kind;
+	}
+	if (error instanceof Error && error.name === "AbortError") {
+		return "other";
+	}
+	return "retryable";
+}
+
+/**
+ * 是否为用户中止或超时导致的错误
+ */
+export function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * 是否为上下文超限错误
+ */
+export function isContextLengthError(error: unknown): boolean {
+	return getErrorKind(error) === "context_length";
+}
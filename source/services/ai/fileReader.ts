@@ -1,11 +1,14 @@
 /**
  * 文件读取器
  * 读取用户 @选择 的文件内容，格式化为 XML 标签
+ * 图片文件读取为 base64，作为图片附加到消息中
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { FileReference } from "../../models/input.js";
+import type { ImageContent } from "./types.js";
+import { isImageFile, readImageFile } from "./imageReader.js";
 
 /**
  * 读取后的文件内容
@@ -19,6 +22,8 @@ export type FileContent = {
 	size: number;
 	/** 是否目录 */
 	isDirectory: boolean;
+	/** 图片内容（图片文件，content 为空） */
+	image?: ImageContent;
 	/** 错误信息（如果读取失败） */
 	error?: string;
 };
@@ -68,6 +73,18 @@ export async function readFileContents(
 					isDirectory: true,
 				});
 				result.totalSize += content.length;
+			} else if (isImageFile(fullPath)) {
+				// 图片：读取为 base64
+				const image = await readImageFile(fullPath);
+				const size = Buffer.byteLength(image.data, "base64");
+				result.files.push({
+					path: file.path,
+					content: "",
+					size,
+					isDirectory: false,
+					image,
+				});
+				result.totalSize += size;
 			} else {
 				// 文件：读取内容
 				const stat = await fs.promises.stat(fullPath);
@@ -115,6 +132,11 @@ export function formatFilesAsXml(files: FileContent[]): string {
 			parts.push(
 				`<directory path="${escapeXmlAttr(file.path)}">${escapeXmlContent(file.content)}</directory>`,
 			);
+		} else if (file.image) {
+			// 图片（内容作为图片附加，这里只标注路径和尺寸）
+			parts.push(
+				`<image path="${escapeXmlAttr(file.path)}" width="${file.image.width}" height="${file.image.height}" />`,
+			);
 		} else {
 			// 文件
 			parts.push(
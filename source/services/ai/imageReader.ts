@@ -0,0 +1,210 @@
+/**
+ * 图片读取器
+ * 识别 @选择 的图片文件，读取为 base64 并从文件头解析尺寸（不依赖图片处理库）
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ImageContent } from "./types.js";
+
+/**
+ * 单张图片的最大字节数（base64 编码后约 5MB，即 Anthropic 的单图上限）
+ */
+export const MAX_IMAGE_BYTES = 3.75 * 1024 * 1024;
+
+/**
+ * 图片任一边的最大像素（超过时服务端拒绝，更小的图片由服务端自动缩放）
+ */
+export const MAX_IMAGE_DIMENSION = 8000;
+
+/**
+ * 支持的图片格式（各协议共同支持的格式）
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+};
+
+/**
+ * 根据扩展名获取图片 MIME 类型（非图片返回 undefined）
+ */
+export function getImageMimeType(filePath: string): string | undefined {
+	return IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * 是否为支持的图片文件
+ */
+export function isImageFile(filePath: string): boolean {
+	return getImageMimeType(filePath) !== undefined;
+}
+
+/**
+ * 图片尺寸
+ */
+export type ImageSize = {
+	width: number;
+	height: number;
+};
+
+/**
+ * 解析 JPEG 尺寸（查找 SOF 段）
+ */
+function getJpegSize(buffer: Buffer): ImageSize | null {
+	let offset = 2;
+	while (offset + 9 <= buffer.length) {
+		if (buffer[offset] !== 0xff) {
+			return null;
+		}
+		const marker = buffer[offset + 1]!;
+		// 填充字节
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		// 无长度字段的标记（RST、SOI、TEM）
+		if ((marker >= 0xd0 && marker <= 0xd8) || marker === 0x01) {
+			offset += 2;
+			continue;
+		}
+		// SOF0-SOF15（排除 DHT、JPG、DAC）
+		if (
+			marker >= 0xc0 &&
+			marker <= 0xcf &&
+			marker !== 0xc4 &&
+			marker !== 0xc8 &&
+			marker !== 0xcc
+		) {
+			return {
+				height: buffer.readUInt16BE(offset + 5),
+				width: buffer.readUInt16BE(offset + 7),
+			};
+		}
+		offset += 2 + buffer.readUInt16BE(offset + 2);
+	}
+	return null;
+}
+
+/**
+ * 解析 WebP 尺寸（VP8 有损、VP8L 无损、VP8X 扩展格式）
+ */
+function getWebpSize(buffer: Buffer): ImageSize | null {
+	if (
+		buffer.length < 30 ||
+		buffer.toString("ascii", 0, 4) !== "RIFF" ||
+		buffer.toString("ascii", 8, 12) !== "WEBP"
+	) {
+		return null;
+	}
+	switch (buffer.toString("ascii", 12, 16)) {
+		case "VP8 ":
+			return {
+				width: buffer.readUInt16LE(26) & 0x3fff,
+				height: buffer.readUInt16LE(28) & 0x3fff,
+			};
+		case "VP8L": {
+			const bits = buffer.readUInt32LE(21);
+			return {
+				width: (bits & 0x3fff) + 1,
+				height: ((bits >> 14) & 0x3fff) + 1,
+			};
+		}
+		case "VP8X":
+			return {
+				width: buffer.readUIntLE(24, 3) + 1,
+				height: buffer.readUIntLE(27, 3) + 1,
+			};
+		default:
+			return null;
+	}
+}
+
+/**
+ * 从文件头解析图片尺寸（无法识别时返回 null）
+ */
+export function getImageSize(
+	buffer: Buffer,
+	mimeType: string,
+): ImageSize | null {
+	switch (mimeType) {
+		case "image/png":
+			if (
+				buffer.length < 24 ||
+				buffer.readUInt32BE(0) !== 0x89504e47 ||
+				buffer.toString("ascii", 12, 16) !== "IHDR"
+			) {
+				return null;
+			}
+			return {
+				width: buffer.readUInt32BE(16),
+				height: buffer.readUInt32BE(20),
+			};
+		case "image/gif":
+			if (buffer.length < 10 || buffer.toString("ascii", 0, 4) !== "GIF8") {
+				return null;
+			}
+			return {
+				width: buffer.readUInt16LE(6),
+				height: buffer.readUInt16LE(8),
+			};
+		case "image/jpeg":
+			if (buffer.length < 4 || buffer.readUInt16BE(0) !== 0xffd8) {
+				return null;
+			}
+			return getJpegSize(buffer);
+		case "image/webp":
+			return getWebpSize(buffer);
+		default:
+			return null;
+	}
+}
+
+/**
+ * 格式化字节数为 MB
+ */
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * 读取图片文件
+ * @param fullPath 图片绝对路径
+ * @returns 图片内容
+ * @throws 格式不支持、文件损坏或超过大小限制时抛出（不做缩放，错误信息提示如何缩小图片）
+ */
+export async function readImageFile(fullPath: string): Promise<ImageContent> {
+	const mimeType = getImageMimeType(fullPath);
+	if (!mimeType) {
+		throw new Error(`Unsupported image format: ${path.extname(fullPath)}`);
+	}
+
+	const stat = await fs.promises.stat(fullPath);
+	if (stat.size > MAX_IMAGE_BYTES) {
+		throw new Error(
+			`Image too large: ${formatMegabytes(stat.size)} (max ${formatMegabytes(MAX_IMAGE_BYTES)}). ` +
+				"Reduce its resolution or re-save it as a compressed JPEG/WebP, then attach it again",
+		);
+	}
+
+	const buffer = await fs.promises.readFile(fullPath);
+	const size = getImageSize(buffer, mimeType);
+	if (!size || size.width === 0 || size.height === 0) {
+		throw new Error(`Invalid or corrupted image (${mimeType})`);
+	}
+	if (size.width > MAX_IMAGE_DIMENSION || size.height > MAX_IMAGE_DIMENSION) {
+		throw new Error(
+			`Image too large: ${size.width}x${size.height} pixels (max ${MAX_IMAGE_DIMENSION}x${MAX_IMAGE_DIMENSION}). ` +
+				`Resize it so both sides are at most ${MAX_IMAGE_DIMENSION} pixels, then attach it again`,
+		);
+	}
+
+	return {
+		mimeType,
+		data: buffer.toString("base64"),
+		width: size.width,
+		height: size.height,
+	};
+}
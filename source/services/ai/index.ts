@@ -7,6 +7,7 @@ export type {
 	// 消息类型
 	MessageRole,
 	ChatMessage,
+	ImageContent,
 	ToolCall,
 	AIResponse,
 	AIStreamChunk,
@@ -62,11 +63,26 @@ export {
 	buildAnthropicToolResultMessage,
 	toAnthropicMessages,
 	extractSystemMessage,
+	toGeminiTools,
+	toGeminiContents,
+	parseGeminiParts,
+	toOllamaMessages,
+	parseOllamaToolCalls,
 } from "./adapters/index.js";
 
 // 客户端导出
 export { OpenAIClient } from "./clients/openai.js";
 export { AnthropicClient } from "./clients/anthropic.js";
+export { GeminiClient } from "./clients/gemini.js";
+export { OllamaClient } from "./clients/ollama.js";
+
+// 错误分类
+export {
+	AIRequestError,
+	classifyHttpError,
+	isContextLengthError,
+	type AIErrorKind,
+} from "./errors.js";
 
 // 工具调用处理器
 export { ToolCallHandler, createToolCallHandler } from "./tool-call-handler.js";
@@ -102,13 +118,16 @@ import type { IToolRegistry } from "../tools/types.js";
 import type { IAIClient, IAIService } from "./types.js";
 import { OpenAIClient } from "./clients/openai.js";
 import { AnthropicClient } from "./clients/anthropic.js";
+import { GeminiClient } from "./clients/gemini.js";
+import { OllamaClient } from "./clients/ollama.js";
 import { AIService } from "./service.js";
 import {
 	getCurrentModel,
 	getModelApiConfig,
 	isApiConfigValid,
 } from "./config.js";
-import type { ModelConfig } from "../../constants/models.js";
+import { getModelById, type ModelConfig } from "../../constants/models.js";
+import { getToolConcurrency, modelSupportsVision } from "../../utils/config.js";
 
 /**
  * 根据模型配置创建 AI 客户端
@@ -126,30 +145,49 @@ export function createAIClient(model: ModelConfig): IAIClient | null {
 		apiKey: apiConfig.apiKey,
 		model: apiConfig.apiModel,
 		baseUrl: apiConfig.baseUrl,
+		maxOutputTokens: model.maxOutputTokens,
+		temperature: model.temperature,
+		promptCaching: model.promptCaching,
 	};
 
 	switch (apiConfig.protocol) {
 		case "anthropic":
 			return new AnthropicClient(clientConfig);
+		case "gemini":
+			return new GeminiClient(clientConfig);
+		case "ollama":
+			return new OllamaClient(clientConfig);
 		case "openai":
 		default:
 			return new OpenAIClient(clientConfig);
 	}
 }
 
+/**
+ * 创建 AI 服务时的覆盖选项（不写入配置文件）
+ */
+export type AIServiceOverrides = {
+	/** 使用指定模型代替当前模型 */
+	model?: ModelConfig;
+	/** 最大工具调用轮数 */
+	maxToolCallRounds?: number;
+};
+
 /**
  * 创建 AI 服务实例（使用当前配置）
  *
+ * @param overrides 可选覆盖项（如无头模式的 --model / --max-tool-rounds）
  * @returns AI 服务实例，如果配置无效则返回 null
  */
 export function createAIServiceFromConfig(
 	registry: IToolRegistry,
+	overrides?: AIServiceOverrides,
 ): IAIService | null {
-	if (!isApiConfigValid()) {
+	if (!overrides?.model && !isApiConfigValid()) {
 		return null;
 	}
 
-	const model = getCurrentModel();
+	const model = overrides?.model ?? getCurrentModel();
 	// 没有配置模型（首次启动前或配置损坏）
 	if (!model) {
 		return null;
@@ -167,9 +205,18 @@ export function createAIServiceFromConfig(
 			client,
 			// 根据模型能力调整配置
 			contextAwareEnabled: model.supportsTools,
-			maxToolCallRounds: 40,
+			maxToolCallRounds: overrides?.maxToolCallRounds ?? 40,
 			// 使用模型的上下文窗口大小
 			contextWindow: model.contextWindow,
+			toolConcurrency: getToolConcurrency(),
+			// 自定义命令可为单条消息指定模型
+			createClient: (modelId) => {
+				const override = getModelById(modelId);
+				return override ? createAIClient(override) : null;
+			},
+			fallbackModels: model.fallbackModels,
+			getPricing: (modelId) => getModelById(modelId)?.pricing,
+			supportsVision: modelSupportsVision,
 		},
 		registry,
 	);
@@ -4,6 +4,7 @@
  */
 
 import type { FileReference } from "../../models/input.js";
+import type { ToolOutputEvent } from "./types.js";
 
 /**
  * 队列中的消息
@@ -19,6 +20,18 @@ export type QueuedMessage = {
 	createdAt: number;
 	/** Plan mode snapshot (captured at enqueue time) */
 	planMode: boolean;
+	/** 仅对本条消息生效的覆盖项（来自自定义命令） */
+	overrides?: MessageOverrides;
+};
+
+/**
+ * 单条消息的覆盖项
+ */
+export type MessageOverrides = {
+	/** 使用指定模型 ID 代替当前模型 */
+	model?: string;
+	/** 无需确认即可执行的工具权限模式 */
+	allowedTools?: string[];
 };
 
 /**
@@ -41,6 +54,8 @@ export type StreamingCallbacks = {
 	onStreamChunk?: (id: string, content: StreamContent) => void;
 	/** 流式结束 */
 	onStreamEnd?: (id: string, finalContent: StreamContent) => void;
+	/** 工具执行进度（命令运行期间的实时输出） */
+	onToolOutput?: (id: string, event: ToolOutputEvent) => void;
 };
 
 /**
@@ -66,6 +81,7 @@ export type ProcessorStreamCallbacks = {
 	onStart?: () => void;
 	onChunk?: (content: StreamContent) => void;
 	onEnd?: (finalContent: StreamContent) => void;
+	onToolOutput?: (event: ToolOutputEvent) => void;
 };
 
 /**
@@ -124,12 +140,14 @@ export class MessageQueue {
 	 * @param content 消息内容
 	 * @param files 附带的文件
 	 * @param planMode Plan mode snapshot (captured at enqueue time)
+	 * @param overrides 仅对本条消息生效的覆盖项
 	 * @returns 消息 ID
 	 */
 	enqueue(
 		content: string,
 		files: FileReference[] = [],
 		planMode: boolean = false,
+		overrides?: MessageOverrides,
 	): string {
 		// 新消息入队时重置停止状态
 		this.stopped = false;
@@ -141,6 +159,7 @@ export class MessageQueue {
 			files,
 			createdAt: Date.now(),
 			planMode,
+			overrides,
 		};
 
 		this.queue.push(message);
@@ -258,6 +277,11 @@ export class MessageQueue {
 					this.callbacks.onStreamEnd?.(message.id, finalContent);
 				}
 			},
+			onToolOutput: (event: ToolOutputEvent) => {
+				if (!this.stopped) {
+					this.callbacks.onToolOutput?.(message.id, event);
+				}
+			},
 		};
 
 		try {
@@ -15,6 +15,7 @@ import type {
 	StreamCallbacks,
 	StreamOptions,
 	AskUserCallback,
+	AIStreamChunk,
 } from "./types.js";
 import type { IToolRegistry } from "../tools/types.js";
 import type { IToolMatcher } from "./types.js";
@@ -25,10 +26,16 @@ import {
 	Session,
 	type SessionStatus,
 	type CompactCheckResult,
+	type TokenUsage,
 } from "./session.js";
 import { buildSystemPrompt } from "../../constants/prompts.js";
+import { loadMemoryFiles, formatMemory } from "../../utils/memory.js";
 import { isPlanModeEnabled } from "../../utils/config.js";
 import { estimateTokens } from "./tokenEstimator.js";
+import { getCheckpointStore } from "../tools/checkpointStore.js";
+import { isAbortError, isContextLengthError } from "./errors.js";
+import { calculateCost, recordUsage } from "./costTracker.js";
+import { getSessionStore } from "./sessionStore.js";
 
 /**
  * 默认上下文窗口大小
@@ -50,6 +57,12 @@ export type SendMessageResult = {
  */
 export class AIService implements IAIService {
 	private client: IAIClient;
+	private createClient?: (modelId: string) => IAIClient | null;
+	private fallbackModels: string[];
+	private getPricing?: AIServiceConfig["getPricing"];
+	private supportsVision?: AIServiceConfig["supportsVision"];
+	// 本次请求尚未尝试的备用模型
+	private remainingFallbacks: string[] = [];
 	private registry: IToolRegistry;
 	private matcher: IToolMatcher;
 	private toolCallHandler: ToolCallHandler;
@@ -58,12 +71,20 @@ export class AIService implements IAIService {
 	private maxToolCallRounds: number;
 	private contextAwareEnabled: boolean;
 	private contextInjected: boolean = false;
+	// 已注入到 System Prompt 的 AXIOMATE.md 记忆内容
+	private memoryContent: string = "";
 
 	constructor(config: AIServiceConfig, registry: IToolRegistry) {
 		this.client = config.client;
+		this.createClient = config.createClient;
+		this.fallbackModels = config.fallbackModels ?? [];
+		this.getPricing = config.getPricing;
+		this.supportsVision = config.supportsVision;
 		this.registry = registry;
 		this.matcher = new ToolMatcher(registry);
-		this.toolCallHandler = new ToolCallHandler(registry);
+		this.toolCallHandler = new ToolCallHandler(registry, {
+			concurrency: config.toolConcurrency,
+		});
 
 		this.maxToolCallRounds = config.maxToolCallRounds ?? 40;
 		this.contextAwareEnabled = config.contextAwareEnabled ?? true;
@@ -230,6 +251,9 @@ export class AIService implements IAIService {
 		onAskUser?: AskUserCallback,
 		displayContent?: string,
 	): Promise<string> {
+		// 模型覆盖只对本条消息生效，先解析以便在修改 session 前报错
+		const requestClient = this.resolveRequestClient(options?.modelId);
+
 		// 增强上下文
 		const enhancedContext = this.enhanceContext(context);
 
@@ -242,8 +266,16 @@ export class AIService implements IAIService {
 		// 创建检查点（在添加用户消息前）
 		const checkpoint = this.session.checkpoint();
 
+		// 开始新的文件检查点轮次（用于 /undo 和 /rewind）
+		getCheckpointStore()?.beginTurn(displayContent ?? userMessage, checkpoint);
+
 		// 添加用户消息到 Session（传递 displayContent 用于会话恢复时显示）
-		this.session.addUserMessage(userMessage, displayContent);
+		this.session.addUserMessage(
+			userMessage,
+			displayContent,
+			options?.images,
+			options?.overrides,
+		);
 
 		// 获取相关工具 (plan mode only gets plan tool)
 		const tools = this.getContextTools(enhancedContext, initialPlanMode);
@@ -251,6 +283,11 @@ export class AIService implements IAIService {
 		// 通知流式开始
 		callbacks?.onStart?.();
 
+		const defaultClient = this.client;
+		this.client = requestClient;
+		// 备用模型只用于当前模型（覆盖模型的消息不回退）
+		this.remainingFallbacks = options?.modelId ? [] : [...this.fallbackModels];
+
 		try {
 			// 使用流式 API
 			// 传入 context 以支持动态工具刷新（当 plan mode 切换时）
@@ -273,24 +310,104 @@ export class AIService implements IAIService {
 			// 其他错误回滚 session 状态
 			this.session.rollback(checkpoint);
 			throw error;
+		} finally {
+			this.client = defaultClient;
+			this.remainingFallbacks = [];
+		}
+	}
+
+	/**
+	 * 添加 assistant 消息，并按实际使用的模型记录用量和费用
+	 */
+	private addAssistantMessage(message: ChatMessage, usage?: TokenUsage): void {
+		this.session.addAssistantMessage(message, usage);
+		if (!usage) {
+			return;
 		}
+
+		const model = this.client.getConfig().model;
+		const cost = calculateCost(usage, this.getPricing?.(model));
+		this.session.addCost(cost);
+		recordUsage({
+			timestamp: Date.now(),
+			model,
+			sessionId: getSessionStore()?.getActiveSessionId() ?? undefined,
+			promptTokens: usage.prompt_tokens,
+			completionTokens: usage.completion_tokens,
+			cacheReadTokens: usage.cache_read_tokens ?? 0,
+			cacheCreationTokens: usage.cache_creation_tokens ?? 0,
+			cost,
+		});
 	}
 
 	/**
-	 * 确保上下文已注入到 System Prompt（仅首次调用时生效）
+	 * 切换到下一个可用的备用模型
+	 * 中止不切换；上下文超限换模型无济于事，交给上层 compact 后重试
+	 * 会话中有图片时跳过不支持视觉的备用模型
+	 * @returns 是否已切换
+	 */
+	private switchToFallback(
+		error: unknown,
+		callbacks?: StreamCallbacks,
+	): boolean {
+		if (isAbortError(error) || isContextLengthError(error)) {
+			return false;
+		}
+		const hasImages = this.session
+			.getHistory()
+			.some((msg) => (msg.images?.length ?? 0) > 0);
+		while (this.remainingFallbacks.length > 0) {
+			const modelId = this.remainingFallbacks.shift() as string;
+			if (hasImages && this.supportsVision?.(modelId) === false) {
+				continue;
+			}
+			const client = this.createClient?.(modelId);
+			if (!client) {
+				continue;
+			}
+			this.client = client;
+			callbacks?.onModelFallback?.(
+				modelId,
+				error instanceof Error ? error : new Error(String(error)),
+			);
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * 获取本次请求使用的客户端（未指定模型时使用当前客户端）
+	 */
+	private resolveRequestClient(modelId?: string): IAIClient {
+		if (!modelId) return this.client;
+		const client = this.createClient?.(modelId);
+		if (!client) {
+			throw new Error(`Model "${modelId}" is not configured`);
+		}
+		return client;
+	}
+
+	/**
+	 * 确保上下文已注入到 System Prompt（首次调用或记忆文件变化时生效）
 	 * @param planMode Whether plan mode is enabled (from snapshot)
 	 */
 	private ensureContextInSystemPrompt(
 		context: MatchContext,
 		planMode: boolean = false,
 	): void {
-		if (this.contextInjected) return;
-
-		// 构建带上下文的 System Prompt
+		// 记忆文件可能在会话中被修改（# 追加或手动编辑），内容变化时重新注入
+		const memory = context.cwd
+			? formatMemory(loadMemoryFiles(context.cwd))
+			: "";
+		if (this.contextInjected && memory === this.memoryContent) return;
+		this.memoryContent = memory;
+
+		// 构建带上下文的 System Prompt（token 估算由 setSystemPrompt 更新）
 		const prompt = buildSystemPrompt(
 			context.cwd,
 			context.projectType,
 			planMode,
+			memory,
 		);
 		this.session.setSystemPrompt(prompt);
 		this.contextInjected = true;
@@ -329,6 +446,7 @@ export class AIService implements IAIService {
 			: [];
 
 		// 3. 合并工具，去重
+		// 已连接 MCP server 的工具由用户显式配置，无法按项目类型或关键词匹配，总是提供
 		const toolIds = new Set<string>();
 		for (const tool of autoSelectedTools) {
 			toolIds.add(tool.id);
@@ -336,6 +454,9 @@ export class AIService implements IAIService {
 		for (const match of queryMatches.slice(0, 10)) {
 			toolIds.add(match.tool.id);
 		}
+		for (const tool of this.registry.getByCategory("mcp")) {
+			toolIds.add(tool.id);
+		}
 
 		// 4. 转换为 OpenAI 工具格式
 		const filteredTools = Array.from(toolIds)
@@ -385,13 +506,7 @@ export class AIService implements IAIService {
 		// 跟踪总内容（跨工具调用轮次）
 		let totalContent = "";
 		// 跟踪当前轮的 usage 信息（在流结束时从 chunk 中获取）
-		let lastChunkUsage:
-			| {
-					prompt_tokens: number;
-					completion_tokens: number;
-					total_tokens: number;
-			  }
-			| undefined;
+		let lastChunkUsage: AIStreamChunk["usage"];
 
 		// 设置工具定义的 token 估算（用于更准确的 token 统计）
 		const updateToolsTokenEstimate = (toolList: OpenAITool[]) => {
@@ -414,118 +529,131 @@ export class AIService implements IAIService {
 			fullContent = "";
 			let brokeForToolCall = false;
 
-			// 流式请求
-			for await (const chunk of this.client.streamChat(
-				messages,
-				tools.length > 0 ? tools : undefined,
-				options,
-			)) {
-				// 捕获 usage 信息（在流结束时的 chunk 中返回）
-				if (chunk.usage) {
-					lastChunkUsage = chunk.usage;
-				}
-
-				// 累积思考内容
-				if (chunk.delta.reasoning_content) {
-					reasoningContent += chunk.delta.reasoning_content;
-				}
-				// 累积正式内容
-				if (chunk.delta.content) {
-					fullContent += chunk.delta.content;
-				}
-				// 任何内容更新都触发回调
-				if (chunk.delta.reasoning_content || chunk.delta.content) {
-					// 发送总内容（包含之前轮次的内容）
-					callbacks?.onChunk?.({
-						reasoning: reasoningContent,
-						content: totalContent + fullContent,
-					});
-				}
-
-				// 检查是否需要执行工具
-				if (
-					chunk.finish_reason === "tool_calls" &&
-					chunk.delta.tool_calls &&
-					chunk.delta.tool_calls.length > 0
-				) {
-					// 添加 assistant 消息到 Session（包含思考内容以支持 askuser 持久化）
-					const assistantMessage: ChatMessage = {
-						role: "assistant",
-						content: fullContent,
-						reasoning_content: reasoningContent || undefined,
-						tool_calls: chunk.delta.tool_calls,
-					};
-					this.session.addAssistantMessage(assistantMessage, lastChunkUsage);
-					messages.push(assistantMessage);
-
-					// 累积本轮内容到总内容
-					if (fullContent) {
-						totalContent += fullContent + "\n";
+			// 流式请求（本轮收到内容前失败时可切换备用模型重试）
+			let receivedChunk = false;
+			try {
+				for await (const chunk of this.client.streamChat(
+					messages,
+					tools.length > 0 ? tools : undefined,
+					options,
+				)) {
+					receivedChunk = true;
+					// 捕获 usage 信息（在流结束时的 chunk 中返回）
+					if (chunk.usage) {
+						lastChunkUsage = chunk.usage;
 					}
 
-					// 重置 usage，为下一轮工具调用准备
-					lastChunkUsage = undefined;
+					// 累积思考内容
+					if (chunk.delta.reasoning_content) {
+						reasoningContent += chunk.delta.reasoning_content;
+					}
+					// 累积正式内容
+					if (chunk.delta.content) {
+						fullContent += chunk.delta.content;
+					}
+					// 任何内容更新都触发回调
+					if (chunk.delta.reasoning_content || chunk.delta.content) {
+						// 发送总内容（包含之前轮次的内容）
+						callbacks?.onChunk?.({
+							reasoning: reasoningContent,
+							content: totalContent + fullContent,
+						});
+					}
 
-					// 执行工具调用（传递 onAskUser 回调）
-					const toolResults = await this.toolCallHandler.handleToolCalls(
-						chunk.delta.tool_calls,
-						onAskUser,
-					);
+					// 检查是否需要执行工具
+					if (
+						chunk.finish_reason === "tool_calls" &&
+						chunk.delta.tool_calls &&
+						chunk.delta.tool_calls.length > 0
+					) {
+						// 添加 assistant 消息到 Session（包含思考内容以支持 askuser 持久化）
+						const assistantMessage: ChatMessage = {
+							role: "assistant",
+							content: fullContent,
+							reasoning_content: reasoningContent || undefined,
+							tool_calls: chunk.delta.tool_calls,
+						};
+						this.addAssistantMessage(assistantMessage, lastChunkUsage);
+						messages.push(assistantMessage);
+
+						// 累积本轮内容到总内容
+						if (fullContent) {
+							totalContent += fullContent + "\n";
+						}
 
-					// 添加工具结果到 Session 和消息
-					for (const result of toolResults) {
-						this.session.addToolMessage(result);
-						messages.push(result);
-					}
+						// 重置 usage，为下一轮工具调用准备
+						lastChunkUsage = undefined;
 
-					// 检查 plan mode 是否发生变化，如果变化则刷新工具列表和 system prompt
-					const newPlanMode = isPlanModeEnabled();
-					if (newPlanMode !== currentPlanMode) {
-						currentPlanMode = newPlanMode;
-						// 动态刷新工具列表
-						tools = this.getContextTools(context, currentPlanMode);
-						// 更新工具 token 估算
-						updateToolsTokenEstimate(tools);
-						// 动态更新 system prompt（让 AI 看到新模式的指导）
-						const newPrompt = buildSystemPrompt(
-							context.cwd,
-							context.projectType,
-							currentPlanMode,
+						// 执行工具调用（传递 onAskUser、权限确认、文件修改预览和执行进度回调）
+						const toolResults = await this.toolCallHandler.handleToolCalls(
+							chunk.delta.tool_calls,
+							onAskUser,
+							callbacks?.onToolPermission,
+							callbacks?.onFileChangeReview,
+							callbacks?.onToolOutput,
 						);
-						this.session.setSystemPrompt(newPrompt);
-						// 同时更新 messages 数组的第一个元素（system prompt）
-						// 因为 messages 是快照，需要手动同步
-						if (messages.length > 0 && messages[0]?.role === "system") {
-							messages[0] = { role: "system", content: newPrompt };
+
+						// 添加工具结果到 Session 和消息
+						for (const result of toolResults) {
+							this.session.addToolMessage(result);
+							messages.push(result);
+						}
+
+						// 检查 plan mode 是否发生变化，如果变化则刷新工具列表和 system prompt
+						const newPlanMode = isPlanModeEnabled();
+						if (newPlanMode !== currentPlanMode) {
+							currentPlanMode = newPlanMode;
+							// 动态刷新工具列表
+							tools = this.getContextTools(context, currentPlanMode);
+							// 更新工具 token 估算
+							updateToolsTokenEstimate(tools);
+							// 动态更新 system prompt（让 AI 看到新模式的指导）
+							const newPrompt = buildSystemPrompt(
+								context.cwd,
+								context.projectType,
+								currentPlanMode,
+								this.memoryContent,
+							);
+							this.session.setSystemPrompt(newPrompt);
+							// 同时更新 messages 数组的第一个元素（system prompt）
+							// 因为 messages 是快照，需要手动同步
+							if (messages.length > 0 && messages[0]?.role === "system") {
+								messages[0] = { role: "system", content: newPrompt };
+							}
 						}
+
+						rounds++;
+						brokeForToolCall = true;
+						break;
 					}
 
-					rounds++;
-					brokeForToolCall = true;
-					break;
+					// 正常结束
+					if (
+						chunk.finish_reason === "stop" ||
+						chunk.finish_reason === "eos" ||
+						chunk.finish_reason === "length"
+					) {
+						const finalContent = totalContent + fullContent;
+						this.addAssistantMessage(
+							{
+								role: "assistant",
+								content: fullContent,
+								reasoning_content: reasoningContent || undefined,
+							},
+							lastChunkUsage,
+						);
+						callbacks?.onEnd?.({
+							reasoning: reasoningContent,
+							content: finalContent,
+						});
+						return finalContent;
+					}
 				}
-
-				// 正常结束
-				if (
-					chunk.finish_reason === "stop" ||
-					chunk.finish_reason === "eos" ||
-					chunk.finish_reason === "length"
-				) {
-					const finalContent = totalContent + fullContent;
-					this.session.addAssistantMessage(
-						{
-							role: "assistant",
-							content: fullContent,
-							reasoning_content: reasoningContent || undefined,
-						},
-						lastChunkUsage,
-					);
-					callbacks?.onEnd?.({
-						reasoning: reasoningContent,
-						content: finalContent,
-					});
-					return finalContent;
+			} catch (error) {
+				if (receivedChunk || !this.switchToFallback(error, callbacks)) {
+					throw error;
 				}
+				continue;
 			}
 
 			// 如果是因为工具调用而 break，继续下一轮循环让 AI 看到工具结果
@@ -537,7 +665,7 @@ export class AIService implements IAIService {
 			// 如果 for 循环正常结束（不是因为工具调用），说明流已经结束
 			if (fullContent || reasoningContent || totalContent) {
 				const finalContent = totalContent + fullContent;
-				this.session.addAssistantMessage(
+				this.addAssistantMessage(
 					{
 						role: "assistant",
 						content: fullContent,
@@ -634,7 +762,7 @@ export class AIService implements IAIService {
 		const response = await this.client.chat(messages);
 
 		// 添加到 Session（带 usage 信息）
-		this.session.addAssistantMessage(response.message, response.usage);
+		this.addAssistantMessage(response.message, response.usage);
 
 		return {
 			content: response.message.content,
@@ -659,7 +787,7 @@ export class AIService implements IAIService {
 				response.message.tool_calls.length > 0
 			) {
 				// 添加 assistant 消息到 Session
-				this.session.addAssistantMessage(response.message, response.usage);
+				this.addAssistantMessage(response.message, response.usage);
 				messages.push(response.message);
 
 				// 执行工具调用
@@ -678,7 +806,7 @@ export class AIService implements IAIService {
 			}
 
 			// 没有工具调用，返回最终响应
-			this.session.addAssistantMessage(response.message, response.usage);
+			this.addAssistantMessage(response.message, response.usage);
 
 			return {
 				content: response.message.content,
@@ -5,10 +5,12 @@
 
 import type {
 	ChatMessage,
+	ImageContent,
 	SessionStatus,
 	CompactCheckResult,
 } from "./types.js";
-import { estimateTokens } from "./tokenEstimator.js";
+import type { MessageOverrides } from "./messageQueue.js";
+import { estimateTokens, estimateImagesTokens } from "./tokenEstimator.js";
 
 // 重新导出类型以便其他模块使用
 export type { SessionStatus, CompactCheckResult } from "./types.js";
@@ -20,6 +22,10 @@ export type TokenUsage = {
 	prompt_tokens: number;
 	completion_tokens: number;
 	total_tokens: number;
+	/** 从 prompt 缓存读取的 token 数（已包含在 prompt_tokens 中） */
+	cache_read_tokens?: number;
+	/** 写入 prompt 缓存的 token 数（已包含在 prompt_tokens 中） */
+	cache_creation_tokens?: number;
 };
 
 /**
@@ -60,6 +66,10 @@ export type SessionCheckpoint = {
 	actualPromptTokens: number;
 	/** 实际 completion tokens */
 	actualCompletionTokens: number;
+	/** 累计缓存读取 tokens */
+	cacheReadTokens: number;
+	/** 累计缓存写入 tokens */
+	cacheCreationTokens: number;
 };
 
 /**
@@ -70,6 +80,10 @@ export type SessionInternalState = {
 	systemPrompt: SessionMessage | null;
 	actualPromptTokens: number;
 	actualCompletionTokens: number;
+	/** 旧版本保存的会话没有缓存统计和费用 */
+	cacheReadTokens?: number;
+	cacheCreationTokens?: number;
+	totalCost?: number;
 };
 
 /**
@@ -85,6 +99,13 @@ export class Session {
 	private actualPromptTokens: number = 0;
 	private actualCompletionTokens: number = 0;
 
+	// 累计的 prompt 缓存 token（来自 API）
+	private cacheReadTokens: number = 0;
+	private cacheCreationTokens: number = 0;
+
+	// 累计费用（美元），已产生的费用不随回滚和 compact 撤销
+	private totalCost: number = 0;
+
 	// 工具定义的 token 估算
 	private toolsTokenEstimate: number = 0;
 
@@ -135,11 +156,25 @@ export class Session {
 	 * 添加用户消息
 	 * @param content 发送给 AI 的完整内容（可能包含文件内容）
 	 * @param displayContent 可选，显示给用户的原始内容（不含文件内容）
+	 * @param images 可选，随消息发送的图片
+	 * @param overrides 可选，本条消息的覆盖项（重发时沿用）
 	 */
-	addUserMessage(content: string, displayContent?: string): void {
+	addUserMessage(
+		content: string,
+		displayContent?: string,
+		images?: ImageContent[],
+		overrides?: MessageOverrides,
+	): void {
+		const message: ChatMessage = { role: "user", content, displayContent };
+		if (images && images.length > 0) {
+			message.images = images;
+		}
+		if (overrides) {
+			message.overrides = overrides;
+		}
 		this.messages.push({
-			message: { role: "user", content, displayContent },
-			tokens: estimateTokens(content),
+			message,
+			tokens: estimateTokens(content) + estimateImagesTokens(images ?? []),
 			isActual: false,
 			timestamp: Date.now(),
 		});
@@ -153,6 +188,8 @@ export class Session {
 		if (usage) {
 			this.actualPromptTokens = usage.prompt_tokens;
 			this.actualCompletionTokens += usage.completion_tokens;
+			this.cacheReadTokens += usage.cache_read_tokens ?? 0;
+			this.cacheCreationTokens += usage.cache_creation_tokens ?? 0;
 
 			// 用实际值校正估算值
 			this.calibrateEstimates(usage);
@@ -166,6 +203,13 @@ export class Session {
 		});
 	}
 
+	/**
+	 * 累加请求费用
+	 */
+	addCost(cost: number): void {
+		this.totalCost += cost;
+	}
+
 	/**
 	 * 添加工具消息
 	 */
@@ -193,8 +237,8 @@ export class Session {
 
 		// const deviation = Math.abs(estimatedTotal - actualTotal) / actualTotal;
 		// if (deviation > 0.2) {
-			// 计算不含工具的消息估算（用于更精细的调试）
-			// const estimatedMessages = estimatedTotal - this.toolsTokenEstimate;
+		// 计算不含工具的消息估算（用于更精细的调试）
+		// const estimatedMessages = estimatedTotal - this.toolsTokenEstimate;
 		// }
 	}
 
@@ -258,6 +302,9 @@ export class Session {
 			isNearLimit: usagePercent >= this.config.nearLimitThreshold * 100,
 			isFull: usagePercent >= this.config.fullThreshold * 100,
 			messageCount: this.messages.length,
+			cacheReadTokens: this.cacheReadTokens,
+			cacheCreationTokens: this.cacheCreationTokens,
+			totalCost: this.totalCost,
 		};
 	}
 
@@ -292,6 +339,9 @@ export class Session {
 		this.messages = [];
 		this.actualPromptTokens = 0;
 		this.actualCompletionTokens = 0;
+		this.cacheReadTokens = 0;
+		this.cacheCreationTokens = 0;
+		this.totalCost = 0;
 		this.systemPrompt = null;
 	}
 
@@ -354,6 +404,8 @@ export class Session {
 		this.messages = [];
 		this.actualPromptTokens = 0;
 		this.actualCompletionTokens = 0;
+		this.cacheReadTokens = 0;
+		this.cacheCreationTokens = 0;
 
 		// 将总结作为系统消息的一部分，或作为第一条 assistant 消息
 		// 这里选择作为 assistant 消息，表示"之前的对话总结"
@@ -391,6 +443,8 @@ export class Session {
 			messageCount: this.messages.length,
 			actualPromptTokens: this.actualPromptTokens,
 			actualCompletionTokens: this.actualCompletionTokens,
+			cacheReadTokens: this.cacheReadTokens,
+			cacheCreationTokens: this.cacheCreationTokens,
 		};
 	}
 
@@ -406,6 +460,64 @@ export class Session {
 		// 恢复 token 计数
 		this.actualPromptTokens = checkpoint.actualPromptTokens;
 		this.actualCompletionTokens = checkpoint.actualCompletionTokens;
+		this.cacheReadTokens = checkpoint.cacheReadTokens;
+		this.cacheCreationTokens = checkpoint.cacheCreationTokens;
+	}
+
+	/**
+	 * 获取最后一条用户消息的位置
+	 */
+	private findLastUserMessageIndex(): number {
+		for (let i = this.messages.length - 1; i >= 0; i--) {
+			if (this.messages[i]!.message.role === "user") {
+				return i;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * 获取最后一条用户消息（没有时返回 null）
+	 */
+	getLastUserMessage(): ChatMessage | null {
+		const index = this.findLastUserMessageIndex();
+		return index >= 0 ? this.messages[index]!.message : null;
+	}
+
+	/**
+	 * 回滚最后一轮对话（用于 /retry 和编辑重发）
+	 * 移除最后一条用户消息及其后的助手回复和工具调用
+	 * @returns 被移除的用户消息，没有用户消息时返回 null
+	 */
+	rollbackLastTurn(): ChatMessage | null {
+		const index = this.findLastUserMessageIndex();
+		if (index < 0) {
+			return null;
+		}
+		const message = this.messages[index]!.message;
+
+		// 移除的回复中来自 API 的 completion tokens 不再计入
+		const removedCompletionTokens = this.messages
+			.slice(index)
+			.filter((msg) => msg.isActual)
+			.reduce((sum, msg) => sum + msg.tokens, 0);
+
+		this.rollback({
+			messageCount: index,
+			// 回滚前的 prompt tokens 未知，下次响应前使用估算值
+			actualPromptTokens: 0,
+			actualCompletionTokens: Math.max(
+				0,
+				this.actualCompletionTokens - removedCompletionTokens,
+			),
+			// 缓存统计和费用一样是已产生的用量，不回滚
+			cacheReadTokens: this.cacheReadTokens,
+			cacheCreationTokens: this.cacheCreationTokens,
+		});
+
+		// 之前被中止的轮次可能留下未配对的 tool_call
+		this.repairMessages();
+		return message;
 	}
 
 	/**
@@ -461,6 +573,9 @@ export class Session {
 			systemPrompt: this.systemPrompt,
 			actualPromptTokens: this.actualPromptTokens,
 			actualCompletionTokens: this.actualCompletionTokens,
+			cacheReadTokens: this.cacheReadTokens,
+			cacheCreationTokens: this.cacheCreationTokens,
+			totalCost: this.totalCost,
 		};
 	}
 
@@ -472,6 +587,9 @@ export class Session {
 		this.systemPrompt = state.systemPrompt;
 		this.actualPromptTokens = state.actualPromptTokens;
 		this.actualCompletionTokens = state.actualCompletionTokens;
+		this.cacheReadTokens = state.cacheReadTokens ?? 0;
+		this.cacheCreationTokens = state.cacheCreationTokens ?? 0;
+		this.totalCost = state.totalCost ?? 0;
 	}
 
 	/**
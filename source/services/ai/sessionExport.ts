@@ -0,0 +1,454 @@
+/**
+ * Session 导出与导入
+ *
+ * 导出格式：
+ * - md：Markdown 对话记录
+ * - html：单文件 HTML（思考内容和工具调用可折叠）
+ * - json：完整的 session 数据，可通过 /session import 重新导入
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { SerializedSession } from "./sessionStore.js";
+import type { SessionMessage } from "./session.js";
+
+/**
+ * 导出格式
+ */
+export type ExportFormat = "md" | "html" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "html", "json"];
+
+/**
+ * JSON 导出文件结构
+ */
+export type SessionExport = {
+	/** 文件类型标识 */
+	type: "axiomate-session";
+	/** 版本号（用于迁移） */
+	version: 1;
+	/** 导出时间戳 */
+	exportedAt: number;
+	/** 导出时使用的模型 ID */
+	model: string | null;
+	/** Session 数据 */
+	session: SerializedSession;
+};
+
+/**
+ * 工具调用记录
+ */
+export type TranscriptToolCall = {
+	id: string;
+	/** 调用名称（toolId_actionName） */
+	name: string;
+	/** 格式化后的参数 JSON */
+	arguments: string;
+	/** 工具返回结果（未返回时为 undefined） */
+	result?: string;
+};
+
+/**
+ * ask_user 问答记录
+ */
+export type TranscriptAskUser = {
+	question: string;
+	options: string[];
+	answer?: string;
+};
+
+/**
+ * 对话记录条目
+ */
+export type TranscriptEntry =
+	| { type: "user"; content: string; timestamp: number }
+	| {
+			type: "assistant";
+			content: string;
+			reasoning: string;
+			toolCalls: TranscriptToolCall[];
+			askUser?: TranscriptAskUser;
+			timestamp: number;
+	  };
+
+const ASK_USER_CALL_NAME = "askuser_ask";
+const ASK_USER_ANSWER_PATTERN = /^\[Ask User\] User answered: (.+)$/s;
+
+/**
+ * 格式化工具参数（无法解析时原样返回）
+ */
+function formatArguments(args: string): string {
+	try {
+		return JSON.stringify(JSON.parse(args), null, 2);
+	} catch {
+		return args;
+	}
+}
+
+/**
+ * 解析 ask_user 工具调用的问题和选项
+ */
+function parseAskUserCall(args: string): TranscriptAskUser {
+	try {
+		const parsed = JSON.parse(args) as { question?: string; options?: string };
+		let options: string[] = [];
+		if (parsed.options) {
+			try {
+				const list = JSON.parse(parsed.options) as unknown;
+				if (Array.isArray(list)) {
+					options = list.map(String);
+				}
+			} catch {
+				// 选项格式错误时忽略
+			}
+		}
+		return { question: parsed.question ?? "", options };
+	} catch {
+		return { question: "", options: [] };
+	}
+}
+
+/**
+ * 将 session 消息转换为对话记录（与恢复 session 时的 UI 显示一致）
+ * - 用户消息使用 displayContent（不含附加的文件内容）
+ * - 工具结果附加到对应的工具调用上
+ * - ask_user 调用显示为问答
+ */
+export function buildTranscript(messages: SessionMessage[]): TranscriptEntry[] {
+	const entries: TranscriptEntry[] = [];
+	const toolCallsById = new Map<string, TranscriptToolCall>();
+	const askUserById = new Map<string, TranscriptAskUser>();
+
+	for (const { message, timestamp } of messages) {
+		if (message.role === "user") {
+			entries.push({
+				type: "user",
+				content: message.displayContent ?? message.content,
+				timestamp,
+			});
+		} else if (message.role === "assistant") {
+			const toolCalls: TranscriptToolCall[] = [];
+			let askUser: TranscriptAskUser | undefined;
+			for (const call of message.tool_calls ?? []) {
+				if (call.function.name === ASK_USER_CALL_NAME) {
+					askUser = parseAskUserCall(call.function.arguments);
+					askUserById.set(call.id, askUser);
+					continue;
+				}
+				const toolCall: TranscriptToolCall = {
+					id: call.id,
+					name: call.function.name,
+					arguments: formatArguments(call.function.arguments),
+				};
+				toolCalls.push(toolCall);
+				toolCallsById.set(call.id, toolCall);
+			}
+			entries.push({
+				type: "assistant",
+				content: message.content,
+				reasoning: message.reasoning_content ?? "",
+				toolCalls,
+				askUser,
+				timestamp,
+			});
+		} else if (message.role === "tool" && message.tool_call_id) {
+			const askUser = askUserById.get(message.tool_call_id);
+			if (askUser) {
+				const match = ASK_USER_ANSWER_PATTERN.exec(message.content);
+				askUser.answer = match ? match[1]! : message.content;
+				continue;
+			}
+			const toolCall = toolCallsById.get(message.tool_call_id);
+			if (toolCall) {
+				toolCall.result = message.content;
+			}
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * 格式化时间戳
+ */
+function formatTime(timestamp: number): string {
+	return new Date(timestamp).toISOString();
+}
+
+/**
+ * 生成头部信息（名称、模型、token 使用量、时间）
+ */
+function buildHeader(
+	data: SerializedSession,
+	model: string | null,
+	exportedAt: number,
+): Array<[string, string]> {
+	const { info, tokenState } = data;
+	return [
+		["Session", info.id],
+		["Model", model ?? "-"],
+		[
+			"Tokens",
+			`${info.tokenUsage} in context (prompt ${tokenState.actualPromptTokens}, completion ${tokenState.actualCompletionTokens})`,
+		],
+		["Messages", String(info.messageCount)],
+		["Created", formatTime(info.createdAt)],
+		["Updated", formatTime(info.updatedAt)],
+		["Exported", formatTime(exportedAt)],
+	];
+}
+
+/**
+ * 生成不与内容冲突的 Markdown 代码块
+ */
+function codeBlock(content: string, language = ""): string {
+	const longest = Math.max(
+		2,
+		...(content.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const fence = "`".repeat(longest + 1);
+	return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/**
+ * 渲染为 Markdown
+ */
+export function renderMarkdown(
+	data: SerializedSession,
+	model: string | null,
+	exportedAt: number = Date.now(),
+): string {
+	const lines: string[] = [`# ${data.info.name}`, ""];
+	for (const [label, value] of buildHeader(data, model, exportedAt)) {
+		lines.push(`- **${label}:** ${value}`);
+	}
+
+	for (const entry of buildTranscript(data.messages)) {
+		lines.push("", "---", "");
+		if (entry.type === "user") {
+			lines.push(`## User`, "", entry.content);
+			continue;
+		}
+
+		lines.push(`## Assistant`);
+		if (entry.reasoning) {
+			lines.push(
+				"",
+				"**Reasoning**",
+				"",
+				entry.reasoning
+					.split("\n")
+					.map((line) => `> ${line}`)
+					.join("\n"),
+			);
+		}
+		if (entry.content) {
+			lines.push("", entry.content);
+		}
+		for (const call of entry.toolCalls) {
+			lines.push(
+				"",
+				`**Tool call:** \`${call.name}\``,
+				"",
+				codeBlock(call.arguments, "json"),
+			);
+			if (call.result !== undefined) {
+				lines.push("", "**Result:**", "", codeBlock(call.result));
+			}
+		}
+		if (entry.askUser) {
+			lines.push("", `**Question:** ${entry.askUser.question}`);
+			if (entry.askUser.options.length > 0) {
+				lines.push("", `Options: ${entry.askUser.options.join(" / ")}`);
+			}
+			if (entry.askUser.answer !== undefined) {
+				lines.push("", `**Answer:** ${entry.askUser.answer}`);
+			}
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #222; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th { text-align: left; padding-right: 1em; color: #666; font-weight: normal; }
+.message { border-left: 4px solid #ccc; padding: 0.5em 1em; margin: 1em 0; }
+.user { border-color: #3b82f6; background: #f0f6ff; }
+.assistant { border-color: #22c55e; }
+.role { font-weight: bold; margin-bottom: 0.5em; }
+.content, pre { white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #f5f5f5; padding: 0.5em; overflow-x: auto; }
+details { margin: 0.5em 0; }
+summary { cursor: pointer; color: #555; }
+.reasoning { color: #666; font-style: italic; }
+`.trim();
+
+/**
+ * 渲染为单文件 HTML
+ */
+export function renderHtml(
+	data: SerializedSession,
+	model: string | null,
+	exportedAt: number = Date.now(),
+): string {
+	const title = escapeHtml(data.info.name);
+	const header = buildHeader(data, model, exportedAt)
+		.map(
+			([label, value]) =>
+				`<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`,
+		)
+		.join("\n");
+
+	const body = buildTranscript(data.messages).map((entry) => {
+		if (entry.type === "user") {
+			return `<div class="message user"><div class="role">User</div><div class="content">${escapeHtml(entry.content)}</div></div>`;
+		}
+
+		const parts: string[] = [];
+		if (entry.reasoning) {
+			parts.push(
+				`<details><summary>Reasoning</summary><div class="content reasoning">${escapeHtml(entry.reasoning)}</div></details>`,
+			);
+		}
+		if (entry.content) {
+			parts.push(`<div class="content">${escapeHtml(entry.content)}</div>`);
+		}
+		for (const call of entry.toolCalls) {
+			const result =
+				call.result === undefined
+					? ""
+					: `<div>Result:</div><pre>${escapeHtml(call.result)}</pre>`;
+			parts.push(
+				`<details><summary>Tool call: <code>${escapeHtml(call.name)}</code></summary><pre>${escapeHtml(call.arguments)}</pre>${result}</details>`,
+			);
+		}
+		if (entry.askUser) {
+			const options =
+				entry.askUser.options.length > 0
+					? `<div>Options: ${escapeHtml(entry.askUser.options.join(" / "))}</div>`
+					: "";
+			const answer =
+				entry.askUser.answer === undefined
+					? ""
+					: `<div><strong>Answer:</strong> ${escapeHtml(entry.askUser.answer)}</div>`;
+			parts.push(
+				`<div><strong>Question:</strong> ${escapeHtml(entry.askUser.question)}</div>${options}${answer}`,
+			);
+		}
+		return `<div class="message assistant"><div class="role">Assistant</div>${parts.join("\n")}</div>`;
+	});
+
+	return [
+		"<!DOCTYPE html>",
+		'<html lang="en">',
+		"<head>",
+		'<meta charset="utf-8">',
+		`<title>${title}</title>`,
+		`<style>\n${HTML_STYLE}\n</style>`,
+		"</head>",
+		"<body>",
+		`<h1>${title}</h1>`,
+		`<table>\n${header}\n</table>`,
+		...body,
+		"</body>",
+		"</html>",
+		"",
+	].join("\n");
+}
+
+/**
+ * 渲染为 JSON 导出文件
+ */
+export function renderJson(
+	data: SerializedSession,
+	model: string | null,
+	exportedAt: number = Date.now(),
+): string {
+	const exported: SessionExport = {
+		type: "axiomate-session",
+		version: 1,
+		exportedAt,
+		model,
+		session: data,
+	};
+	return `${JSON.stringify(exported, null, 2)}\n`;
+}
+
+/**
+ * 获取默认导出文件名（如 session-1a2b3c4d.md）
+ */
+export function getDefaultExportFileName(
+	data: SerializedSession,
+	format: ExportFormat,
+): string {
+	return `session-${data.info.id.substring(0, 8)}.${format}`;
+}
+
+/**
+ * 导出 session 到文件
+ * @param target 目标路径（相对 cwd），为空时使用默认文件名
+ * @returns 写入的绝对路径
+ */
+export function exportSession(
+	data: SerializedSession,
+	format: ExportFormat,
+	options: { target?: string; cwd: string; model: string | null },
+): string {
+	const filePath = path.resolve(
+		options.cwd,
+		options.target || getDefaultExportFileName(data, format),
+	);
+	const render =
+		format === "html"
+			? renderHtml
+			: format === "json"
+				? renderJson
+				: renderMarkdown;
+
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, render(data, options.model), "utf-8");
+	return filePath;
+}
+
+/**
+ * 解析 JSON 导出文件（也接受 session 存储目录中的原始文件）
+ * @throws 内容不是有效的 session 数据时抛出错误
+ */
+export function parseSessionExport(content: string): SerializedSession {
+	const parsed = JSON.parse(content) as Partial<SessionExport> &
+		Partial<SerializedSession>;
+	const session = (
+		parsed.type === "axiomate-session" ? parsed.session : parsed
+	) as Partial<SerializedSession> | undefined;
+
+	if (
+		!session?.info ||
+		typeof session.info.name !== "string" ||
+		!Array.isArray(session.messages) ||
+		!session.messages.every((item) => typeof item?.message?.role === "string")
+	) {
+		throw new Error("Not an axiomate session export");
+	}
+
+	return {
+		info: session.info,
+		messages: session.messages,
+		tokenState: session.tokenState ?? {
+			actualPromptTokens: 0,
+			actualCompletionTokens: 0,
+		},
+	};
+}
@@ -0,0 +1,386 @@
+/**
+ * Session 全文搜索
+ *
+ * 索引按 session 保存在 sessions/search-index/<id>.json，记录用户消息、助手回复和工具输出文本，
+ * SessionStore.saveSession 时增量更新（只追加新消息，只写入变化的 session），搜索前补建缺失或过期的条目
+ * 查询支持关键词（空格分隔，所有关键词都要出现，支持引号短语）和 /正则/flags
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { logger } from "../../utils/logger.js";
+import { splitArguments } from "../../utils/customCommands.js";
+import type { SerializedSession, SessionInfo } from "./sessionStore.js";
+import type { ChatMessage } from "./types.js";
+
+/**
+ * 单条消息最多索引的字符数（超长的工具输出只索引开头部分）
+ */
+const MAX_DOCUMENT_LENGTH = 10_000;
+
+/**
+ * 摘要中匹配内容前后保留的字符数
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * 默认最多返回的结果数
+ */
+export const SEARCH_RESULT_LIMIT = 10;
+
+/**
+ * 索引的消息文本
+ */
+export type SearchDocument = {
+	role: "user" | "assistant" | "tool";
+	text: string;
+};
+
+/**
+ * 单个 session 的索引（每个 session 一个文件）
+ */
+type IndexedSession = {
+	/** 已索引的消息数（增量更新的起点） */
+	messageCount: number;
+	/** 最后一条已索引消息的时间戳（检测回退后重新写入的消息） */
+	lastTimestamp: number;
+	/** 索引时 session 的更新时间 */
+	updatedAt: number;
+	documents: SearchDocument[];
+};
+
+/**
+ * 索引文件结构
+ */
+type SearchIndexFile = IndexedSession & {
+	version: 1;
+};
+
+/**
+ * 搜索结果摘要
+ */
+export type SearchSnippet = {
+	/** 单行文本 */
+	text: string;
+	/** 匹配位置 [start, end)，按位置排序且不重叠 */
+	highlights: Array<[number, number]>;
+};
+
+/**
+ * 搜索结果
+ */
+export type SessionSearchResult = {
+	session: SessionInfo;
+	/** 匹配的消息数 */
+	matches: number;
+	/** 匹配关键词最多的消息（相同时取最新的）的摘要 */
+	snippet: SearchSnippet;
+};
+
+// 最近一次搜索结果（/session search 的子命令用于切换）
+let lastSearchResults: SessionSearchResult[] = [];
+
+/**
+ * 提取消息中可搜索的文本（system 消息和空的助手消息不索引）
+ */
+function toDocument(message: ChatMessage): SearchDocument | null {
+	if (
+		message.role !== "user" &&
+		message.role !== "assistant" &&
+		message.role !== "tool"
+	) {
+		return null;
+	}
+	const content =
+		message.role === "user"
+			? (message.displayContent ?? message.content)
+			: message.content;
+	const text = content.trim().slice(0, MAX_DOCUMENT_LENGTH);
+	return text ? { role: message.role, text } : null;
+}
+
+/**
+ * 解析查询
+ * - "/pattern/flags"：正则表达式
+ * - 其他：关键词（不区分大小写，支持引号包裹的短语）
+ * @throws 正则表达式无效时抛出
+ */
+export function parseSearchQuery(query: string): RegExp[] {
+	const value = query.trim();
+	const regex = /^\/(.+)\/([a-z]*)$/s.exec(value);
+	if (regex) {
+		const flags = regex[2]!.includes("g") ? regex[2]! : `${regex[2]}g`;
+		return [new RegExp(regex[1]!, flags)];
+	}
+	return splitArguments(value)
+		.filter((term) => term.length > 0)
+		.map(
+			(term) => new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"),
+		);
+}
+
+/**
+ * 查找所有非空匹配
+ */
+function findMatches(text: string, pattern: RegExp): Array<[number, number]> {
+	const ranges: Array<[number, number]> = [];
+	for (const match of text.matchAll(pattern)) {
+		if (match[0].length > 0) {
+			ranges.push([match.index, match.index + match[0].length]);
+		}
+	}
+	return ranges;
+}
+
+/**
+ * 生成单行摘要（第一个匹配前后各保留一段上下文）
+ */
+export function createSnippet(text: string, patterns: RegExp[]): SearchSnippet {
+	const line = text.replace(/\s+/g, " ").trim();
+	const ranges = patterns
+		.flatMap((pattern) => findMatches(line, pattern))
+		.sort((a, b) => a[0] - b[0]);
+
+	const first = ranges[0] ?? [0, 0];
+	const start = Math.max(0, first[0] - SNIPPET_CONTEXT);
+	const end = Math.min(line.length, first[1] + SNIPPET_CONTEXT);
+	const prefix = start > 0 ? "..." : "";
+	const suffix = end < line.length ? "..." : "";
+
+	// 转换为摘要内的位置，合并重叠的匹配
+	const highlights: Array<[number, number]> = [];
+	for (const [rangeStart, rangeEnd] of ranges) {
+		if (rangeEnd <= start || rangeStart >= end) continue;
+		const from = Math.max(rangeStart, start) - start + prefix.length;
+		const to = Math.min(rangeEnd, end) - start + prefix.length;
+		const last = highlights[highlights.length - 1];
+		if (last && from <= last[1]) {
+			last[1] = Math.max(last[1], to);
+		} else {
+			highlights.push([from, to]);
+		}
+	}
+
+	return { text: prefix + line.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * 用标记包裹摘要中的匹配内容
+ */
+export function highlightSnippet(
+	snippet: SearchSnippet,
+	mark: (text: string) => string,
+): string {
+	let result = "";
+	let position = 0;
+	for (const [start, end] of snippet.highlights) {
+		result += snippet.text.slice(position, start);
+		result += mark(snippet.text.slice(start, end));
+		position = end;
+	}
+	return result + snippet.text.slice(position);
+}
+
+/**
+ * 获取最近一次搜索结果
+ */
+export function getLastSearchResults(): SessionSearchResult[] {
+	return lastSearchResults;
+}
+
+/**
+ * 记录最近一次搜索结果
+ */
+export function setLastSearchResults(results: SessionSearchResult[]): void {
+	lastSearchResults = results;
+}
+
+/**
+ * Session 搜索索引
+ */
+export class SessionSearchIndex {
+	private indexDir: string;
+	/** 已加载的条目（null 表示没有索引文件） */
+	private entries = new Map<string, IndexedSession | null>();
+	/** 更新后尚未写入的 session */
+	private dirty = new Set<string>();
+
+	constructor(indexDir: string) {
+		this.indexDir = indexDir;
+	}
+
+	private entryPath(id: string): string {
+		return path.join(this.indexDir, `${id}.json`);
+	}
+
+	/**
+	 * 加载 session 的索引（不存在或损坏时返回 null）
+	 */
+	private load(id: string): IndexedSession | null {
+		const cached = this.entries.get(id);
+		if (cached !== undefined) return cached;
+
+		let entry: IndexedSession | null = null;
+		const filePath = this.entryPath(id);
+		if (fs.existsSync(filePath)) {
+			try {
+				const data = JSON.parse(
+					fs.readFileSync(filePath, "utf-8"),
+				) as SearchIndexFile;
+				if (data.version === 1 && Array.isArray(data.documents)) {
+					entry = {
+						messageCount: data.messageCount,
+						lastTimestamp: data.lastTimestamp,
+						updatedAt: data.updatedAt,
+						documents: data.documents,
+					};
+				}
+			} catch (error) {
+				logger.warn("Failed to load session search index, rebuilding", {
+					id,
+					error,
+				});
+			}
+		}
+		this.entries.set(id, entry);
+		return entry;
+	}
+
+	/**
+	 * 写入更新过的 session 索引
+	 */
+	save(): void {
+		if (this.dirty.size === 0) return;
+		try {
+			fs.mkdirSync(this.indexDir, { recursive: true });
+		} catch (error) {
+			logger.error("Failed to save session search index", { error });
+			return;
+		}
+		for (const id of this.dirty) {
+			const entry = this.entries.get(id);
+			if (!entry) continue;
+			try {
+				const filePath = this.entryPath(id);
+				const data: SearchIndexFile = { version: 1, ...entry };
+				fs.writeFileSync(filePath + ".tmp", JSON.stringify(data));
+				fs.renameSync(filePath + ".tmp", filePath);
+			} catch (error) {
+				logger.error("Failed to save session search index", { id, error });
+			}
+		}
+		this.dirty.clear();
+	}
+
+	/**
+	 * 索引是否包含 session 的最新内容
+	 */
+	isUpToDate(info: SessionInfo): boolean {
+		const entry = this.load(info.id);
+		return entry !== null && entry.updatedAt >= info.updatedAt;
+	}
+
+	/**
+	 * 更新 session 的索引（不写入文件）
+	 * 之前索引过的消息没有变化时只追加新消息，否则（回退、压缩）重建
+	 */
+	update(data: SerializedSession): void {
+		const existing = this.load(data.info.id);
+		const { messages } = data;
+		const canAppend =
+			existing !== null &&
+			existing.messageCount <= messages.length &&
+			(existing.messageCount === 0 ||
+				messages[existing.messageCount - 1]!.timestamp ===
+					existing.lastTimestamp);
+
+		const documents = canAppend ? existing.documents : [];
+		for (const { message } of messages.slice(
+			canAppend ? existing.messageCount : 0,
+		)) {
+			const document = toDocument(message);
+			if (document) documents.push(document);
+		}
+
+		this.entries.set(data.info.id, {
+			messageCount: messages.length,
+			lastTimestamp: messages[messages.length - 1]?.timestamp ?? 0,
+			updatedAt: data.info.updatedAt,
+			documents,
+		});
+		this.dirty.add(data.info.id);
+	}
+
+	/**
+	 * 移除 session 的索引
+	 */
+	remove(id: string): void {
+		this.entries.set(id, null);
+		this.dirty.delete(id);
+		try {
+			fs.rmSync(this.entryPath(id), { force: true });
+		} catch (error) {
+			logger.error("Failed to remove session search index", { id, error });
+		}
+	}
+
+	/**
+	 * 清空索引
+	 */
+	clear(): void {
+		this.entries.clear();
+		this.dirty.clear();
+		try {
+			fs.rmSync(this.indexDir, { recursive: true, force: true });
+		} catch (error) {
+			logger.error("Failed to clear session search index", { error });
+		}
+	}
+
+	/**
+	 * 搜索 session（所有查询条件都要在 session 中出现，按 sessions 的顺序返回）
+	 * @param patterns parseSearchQuery 的结果
+	 * @param sessions 要搜索的 session（按更新时间降序）
+	 */
+	search(
+		patterns: RegExp[],
+		sessions: SessionInfo[],
+		limit: number = SEARCH_RESULT_LIMIT,
+	): SessionSearchResult[] {
+		if (patterns.length === 0) return [];
+
+		const results: SessionSearchResult[] = [];
+		for (const session of sessions) {
+			const entry = this.load(session.id);
+			if (!entry) continue;
+
+			const found = new Set<number>();
+			let matches = 0;
+			let best: { text: string; score: number } | null = null;
+			for (const document of entry.documents) {
+				let score = 0;
+				patterns.forEach((pattern, i) => {
+					if (findMatches(document.text, pattern).length > 0) {
+						found.add(i);
+						score++;
+					}
+				});
+				if (score === 0) continue;
+				matches++;
+				if (!best || score >= best.score) {
+					best = { text: document.text, score };
+				}
+			}
+
+			if (best && found.size === patterns.length) {
+				results.push({
+					session,
+					matches,
+					snippet: createSnippet(best.text, patterns),
+				});
+				if (results.length >= limit) break;
+			}
+		}
+		return results;
+	}
+}
@@ -7,12 +7,29 @@ import * as path from "node:path";
 import { randomUUID } from "node:crypto";
 import { getSessionsPath } from "../../utils/appdata.js";
 import { logger } from "../../utils/logger.js";
+import { findProjectRoot } from "../../utils/project.js";
 import {
 	Session,
 	createSession,
 	type SessionMessage,
 	type SessionInternalState,
 } from "./session.js";
+import {
+	SessionSearchIndex,
+	parseSearchQuery,
+	SEARCH_RESULT_LIMIT,
+	type SessionSearchResult,
+} from "./sessionSearch.js";
+
+/**
+ * 搜索索引目录名（在 session 目录下，每个 session 一个文件）
+ */
+const SEARCH_INDEX_DIRNAME = "search-index";
+
+/**
+ * 旧版本的单文件搜索索引（初始化时删除，条目在搜索时按需重建）
+ */
+const LEGACY_SEARCH_INDEX_FILENAME = "search-index.json";
 
 /**
  * Session 元信息（存储在 index 文件中）
@@ -32,6 +49,24 @@ export type SessionInfo = {
 	messageCount: number;
 	/** 是否为当前活跃 session */
 	isActive: boolean;
+	/** 是否自动接受文件修改（不显示 diff 预览确认，可选，默认 false） */
+	autoAcceptEdits?: boolean;
+	/** 创建时的工作目录（旧版本创建的 session 没有此字段） */
+	cwd?: string;
+	/** 所属项目（git 根目录或工作目录，旧 session 没有此字段，在所有项目中可见） */
+	projectRoot?: string;
+	/** 分叉来源 session ID（/session fork 创建的分支） */
+	parentId?: string;
+	/** 分叉位置：在父 session 第几条用户消息之前分叉（从 1 开始，不设置表示复制全部历史） */
+	forkPoint?: number;
+};
+
+/**
+ * Session 预览消息（用于 --resume 选择列表）
+ */
+export type SessionPreviewMessage = {
+	role: "user" | "assistant";
+	content: string;
 };
 
 /**
@@ -46,6 +81,10 @@ export type SerializedSession = {
 	tokenState: {
 		actualPromptTokens: number;
 		actualCompletionTokens: number;
+		/** 旧版本保存的会话没有缓存统计和费用 */
+		cacheReadTokens?: number;
+		cacheCreationTokens?: number;
+		totalCost?: number;
 	};
 };
 
@@ -55,8 +94,10 @@ export type SerializedSession = {
 export type SessionIndex = {
 	/** 版本号（用于迁移） */
 	version: 1;
-	/** 当前活跃 session ID */
+	/** 最后活跃的 session ID（任意项目） */
 	activeSessionId: string | null;
+	/** 各项目最后活跃的 session ID（项目根目录 → session ID） */
+	activeSessionIds?: Record<string, string>;
 	/** 所有 session 列表 */
 	sessions: SessionInfo[];
 };
@@ -73,24 +114,36 @@ export class SessionStore {
 	private indexPath: string;
 	private sessions: Map<string, SessionInfo> = new Map();
 	private activeSessionId: string | null = null;
+	/** 其他项目最后活跃的 session（保存索引时保留） */
+	private activeSessionIds: Record<string, string> = {};
+	private projectRoot: string;
+	private searchIndex: SessionSearchIndex;
 	private contextWindow: number;
 	private initialized: boolean = false;
 
-	constructor(contextWindow: number) {
+	/**
+	 * @param projectRoot 当前项目根目录，默认为当前目录所在的 git 根目录
+	 */
+	constructor(contextWindow: number, projectRoot: string = findProjectRoot()) {
 		this.sessionsDir = getSessionsPath();
 		this.indexPath = path.join(this.sessionsDir, "index.json");
 		this.contextWindow = contextWindow;
+		this.projectRoot = path.resolve(projectRoot);
+		this.searchIndex = new SessionSearchIndex(
+			path.join(this.sessionsDir, SEARCH_INDEX_DIRNAME),
+		);
 	}
 
 	/**
 	 * 初始化 SessionStore
-	 * 加载索引文件，恢复活跃 session
+	 * 加载索引文件，恢复当前项目上次活跃的 session
 	 */
 	async initialize(): Promise<void> {
 		if (this.initialized) return;
 
 		// 确保目录存在
 		this.ensureDirectoryExists();
+		this.removeLegacySearchIndex();
 
 		// 加载索引
 		if (fs.existsSync(this.indexPath)) {
@@ -103,7 +156,14 @@ export class SessionStore {
 					this.sessions.set(info.id, info);
 				}
 
-				this.activeSessionId = index.activeSessionId;
+				// 旧版本索引只记录全局活跃 session，属于当前项目时沿用
+				this.activeSessionIds = { ...index.activeSessionIds };
+				this.activeSessionId =
+					this.activeSessionIds[this.projectRoot] ??
+					(index.activeSessionId &&
+					this.isInProject(this.sessions.get(index.activeSessionId))
+						? index.activeSessionId
+						: null);
 
 				// 验证活跃 session 存在
 				if (this.activeSessionId && !this.sessions.has(this.activeSessionId)) {
@@ -124,7 +184,7 @@ export class SessionStore {
 		if (this.activeSessionId) {
 			const activeInfo = this.sessions.get(this.activeSessionId);
 			if (activeInfo && activeInfo.messageCount === 0) {
-				// 找到最近有内容的 session（按 updatedAt 降序排列）
+				// 找到当前项目最近有内容的 session（按 updatedAt 降序排列）
 				const nonEmptySessions = this.listSessions().filter(
 					(s) => s.messageCount > 0,
 				);
@@ -149,18 +209,16 @@ export class SessionStore {
 			}
 		}
 
-		// 如果没有 session，创建初始 session
-		if (this.sessions.size === 0) {
+		// 如果当前项目没有 session，创建初始 session
+		const projectSessions = this.listSessions();
+		if (projectSessions.length === 0) {
 			const initialSession = this.createSession();
 			this.activeSessionId = initialSession.id;
 			this.saveIndex();
-		} else if (!this.activeSessionId && this.sessions.size > 0) {
-			// 如果没有活跃 session，选择最近的
-			const sorted = this.listSessions();
-			if (sorted.length > 0) {
-				this.activeSessionId = sorted[0]!.id;
-				this.saveIndex();
-			}
+		} else if (!this.activeSessionId) {
+			// 如果没有活跃 session，选择当前项目最近的
+			this.activeSessionId = projectSessions[0]!.id;
+			this.saveIndex();
 		}
 
 		this.initialized = true;
@@ -175,6 +233,23 @@ export class SessionStore {
 		}
 	}
 
+	/**
+	 * 删除旧版本的单文件搜索索引
+	 */
+	private removeLegacySearchIndex(): void {
+		const legacyPath = path.join(
+			this.sessionsDir,
+			LEGACY_SEARCH_INDEX_FILENAME,
+		);
+		try {
+			if (fs.existsSync(legacyPath)) {
+				fs.unlinkSync(legacyPath);
+			}
+		} catch (error) {
+			logger.warn("Failed to remove legacy session search index", { error });
+		}
+	}
+
 	/**
 	 * 从文件重建索引（用于损坏恢复）
 	 */
@@ -183,7 +258,11 @@ export class SessionStore {
 
 		const files = fs.readdirSync(this.sessionsDir);
 		for (const file of files) {
-			if (file.endsWith(".json") && file !== "index.json") {
+			if (
+				file.endsWith(".json") &&
+				file !== "index.json" &&
+				file !== LEGACY_SEARCH_INDEX_FILENAME
+			) {
 				try {
 					const filePath = path.join(this.sessionsDir, file);
 					const content = fs.readFileSync(filePath, "utf-8");
@@ -201,9 +280,20 @@ export class SessionStore {
 	 * 保存索引文件
 	 */
 	private saveIndex(): void {
+		// 丢弃已删除 session 的记录
+		const activeSessionIds: Record<string, string> = {};
+		for (const [root, id] of Object.entries(this.activeSessionIds)) {
+			if (this.sessions.has(id)) activeSessionIds[root] = id;
+		}
+		if (this.activeSessionId) {
+			activeSessionIds[this.projectRoot] = this.activeSessionId;
+		}
+		this.activeSessionIds = activeSessionIds;
+
 		const index: SessionIndex = {
 			version: 1,
 			activeSessionId: this.activeSessionId,
+			activeSessionIds,
 			sessions: Array.from(this.sessions.values()),
 		};
 
@@ -217,14 +307,33 @@ export class SessionStore {
 	}
 
 	/**
-	 * 获取所有 session 列表（按更新时间降序）
+	 * 获取 session 列表（按更新时间降序）
+	 * @param options.all 为 true 时包含其他项目的 session，默认只返回当前项目的
+	 */
+	listSessions(options?: { all?: boolean }): SessionInfo[] {
+		return Array.from(this.sessions.values())
+			.filter((s) => options?.all || this.isInProject(s))
+			.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	/**
+	 * session 是否属于当前项目（未记录项目的旧 session 视为属于所有项目）
 	 */
-	listSessions(): SessionInfo[] {
-		return Array.from(this.sessions.values()).sort(
-			(a, b) => b.updatedAt - a.updatedAt,
+	isInProject(info: SessionInfo | undefined): boolean {
+		if (!info) return false;
+		return (
+			info.projectRoot === undefined ||
+			path.resolve(info.projectRoot) === this.projectRoot
 		);
 	}
 
+	/**
+	 * 获取当前项目根目录
+	 */
+	getProjectRoot(): string {
+		return this.projectRoot;
+	}
+
 	/**
 	 * 获取当前活跃 session 信息
 	 */
@@ -240,6 +349,156 @@ export class SessionStore {
 		return this.sessions.get(id) ?? null;
 	}
 
+	/**
+	 * 获取在指定目录中创建的最近一个有内容的 session（用于 --continue）
+	 */
+	getLatestSessionForCwd(cwd: string): SessionInfo | null {
+		const target = path.resolve(cwd);
+		return (
+			this.listSessions({ all: true }).find(
+				(s) =>
+					s.messageCount > 0 &&
+					s.cwd !== undefined &&
+					path.resolve(s.cwd) === target,
+			) ?? null
+		);
+	}
+
+	/**
+	 * 在所有项目中按 ID、名称或 ID 前缀查找 session（用于 --resume）
+	 * 优先级：完整 ID > 名称（不区分大小写）> ID 前缀，结果按更新时间降序
+	 */
+	findSessions(query: string): SessionInfo[] {
+		const value = query.trim();
+		if (!value) return [];
+
+		const exact = this.sessions.get(value);
+		if (exact) return [exact];
+
+		const sessions = this.listSessions({ all: true });
+		const lowerValue = value.toLowerCase();
+		const byName = sessions.filter((s) => s.name.toLowerCase() === lowerValue);
+		if (byName.length > 0) return byName;
+
+		return sessions.filter((s) => s.id.startsWith(lowerValue));
+	}
+
+	/**
+	 * 在所有项目的 session 中全文搜索（先补建缺失或过期的索引）
+	 * @param query 关键词或 /正则/flags
+	 * @throws 正则表达式无效时抛出
+	 */
+	searchSessions(
+		query: string,
+		limit: number = SEARCH_RESULT_LIMIT,
+	): SessionSearchResult[] {
+		const patterns = parseSearchQuery(query);
+		const sessions = this.listSessions({ all: true });
+
+		let updated = false;
+		for (const info of sessions) {
+			if (info.messageCount === 0 || this.searchIndex.isUpToDate(info)) {
+				continue;
+			}
+			const data = this.getSessionData(info.id);
+			if (data) {
+				this.searchIndex.update(data);
+				updated = true;
+			}
+		}
+		if (updated) {
+			this.searchIndex.save();
+		}
+
+		return this.searchIndex.search(patterns, sessions, limit);
+	}
+
+	/**
+	 * 获取 session 中所有用户消息的显示内容（按时间顺序，序号从 1 开始对应 forkSession 的分叉位置）
+	 */
+	listUserMessages(id: string): string[] {
+		const data = this.getSessionData(id);
+		if (!data) return [];
+		return data.messages
+			.filter(({ message }) => message.role === "user")
+			.map(({ message }) => message.displayContent ?? message.content);
+	}
+
+	/**
+	 * 复制 session 的历史为新的分支 session（不改变活跃 session）
+	 * @param beforeUserMessage 在第几条用户消息之前分叉（从 1 开始）：只复制这条消息之前的历史，
+	 *   在分支中从这里换一种做法；不指定时复制全部历史
+	 * @returns 新 session 信息，找不到 session 或消息序号无效时返回 null
+	 */
+	forkSession(id: string, beforeUserMessage?: number): SessionInfo | null {
+		const data = this.getSessionData(id);
+		if (!data) return null;
+
+		let messages = data.messages;
+		let tokenState = data.tokenState;
+		if (beforeUserMessage !== undefined) {
+			const userIndexes = messages.flatMap(({ message }, index) =>
+				message.role === "user" ? [index] : [],
+			);
+			const cutIndex = userIndexes[beforeUserMessage - 1];
+			if (cutIndex === undefined) return null;
+			messages = messages.slice(0, cutIndex);
+			// 实际 token 数属于完整历史，截断后改为按消息估算
+			tokenState = { actualPromptTokens: 0, actualCompletionTokens: 0 };
+		}
+
+		const now = Date.now();
+		const info: SessionInfo = {
+			id: randomUUID(),
+			name: `${data.info.name} (fork)`,
+			createdAt: now,
+			updatedAt: now,
+			tokenUsage:
+				beforeUserMessage === undefined
+					? data.info.tokenUsage
+					: messages.reduce((sum, message) => sum + message.tokens, 0),
+			messageCount: messages.length,
+			isActive: false,
+			cwd: data.info.cwd,
+			projectRoot: data.info.projectRoot ?? this.projectRoot,
+			parentId: id,
+			forkPoint: beforeUserMessage,
+		};
+
+		this.sessions.set(info.id, info);
+		this.saveSessionData(info, {
+			messages,
+			systemPrompt: null,
+			...tokenState,
+		});
+		this.saveIndex();
+
+		return info;
+	}
+
+	/**
+	 * 获取 session 最后几条用户/助手消息（用于预览）
+	 * @param maxMessages 最多返回的消息数
+	 */
+	getSessionPreview(id: string, maxMessages = 4): SessionPreviewMessage[] {
+		const data = this.getSessionData(id);
+		if (!data) return [];
+
+		const preview: SessionPreviewMessage[] = [];
+		for (const { message } of data.messages) {
+			if (message.role !== "user" && message.role !== "assistant") continue;
+			const content = (
+				message.role === "user"
+					? (message.displayContent ?? message.content)
+					: message.content
+			).trim();
+			if (content) {
+				preview.push({ role: message.role, content });
+			}
+		}
+		return preview.slice(-maxMessages);
+	}
+
 	/**
 	 * 创建新 session
 	 * @param name 可选的自定义名称，默认使用临时名称
@@ -259,6 +518,8 @@ export class SessionStore {
 			tokenUsage: 0,
 			messageCount: 0,
 			isActive: false,
+			cwd: process.cwd(),
+			projectRoot: this.projectRoot,
 		};
 
 		this.sessions.set(id, info);
@@ -291,9 +552,10 @@ export class SessionStore {
 	private cleanupEmptySessions(): number {
 		const emptySessionIds: string[] = [];
 
+		const activeIds = new Set(Object.values(this.activeSessionIds));
 		for (const [id, info] of this.sessions) {
-			// 跳过当前活跃的 session（即使为空也保留）
-			if (id === this.activeSessionId) continue;
+			// 跳过当前和其他项目活跃的 session（即使为空也保留）
+			if (id === this.activeSessionId || activeIds.has(id)) continue;
 
 			if (info.messageCount === 0) {
 				emptySessionIds.push(id);
@@ -372,30 +634,37 @@ export class SessionStore {
 	}
 
 	/**
-	 * 加载 session 数据并创建 Session 实例
+	 * 设置 session 是否自动接受文件修改
+	 * @param id Session ID
+	 * @param enabled 是否自动接受
+	 * @returns 是否成功更新
 	 */
-	async loadSession(id: string): Promise<Session | null> {
+	setAutoAcceptEdits(id: string, enabled: boolean): boolean {
 		const info = this.sessions.get(id);
-		if (!info) return null;
+		if (!info) return false;
 
-		const filePath = path.join(this.sessionsDir, `${id}.json`);
-		if (!fs.existsSync(filePath)) {
-			logger.warn("Session file not found", { id });
-			return null;
-		}
+		info.autoAcceptEdits = enabled;
+		this.sessions.set(id, info);
+		this.saveIndex();
 
-		try {
-			const content = fs.readFileSync(filePath, "utf-8");
-			const data = JSON.parse(content) as SerializedSession;
+		return true;
+	}
+
+	/**
+	 * 加载 session 数据并创建 Session 实例
+	 */
+	async loadSession(id: string): Promise<Session | null> {
+		const data = this.getSessionData(id);
+		if (!data) return null;
 
+		try {
 			// 创建 Session 实例并恢复状态
 			const session = createSession({ contextWindow: this.contextWindow });
 
 			const state: SessionInternalState = {
 				messages: data.messages,
 				systemPrompt: null,
-				actualPromptTokens: data.tokenState.actualPromptTokens,
-				actualCompletionTokens: data.tokenState.actualCompletionTokens,
+				...data.tokenState,
 			};
 
 			session.restoreFromState(state);
@@ -407,6 +676,59 @@ export class SessionStore {
 		}
 	}
 
+	/**
+	 * 读取 session 的序列化数据（用于导出）
+	 */
+	getSessionData(id: string): SerializedSession | null {
+		const info = this.sessions.get(id);
+		if (!info) return null;
+
+		const filePath = path.join(this.sessionsDir, `${id}.json`);
+		if (!fs.existsSync(filePath)) {
+			logger.warn("Session file not found", { id });
+			return null;
+		}
+
+		try {
+			const content = fs.readFileSync(filePath, "utf-8");
+			const data = JSON.parse(content) as SerializedSession;
+			// info 以索引为准（名称等可能在索引中更新过）
+			return { ...data, info: { ...info } };
+		} catch (error) {
+			logger.error("Failed to read session file", { id, error });
+			return null;
+		}
+	}
+
+	/**
+	 * 导入 session 数据为新 session（分配新 ID，不改变活跃 session）
+	 * @returns 新 session 信息
+	 */
+	importSession(data: SerializedSession): SessionInfo {
+		const info: SessionInfo = {
+			id: randomUUID(),
+			name: data.info.name,
+			createdAt: data.info.createdAt ?? Date.now(),
+			updatedAt: Date.now(),
+			tokenUsage: data.info.tokenUsage ?? 0,
+			messageCount: data.messages.length,
+			isActive: false,
+			cwd: data.info.cwd,
+			// 导入到当前项目
+			projectRoot: this.projectRoot,
+		};
+
+		this.sessions.set(info.id, info);
+		this.saveSessionData(info, {
+			messages: data.messages,
+			systemPrompt: null,
+			...data.tokenState,
+		});
+		this.saveIndex();
+
+		return info;
+	}
+
 	/**
 	 * 保存 session 数据
 	 */
@@ -424,24 +746,44 @@ export class SessionStore {
 		info.messageCount = status.messageCount;
 		this.sessions.set(info.id, info);
 
-		// 保存数据
-		this.saveSessionData(info, state);
+		// 保存数据并增量更新搜索索引
+		const data = this.saveSessionData(info, state);
 		this.saveIndex();
+		this.updateSearchIndex(data);
+	}
+
+	/**
+	 * 增量更新搜索索引（出错只记录日志，不影响保存）
+	 */
+	private updateSearchIndex(data: SerializedSession): void {
+		try {
+			this.searchIndex.update(data);
+			this.searchIndex.save();
+		} catch (error) {
+			logger.warn("Failed to update session search index", {
+				id: data.info.id,
+				error,
+			});
+		}
 	}
 
 	/**
 	 * 保存 session 数据到文件
+	 * @returns 写入的数据
 	 */
 	private saveSessionData(
 		info: SessionInfo,
 		state: SessionInternalState,
-	): void {
+	): SerializedSession {
 		const data: SerializedSession = {
 			info,
 			messages: state.messages,
 			tokenState: {
 				actualPromptTokens: state.actualPromptTokens,
 				actualCompletionTokens: state.actualCompletionTokens,
+				cacheReadTokens: state.cacheReadTokens,
+				cacheCreationTokens: state.cacheCreationTokens,
+				totalCost: state.totalCost,
 			},
 		};
 
@@ -453,6 +795,7 @@ export class SessionStore {
 		} catch (error) {
 			logger.error("Failed to save session data", { id: info.id, error });
 		}
+		return data;
 	}
 
 	/**
@@ -478,8 +821,9 @@ export class SessionStore {
 			logger.error("Failed to delete session file", { id, error });
 		}
 
-		// 从列表移除
+		// 从列表和搜索索引移除
 		this.sessions.delete(id);
+		this.searchIndex.remove(id);
 		this.saveIndex();
 
 		return true;
@@ -522,12 +866,13 @@ export class SessionStore {
 	}
 
 	/**
-	 * 清除所有 session 并创建新的
+	 * 清除当前项目的 session 并创建新的
+	 * @param options.all 为 true 时清除所有项目的 session
 	 * @returns 新创建的 session 信息
 	 */
-	clearAllSessions(): SessionInfo {
-		// 删除所有 session 文件
-		for (const id of this.sessions.keys()) {
+	clearAllSessions(options?: { all?: boolean }): SessionInfo {
+		// 删除 session 文件和搜索索引（其他项目的 session 保留）
+		for (const { id } of this.listSessions(options)) {
 			const filePath = path.join(this.sessionsDir, `${id}.json`);
 			try {
 				if (fs.existsSync(filePath)) {
@@ -539,10 +884,15 @@ export class SessionStore {
 					error,
 				});
 			}
+			this.sessions.delete(id);
+			if (!options?.all) {
+				this.searchIndex.remove(id);
+			}
 		}
 
-		// 清空内存中的 sessions
-		this.sessions.clear();
+		if (options?.all) {
+			this.searchIndex.clear();
+		}
 		this.activeSessionId = null;
 
 		// 创建新的 session
@@ -41,6 +41,38 @@ export function estimateTokens(text: string): number {
 	return Math.ceil(tokens);
 }
 
+/**
+ * 服务端缩放后图片长边的最大像素（Anthropic 为 1568，OpenAI high detail 相近）
+ */
+export const IMAGE_MAX_EDGE = 1568;
+
+/**
+ * 估算图片的 token 数量
+ *
+ * 长边超过 IMAGE_MAX_EDGE 的图片会被服务端等比缩小，
+ * 缩放后按约 750 像素/token 计算（Anthropic 的计算方式）
+ *
+ * @param width 图片宽度（像素）
+ * @param height 图片高度（像素）
+ * @returns 估算的 token 数量
+ */
+export function estimateImageTokens(width: number, height: number): number {
+	const scale = Math.min(1, IMAGE_MAX_EDGE / Math.max(width, height, 1));
+	return Math.ceil((width * scale * (height * scale)) / 750);
+}
+
+/**
+ * 估算多张图片的 token 总数
+ */
+export function estimateImagesTokens(
+	images: Array<{ width: number; height: number }>,
+): number {
+	return images.reduce(
+		(sum, image) => sum + estimateImageTokens(image.width, image.height),
+		0,
+	);
+}
+
 /**
  * 检查内容是否能放入上下文窗口
  *
@@ -3,12 +3,18 @@
  * 处理 AI 返回的 function call，执行工具并返回结果
  */
 
+import { relative } from "node:path";
 import type {
 	IToolCallHandler,
 	ToolCall,
 	ChatMessage,
 	ToolExecutionResult,
 	AskUserCallback,
+	ToolPermissionCallback,
+	ToolPermissionDecision,
+	FileChangeReviewCallback,
+	FileChangeReviewDecision,
+	ToolOutputCallback,
 } from "./types.js";
 import type {
 	IToolRegistry,
@@ -16,6 +22,74 @@ import type {
 	ToolAction,
 } from "../tools/types.js";
 import { executeToolAction, getToolAction } from "../tools/executor.js";
+import {
+	isToolCallAllowed,
+	getPermissionSubject,
+	buildAllowPattern,
+	addAllowPattern,
+} from "../tools/permissions.js";
+import { previewFileChange } from "../tools/handlers/fileHandler.js";
+import { createUnifiedDiff } from "../tools/diff.js";
+import type { FileChangePreview } from "../tools/fileOperations.js";
+import { recordToolCall } from "../tools/usageStats.js";
+import { getSessionStore } from "./sessionStore.js";
+import { DEFAULT_TOOL_CONCURRENCY } from "../../utils/config.js";
+
+/**
+ * 判断工具动作是否只读（可与其他只读调用并行执行）
+ * - 动作显式设置 readOnly 时以其为准
+ * - 否则只有 read/search 能力的工具视为只读
+ */
+export function isReadOnlyAction(
+	tool: DiscoveredTool,
+	action: ToolAction,
+): boolean {
+	if (action.readOnly !== undefined) {
+		return action.readOnly;
+	}
+	const capabilities = tool.capabilities ?? [];
+	return (
+		capabilities.length > 0 &&
+		capabilities.every((cap) => cap === "read" || cap === "search")
+	);
+}
+
+/**
+ * 按顺序执行异步回调（并行调用时权限确认/文件预览仍逐个弹出）
+ */
+function serialize<Args extends unknown[], Result>(
+	fn: (...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result> {
+	let queue: Promise<unknown> = Promise.resolve();
+	return (...args) => {
+		const result = queue.then(() => fn(...args));
+		queue = result.catch(() => {});
+		return result;
+	};
+}
+
+/**
+ * 以有限并行数执行任务，结果按输入顺序返回
+ */
+async function runWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	worker: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const runners = Array.from(
+		{ length: Math.min(limit, items.length) },
+		async () => {
+			while (next < items.length) {
+				const index = next++;
+				results[index] = await worker(items[index]!);
+			}
+		},
+	);
+	await Promise.all(runners);
+	return results;
+}
 
 /**
  * 工具调用处理器实现
@@ -26,6 +100,8 @@ export class ToolCallHandler implements IToolCallHandler {
 		private options?: {
 			cwd?: string;
 			timeout?: number;
+			/** 只读调用的最大并行数（默认 4，1 表示顺序执行） */
+			concurrency?: number;
 		},
 	) {}
 
@@ -46,8 +122,15 @@ export class ToolCallHandler implements IToolCallHandler {
 
 	/**
 	 * 执行单个工具调用
+	 * @param onToolPermission 可选的权限确认回调，不在 allow 列表中的调用需用户批准
+	 * @param onFileChangeReview 可选的文件修改预览回调，file_write / file_edit 需用户接受 diff
 	 */
-	private async executeSingleCall(call: ToolCall): Promise<{
+	private async executeSingleCall(
+		call: ToolCall,
+		onToolPermission?: ToolPermissionCallback,
+		onFileChangeReview?: FileChangeReviewCallback,
+		onToolOutput?: ToolOutputCallback,
+	): Promise<{
 		result: ToolExecutionResult;
 		tool?: DiscoveredTool;
 		action?: ToolAction;
@@ -106,20 +189,74 @@ export class ToolCallHandler implements IToolCallHandler {
 			};
 		}
 
-		// 执行工具
+		// 文件修改预览（提供回调时替代权限检查，用户通过 diff 决定是否写入）
+		const preview = onFileChangeReview
+			? previewFileChange(
+					action.commandTemplate,
+					args,
+					this.options?.cwd || process.cwd(),
+				)
+			: null;
+
+		if (preview?.success && onFileChangeReview) {
+			const rejected = await this.requestFileChangeReview(
+				tool,
+				action,
+				preview,
+				onFileChangeReview,
+			);
+			if (rejected) {
+				return { result: rejected, tool, action };
+			}
+		} else if (onToolPermission && !isToolCallAllowed(tool, action, args)) {
+			// 权限检查（仅在提供回调时生效）
+			// 预览失败（如文件无法读取、old_content 不存在）时同样需要确认，不能绕过检查直接写入
+			const denied = await this.requestPermission(
+				tool,
+				action,
+				args,
+				onToolPermission,
+			);
+			if (denied) {
+				return { result: denied, tool, action };
+			}
+		}
+
+		// 执行工具（命令输出实时转发给 UI）
+		onToolOutput?.({
+			type: "start",
+			callId: call.id,
+			name: call.function.name,
+			arguments: call.function.arguments,
+		});
 		const startTime = Date.now();
 		const execResult = await executeToolAction(tool, action, args, {
 			cwd: this.options?.cwd,
 			timeout: this.options?.timeout,
+			onOutput: onToolOutput
+				? (chunk, stream) =>
+						onToolOutput({ type: "output", callId: call.id, chunk, stream })
+				: undefined,
 		});
 		const duration = Date.now() - startTime;
+		const output = execResult.success
+			? execResult.stdout
+			: execResult.error || execResult.stderr || "Execution failed";
+
+		recordToolCall({
+			timestamp: startTime,
+			toolId: tool.id,
+			action: action.name,
+			success: execResult.success,
+			duration,
+			outputSize: output.length,
+			sessionId: getSessionStore()?.getActiveSessionId() ?? undefined,
+		});
 
 		return {
 			result: {
 				success: execResult.success,
-				output: execResult.success
-					? execResult.stdout
-					: execResult.error || execResult.stderr || "Execution failed",
+				output,
 				error: execResult.success
 					? undefined
 					: execResult.error || execResult.stderr,
@@ -130,54 +267,225 @@ export class ToolCallHandler implements IToolCallHandler {
 		};
 	}
 
+	/**
+	 * 请求用户批准工具调用
+	 * @returns 被拒绝时返回错误结果，批准时返回 null
+	 */
+	private async requestPermission(
+		tool: DiscoveredTool,
+		action: ToolAction,
+		args: Record<string, unknown>,
+		onToolPermission: ToolPermissionCallback,
+	): Promise<ToolExecutionResult | null> {
+		const allowPattern = buildAllowPattern(tool, action, args);
+
+		let decision: ToolPermissionDecision;
+		try {
+			decision = await onToolPermission({
+				toolId: tool.id,
+				toolName: tool.name,
+				actionName: action.name,
+				args,
+				subject: getPermissionSubject(tool, action, args),
+				allowPattern,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return {
+				success: false,
+				output: "",
+				error: `Permission request failed: ${message}`,
+			};
+		}
+
+		if (decision.type === "always") {
+			addAllowPattern(allowPattern);
+			return null;
+		}
+		if (decision.type === "allow") {
+			return null;
+		}
+
+		const note = decision.note ? ` User note: ${decision.note}` : "";
+		return {
+			success: false,
+			output: "",
+			error: `User denied permission to run this tool call.${note}`,
+		};
+	}
+
+	/**
+	 * 显示文件修改 diff 并等待用户决定
+	 * @returns 被拒绝时返回错误结果，接受（或无实际修改）时返回 null
+	 */
+	private async requestFileChangeReview(
+		tool: DiscoveredTool,
+		action: ToolAction,
+		preview: FileChangePreview,
+		onFileChangeReview: FileChangeReviewCallback,
+	): Promise<ToolExecutionResult | null> {
+		const diff = createUnifiedDiff(
+			preview.oldContent,
+			preview.newContent,
+			relative(this.options?.cwd || process.cwd(), preview.path) ||
+				preview.path,
+			{ isNewFile: preview.isNewFile },
+		);
+		// 内容不变（且文件已存在）时无需确认
+		if (!diff.text && !preview.isNewFile) {
+			return null;
+		}
+
+		let decision: FileChangeReviewDecision;
+		try {
+			decision = await onFileChangeReview({
+				toolId: tool.id,
+				actionName: action.name,
+				path: preview.path,
+				diff: diff.text,
+				isNewFile: preview.isNewFile,
+				additions: diff.additions,
+				deletions: diff.deletions,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return {
+				success: false,
+				output: "",
+				error: `File change review failed: ${message}`,
+			};
+		}
+
+		if (decision.type === "accept") {
+			return null;
+		}
+
+		const note = decision.note ? ` User note: ${decision.note}` : "";
+		return {
+			success: false,
+			output: "",
+			error: `User rejected the change to ${preview.path}; the file was not modified.${note}`,
+		};
+	}
+
 	/**
 	 * 处理 AI 返回的工具调用
 	 * @param toolCalls 工具调用列表
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
+	 * @param onToolPermission 可选的权限确认回调（未提供时不做权限检查）
+	 * @param onFileChangeReview 可选的文件修改预览回调（提供时替代文件修改的权限检查）
 	 */
 	async handleToolCalls(
 		toolCalls: ToolCall[],
 		onAskUser?: AskUserCallback,
+		onToolPermission?: ToolPermissionCallback,
+		onFileChangeReview?: FileChangeReviewCallback,
+		onToolOutput?: ToolOutputCallback,
 	): Promise<ChatMessage[]> {
 		const results: ChatMessage[] = [];
+		const concurrency = Math.max(
+			1,
+			this.options?.concurrency ?? DEFAULT_TOOL_CONCURRENCY,
+		);
+		// 并行执行时用户确认仍需逐个进行
+		const permission = onToolPermission && serialize(onToolPermission);
+		const review = onFileChangeReview && serialize(onFileChangeReview);
+
+		// 连续的只读调用组成一批并行执行，其他调用（写入、shell、ask_user）按顺序执行
+		let batch: ToolCall[] = [];
+		const flush = async () => {
+			if (batch.length === 0) return;
+			results.push(
+				...(await runWithConcurrency(batch, concurrency, (call) =>
+					this.handleSingleCall(call, permission, review, onToolOutput),
+				)),
+			);
+			batch = [];
+		};
 
 		for (const call of toolCalls) {
+			if (this.isParallelizable(call)) {
+				batch.push(call);
+				continue;
+			}
+
+			await flush();
 			const { toolId, actionName } = this.parseToolCallName(call.function.name);
 
 			// Special handling for askuser tool
 			if (toolId === "askuser" && actionName === "ask") {
-				const askResult = await this.handleAskUser(call, onAskUser);
-				results.push(askResult);
+				results.push(await this.handleAskUser(call, onAskUser));
 				continue;
 			}
 
-			const { result, tool, action } = await this.executeSingleCall(call);
+			results.push(
+				await this.handleSingleCall(call, permission, review, onToolOutput),
+			);
+		}
+		await flush();
 
-			// 构建工具结果消息
-			let content: string;
-			if (result.success) {
-				content = result.output || "(execution succeeded, no output)";
-			} else {
-				content = `Error: ${result.error || "Unknown error"}`;
-			}
+		return results;
+	}
 
-			// 添加执行信息
-			if (tool && action) {
-				const info = [`[${tool.name}:${action.name}]`];
-				if (result.duration) {
-					info.push(`(${result.duration}ms)`);
-				}
-				content = `${info.join(" ")}\n${content}`;
-			}
+	/**
+	 * 判断工具调用能否与相邻的只读调用并行执行
+	 */
+	private isParallelizable(call: ToolCall): boolean {
+		const { toolId, actionName } = this.parseToolCallName(call.function.name);
+		const tool = this.registry.getTool(toolId);
+		if (!tool?.installed) return false;
+		const action = tool.actions.find((a) => a.name === actionName);
+		return action !== undefined && isReadOnlyAction(tool, action);
+	}
 
-			results.push({
-				role: "tool",
-				tool_call_id: call.id,
-				content,
-			});
+	/**
+	 * 执行单个工具调用并构建工具结果消息
+	 */
+	private async handleSingleCall(
+		call: ToolCall,
+		onToolPermission?: ToolPermissionCallback,
+		onFileChangeReview?: FileChangeReviewCallback,
+		onToolOutput?: ToolOutputCallback,
+	): Promise<ChatMessage> {
+		const { result, tool, action } = await this.executeSingleCall(
+			call,
+			onToolPermission,
+			onFileChangeReview,
+			onToolOutput,
+		);
+
+		// 构建工具结果消息
+		let content: string;
+		if (result.success) {
+			content = result.output || "(execution succeeded, no output)";
+		} else {
+			content = `Error: ${result.error || "Unknown error"}`;
 		}
 
-		return results;
+		onToolOutput?.({
+			type: "end",
+			callId: call.id,
+			name: call.function.name,
+			arguments: call.function.arguments,
+			success: result.success,
+			duration: result.duration,
+			output: content,
+		});
+
+		// 添加执行信息
+		if (tool && action) {
+			const info = [`[${tool.name}:${action.name}]`];
+			if (result.duration) {
+				info.push(`(${result.duration}ms)`);
+			}
+			content = `${info.join(" ")}\n${content}`;
+		}
+
+		return {
+			role: "tool",
+			tool_call_id: call.id,
+			content,
+		};
 	}
 
 	/**
@@ -261,6 +569,7 @@ export function createToolCallHandler(
 	options?: {
 		cwd?: string;
 		timeout?: number;
+		concurrency?: number;
 	},
 ): IToolCallHandler {
 	return new ToolCallHandler(registry, options);
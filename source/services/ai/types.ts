@@ -3,6 +3,8 @@
  */
 
 import type { DiscoveredTool, ToolAction } from "../tools/types.js";
+import type { ModelPricing } from "../../utils/config.js";
+import type { MessageOverrides } from "./messageQueue.js";
 
 // ============================================================================
 // Chat Message Types
@@ -23,6 +25,8 @@ export type ToolCall = {
 		name: string; // 格式: toolId_actionName (如 "git_status")
 		arguments: string; // JSON 字符串
 	};
+	// Gemini 思考模型返回的签名，下一轮请求需原样回传
+	thought_signature?: string;
 };
 
 /**
@@ -40,6 +44,23 @@ export type ChatMessage = {
 	tool_calls?: ToolCall[];
 	// 思考内容（Anthropic extended thinking, DeepSeek-R1 等）
 	reasoning_content?: string;
+	// 用户消息附带的图片（仅发送给支持视觉的模型）
+	images?: ImageContent[];
+	// 用户消息的覆盖项（自定义命令的 model/allowedTools），/retry 和 /edit 重发时沿用，不发送给 API
+	overrides?: MessageOverrides;
+};
+
+/**
+ * 图片内容（各协议适配器转换为 image_url / image 块等格式）
+ */
+export type ImageContent = {
+	// MIME 类型（image/png、image/jpeg、image/gif、image/webp）
+	mimeType: string;
+	// base64 编码的图片数据
+	data: string;
+	// 图片尺寸（像素，用于估算 token）
+	width: number;
+	height: number;
 };
 
 // ============================================================================
@@ -67,6 +88,10 @@ export type AIResponse = {
 		prompt_tokens: number;
 		completion_tokens: number;
 		total_tokens: number;
+		/** 从 prompt 缓存读取的 token 数（已包含在 prompt_tokens 中） */
+		cache_read_tokens?: number;
+		/** 写入 prompt 缓存的 token 数（已包含在 prompt_tokens 中） */
+		cache_creation_tokens?: number;
 	};
 };
 
@@ -89,6 +114,10 @@ export type AIStreamChunk = {
 		prompt_tokens: number;
 		completion_tokens: number;
 		total_tokens: number;
+		/** 从 prompt 缓存读取的 token 数（已包含在 prompt_tokens 中） */
+		cache_read_tokens?: number;
+		/** 写入 prompt 缓存的 token 数（已包含在 prompt_tokens 中） */
+		cache_creation_tokens?: number;
 	};
 };
 
@@ -110,6 +139,12 @@ export type StreamOptions = {
 	signal?: AbortSignal;
 	/** Whether plan mode is enabled (affects tool selection and system prompt) */
 	planMode?: boolean;
+	/** 仅本次请求使用的模型 ID（自定义命令的 model 覆盖） */
+	modelId?: string;
+	/** 随用户消息发送的图片 */
+	images?: ImageContent[];
+	/** 本条消息的覆盖项（记录到用户消息上，供重发时沿用） */
+	overrides?: MessageOverrides;
 };
 
 // ============================================================================
@@ -168,6 +203,8 @@ export type AnthropicTool = {
 		properties: Record<string, JSONSchema>;
 		required: string[];
 	};
+	/** prompt caching 断点 */
+	cache_control?: { type: "ephemeral" };
 };
 
 // ============================================================================
@@ -185,6 +222,12 @@ export type AIClientConfig = {
 	timeout?: number;
 	// 最大重试次数
 	maxRetries?: number;
+	// 单次响应的最大输出 token 数
+	maxOutputTokens?: number;
+	// 采样温度
+	temperature?: number;
+	// 是否启用 prompt caching（Anthropic）
+	promptCaching?: boolean;
 };
 
 /**
@@ -309,11 +352,17 @@ export type IToolCallHandler = {
 	 * 处理 AI 返回的工具调用
 	 * @param toolCalls 工具调用列表
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
+	 * @param onToolPermission 可选的权限确认回调（未提供时不做权限检查）
+	 * @param onFileChangeReview 可选的文件修改预览回调（提供时替代文件修改的权限检查）
+	 * @param onToolOutput 可选的执行进度回调（实时输出命令的 stdout/stderr）
 	 * @returns 工具结果消息列表
 	 */
 	handleToolCalls(
 		toolCalls: ToolCall[],
 		onAskUser?: AskUserCallback,
+		onToolPermission?: ToolPermissionCallback,
+		onFileChangeReview?: FileChangeReviewCallback,
+		onToolOutput?: ToolOutputCallback,
 	): Promise<ChatMessage[]>;
 
 	/**
@@ -352,6 +401,16 @@ export type AIServiceConfig = {
 	contextAwareEnabled?: boolean;
 	// 上下文窗口大小（token 数）
 	contextWindow?: number;
+	// 根据模型 ID 创建客户端（用于单条消息的模型覆盖）
+	createClient?: (modelId: string) => IAIClient | null;
+	// 当前模型请求失败时依次切换的备用模型 ID（通过 createClient 创建）
+	fallbackModels?: string[];
+	// 根据模型 ID 获取价格（用于费用统计）
+	getPricing?: (modelId: string) => ModelPricing | undefined;
+	// 模型是否支持图片输入（会话中有图片时跳过不支持的备用模型）
+	supportsVision?: (modelId: string) => boolean;
+	// 同一轮中只读工具调用的最大并行数
+	toolConcurrency?: number;
 };
 
 /**
@@ -370,6 +429,12 @@ export type SessionStatus = {
 	isFull: boolean;
 	/** 消息数量 */
 	messageCount: number;
+	/** 累计从 prompt 缓存读取的 token 数 */
+	cacheReadTokens: number;
+	/** 累计写入 prompt 缓存的 token 数 */
+	cacheCreationTokens: number;
+	/** 累计费用（美元，模型未配置价格时为 0） */
+	totalCost: number;
 };
 
 /**
@@ -400,6 +465,14 @@ export type StreamCallbacks = {
 	onStart?: () => void;
 	/** 流式结束 */
 	onEnd?: (finalContent: StreamContent) => void;
+	/** 工具调用权限确认（不在 allow 列表中的调用会暂停等待用户决定） */
+	onToolPermission?: ToolPermissionCallback;
+	/** 文件修改预览（file_write / file_edit 显示 diff 等待用户接受或拒绝） */
+	onFileChangeReview?: FileChangeReviewCallback;
+	/** 工具执行进度（命令运行期间实时输出） */
+	onToolOutput?: ToolOutputCallback;
+	/** 当前模型请求失败，已切换到备用模型重试 */
+	onModelFallback?: (modelId: string, error: Error) => void;
 };
 
 /**
@@ -507,3 +580,119 @@ export type AskUserCallback = (
 	question: string,
 	options: string[],
 ) => Promise<string>;
+
+// ============================================================================
+// Tool Permission Types
+// ============================================================================
+
+/**
+ * Tool call waiting for user approval
+ */
+export type ToolPermissionRequest = {
+	/** Tool ID (e.g. "git") */
+	toolId: string;
+	/** Tool display name (e.g. "Git") */
+	toolName: string;
+	/** Action name (e.g. "push") */
+	actionName: string;
+	/** Parsed call arguments */
+	args: Record<string, unknown>;
+	/** Script content, rendered command, or path the call operates on */
+	subject: string;
+	/** Pattern that "always allow" would save to localsettings.json */
+	allowPattern: string;
+};
+
+/**
+ * User decision for a tool permission request
+ * - allow: run this call once
+ * - always: run and save allowPattern to the allow list
+ * - deny: skip the call, optional note is returned to the AI
+ */
+export type ToolPermissionDecision =
+	{ type: "allow" } | { type: "always" } | { type: "deny"; note?: string };
+
+/**
+ * Callback to ask the user whether a tool call may run
+ */
+export type ToolPermissionCallback = (
+	request: ToolPermissionRequest,
+) => Promise<ToolPermissionDecision>;
+
+// ============================================================================
+// File Change Review Types
+// ============================================================================
+
+/**
+ * Pending file_write / file_edit change waiting for user review
+ */
+export type FileChangeReviewRequest = {
+	/** Tool ID (e.g. "file") */
+	toolId: string;
+	/** Action name (e.g. "edit") */
+	actionName: string;
+	/** Absolute path of the file */
+	path: string;
+	/** Unified diff of the change */
+	diff: string;
+	/** Whether the file will be created */
+	isNewFile: boolean;
+	/** Number of added lines */
+	additions: number;
+	/** Number of deleted lines */
+	deletions: number;
+};
+
+/**
+ * User decision for a file change review
+ * - accept: apply the change
+ * - reject: skip the change, optional note is returned to the AI
+ */
+export type FileChangeReviewDecision =
+	| { type: "accept" }
+	| { type: "reject"; note?: string };
+
+/**
+ * Callback to show a file change diff and wait for the user's decision
+ */
+export type FileChangeReviewCallback = (
+	request: FileChangeReviewRequest,
+) => Promise<FileChangeReviewDecision>;
+
+/**
+ * Progress of a tool call (for live display in the UI)
+ * - start: the call passed the permission check and starts running
+ * - output: the command produced new stdout/stderr output
+ * - end: the call finished, or failed/was denied before running
+ */
+export type ToolOutputEvent =
+	| {
+			type: "start";
+			callId: string;
+			/** Tool call name (toolId_action) */
+			name: string;
+			/** Arguments JSON string */
+			arguments: string;
+	  }
+	| {
+			type: "output";
+			callId: string;
+			chunk: string;
+			stream: "stdout" | "stderr";
+	  }
+	| {
+			type: "end";
+			callId: string;
+			name: string;
+			arguments: string;
+			success: boolean;
+			/** Execution time, unset if the call did not run */
+			duration?: number;
+			/** Result returned to the AI (output or error message) */
+			output: string;
+	  };
+
+/**
+ * Callback receiving tool call progress events
+ */
+export type ToolOutputCallback = (event: ToolOutputEvent) => void;
@@ -3,6 +3,7 @@
  * 根据 SlashCommand 的 action 类型分发处理逻辑
  */
 
+import * as fs from "node:fs";
 import type {
 	SlashCommand,
 	CommandAction,
@@ -11,14 +12,61 @@ import { SLASH_COMMANDS, clearCommandCache } from "../constants/commands.js";
 import { getToolRegistry } from "./tools/registry.js";
 import {
 	getModelById,
+	getCurrentModelId,
 	setCurrentModelId,
 	setSuggestionModelId,
 	setSuggestionEnabled,
 	setThinkingEnabled,
 	setPlanModeEnabled,
+	getDailyBudget,
 } from "../utils/config.js";
 import { t, setLocale } from "../i18n/index.js";
-import { getSessionStore } from "./ai/sessionStore.js";
+import { getSessionStore, type SessionInfo } from "./ai/sessionStore.js";
+import {
+	getLastSearchResults,
+	setLastSearchResults,
+	highlightSnippet,
+	type SessionSearchResult,
+} from "./ai/sessionSearch.js";
+import {
+	exportSession,
+	parseSessionExport,
+	EXPORT_FORMATS,
+	type ExportFormat,
+} from "./ai/sessionExport.js";
+import { getCheckpointStore } from "./tools/checkpointStore.js";
+import {
+	getToolUsageStats,
+	STATS_WINDOWS,
+	type StatsWindow,
+	type ToolUsageStats,
+} from "./tools/usageStats.js";
+import {
+	loadUsageRecords,
+	summarizeUsage,
+	getDayStart,
+	formatCost,
+	type UsageTotals,
+} from "./ai/costTracker.js";
+import {
+	getMcpClientManager,
+	type McpServerState,
+} from "./tools/mcp/client.js";
+import {
+	getBackgroundProcessManager,
+	type BackgroundProcessInfo,
+} from "./tools/backgroundProcesses.js";
+import {
+	loadMemoryFiles,
+	getProjectMemoryPath,
+	MEMORY_FILENAME,
+} from "../utils/memory.js";
+import { openWithDefaultApp } from "../utils/platform.js";
+import {
+	expandCommandTemplate,
+	splitArguments,
+} from "../utils/customCommands.js";
+import type { MessageOverrides } from "./ai/messageQueue.js";
 
 /**
  * 内部命令处理器映射
@@ -26,6 +74,7 @@ import { getSessionStore } from "./ai/sessionStore.js";
 type InternalHandler = (
 	path: string[],
 	context: CommandContext,
+	args: string,
 ) => CommandResult;
 
 /**
@@ -42,8 +91,8 @@ export type CommandContext = {
 export type CommandCallbacks = {
 	/** 显示消息 */
 	showMessage: (content: string) => void;
-	/** 发送给 AI */
-	sendToAI: (content: string) => void;
+	/** 发送给 AI（overrides 来自自定义命令的 model / allowed-tools） */
+	sendToAI: (content: string, overrides?: MessageOverrides) => void;
 	/** 更新配置 */
 	setConfig: (key: string, value: string) => void;
 	/** 执行 compact（总结并压缩会话） */
@@ -58,10 +107,18 @@ export type CommandCallbacks = {
 	sessionNew: () => Promise<void>;
 	/** 切换 session */
 	sessionSwitch: (id: string) => Promise<void>;
+	/** 把当前 session 分叉为新 session 并切换过去（beforeUserMessage 为空时复制全部历史） */
+	sessionFork: (beforeUserMessage?: number) => Promise<void>;
 	/** 删除 session */
 	sessionDelete: (id: string) => void;
-	/** 清除所有 session 并创建新的 */
-	sessionClear: () => Promise<void>;
+	/** 清除当前项目（all 为 true 时所有项目）的 session 并创建新的 */
+	sessionClear: (all?: boolean) => Promise<void>;
+	/** 回退到指定轮次之前（恢复文件并回滚对话） */
+	rewind: (turnId: number) => Promise<void>;
+	/** 回滚最后一轮对话并重新发送用户消息 */
+	retry: () => Promise<void>;
+	/** 把最后一条用户消息放回输入框，提交后替换原来的一轮 */
+	editLastMessage: () => void;
 };
 
 /**
@@ -69,7 +126,7 @@ export type CommandCallbacks = {
  */
 type CommandResult =
 	| { type: "message"; content: string }
-	| { type: "prompt"; content: string }
+	| { type: "prompt"; content: string; overrides?: MessageOverrides }
 	| { type: "config"; key: string; value: string }
 	| { type: "action"; action: "exit" }
 	| { type: "async"; handler: () => Promise<string> }
@@ -80,7 +137,8 @@ type CommandResult =
 				| "stop"
 				| "recreate_ai_service"
 				| "session_new"
-				| "sessionClear";
+				| "retry"
+				| "edit_last_message";
 	  }
 	| {
 			type: "callback_with_message";
@@ -89,11 +147,254 @@ type CommandResult =
 	  }
 	| {
 			type: "callback_with_param";
-			callback: "session_switch" | "session_delete";
+			callback:
+				| "session_switch"
+				| "session_delete"
+				| "session_fork"
+				| "session_clear"
+				| "rewind";
 			param: string;
 	  }
 	| { type: "error"; message: string };
 
+/**
+ * 设置当前 session 是否自动接受文件修改
+ */
+function setAutoAcceptEdits(enabled: boolean): CommandResult {
+	const store = getSessionStore();
+	const activeId = store?.getActiveSessionId();
+	if (!store || !activeId) {
+		return { type: "error", message: t("session.storeNotInitialized") };
+	}
+
+	store.setAutoAcceptEdits(activeId, enabled);
+	clearCommandCache();
+	return {
+		type: "message",
+		content: enabled
+			? t("commandHandler.autoAcceptEnabled")
+			: t("commandHandler.autoAcceptDisabled"),
+	};
+}
+
+/**
+ * 按分叉关系排列 session：分支紧跟在父 session 之后，父 session 不在列表中时作为顶层
+ * @returns session 和分支深度
+ */
+function orderSessionTree(
+	sessions: SessionInfo[],
+): Array<{ session: SessionInfo; depth: number }> {
+	const ids = new Set(sessions.map((session) => session.id));
+	const children = new Map<string, SessionInfo[]>();
+	const roots: SessionInfo[] = [];
+	for (const session of sessions) {
+		if (session.parentId && ids.has(session.parentId)) {
+			const siblings = children.get(session.parentId) ?? [];
+			siblings.push(session);
+			children.set(session.parentId, siblings);
+		} else {
+			roots.push(session);
+		}
+	}
+
+	const ordered: Array<{ session: SessionInfo; depth: number }> = [];
+	const visit = (session: SessionInfo, depth: number) => {
+		ordered.push({ session, depth });
+		for (const child of children.get(session.id) ?? []) {
+			visit(child, depth + 1);
+		}
+	};
+	roots.forEach((session) => visit(session, 0));
+	return ordered;
+}
+
+/**
+ * 格式化 session 搜索结果（匹配内容加粗）
+ */
+function formatSearchResults(
+	query: string,
+	results: SessionSearchResult[],
+): string {
+	const lines: string[] = [
+		`## ${t("session.searchTitle", { query, count: results.length })}\n`,
+	];
+	results.forEach(({ session, matches, snippet }, index) => {
+		const date = new Date(session.updatedAt).toLocaleString();
+		lines.push(
+			`${index + 1}. **${session.name}** | ${date} | \`${session.id.substring(0, 8)}\` | ${t("session.searchMatches", { count: matches })}`,
+			`   > ${highlightSnippet(snippet, (text) => `**${text}**`)}`,
+			"",
+		);
+	});
+	lines.push(t("session.searchSelectHint"));
+	return lines.join("\n");
+}
+
+/**
+ * 格式化单个 MCP server 的状态
+ */
+function formatMcpServer(server: McpServerState): string {
+	const marker = server.status === "connected" ? "✓" : "○";
+	const version = server.serverVersion ? ` ${server.serverVersion}` : "";
+	const lines = [
+		`${marker} **${server.name}**${version} \`${server.toolId}\` (${server.transport})`,
+		`  ${t(`mcp.status.${server.status}`)} | ${t("mcp.toolCount", { count: server.toolCount })}`,
+	];
+	if (server.error) {
+		lines.push(`  ${t("mcp.error", { error: server.error.split("\n")[0] })}`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * 格式化耗时（毫秒）
+ */
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * 格式化百分比
+ */
+function formatPercent(rate: number): string {
+	return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * 格式化工具调用统计
+ */
+function formatToolUsageStats(stats: ToolUsageStats): string {
+	const lines = [
+		`## ${t("toolStats.title", { window: t(`commands.tools.statsWindow.${stats.window}`) })}`,
+		"",
+	];
+	if (stats.totalCalls === 0) {
+		lines.push(t("toolStats.empty"));
+		return lines.join("\n");
+	}
+
+	lines.push(
+		`- ${t("toolStats.summary", {
+			calls: stats.totalCalls,
+			failures: stats.failures,
+			rate: formatPercent(stats.failures / stats.totalCalls),
+			sessions: stats.sessions,
+		})}`,
+		"",
+		`### ${t("toolStats.byAction")}`,
+		"",
+		`| ${t("toolStats.action")} | ${t("toolStats.calls")} | ${t("toolStats.failureRate")} | p50 | p95 |`,
+		"| --- | ---: | ---: | ---: | ---: |",
+	);
+	for (const action of stats.actions) {
+		lines.push(
+			`| ${action.name} | ${action.calls} | ${formatPercent(action.failureRate)} | ${formatDuration(action.p50Duration)} | ${formatDuration(action.p95Duration)} |`,
+		);
+	}
+
+	if (stats.mostFailing.length > 0) {
+		lines.push("", `### ${t("toolStats.mostFailing")}`, "");
+		for (const action of stats.mostFailing) {
+			lines.push(
+				`- ${action.name}: ${action.failures}/${action.calls} (${formatPercent(action.failureRate)})`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
+
+// /cost 按模型统计最近 30 天，按日期列出最近 7 天
+const COST_MODEL_DAYS = 30;
+const COST_DAY_ROWS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 格式化 token 数（千位分隔）
+ */
+function formatTokenCount(tokens: number): string {
+	return tokens.toLocaleString("en-US");
+}
+
+/**
+ * 格式化费用统计表格的一行
+ */
+function formatUsageRow(label: string, totals: UsageTotals): string {
+	return `| ${label} | ${totals.requests} | ${formatTokenCount(totals.promptTokens)} | ${formatTokenCount(totals.completionTokens)} | ${formatTokenCount(totals.cacheReadTokens)} | ${formatCost(totals.cost)} |`;
+}
+
+/**
+ * 格式化费用统计（当前会话、今日与预算、按模型、按日期）
+ */
+function formatCostReport(now: number = Date.now()): string {
+	const lines = [`## ${t("cost.title")}`, ""];
+	const todayStart = getDayStart(now);
+	const allRecords = loadUsageRecords();
+	const records = allRecords.filter(
+		(r) => r.timestamp >= todayStart - (COST_MODEL_DAYS - 1) * DAY_MS,
+	);
+	const activeId = getSessionStore()?.getActiveSessionId();
+	const session = summarizeUsage(
+		activeId ? allRecords.filter((r) => r.sessionId === activeId) : [],
+	).total;
+	const today = summarizeUsage(
+		records.filter((r) => r.timestamp >= todayStart),
+	).total;
+
+	lines.push(
+		`- ${t("cost.session", { cost: formatCost(session.cost), requests: session.requests })}`,
+		`- ${t("cost.today", { cost: formatCost(today.cost), requests: today.requests })}`,
+	);
+	const budget = getDailyBudget();
+	if (budget !== undefined) {
+		lines.push(
+			`- ${t("cost.budget", {
+				budget: formatCost(budget),
+				percent: formatPercent(today.cost / budget),
+			})}`,
+		);
+	}
+
+	if (records.length === 0) {
+		lines.push("", t("cost.empty"));
+		return lines.join("\n");
+	}
+
+	const summary = summarizeUsage(records);
+	const header = (label: string) => [
+		`| ${label} | ${t("cost.requests")} | ${t("cost.input")} | ${t("cost.output")} | ${t("cost.cacheRead")} | ${t("cost.cost")} |`,
+		"| --- | ---: | ---: | ---: | ---: | ---: |",
+	];
+	lines.push(
+		"",
+		`### ${t("cost.byModel", { days: COST_MODEL_DAYS })}`,
+		"",
+		...header(t("cost.model")),
+		...summary.byModel.map((m) => formatUsageRow(m.model, m)),
+		"",
+		`### ${t("cost.byDay")}`,
+		"",
+		...header(t("cost.day")),
+		...summary.byDay
+			.slice(0, COST_DAY_ROWS)
+			.map((d) => formatUsageRow(d.day, d)),
+	);
+	if (summary.total.cost === 0) {
+		lines.push("", t("cost.noPricing"));
+	}
+	return lines.join("\n");
+}
+
+/**
+ * 格式化后台进程信息
+ */
+function formatBackgroundProcess(info: BackgroundProcessInfo): string {
+	const marker = info.status === "running" ? "●" : "○";
+	return [
+		`${marker} **${info.id}** \`${info.command}\``,
+		`  ${t(`background.status.${info.status}`, { pid: info.pid ?? "?", code: info.exitCode ?? "?" })}`,
+	].join("\n");
+}
+
 /**
  * 内部命令处理器注册表
  */
@@ -113,8 +414,13 @@ const internalHandlers: Record<string, InternalHandler> = {
 		callback: "stop",
 	}),
 
+	cost: () => ({
+		type: "async",
+		handler: async () => formatCostReport(),
+	}),
+
 	// Session 命令处理器
-	session_list: () => ({
+	session_list: (_path, _context, args) => ({
 		type: "async",
 		handler: async () => {
 			const store = getSessionStore();
@@ -122,27 +428,48 @@ const internalHandlers: Record<string, InternalHandler> = {
 				return t("session.storeNotInitialized");
 			}
 
-			const sessions = store.listSessions();
+			// 默认只列出当前项目的 session，--all 列出所有项目
+			const all = splitArguments(args).includes("--all");
+			const sessions = store.listSessions({ all });
 			if (sessions.length === 0) {
 				return t("session.listEmpty");
 			}
 
 			const activeId = store.getActiveSessionId();
-			const lines: string[] = [`## ${t("session.listTitle")}\n`];
+			const lines: string[] = [
+				all
+					? `## ${t("session.listTitleAll")}\n`
+					: `## ${t("session.listTitle")}\n`,
+			];
 
-			for (const session of sessions) {
+			// 分叉出的 session 以树形显示在父 session 下（不用前导空格缩进，避免被渲染为代码块）
+			for (const { session, depth } of orderSessionTree(sessions)) {
 				const isActive = session.id === activeId;
 				// 使用 ▸ 和 ○ 作为标记，视觉对齐
 				const marker = isActive ? "▸" : "○";
 				const activeLabel = isActive ? ` (${t("session.active")})` : "";
 				const date = new Date(session.updatedAt).toLocaleString();
+				const project =
+					all && session.projectRoot ? ` | ${session.projectRoot}` : "";
+				const fork =
+					session.forkPoint !== undefined
+						? ` | ${t("session.forkedBefore", { number: session.forkPoint })}`
+						: "";
+				const branch = depth > 0 ? `${"│ ".repeat(depth - 1)}└ ` : "";
 				lines.push(
-					`${marker} **${session.name}**${activeLabel}`,
-					`  ID: \`${session.id.substring(0, 8)}\` | ${session.messageCount} msgs | ${date}`,
+					`${branch}${marker} **${session.name}**${activeLabel}`,
+					`${"│ ".repeat(depth)}  ID: \`${session.id.substring(0, 8)}\` | ${session.messageCount} msgs | ${date}${project}${fork}`,
 					"",
 				);
 			}
 
+			const hidden = all
+				? 0
+				: store.listSessions({ all: true }).length - sessions.length;
+			if (hidden > 0) {
+				lines.push(t("session.otherProjects", { count: hidden }));
+			}
+
 			return lines.join("\n");
 		},
 	}),
@@ -152,8 +479,75 @@ const internalHandlers: Record<string, InternalHandler> = {
 		callback: "session_new",
 	}),
 
+	session_export: (path, _context, args) => {
+		// path = ["session", "export"] 或 ["session", "export", "<format>"]
+		const format = EXPORT_FORMATS.includes(path[2] as ExportFormat)
+			? (path[2] as ExportFormat)
+			: "md";
+		const store = getSessionStore();
+		if (!store) {
+			return { type: "error", message: t("session.storeNotInitialized") };
+		}
+
+		const activeId = store.getActiveSessionId();
+		const data = activeId ? store.getSessionData(activeId) : null;
+		if (!data || data.messages.length === 0) {
+			return { type: "message", content: t("session.exportEmpty") };
+		}
+
+		try {
+			const file = exportSession(data, format, {
+				// 支持带引号的路径（如 "my chat.md"）
+				target: splitArguments(args)[0],
+				cwd: process.cwd(),
+				model: getCurrentModelId(),
+			});
+			return {
+				type: "message",
+				content: t("session.exported", { path: file }),
+			};
+		} catch (error) {
+			return {
+				type: "error",
+				message: t("session.exportFailed", {
+					error: error instanceof Error ? error.message : String(error),
+				}),
+			};
+		}
+	},
+
+	session_import: (_path, _context, args) => {
+		const [file] = splitArguments(args);
+		if (!file) {
+			return { type: "message", content: t("session.importUsage") };
+		}
+		const store = getSessionStore();
+		if (!store) {
+			return { type: "error", message: t("session.storeNotInitialized") };
+		}
+
+		try {
+			const content = fs.readFileSync(file, "utf-8");
+			const info = store.importSession(parseSessionExport(content));
+			// 导入后切换到新 session
+			return {
+				type: "callback_with_param",
+				callback: "session_switch",
+				param: info.id,
+			};
+		} catch (error) {
+			return {
+				type: "error",
+				message: t("session.importFailed", {
+					error: error instanceof Error ? error.message : String(error),
+				}),
+			};
+		}
+	},
+
 	session_switch: (path: string[]) => {
 		// path = ["session", "switch", "<session-name>"]
+		// 或 ["session", "switch", "--all", "<session-name>"]（其他项目的 session）
 		const sessionName = path[path.length - 1];
 		if (!sessionName) {
 			return { type: "error" as const, message: t("session.invalidId") };
@@ -168,7 +562,7 @@ const internalHandlers: Record<string, InternalHandler> = {
 			};
 		}
 
-		const sessions = store.listSessions();
+		const sessions = store.listSessions({ all: path.includes("--all") });
 		const session = sessions.find((s) => s.name === sessionName);
 		if (!session) {
 			return { type: "error" as const, message: t("session.notFound") };
@@ -218,6 +612,98 @@ const internalHandlers: Record<string, InternalHandler> = {
 		};
 	},
 
+	session_fork: (path, _context, args) => {
+		// path = ["session", "fork"] 或 ["session", "fork", "<user-message-number>"]
+		const store = getSessionStore();
+		const activeId = store?.getActiveSessionId();
+		if (!store || !activeId) {
+			return { type: "error", message: t("session.storeNotInitialized") };
+		}
+
+		const userMessages = store.listUserMessages(activeId);
+		if (userMessages.length === 0) {
+			return { type: "message", content: t("session.forkEmpty") };
+		}
+
+		const value = path[2] ?? splitArguments(args)[0];
+		if (value === undefined) {
+			return {
+				type: "callback_with_param",
+				callback: "session_fork",
+				param: "",
+			};
+		}
+
+		const number = Number(value);
+		if (
+			!Number.isInteger(number) ||
+			number < 1 ||
+			number > userMessages.length
+		) {
+			return {
+				type: "error",
+				message: t("session.forkInvalid", {
+					value,
+					count: userMessages.length,
+				}),
+			};
+		}
+		return {
+			type: "callback_with_param",
+			callback: "session_fork",
+			param: String(number),
+		};
+	},
+
+	session_search: (_path, _context, args) => {
+		const query = args.trim();
+		if (!query) {
+			return { type: "message", content: t("session.searchUsage") };
+		}
+
+		const store = getSessionStore();
+		if (!store) {
+			return { type: "error", message: t("session.storeNotInitialized") };
+		}
+
+		let results: SessionSearchResult[];
+		try {
+			results = store.searchSessions(query);
+		} catch (error) {
+			return {
+				type: "error",
+				message: t("session.searchInvalid", {
+					error: error instanceof Error ? error.message : String(error),
+				}),
+			};
+		}
+
+		// 搜索结果作为 /session search 的子命令，选中后切换
+		setLastSearchResults(results);
+		clearCommandCache();
+
+		if (results.length === 0) {
+			return {
+				type: "message",
+				content: t("session.searchNoResults", { query }),
+			};
+		}
+		return { type: "message", content: formatSearchResults(query, results) };
+	},
+
+	session_search_select: (path: string[]) => {
+		// path = ["session", "search", "<result-number>"]
+		const result = getLastSearchResults()[Number(path[path.length - 1]) - 1];
+		if (!result || !getSessionStore()?.getSessionById(result.session.id)) {
+			return { type: "error" as const, message: t("session.notFound") };
+		}
+		return {
+			type: "callback_with_param" as const,
+			callback: "session_switch" as const,
+			param: result.session.id,
+		};
+	},
+
 	// 当没有其他 session 可切换时的处理器
 	session_switch_empty: () => ({
 		type: "message" as const,
@@ -230,10 +716,66 @@ const internalHandlers: Record<string, InternalHandler> = {
 		content: t("session.noSessionsToDelete"),
 	}),
 
-	// 清除所有 session 并创建新的
-	session_clear: () => ({
+	// 清除当前项目的 session 并创建新的（--all 清除所有项目）
+	session_clear: (_path, _context, args) => ({
+		type: "callback_with_param" as const,
+		callback: "session_clear" as const,
+		param: splitArguments(args).includes("--all") ? "--all" : "",
+	}),
+
+	// 文件修改自动接受开关（仅作用于当前 session）
+	autoaccept_on: () => setAutoAcceptEdits(true),
+
+	autoaccept_off: () => setAutoAcceptEdits(false),
+
+	// 文件检查点命令处理器
+	undo: () => {
+		const lastTurn = getCheckpointStore()?.getLastTurn();
+		if (!lastTurn) {
+			return {
+				type: "message" as const,
+				content: t("checkpoint.nothingToUndo"),
+			};
+		}
+		return {
+			type: "callback_with_param" as const,
+			callback: "rewind" as const,
+			param: String(lastTurn.id),
+		};
+	},
+
+	rewind_select: (path: string[]) => {
+		// path = ["rewind", "<turn-id>"]
+		const turnId = path[path.length - 1];
+		const turn = getCheckpointStore()
+			?.listTurns()
+			.find((item) => String(item.id) === turnId);
+		if (!turn) {
+			return { type: "error" as const, message: t("checkpoint.notFound") };
+		}
+		return {
+			type: "callback_with_param" as const,
+			callback: "rewind" as const,
+			param: String(turn.id),
+		};
+	},
+
+	// 当没有可回退的轮次时的处理器
+	rewind_empty: () => ({
+		type: "message" as const,
+		content: t("checkpoint.nothingToUndo"),
+	}),
+
+	// 重新生成最后一轮回复
+	retry: () => ({
+		type: "callback" as const,
+		callback: "retry" as const,
+	}),
+
+	// 编辑并重新发送最后一条用户消息
+	edit_last_message: () => ({
 		type: "callback" as const,
-		callback: "sessionClear" as const,
+		callback: "edit_last_message" as const,
 	}),
 
 	// 工具命令处理器
@@ -255,28 +797,147 @@ const internalHandlers: Record<string, InternalHandler> = {
 		},
 	}),
 
-	tools_stats: () => ({
+	tools_stats: (path: string[]) => {
+		// path = ["tools", "stats", "7d"]，手动输入 "/tools stats" 时默认 7d
+		const last = path[path.length - 1] as StatsWindow;
+		const window = STATS_WINDOWS.includes(last) ? last : "7d";
+		return {
+			type: "async",
+			handler: async () => {
+				const registry = getToolRegistry();
+				if (!registry.isDiscovered) {
+					await registry.discover();
+				}
+				const stats = registry.getStats();
+				const lines = [
+					formatToolUsageStats(getToolUsageStats(window)),
+					"",
+					`## ${t("toolStats.installedTitle")}`,
+					`- ${t("common.installed")}: ${stats.installed}`,
+					`- ${t("common.notInstalled")}: ${stats.notInstalled}`,
+				];
+				for (const [category, count] of Object.entries(stats.byCategory)) {
+					lines.push(`- ${category}: ${count}`);
+				}
+				return lines.join("\n");
+			},
+		};
+	},
+
+	// MCP 命令处理器
+	mcp_list: () => ({
 		type: "async",
 		handler: async () => {
-			const registry = getToolRegistry();
-			if (!registry.isDiscovered) {
-				await registry.discover();
+			const servers = getMcpClientManager().listServers();
+			if (servers.length === 0) {
+				return t("mcp.noServers");
 			}
-			const stats = registry.getStats();
-			const lines = [
-				`## ${t("common.info")}`,
-				`- ${t("common.installed")}: ${stats.installed}`,
-				`- ${t("common.notInstalled")}: ${stats.notInstalled}`,
-				``,
-				`### ${t("toolCategories.other")}`,
-			];
-			for (const [category, count] of Object.entries(stats.byCategory)) {
-				lines.push(`- ${category}: ${count}`);
+			const lines = [`## ${t("mcp.listTitle")}\n`];
+			for (const server of servers) {
+				lines.push(formatMcpServer(server), "");
+			}
+			return lines.join("\n");
+		},
+	}),
+
+	mcp_reconnect: (path: string[]) => {
+		// path = ["mcp", "reconnect", "github"]
+		const name = path[path.length - 1] ?? "";
+		return {
+			type: "async",
+			handler: async () => {
+				const state = await getMcpClientManager().reconnect(name);
+				if (!state) {
+					return t("mcp.serverNotFound", { name });
+				}
+				return formatMcpServer(state);
+			},
+		};
+	},
+
+	mcp_disable: (path: string[]) => {
+		const name = path[path.length - 1] ?? "";
+		return {
+			type: "async",
+			handler: async () => {
+				const disabled = await getMcpClientManager().disable(name);
+				return disabled
+					? t("mcp.disabled", { name })
+					: t("mcp.serverNotFound", { name });
+			},
+		};
+	},
+
+	// 没有可选 server 时的处理器
+	mcp_empty: () => ({
+		type: "message" as const,
+		content: t("mcp.noServers"),
+	}),
+
+	// 后台进程命令处理器
+	bg_list: () => {
+		const processes = getBackgroundProcessManager().list();
+		if (processes.length === 0) {
+			return { type: "message", content: t("background.noProcesses") };
+		}
+		const lines = [`## ${t("background.listTitle")}\n`];
+		for (const info of processes) {
+			lines.push(formatBackgroundProcess(info), "");
+		}
+		return { type: "message", content: lines.join("\n") };
+	},
+
+	bg_kill: (path: string[]) => {
+		// path = ["bg", "kill", "bg-1"]
+		const id = path[path.length - 1] ?? "";
+		const killed = getBackgroundProcessManager().kill(id);
+		return {
+			type: "message",
+			content: killed
+				? t("background.killed", { id })
+				: t("background.notRunning", { id }),
+		};
+	},
+
+	// 没有运行中的进程时的处理器
+	bg_empty: () => ({
+		type: "message" as const,
+		content: t("background.noRunning"),
+	}),
+
+	// 记忆命令处理器
+	memory_show: () => ({
+		type: "async",
+		handler: async () => {
+			const files = loadMemoryFiles(process.cwd());
+			if (files.length === 0) {
+				return t("memory.empty", { file: MEMORY_FILENAME });
+			}
+			const lines = [`## ${t("memory.title")}\n`];
+			for (const file of files) {
+				lines.push(`### ${file.path}\n`, file.content, "");
 			}
 			return lines.join("\n");
 		},
 	}),
 
+	memory_open: () => ({
+		type: "async",
+		handler: async () => {
+			const file = getProjectMemoryPath(process.cwd());
+			if (!fs.existsSync(file)) {
+				fs.writeFileSync(file, "", "utf-8");
+			}
+			await openWithDefaultApp(file);
+			return t("memory.opened", { path: file });
+		},
+	}),
+
+	memory_add: () => ({
+		type: "message" as const,
+		content: t("memory.addHint", { file: MEMORY_FILENAME }),
+	}),
+
 	// 模型选择处理器
 	model_select: (path: string[]) => {
 		// path = ["model", "gpt-4o"] -> modelId = "gpt-4o"
@@ -467,13 +1128,44 @@ export function getCommandAction(
 	return cmd?.action ?? null;
 }
 
+/**
+ * 解析手动输入的命令文本（如 "/review src/app.ts"）
+ * 沿命令树匹配尽可能长的路径，剩余部分作为参数
+ * @returns 第一段不是已知命令时返回 null
+ */
+export function parseCommandText(
+	text: string,
+	commands: SlashCommand[] = SLASH_COMMANDS,
+): { path: string[]; args: string } | null {
+	const trimmed = text.trim();
+	if (!trimmed.startsWith("/")) return null;
+
+	const path: string[] = [];
+	let level: SlashCommand[] | undefined = commands;
+	let rest = trimmed.slice(1);
+	while (level && level.length > 0) {
+		const match = /^(\S+)\s*/.exec(rest);
+		const cmd: SlashCommand | undefined = match
+			? level.find((c) => c.name === match[1])
+			: undefined;
+		if (!match || !cmd) break;
+		path.push(cmd.name);
+		rest = rest.slice(match[0].length);
+		level = cmd.children;
+	}
+
+	return path.length > 0 ? { path, args: rest.trim() } : null;
+}
+
 /**
  * 执行命令（内部）
+ * @param args 命令参数（用于 prompt 模板的 $ARGUMENTS / $1 替换）
  */
 function executeCommandInternal(
 	path: string[],
 	context: CommandContext,
 	commands: SlashCommand[] = SLASH_COMMANDS,
+	args: string = "",
 ): CommandResult {
 	if (path.length === 0) {
 		return { type: "error", message: "Empty command path" };
@@ -498,13 +1190,23 @@ function executeCommandInternal(
 					message: `Unknown internal handler: ${action.handler}`,
 				};
 			}
-			return handler(path, context);
+			return handler(path, context, args);
 		}
 
 		case "prompt": {
+			if (action.model && !getModelById(action.model)) {
+				return {
+					type: "error",
+					message: t("customCommands.unknownModel", { model: action.model }),
+				};
+			}
 			return {
 				type: "prompt",
-				content: action.template,
+				content: expandCommandTemplate(action.template, args),
+				overrides:
+					action.model || action.allowedTools
+						? { model: action.model, allowedTools: action.allowedTools }
+						: undefined,
 			};
 		}
 
@@ -525,14 +1227,16 @@ function executeCommandInternal(
 
 /**
  * 执行命令并调用对应的回调
+ * @param args 命令参数（手动输入 "/name 参数" 时由 parseCommandText 解析）
  */
 export async function handleCommand(
 	path: string[],
 	context: CommandContext,
 	callbacks: CommandCallbacks,
 	commands: SlashCommand[] = SLASH_COMMANDS,
+	args: string = "",
 ): Promise<void> {
-	const result = executeCommandInternal(path, context, commands);
+	const result = executeCommandInternal(path, context, commands, args);
 
 	switch (result.type) {
 		case "message":
@@ -540,7 +1244,11 @@ export async function handleCommand(
 			break;
 
 		case "prompt":
-			callbacks.sendToAI(result.content);
+			if (result.overrides) {
+				callbacks.sendToAI(result.content, result.overrides);
+			} else {
+				callbacks.sendToAI(result.content);
+			}
 			break;
 
 		case "config":
@@ -575,10 +1283,13 @@ export async function handleCommand(
 				// 先停止当前处理，再创建新 session
 				callbacks.stop();
 				await callbacks.sessionNew();
-			} else if (result.callback === "sessionClear") {
-				// 先停止当前处理，再清除所有 session 并创建新的
+			} else if (result.callback === "retry") {
+				// 先停止当前处理，再回滚并重新发送
 				callbacks.stop();
-				await callbacks.sessionClear();
+				await callbacks.retry();
+			} else if (result.callback === "edit_last_message") {
+				callbacks.stop();
+				callbacks.editLastMessage();
 			}
 			break;
 
@@ -595,6 +1306,19 @@ export async function handleCommand(
 				await callbacks.sessionSwitch(result.param);
 			} else if (result.callback === "session_delete") {
 				callbacks.sessionDelete(result.param);
+			} else if (result.callback === "session_fork") {
+				callbacks.stop();
+				await callbacks.sessionFork(
+					result.param ? Number(result.param) : undefined,
+				);
+			} else if (result.callback === "session_clear") {
+				// 先停止当前处理，再清除 session 并创建新的
+				callbacks.stop();
+				await callbacks.sessionClear(result.param === "--all");
+			} else if (result.callback === "rewind") {
+				// 先停止当前处理，再恢复文件和对话
+				callbacks.stop();
+				await callbacks.rewind(Number(result.param));
 			}
 			break;
 
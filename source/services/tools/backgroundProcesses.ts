@@ -0,0 +1,285 @@
+/**
+ * Background process manager
+ * Runs long-lived shell commands (dev servers, watchers, long builds)
+ * without blocking the tool call that started them.
+ *
+ * Output is buffered per process; each poll returns only the output
+ * produced since the previous poll.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+
+/**
+ * Maximum buffered characters per stream.
+ * Older output is dropped once the limit is reached.
+ */
+const MAX_BUFFER_SIZE = 1024 * 1024;
+
+export type BackgroundProcessStatus = "running" | "exited" | "killed";
+
+/**
+ * Public information about a background process
+ */
+export type BackgroundProcessInfo = {
+	id: string;
+	command: string;
+	cwd: string;
+	pid: number | undefined;
+	status: BackgroundProcessStatus;
+	exitCode: number | null;
+	startedAt: number;
+	endedAt?: number;
+};
+
+/**
+ * Output produced since the previous poll
+ */
+export type BackgroundProcessOutput = {
+	info: BackgroundProcessInfo;
+	stdout: string;
+	stderr: string;
+	/** Output was dropped because the buffer overflowed before this poll */
+	truncated: boolean;
+};
+
+/**
+ * Buffered stream with a read cursor
+ */
+type OutputBuffer = {
+	data: string;
+	/** Absolute offset of data[0] in the full stream */
+	start: number;
+	/** Absolute offset of the next unread character */
+	cursor: number;
+};
+
+type BackgroundProcess = {
+	info: BackgroundProcessInfo;
+	child: ChildProcess;
+	stdout: OutputBuffer;
+	stderr: OutputBuffer;
+};
+
+type BackgroundProcessChangeListener = () => void;
+
+function createBuffer(): OutputBuffer {
+	return { data: "", start: 0, cursor: 0 };
+}
+
+function appendToBuffer(buffer: OutputBuffer, chunk: string): void {
+	buffer.data += chunk;
+	const overflow = buffer.data.length - MAX_BUFFER_SIZE;
+	if (overflow > 0) {
+		buffer.data = buffer.data.slice(overflow);
+		buffer.start += overflow;
+	}
+}
+
+/**
+ * Read unread output and advance the cursor
+ */
+function readBuffer(buffer: OutputBuffer): {
+	text: string;
+	truncated: boolean;
+} {
+	const truncated = buffer.cursor < buffer.start;
+	const from = Math.max(buffer.cursor, buffer.start) - buffer.start;
+	const text = buffer.data.slice(from);
+	buffer.cursor = buffer.start + buffer.data.length;
+	return { text, truncated };
+}
+
+export class BackgroundProcessManager {
+	private processes = new Map<string, BackgroundProcess>();
+	private nextId = 1;
+	private listeners: BackgroundProcessChangeListener[] = [];
+
+	/**
+	 * Start a command in the background
+	 * @returns Information about the started process
+	 */
+	start(
+		command: string,
+		options?: { cwd?: string; env?: Record<string, string> },
+	): BackgroundProcessInfo {
+		const cwd = options?.cwd || process.cwd();
+		const child = spawn(command, [], {
+			cwd,
+			env: { ...process.env, ...options?.env },
+			shell: true,
+			windowsHide: true,
+			// Own process group so kill() also stops the command's children
+			detached: process.platform !== "win32",
+			stdio: ["pipe", "pipe", "pipe"],
+		});
+
+		const id = `bg-${this.nextId++}`;
+		const entry: BackgroundProcess = {
+			info: {
+				id,
+				command,
+				cwd,
+				pid: child.pid,
+				status: "running",
+				exitCode: null,
+				startedAt: Date.now(),
+			},
+			child,
+			stdout: createBuffer(),
+			stderr: createBuffer(),
+		};
+		this.processes.set(id, entry);
+
+		child.stdout?.on("data", (data: Buffer) => {
+			appendToBuffer(entry.stdout, data.toString("utf8"));
+		});
+		child.stderr?.on("data", (data: Buffer) => {
+			appendToBuffer(entry.stderr, data.toString("utf8"));
+		});
+		// Writing to a process that already exited must not crash the app
+		child.stdin?.on("error", () => {});
+
+		child.on("error", (err) => {
+			appendToBuffer(entry.stderr, `${err.message}\n`);
+			this.markEnded(entry, null);
+		});
+		child.on("close", (code) => {
+			this.markEnded(entry, code);
+		});
+
+		this.notify();
+		return { ...entry.info };
+	}
+
+	/**
+	 * Get output produced since the previous poll
+	 * @returns null if the process does not exist
+	 */
+	poll(id: string): BackgroundProcessOutput | null {
+		const entry = this.processes.get(id);
+		if (!entry) return null;
+
+		const stdout = readBuffer(entry.stdout);
+		const stderr = readBuffer(entry.stderr);
+		return {
+			info: { ...entry.info },
+			stdout: stdout.text,
+			stderr: stderr.text,
+			truncated: stdout.truncated || stderr.truncated,
+		};
+	}
+
+	/**
+	 * Write input to the process's stdin
+	 */
+	write(id: string, input: string): void {
+		const entry = this.processes.get(id);
+		if (!entry) {
+			throw new Error(`Background process not found: ${id}`);
+		}
+		if (entry.info.status !== "running" || !entry.child.stdin?.writable) {
+			throw new Error(`Background process ${id} is not running`);
+		}
+		entry.child.stdin.write(input);
+	}
+
+	/**
+	 * Kill a running process (and its process group on POSIX)
+	 * @returns false if the process does not exist or is not running
+	 */
+	kill(id: string): boolean {
+		const entry = this.processes.get(id);
+		if (!entry || entry.info.status !== "running") return false;
+
+		entry.info.status = "killed";
+		const pid = entry.child.pid;
+		try {
+			if (pid !== undefined && process.platform !== "win32") {
+				process.kill(-pid, "SIGTERM");
+			} else {
+				entry.child.kill("SIGTERM");
+			}
+		} catch {
+			// Process group already gone
+			entry.child.kill("SIGTERM");
+		}
+		this.notify();
+		return true;
+	}
+
+	/**
+	 * Kill all running processes (called on exit)
+	 */
+	killAll(): void {
+		for (const id of this.processes.keys()) {
+			this.kill(id);
+		}
+	}
+
+	/**
+	 * Get information about a process
+	 */
+	get(id: string): BackgroundProcessInfo | null {
+		const entry = this.processes.get(id);
+		return entry ? { ...entry.info } : null;
+	}
+
+	/**
+	 * List all processes in start order
+	 */
+	list(): BackgroundProcessInfo[] {
+		return [...this.processes.values()].map((entry) => ({ ...entry.info }));
+	}
+
+	/**
+	 * Number of running processes
+	 */
+	getRunningCount(): number {
+		return this.list().filter((info) => info.status === "running").length;
+	}
+
+	/**
+	 * Add a listener called when a process starts or ends
+	 */
+	addChangeListener(listener: BackgroundProcessChangeListener): void {
+		this.listeners.push(listener);
+	}
+
+	private markEnded(entry: BackgroundProcess, code: number | null): void {
+		if (entry.info.endedAt !== undefined) return;
+		if (entry.info.status === "running") {
+			entry.info.status = "exited";
+		}
+		entry.info.exitCode = code;
+		entry.info.endedAt = Date.now();
+		this.notify();
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
+
+// Singleton instance
+let instance: BackgroundProcessManager | null = null;
+
+/**
+ * Get the shared background process manager
+ */
+export function getBackgroundProcessManager(): BackgroundProcessManager {
+	if (!instance) {
+		instance = new BackgroundProcessManager();
+		// Safety net for exits that skip the normal cleanup path
+		process.once("exit", killAllBackgroundProcesses);
+	}
+	return instance;
+}
+
+/**
+ * Kill all background processes if the manager was ever used
+ */
+export function killAllBackgroundProcesses(): void {
+	instance?.killAll();
+}
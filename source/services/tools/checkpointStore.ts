@@ -0,0 +1,341 @@
+/**
+ * File checkpoint store - per-turn snapshots of files modified by AI tools
+ *
+ * Before the first file_write / file_edit of a file in a turn, the original
+ * bytes are copied to .axiomate/checkpoints/<sessionId>/. Restoring writes the
+ * bytes back unchanged, so the original encoding and BOM are preserved.
+ *
+ * Each turn also records the Session checkpoint taken before its user message,
+ * so /undo and /rewind can roll the conversation back to match the files.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { SessionCheckpoint } from "../ai/session.js";
+import { detectEncoding } from "./encodingDetector.js";
+import { logger } from "../../utils/logger.js";
+
+const LOCAL_DIR_NAME = ".axiomate";
+const CHECKPOINTS_DIR_NAME = "checkpoints";
+const INDEX_FILENAME = "index.json";
+
+/**
+ * Original state of a file before it was first modified in a turn
+ */
+export type FileSnapshot = {
+	/** Absolute file path */
+	path: string;
+	/** Whether the file existed (false → restore deletes it) */
+	existed: boolean;
+	/** Backup file name in the checkpoint directory (when existed) */
+	backup?: string;
+	/** Detected encoding of the original content */
+	encoding?: string;
+	/** Whether the original content had a BOM */
+	hasBOM?: boolean;
+};
+
+/**
+ * Checkpoint of one conversation turn (one user message)
+ */
+export type TurnCheckpoint = {
+	/** Turn ID (increasing within a session) */
+	id: number;
+	/** User input that started the turn */
+	prompt: string;
+	/** Creation timestamp */
+	createdAt: number;
+	/** Session state before the user message was added */
+	session: SessionCheckpoint;
+	/** Files modified in this turn (original state) */
+	files: FileSnapshot[];
+};
+
+/**
+ * Checkpoint index file structure
+ */
+type CheckpointIndex = {
+	version: 1;
+	turns: TurnCheckpoint[];
+};
+
+/**
+ * Result of restoring checkpoints
+ */
+export type RestoreResult = {
+	/** The turn that was rewound to (conversation goes back to its start) */
+	turn: TurnCheckpoint;
+	/** Files written back or deleted */
+	restoredFiles: string[];
+	/** Files that could not be restored */
+	failedFiles: string[];
+};
+
+// Singleton instance
+let checkpointStoreInstance: CheckpointStore | null = null;
+
+// Checkpoint change listeners (e.g. slash command cache)
+type CheckpointChangeListener = () => void;
+const checkpointChangeListeners: CheckpointChangeListener[] = [];
+
+/**
+ * Add a listener for checkpoint list changes
+ */
+export function addCheckpointChangeListener(
+	listener: CheckpointChangeListener,
+): void {
+	checkpointChangeListeners.push(listener);
+}
+
+/**
+ * Notify all listeners of checkpoint list change
+ */
+function notifyCheckpointChange(): void {
+	for (const listener of checkpointChangeListeners) {
+		listener();
+	}
+}
+
+/**
+ * Get the checkpoint directory of a session
+ */
+export function getCheckpointsDir(cwd: string, sessionId?: string): string {
+	const base = path.join(cwd, LOCAL_DIR_NAME, CHECKPOINTS_DIR_NAME);
+	return sessionId ? path.join(base, sessionId) : base;
+}
+
+/**
+ * Checkpoint store of one session
+ */
+export class CheckpointStore {
+	private dir: string;
+	private indexPath: string;
+	private turns: TurnCheckpoint[] = [];
+
+	constructor(cwd: string, sessionId: string) {
+		this.dir = getCheckpointsDir(cwd, sessionId);
+		this.indexPath = path.join(this.dir, INDEX_FILENAME);
+		this.loadIndex();
+	}
+
+	/**
+	 * Load index from disk (missing or corrupt index → no checkpoints)
+	 */
+	private loadIndex(): void {
+		try {
+			if (!fs.existsSync(this.indexPath)) return;
+			const data = JSON.parse(
+				fs.readFileSync(this.indexPath, "utf-8"),
+			) as CheckpointIndex;
+			if (data.version === 1 && Array.isArray(data.turns)) {
+				this.turns = data.turns;
+			}
+		} catch (error) {
+			logger.warn("Failed to load checkpoint index", {
+				path: this.indexPath,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * Save index to disk (lazy-creates the directory)
+	 */
+	private saveIndex(): void {
+		fs.mkdirSync(this.dir, { recursive: true });
+		const index: CheckpointIndex = { version: 1, turns: this.turns };
+		fs.writeFileSync(this.indexPath, JSON.stringify(index, null, 2), "utf-8");
+	}
+
+	/**
+	 * Start a new turn
+	 * @param prompt User input that starts the turn
+	 * @param session Session checkpoint taken before the user message
+	 */
+	beginTurn(prompt: string, session: SessionCheckpoint): TurnCheckpoint {
+		const lastId = this.turns[this.turns.length - 1]?.id ?? 0;
+		const turn: TurnCheckpoint = {
+			id: lastId + 1,
+			prompt,
+			createdAt: Date.now(),
+			session,
+			files: [],
+		};
+		this.turns.push(turn);
+
+		// Nothing is written to disk until a file is captured,
+		// so projects without AI file edits get no .axiomate directory
+		if (this.turns.some((t) => t.files.length > 0)) {
+			try {
+				this.saveIndex();
+			} catch (error) {
+				logger.warn("Failed to save checkpoint index", {
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+		notifyCheckpointChange();
+		return turn;
+	}
+
+	/**
+	 * Capture a file's original content before it is modified
+	 * Only the first modification of a file in the current turn is captured
+	 */
+	captureFile(filePath: string): void {
+		const turn = this.turns[this.turns.length - 1];
+		if (!turn) return;
+
+		const fullPath = path.resolve(filePath);
+		if (turn.files.some((f) => f.path === fullPath)) return;
+
+		try {
+			const snapshot: FileSnapshot = { path: fullPath, existed: false };
+			if (fs.existsSync(fullPath)) {
+				const content = fs.readFileSync(fullPath);
+				const encoding = detectEncoding(content);
+				snapshot.existed = true;
+				snapshot.backup = `${turn.id}-${turn.files.length}.bak`;
+				snapshot.encoding = encoding.encoding;
+				snapshot.hasBOM = encoding.hasBOM;
+				fs.mkdirSync(this.dir, { recursive: true });
+				fs.writeFileSync(path.join(this.dir, snapshot.backup), content);
+			}
+			turn.files.push(snapshot);
+			this.saveIndex();
+		} catch (error) {
+			logger.warn("Failed to capture file checkpoint", {
+				path: fullPath,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * List all turns (oldest first)
+	 */
+	listTurns(): TurnCheckpoint[] {
+		return [...this.turns];
+	}
+
+	/**
+	 * Get the last turn
+	 */
+	getLastTurn(): TurnCheckpoint | null {
+		return this.turns[this.turns.length - 1] ?? null;
+	}
+
+	/**
+	 * Restore files to the state before the given turn
+	 * Turns are restored newest first, so each file ends up with the content
+	 * it had before its earliest modification since that turn.
+	 * The restored turns are removed.
+	 * @returns Restore result, or null if the turn does not exist
+	 */
+	restoreTo(turnId: number): RestoreResult | null {
+		const index = this.turns.findIndex((t) => t.id === turnId);
+		if (index === -1) return null;
+
+		const target = this.turns[index]!;
+		const removed = this.turns.slice(index).reverse();
+		const restored = new Set<string>();
+		const failed = new Set<string>();
+
+		for (const turn of removed) {
+			for (const snapshot of [...turn.files].reverse()) {
+				try {
+					if (snapshot.existed && snapshot.backup) {
+						const content = fs.readFileSync(
+							path.join(this.dir, snapshot.backup),
+						);
+						fs.mkdirSync(path.dirname(snapshot.path), { recursive: true });
+						fs.writeFileSync(snapshot.path, content);
+					} else if (fs.existsSync(snapshot.path)) {
+						fs.unlinkSync(snapshot.path);
+					}
+					restored.add(snapshot.path);
+					failed.delete(snapshot.path);
+				} catch (error) {
+					failed.add(snapshot.path);
+					logger.warn("Failed to restore file checkpoint", {
+						path: snapshot.path,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		}
+
+		// Remove restored turns and their backups
+		// A backup that cannot be deleted is only left behind on disk
+		for (const turn of removed) {
+			for (const snapshot of turn.files) {
+				if (!snapshot.backup) continue;
+				try {
+					fs.rmSync(path.join(this.dir, snapshot.backup), { force: true });
+				} catch (error) {
+					logger.warn("Failed to remove file checkpoint backup", {
+						backup: snapshot.backup,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		}
+		this.turns = this.turns.slice(0, index);
+		if (fs.existsSync(this.dir)) {
+			this.saveIndex();
+		}
+		notifyCheckpointChange();
+
+		return {
+			turn: target,
+			restoredFiles: [...restored].filter((p) => !failed.has(p)),
+			failedFiles: [...failed],
+		};
+	}
+
+	/**
+	 * Delete all checkpoints of this session
+	 */
+	clear(): void {
+		this.turns = [];
+		fs.rmSync(this.dir, { recursive: true, force: true });
+		notifyCheckpointChange();
+	}
+}
+
+/**
+ * Get the checkpoint store of the active session
+ * @returns Store, or null if not initialized (e.g. headless mode)
+ */
+export function getCheckpointStore(): CheckpointStore | null {
+	return checkpointStoreInstance;
+}
+
+/**
+ * Initialize (or switch) the checkpoint store for a session
+ */
+export function initCheckpointStore(
+	cwd: string,
+	sessionId: string,
+): CheckpointStore {
+	checkpointStoreInstance = new CheckpointStore(cwd, sessionId);
+	notifyCheckpointChange();
+	return checkpointStoreInstance;
+}
+
+/**
+ * Delete checkpoints of a session (or all sessions if no ID is given)
+ */
+export function deleteCheckpoints(cwd: string, sessionId?: string): void {
+	fs.rmSync(getCheckpointsDir(cwd, sessionId), {
+		recursive: true,
+		force: true,
+	});
+}
+
+/**
+ * Reset the checkpoint store (for testing)
+ */
+export function resetCheckpointStore(): void {
+	checkpointStoreInstance = null;
+}
@@ -0,0 +1,236 @@
+/**
+ * Line-based unified diff (Myers algorithm)
+ * Used to preview file_write / file_edit changes before they are applied
+ */
+
+// Beyond this many changed lines the diff is shown as a full replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * One line of a line-based diff
+ */
+export type DiffOp = {
+	type: "equal" | "insert" | "delete";
+	line: string;
+};
+
+/**
+ * Unified diff of a file change
+ */
+export type UnifiedDiff = {
+	/** Diff text (empty when nothing changed) */
+	text: string;
+	/** Number of added lines */
+	additions: number;
+	/** Number of deleted lines */
+	deletions: number;
+};
+
+/**
+ * Split text into lines (trailing newline does not create an empty line)
+ */
+export function splitLines(text: string): string[] {
+	if (text === "") return [];
+	const lines = text.split(/\r?\n/);
+	if (lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Show a changed region as deleting all old lines and inserting all new ones
+ */
+function replaceLines(a: string[], b: string[]): DiffOp[] {
+	return [
+		...a.map((line) => ({ type: "delete" as const, line })),
+		...b.map((line) => ({ type: "insert" as const, line })),
+	];
+}
+
+/**
+ * Myers shortest edit script between two line arrays
+ * Each step stores only the reachable part of V, so memory is O(D²)
+ */
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+	const n = a.length;
+	const m = b.length;
+	if (n === 0 || m === 0) {
+		return replaceLines(a, b);
+	}
+
+	const max = n + m;
+	const center = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	const trace: Int32Array[] = [];
+
+	let found = false;
+	for (let d = 0; d <= max && !found; d++) {
+		if (d > MAX_EDIT_DISTANCE) {
+			return replaceLines(a, b);
+		}
+		// Snapshot of V for k in [-d-1, d+1]
+		trace.push(v.slice(center - d - 1, center + d + 2));
+
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[center + k - 1]! < v[center + k + 1]!)
+					? v[center + k + 1]!
+					: v[center + k - 1]! + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[center + k] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+	}
+
+	// Backtrack from (n, m) to (0, 0)
+	const ops: DiffOp[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const snapshot = trace[d]!;
+		const get = (k: number) => snapshot[k + d + 1]!;
+		const k = x - y;
+		const prevK =
+			k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+		const prevX = get(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			ops.push({ type: "equal", line: a[x - 1]! });
+			x--;
+			y--;
+		}
+		if (d > 0) {
+			if (x === prevX) {
+				ops.push({ type: "insert", line: b[y - 1]! });
+			} else {
+				ops.push({ type: "delete", line: a[x - 1]! });
+			}
+		}
+		x = prevX;
+		y = prevY;
+	}
+
+	return ops.reverse();
+}
+
+/**
+ * Compute a line-based diff
+ * Common prefix and suffix are trimmed before running Myers
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	return [
+		...a.slice(0, start).map((line) => ({ type: "equal" as const, line })),
+		...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+		...a.slice(endA).map((line) => ({ type: "equal" as const, line })),
+	];
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param oldText Original content ("" for a new file)
+ * @param newText Content after the change
+ * @param fileName File name shown in the header
+ * @param options isNewFile: header uses /dev/null; contextLines: lines around changes (default 3)
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	fileName: string,
+	options: { isNewFile?: boolean; contextLines?: number } = {},
+): UnifiedDiff {
+	const contextLines = options.contextLines ?? 3;
+	const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+	// Line numbers (1-based) of each op in the old and new file
+	const oldNumbers: number[] = [];
+	const newNumbers: number[] = [];
+	const changes: number[] = [];
+	let oldLine = 1;
+	let newLine = 1;
+	let additions = 0;
+	let deletions = 0;
+	ops.forEach((op, index) => {
+		oldNumbers.push(oldLine);
+		newNumbers.push(newLine);
+		if (op.type !== "insert") oldLine++;
+		if (op.type !== "delete") newLine++;
+		if (op.type === "insert") additions++;
+		if (op.type === "delete") deletions++;
+		if (op.type !== "equal") changes.push(index);
+	});
+
+	if (changes.length === 0) {
+		return { text: "", additions: 0, deletions: 0 };
+	}
+
+	const lines = [
+		options.isNewFile ? "--- /dev/null" : `--- a/${fileName}`,
+		`+++ b/${fileName}`,
+	];
+
+	// Group changes whose context would overlap into one hunk
+	let groupStart = 0;
+	while (groupStart < changes.length) {
+		let groupEnd = groupStart;
+		while (
+			groupEnd + 1 < changes.length &&
+			changes[groupEnd + 1]! - changes[groupEnd]! <= 2 * contextLines + 1
+		) {
+			groupEnd++;
+		}
+
+		const start = Math.max(0, changes[groupStart]! - contextLines);
+		const end = Math.min(ops.length - 1, changes[groupEnd]! + contextLines);
+		const body: string[] = [];
+		let oldCount = 0;
+		let newCount = 0;
+		for (let i = start; i <= end; i++) {
+			const op = ops[i]!;
+			if (op.type === "equal") {
+				body.push(` ${op.line}`);
+				oldCount++;
+				newCount++;
+			} else if (op.type === "delete") {
+				body.push(`-${op.line}`);
+				oldCount++;
+			} else {
+				body.push(`+${op.line}`);
+				newCount++;
+			}
+		}
+
+		// Empty ranges point at the line before the hunk
+		const oldStart =
+			oldCount === 0 ? oldNumbers[start]! - 1 : oldNumbers[start]!;
+		const newStart =
+			newCount === 0 ? newNumbers[start]! - 1 : newNumbers[start]!;
+		lines.push(
+			`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+			...body,
+		);
+
+		groupStart = groupEnd + 1;
+	}
+
+	return { text: lines.join("\n"), additions, deletions };
+}
@@ -0,0 +1,95 @@
+/**
+ * Background process tool discoverer
+ *
+ * Provides actions to run long-lived shell commands (dev servers, watchers,
+ * long builds) in the background and interact with them later.
+ * This is a builtin tool that is always available.
+ */
+
+import type {
+	DiscoveredTool,
+	ToolDefinition,
+	ToolParameter,
+} from "../types.js";
+import { createInstalledTool } from "./base.js";
+
+const idParameter: ToolParameter = {
+	name: "id",
+	description: "Background process ID returned by start (e.g. bg-1)",
+	type: "string",
+	required: true,
+};
+
+const backgroundDefinition: ToolDefinition = {
+	id: "background",
+	name: "Background Process",
+	description:
+		"Run long-running shell commands (dev servers, watchers, long builds) in the background. " +
+		"Use start instead of a normal shell call for commands that do not exit on their own, " +
+		"then poll output to check progress.",
+	category: "utility",
+	capabilities: ["execute"],
+	actions: [
+		{
+			name: "start",
+			description:
+				"Start a shell command in the background and return its process ID immediately",
+			parameters: [
+				{
+					name: "command",
+					description: "Shell command to run",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__BG_START__",
+		},
+		{
+			name: "output",
+			description:
+				"Get stdout/stderr produced since the previous output call, plus the process status",
+			parameters: [idParameter],
+			commandTemplate: "__BG_OUTPUT__",
+			readOnly: true,
+		},
+		{
+			name: "send",
+			description: "Send input to the process's stdin",
+			parameters: [
+				idParameter,
+				{
+					name: "input",
+					description: "Text to write to stdin",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "newline",
+					description: "Append a newline after the input (default: true)",
+					type: "boolean",
+					required: false,
+					default: true,
+				},
+			],
+			commandTemplate: "__BG_SEND__",
+		},
+		{
+			name: "kill",
+			description: "Stop a running background process",
+			parameters: [idParameter],
+			commandTemplate: "__BG_KILL__",
+		},
+		{
+			name: "list",
+			description: "List all background processes and their status",
+			parameters: [],
+			commandTemplate: "__BG_LIST__",
+			readOnly: true,
+		},
+	],
+};
+
+export async function detectBackground(): Promise<DiscoveredTool> {
+	// Background process tool is always available (builtin)
+	return createInstalledTool(backgroundDefinition, "builtin", "1.0.0");
+}
@@ -0,0 +1,130 @@
+/**
+ * .NET CLI tool discoverer
+ */
+
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+	createInstalledTool,
+	createNotInstalledTool,
+} from "./base.js";
+
+const dotnetDefinition: ToolDefinition = {
+	id: "dotnet",
+	name: ".NET CLI",
+	description: ".NET SDK command-line interface",
+	category: "build",
+	capabilities: ["build", "execute"],
+	actions: [
+		{
+			name: "build",
+			description: "Build a project or solution",
+			parameters: [
+				{
+					name: "project",
+					description: "Project or solution file (optional)",
+					type: "file",
+					required: false,
+				},
+				{
+					name: "configuration",
+					description: "Build configuration (Debug/Release)",
+					type: "string",
+					required: false,
+					default: "Debug",
+				},
+			],
+			commandTemplate: "dotnet build {{project}} -c {{configuration}}",
+		},
+		{
+			name: "test",
+			description: "Run unit tests",
+			parameters: [
+				{
+					name: "project",
+					description: "Test project or solution file (optional)",
+					type: "file",
+					required: false,
+				},
+				{
+					name: "args",
+					description:
+						"Extra arguments (e.g. --filter FullyQualifiedName~MyTest)",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "dotnet test {{project}} {{args}}",
+		},
+		{
+			name: "restore",
+			description: "Restore NuGet dependencies",
+			parameters: [
+				{
+					name: "project",
+					description: "Project or solution file (optional)",
+					type: "file",
+					required: false,
+				},
+			],
+			commandTemplate: "dotnet restore {{project}}",
+		},
+		{
+			name: "run",
+			description: "Build and run a project",
+			parameters: [
+				{
+					name: "args",
+					description:
+						"Extra arguments (e.g. --project src/App -- program arguments)",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "dotnet run {{args}}",
+		},
+		{
+			name: "add_package",
+			description: "Add a NuGet package reference",
+			parameters: [
+				{
+					name: "package",
+					description: "Package name",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "project",
+					description: "Project file (optional)",
+					type: "file",
+					required: false,
+				},
+			],
+			commandTemplate: "dotnet add {{project}} package {{package}}",
+		},
+	],
+	installHint: "Download from https://dotnet.microsoft.com/download",
+};
+
+export async function detectDotnet(): Promise<DiscoveredTool> {
+	if (!(await commandExists("dotnet"))) {
+		return createNotInstalledTool(dotnetDefinition);
+	}
+
+	const execPath = await getExecutablePath("dotnet");
+	const version = await getVersion("dotnet", ["--version"], {
+		parseOutput: (output) => {
+			// "8.0.100" -> "8.0.100"
+			const match = output.match(/(\d+\.\d+\.\d+)/);
+			return match ? match[1] : output.split("\n")[0];
+		},
+	});
+
+	return createInstalledTool(
+		dotnetDefinition,
+		execPath || "dotnet",
+		version || undefined,
+	);
+}
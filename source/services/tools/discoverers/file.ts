@@ -1,7 +1,8 @@
 /**
  * File tool discoverer
  *
- * Provides file operations with auto encoding detection.
+ * Provides file operations with auto encoding detection,
+ * plus directory-level list / glob / grep.
  * This is a builtin tool that is always available.
  */
 
@@ -33,6 +34,7 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_READ__",
+			readOnly: true,
 		},
 		{
 			name: "read_lines",
@@ -60,6 +62,7 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_READ_LINES__",
+			readOnly: true,
 		},
 		{
 			name: "write",
@@ -158,6 +161,129 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_SEARCH__",
+			readOnly: true,
+		},
+		{
+			name: "list",
+			description: "List directory tree (respects .gitignore, dirs end with /)",
+			parameters: [
+				{
+					name: "path",
+					description: "Directory path (default: cwd)",
+					type: "directory",
+					required: false,
+					default: ".",
+				},
+				{
+					name: "max_depth",
+					description: "Maximum depth, 0 for direct children (default: 2)",
+					type: "number",
+					required: false,
+					default: 2,
+				},
+				{
+					name: "max_entries",
+					description: "Maximum entries to return (default: 500)",
+					type: "number",
+					required: false,
+					default: 500,
+				},
+			],
+			commandTemplate: "__FILE_LIST__",
+			readOnly: true,
+		},
+		{
+			name: "glob",
+			description: "Find files by glob pattern (respects .gitignore)",
+			parameters: [
+				{
+					name: "pattern",
+					description:
+						'Glob relative to path, e.g. "**/*.ts", "src/**/*.{js,jsx}"',
+					type: "string",
+					required: true,
+				},
+				{
+					name: "path",
+					description: "Directory to search from (default: cwd)",
+					type: "directory",
+					required: false,
+					default: ".",
+				},
+				{
+					name: "max_results",
+					description: "Maximum files to return (default: 500)",
+					type: "number",
+					required: false,
+					default: 500,
+				},
+			],
+			commandTemplate: "__FILE_GLOB__",
+			readOnly: true,
+		},
+		{
+			name: "grep",
+			description:
+				"Search file contents recursively with auto encoding detection (respects .gitignore)",
+			parameters: [
+				{
+					name: "pattern",
+					description: "Search pattern (string or regex)",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "path",
+					description: "Directory or file to search (default: cwd)",
+					type: "directory",
+					required: false,
+					default: ".",
+				},
+				{
+					name: "regex",
+					description: "Treat pattern as regex (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+				{
+					name: "ignore_case",
+					description: "Case-insensitive search (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+				{
+					name: "include",
+					description:
+						'Comma-separated globs of files to search, e.g. "*.ts,*.tsx"',
+					type: "string",
+					required: false,
+				},
+				{
+					name: "exclude",
+					description:
+						'Comma-separated globs of files to skip, e.g. "*.test.ts"',
+					type: "string",
+					required: false,
+				},
+				{
+					name: "context_lines",
+					description: "Lines of context before/after each match (default: 0)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+				{
+					name: "max_matches",
+					description: "Maximum total matches to return (default: 200)",
+					type: "number",
+					required: false,
+					default: 200,
+				},
+			],
+			commandTemplate: "__FILE_GREP__",
+			readOnly: true,
 		},
 	],
 };
@@ -23,6 +23,7 @@ const gitDefinition: ToolDefinition = {
 			description: "Show repository status",
 			parameters: [],
 			commandTemplate: "git status",
+			readOnly: true,
 		},
 		{
 			name: "diff",
@@ -36,6 +37,7 @@ const gitDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "git diff {{file}}",
+			readOnly: true,
 		},
 		{
 			name: "log",
@@ -50,6 +52,7 @@ const gitDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "git log --oneline -{{count}}",
+			readOnly: true,
 		},
 		{
 			name: "add",
@@ -94,6 +97,7 @@ const gitDefinition: ToolDefinition = {
 			description: "List branches",
 			parameters: [],
 			commandTemplate: "git branch -a",
+			readOnly: true,
 		},
 		{
 			name: "checkout",
@@ -0,0 +1,118 @@
+/**
+ * Go tool discoverer
+ */
+
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+	createInstalledTool,
+	createNotInstalledTool,
+} from "./base.js";
+
+const goDefinition: ToolDefinition = {
+	id: "go",
+	name: "Go",
+	description: "Go toolchain (build, test, modules)",
+	category: "build",
+	capabilities: ["build", "execute"],
+	actions: [
+		{
+			name: "build",
+			description: "Compile packages",
+			parameters: [
+				{
+					name: "packages",
+					description: "Package pattern",
+					type: "string",
+					required: false,
+					default: "./...",
+				},
+			],
+			commandTemplate: "go build {{packages}}",
+		},
+		{
+			name: "test",
+			description: "Run tests",
+			parameters: [
+				{
+					name: "packages",
+					description: "Package pattern",
+					type: "string",
+					required: false,
+					default: "./...",
+				},
+				{
+					name: "args",
+					description: "Extra flags (e.g. -v -run TestName)",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "go test {{args}} {{packages}}",
+		},
+		{
+			name: "vet",
+			description: "Report suspicious constructs",
+			parameters: [
+				{
+					name: "packages",
+					description: "Package pattern",
+					type: "string",
+					required: false,
+					default: "./...",
+				},
+			],
+			commandTemplate: "go vet {{packages}}",
+		},
+		{
+			name: "mod_tidy",
+			description: "Add missing and remove unused modules",
+			parameters: [],
+			commandTemplate: "go mod tidy",
+		},
+		{
+			name: "run",
+			description: "Compile and run a Go program",
+			parameters: [
+				{
+					name: "target",
+					description: "File or package to run",
+					type: "string",
+					required: false,
+					default: ".",
+				},
+				{
+					name: "args",
+					description: "Arguments passed to the program",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "go run {{target}} {{args}}",
+		},
+	],
+	installHint: "Download from https://go.dev/dl/",
+};
+
+export async function detectGo(): Promise<DiscoveredTool> {
+	if (!(await commandExists("go"))) {
+		return createNotInstalledTool(goDefinition);
+	}
+
+	const execPath = await getExecutablePath("go");
+	const version = await getVersion("go", ["version"], {
+		parseOutput: (output) => {
+			// "go version go1.21.5 linux/amd64" -> "1.21.5"
+			const match = output.match(/go(\d+\.\d+(?:\.\d+)?)/);
+			return match ? match[1] : output.split("\n")[0];
+		},
+	});
+
+	return createInstalledTool(
+		goDefinition,
+		execPath || "go",
+		version || undefined,
+	);
+}
@@ -14,9 +14,11 @@ import { detectWebFetch } from "./web.js";
 import { detectFile } from "./file.js";
 import { detectPlan } from "./plan.js";
 import { detectAskUser } from "./ask_user.js";
+import { detectBackground } from "./background.js";
 
 // 导入可发现工具发现器（需要检测外部命令）
 import { detectGit } from "./git.js";
+import { detectSvn } from "./svn.js";
 import { detectNode, detectNvm, detectNpm } from "./node.js";
 import { detectPython } from "./python.js";
 import { detectJava, detectJavac } from "./java.js";
@@ -28,6 +30,9 @@ import { detectVisualStudio, detectMsbuild } from "./visualstudio.js";
 import { detectBeyondCompare } from "./beyondcompare.js";
 import { detectDocker, detectDockerCompose } from "./docker.js";
 import { detectCmake, detectGradle, detectMaven } from "./build.js";
+import { detectRust } from "./rust.js";
+import { detectGo } from "./go.js";
+import { detectDotnet } from "./dotnet.js";
 import { detectMysql, detectPsql, detectSqlite } from "./database.js";
 
 // 导出基础工具函数
@@ -45,6 +50,7 @@ export const builtinDiscoverers: DiscoverFunction[] = [
 	detectFile,
 	detectPlan,
 	detectAskUser,
+	detectBackground,
 ];
 
 /**
@@ -54,6 +60,7 @@ export const builtinDiscoverers: DiscoverFunction[] = [
 export const discoverableDiscoverers: DiscoverFunction[] = [
 	// 版本控制
 	detectGit,
+	detectSvn,
 	// 运行时
 	detectNode,
 	detectPython,
@@ -80,6 +87,9 @@ export const discoverableDiscoverers: DiscoverFunction[] = [
 	detectMsbuild,
 	detectGradle,
 	detectMaven,
+	detectRust,
+	detectGo,
+	detectDotnet,
 	// 数据库
 	detectMysql,
 	detectPsql,
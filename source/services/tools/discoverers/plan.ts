@@ -21,6 +21,7 @@ const planDefinition: ToolDefinition = {
 			description: "Read the current plan file content",
 			parameters: [],
 			commandTemplate: "__PLAN_READ__",
+			readOnly: true,
 		},
 		{
 			name: "read_lines",
@@ -42,6 +43,7 @@ const planDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__PLAN_READ_LINES__",
+			readOnly: true,
 		},
 		{
 			name: "write",
@@ -121,6 +123,7 @@ const planDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__PLAN_SEARCH__",
+			readOnly: true,
 		},
 		{
 			name: "enter_mode",
@@ -0,0 +1,107 @@
+/**
+ * Rust tool discoverer (cargo)
+ */
+
+import type {
+	DiscoveredTool,
+	ToolDefinition,
+	ToolParameter,
+} from "../types.js";
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+	createInstalledTool,
+	createNotInstalledTool,
+} from "./base.js";
+
+const argsParameter: ToolParameter = {
+	name: "args",
+	description: "Extra arguments (e.g. --release, -p my_crate)",
+	type: "string",
+	required: false,
+};
+
+const rustDefinition: ToolDefinition = {
+	id: "rust",
+	name: "Rust (Cargo)",
+	description: "Rust package manager and build tool",
+	category: "build",
+	capabilities: ["build", "execute"],
+	actions: [
+		{
+			name: "build",
+			description: "Compile the current package",
+			parameters: [argsParameter],
+			commandTemplate: "cargo build {{args}}",
+		},
+		{
+			name: "check",
+			description: "Check the package for errors without producing binaries",
+			parameters: [argsParameter],
+			commandTemplate: "cargo check {{args}}",
+		},
+		{
+			name: "test",
+			description: "Run tests",
+			parameters: [
+				{
+					name: "filter",
+					description: "Only run tests whose names contain this string",
+					type: "string",
+					required: false,
+				},
+				argsParameter,
+			],
+			commandTemplate: "cargo test {{args}} {{filter}}",
+		},
+		{
+			name: "clippy",
+			description: "Run Clippy lints",
+			parameters: [argsParameter],
+			commandTemplate: "cargo clippy {{args}}",
+		},
+		{
+			name: "fmt",
+			description: "Format code with rustfmt (use args --check to only report)",
+			parameters: [argsParameter],
+			commandTemplate: "cargo fmt {{args}}",
+		},
+		{
+			name: "run",
+			description: "Build and run a binary",
+			parameters: [
+				argsParameter,
+				{
+					name: "program_args",
+					description: "Arguments passed to the program (after --)",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "cargo run {{args}} -- {{program_args}}",
+		},
+	],
+	installHint: "Install via rustup: https://rustup.rs/",
+};
+
+export async function detectRust(): Promise<DiscoveredTool> {
+	if (!(await commandExists("cargo"))) {
+		return createNotInstalledTool(rustDefinition);
+	}
+
+	const execPath = await getExecutablePath("cargo");
+	const version = await getVersion("cargo", ["--version"], {
+		parseOutput: (output) => {
+			// "cargo 1.75.0 (1d8b05cdd 2023-11-20)" -> "1.75.0"
+			const match = output.match(/cargo (\d+\.\d+\.\d+)/);
+			return match ? match[1] : output.split("\n")[0];
+		},
+	});
+
+	return createInstalledTool(
+		rustDefinition,
+		execPath || "cargo",
+		version || undefined,
+	);
+}
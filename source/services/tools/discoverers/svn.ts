@@ -0,0 +1,100 @@
+/**
+ * SVN tool discoverer
+ */
+
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+	createInstalledTool,
+	createNotInstalledTool,
+} from "./base.js";
+
+const svnDefinition: ToolDefinition = {
+	id: "svn",
+	name: "Subversion",
+	description: "Centralized version control system",
+	category: "vcs",
+	capabilities: ["execute"],
+	actions: [
+		{
+			name: "status",
+			description: "Show working copy status",
+			parameters: [],
+			commandTemplate: "svn status",
+			readOnly: true,
+		},
+		{
+			name: "diff",
+			description: "Show local changes",
+			parameters: [
+				{
+					name: "file",
+					description: "File path (optional)",
+					type: "file",
+					required: false,
+				},
+			],
+			commandTemplate: "svn diff {{file}}",
+			readOnly: true,
+		},
+		{
+			name: "log",
+			description: "Show commit history",
+			parameters: [
+				{
+					name: "count",
+					description: "Number of revisions to show",
+					type: "number",
+					required: false,
+					default: 10,
+				},
+			],
+			commandTemplate: "svn log -l {{count}}",
+			readOnly: true,
+		},
+		{
+			name: "update",
+			description: "Update working copy from the repository",
+			parameters: [],
+			commandTemplate: "svn update",
+		},
+		{
+			name: "commit",
+			description: "Commit local changes",
+			parameters: [
+				{
+					name: "message",
+					description: "Commit message",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: 'svn commit -m "{{message}}"',
+		},
+	],
+	installHint:
+		"Download from https://subversion.apache.org/packages.html\nor install via package manager (apt install subversion, brew install subversion)",
+};
+
+export async function detectSvn(): Promise<DiscoveredTool> {
+	if (!(await commandExists("svn"))) {
+		return createNotInstalledTool(svnDefinition);
+	}
+
+	const execPath = await getExecutablePath("svn");
+	const version = await getVersion("svn", ["--version", "--quiet"], {
+		parseOutput: (output) => {
+			// "1.14.2" (or "1.14.2 (r1899510)") -> "1.14.2"
+			const match = output.match(/(\d+\.\d+\.\d+)/);
+			return match ? match[1] : output.split("\n")[0];
+		},
+	});
+
+	return createInstalledTool(
+		svnDefinition,
+		execPath || "svn",
+		version || undefined,
+	);
+}
@@ -25,6 +25,7 @@ export async function detectWebFetch(): Promise<DiscoveredTool> {
 				name: "fetch",
 				description: t("tools.fetchWebActionDesc"),
 				commandTemplate: "{{url}}",
+				readOnly: true,
 				parameters: [
 					{
 						name: "url",
@@ -15,7 +15,9 @@ import { fileHandler } from "./handlers/fileHandler.js";
 import { planFileHandler } from "./handlers/planFileHandler.js";
 import { planModeHandler } from "./handlers/planModeHandler.js";
 import { scriptHandler } from "./handlers/scriptHandler.js";
+import { backgroundHandler } from "./handlers/backgroundHandler.js";
 import { commandHandler } from "./handlers/commandHandler.js";
+import { mcpHandler } from "./handlers/mcpHandler.js";
 
 // Import shared utilities for re-export
 import {
@@ -45,6 +47,8 @@ registerHandler(fileHandler);
 registerHandler(planFileHandler);
 registerHandler(planModeHandler);
 registerHandler(scriptHandler);
+registerHandler(backgroundHandler);
+registerHandler(mcpHandler);
 registerHandler(commandHandler); // Fallback, must be last
 
 /**
@@ -57,6 +61,7 @@ export async function executeToolAction(
 	options?: {
 		cwd?: string;
 		timeout?: number;
+		onOutput?: import("./handlers/types.js").OutputCallback;
 	},
 ): Promise<import("./handlers/types.js").ExecutionResult> {
 	if (!tool.installed) {
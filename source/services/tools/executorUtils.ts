@@ -5,7 +5,7 @@
 
 import { spawn, type SpawnOptions } from "node:child_process";
 import type { DiscoveredTool, ToolAction } from "./types.js";
-import type { ExecutionResult } from "./handlers/types.js";
+import type { ExecutionResult, OutputCallback } from "./handlers/types.js";
 
 /**
  * Render command template
@@ -111,6 +111,7 @@ export async function executeCommand(
 		env?: Record<string, string>;
 		timeout?: number;
 		shell?: boolean;
+		onOutput?: OutputCallback;
 	},
 ): Promise<ExecutionResult> {
 	return new Promise((resolve) => {
@@ -137,11 +138,15 @@ export async function executeCommand(
 		}, timeout);
 
 		proc.stdout?.on("data", (data: Buffer) => {
-			stdout += data.toString("utf8");
+			const chunk = data.toString("utf8");
+			stdout += chunk;
+			options?.onOutput?.(chunk, "stdout");
 		});
 
 		proc.stderr?.on("data", (data: Buffer) => {
-			stderr += data.toString("utf8");
+			const chunk = data.toString("utf8");
+			stderr += chunk;
+			options?.onOutput?.(chunk, "stderr");
 		});
 
 		proc.on("error", (err) => {
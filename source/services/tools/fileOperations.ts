@@ -59,6 +59,15 @@ export type FileEditResult = {
 	error?: string;
 };
 
+export type FileChangePreview = {
+	success: boolean;
+	path: string;
+	oldContent: string; // Current content ("" when the file does not exist)
+	newContent: string; // Content after the change
+	isNewFile: boolean;
+	error?: string;
+};
+
 export type FileReadLinesResult = {
 	success: boolean;
 	lines: string[] | null;
@@ -74,6 +83,8 @@ export type SearchMatch = {
 	column: number; // 1-based column
 	content: string; // Full line content
 	match: string; // Matched text
+	before?: string[]; // Context lines before the match (when contextLines > 0)
+	after?: string[]; // Context lines after the match (when contextLines > 0)
 };
 
 export type FileSearchResult = {
@@ -220,6 +231,33 @@ export function writeFileContent(
 	}
 }
 
+/**
+ * Replace old content with new content (first occurrence or all)
+ */
+function replaceContent(
+	content: string,
+	oldContent: string,
+	newContent: string,
+	replaceAll: boolean,
+): { content: string; replaced: number } {
+	if (replaceAll) {
+		const parts = content.split(oldContent);
+		return { content: parts.join(newContent), replaced: parts.length - 1 };
+	}
+
+	const index = content.indexOf(oldContent);
+	if (index === -1) {
+		return { content, replaced: 0 };
+	}
+	return {
+		content:
+			content.substring(0, index) +
+			newContent +
+			content.substring(index + oldContent.length),
+		replaced: 1,
+	};
+}
+
 /**
  * Edit file preserving original encoding
  */
@@ -240,23 +278,12 @@ export function editFileContent(
 			};
 		}
 
-		let content = readResult.content;
-		let replaced = 0;
-
-		if (replaceAll) {
-			const parts = content.split(oldContent);
-			replaced = parts.length - 1;
-			content = parts.join(newContent);
-		} else {
-			const index = content.indexOf(oldContent);
-			if (index !== -1) {
-				content =
-					content.substring(0, index) +
-					newContent +
-					content.substring(index + oldContent.length);
-				replaced = 1;
-			}
-		}
+		const { content, replaced } = replaceContent(
+			readResult.content,
+			oldContent,
+			newContent,
+			replaceAll,
+		);
 
 		if (replaced === 0) {
 			return {
@@ -289,6 +316,92 @@ export function editFileContent(
 	}
 }
 
+/**
+ * Compute the result of writeFileContent without writing
+ */
+export function previewWriteFileContent(
+	filePath: string,
+	content: string,
+	mode: WriteMode = "overwrite",
+): FileChangePreview {
+	if (!existsSync(filePath)) {
+		return {
+			success: true,
+			path: filePath,
+			oldContent: "",
+			newContent: content,
+			isNewFile: true,
+		};
+	}
+
+	const readResult = readFileContent(filePath);
+	if (!readResult.success || readResult.content === null) {
+		return {
+			success: false,
+			path: filePath,
+			oldContent: "",
+			newContent: "",
+			isNewFile: false,
+			error: readResult.error || "Failed to read file",
+		};
+	}
+
+	return {
+		success: true,
+		path: filePath,
+		oldContent: readResult.content,
+		newContent: mode === "append" ? readResult.content + content : content,
+		isNewFile: false,
+	};
+}
+
+/**
+ * Compute the result of editFileContent without writing
+ */
+export function previewEditFileContent(
+	filePath: string,
+	oldContent: string,
+	newContent: string,
+	replaceAll: boolean = false,
+): FileChangePreview {
+	const readResult = readFileContent(filePath);
+	if (!readResult.success || readResult.content === null) {
+		return {
+			success: false,
+			path: filePath,
+			oldContent: "",
+			newContent: "",
+			isNewFile: false,
+			error: readResult.error || "File not found",
+		};
+	}
+
+	const { content, replaced } = replaceContent(
+		readResult.content,
+		oldContent,
+		newContent,
+		replaceAll,
+	);
+	if (replaced === 0) {
+		return {
+			success: false,
+			path: filePath,
+			oldContent: readResult.content,
+			newContent: readResult.content,
+			isNewFile: false,
+			error: "Old content not found in file",
+		};
+	}
+
+	return {
+		success: true,
+		path: filePath,
+		oldContent: readResult.content,
+		newContent: content,
+		isNewFile: false,
+	};
+}
+
 /**
  * Read specific line range from file
  * @param filePath File path
@@ -345,7 +458,7 @@ export function readFileLines(
 /**
  * Escape regex special characters
  */
-function escapeRegex(str: string): string {
+export function escapeRegex(str: string): string {
 	return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
@@ -354,11 +467,13 @@ function escapeRegex(str: string): string {
  * @param filePath File path
  * @param pattern Search pattern (string or regex)
  * @param maxMatches Maximum matches to return (default: 100)
+ * @param contextLines Lines of context to include before/after each match (default: 0)
  */
 export function searchInFile(
 	filePath: string,
 	pattern: string | RegExp,
 	maxMatches: number = 100,
+	contextLines: number = 0,
 ): FileSearchResult {
 	const readResult = readFileContent(filePath);
 	if (!readResult.success || readResult.content === null) {
@@ -388,12 +503,17 @@ export function searchInFile(
 		regex.lastIndex = 0;
 
 		while ((match = regex.exec(line)) !== null && matches.length < maxMatches) {
-			matches.push({
+			const searchMatch: SearchMatch = {
 				line: i + 1,
 				column: match.index + 1,
 				content: line,
 				match: match[0],
-			});
+			};
+			if (contextLines > 0) {
+				searchMatch.before = lines.slice(Math.max(0, i - contextLines), i);
+				searchMatch.after = lines.slice(i + 1, i + 1 + contextLines);
+			}
+			matches.push(searchMatch);
 
 			// Prevent infinite loop for zero-length matches
 			if (match[0].length === 0) {
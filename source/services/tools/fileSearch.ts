@@ -0,0 +1,507 @@
+/**
+ * Directory-level file operations: list, glob and recursive grep
+ * Walks the project tree (respecting .gitignore) on top of fileOperations,
+ * so content search keeps auto encoding detection (GBK, Shift-JIS, ...)
+ */
+import {
+	existsSync,
+	readdirSync,
+	readFileSync,
+	statSync,
+	openSync,
+	readSync,
+	closeSync,
+} from "node:fs";
+import { join } from "node:path";
+import {
+	searchInFile,
+	escapeRegex,
+	type SearchMatch,
+} from "./fileOperations.js";
+
+// Directories never walked into (even without .gitignore)
+const ALWAYS_IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+// Bytes sampled to detect binary files
+const BINARY_SAMPLE_SIZE = 8000;
+
+// Files larger than this are skipped by grep (10MB)
+const MAX_GREP_FILE_SIZE = 10 * 1024 * 1024;
+
+export type WalkEntry = {
+	path: string; // Path relative to root, "/" separated
+	fullPath: string; // Absolute (or cwd-joined) path
+	name: string; // Base name
+	isDirectory: boolean;
+	depth: number; // 0 for direct children of root
+};
+
+export type WalkOptions = {
+	maxDepth?: number; // Maximum depth to descend (0 = root entries only)
+	respectGitignore?: boolean; // Skip .gitignore'd entries (default: true)
+};
+
+export type FileListResult = {
+	success: boolean;
+	entries: WalkEntry[];
+	truncated: boolean;
+	error?: string;
+};
+
+export type FileGlobResult = {
+	success: boolean;
+	files: string[]; // Relative paths
+	truncated: boolean;
+	error?: string;
+};
+
+export type FileGrepMatch = {
+	path: string; // Relative path
+	matches: SearchMatch[];
+};
+
+export type FileGrepOptions = {
+	regex?: boolean; // Treat pattern as regex (default: false)
+	ignoreCase?: boolean; // Case-insensitive match (default: false)
+	include?: string[]; // Only search files matching any of these globs
+	exclude?: string[]; // Skip files matching any of these globs
+	contextLines?: number; // Context lines around each match (default: 0)
+	maxMatches?: number; // Total match cap (default: 200)
+};
+
+export type FileGrepResult = {
+	success: boolean;
+	files: FileGrepMatch[];
+	totalMatches: number;
+	filesSearched: number;
+	truncated: boolean;
+	error?: string;
+};
+
+type IgnoreRule = {
+	regex: RegExp;
+	negate: boolean;
+	dirOnly: boolean;
+	anchored: boolean; // Match full path from base instead of base name
+	base: string; // Directory of the .gitignore, relative to root
+};
+
+/**
+ * Convert a path glob to a RegExp
+ * - "*" matches within a path segment, "?" a single character
+ * - "**" matches across segments ("**\/" may match nothing)
+ * - "{a,b}" alternatives, "[abc]" character classes
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	let inGroup = false;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]!;
+
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				// "**/" → zero or more directories, trailing "**" → anything
+				if (glob[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", i + 1);
+			if (end === -1) {
+				source += "\\[";
+			} else {
+				const body = glob.slice(i + 1, end).replace(/^!/, "^");
+				source += `[${body.replace(/\\/g, "\\\\")}]`;
+				i = end;
+			}
+		} else if (char === "{") {
+			inGroup = true;
+			source += "(?:";
+		} else if (char === "}" && inGroup) {
+			inGroup = false;
+			source += ")";
+		} else if (char === "," && inGroup) {
+			source += "|";
+		} else {
+			source += escapeRegex(char);
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a relative path matches a glob
+ * Globs without "/" match the base name at any depth (like .gitignore)
+ */
+export function matchesGlob(relPath: string, glob: string): boolean {
+	const regex = globToRegExp(glob);
+	if (glob.includes("/")) {
+		return regex.test(relPath);
+	}
+	const name = relPath.slice(relPath.lastIndexOf("/") + 1);
+	return regex.test(name);
+}
+
+/**
+ * Parse .gitignore content into rules
+ * @param content File content
+ * @param base Directory containing the .gitignore, relative to root ("" for root)
+ */
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		let line = rawLine.trimEnd();
+		if (!line || line.startsWith("#")) continue;
+
+		const negate = line.startsWith("!");
+		if (negate) line = line.slice(1);
+
+		const dirOnly = line.endsWith("/");
+		if (dirOnly) line = line.slice(0, -1);
+
+		// A slash anywhere (except trailing) anchors the pattern to the base
+		const anchored = line.includes("/");
+		if (line.startsWith("/")) line = line.slice(1);
+		if (!line) continue;
+
+		rules.push({ regex: globToRegExp(line), negate, dirOnly, anchored, base });
+	}
+
+	return rules;
+}
+
+/**
+ * Check an entry against ignore rules (last matching rule wins)
+ */
+function isIgnored(entry: WalkEntry, rules: IgnoreRule[]): boolean {
+	let ignored = false;
+
+	for (const rule of rules) {
+		if (rule.dirOnly && !entry.isDirectory) continue;
+		if (rule.base && !entry.path.startsWith(rule.base + "/")) continue;
+
+		const target = rule.anchored
+			? entry.path.slice(rule.base ? rule.base.length + 1 : 0)
+			: entry.name;
+		if (rule.regex.test(target)) {
+			ignored = !rule.negate;
+		}
+	}
+
+	return ignored;
+}
+
+/**
+ * Read .gitignore rules of a directory (empty if none)
+ */
+function loadGitignore(dir: string, base: string): IgnoreRule[] {
+	const gitignorePath = join(dir, ".gitignore");
+	if (!existsSync(gitignorePath)) return [];
+	try {
+		return parseGitignore(readFileSync(gitignorePath, "utf-8"), base);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Walk a directory tree depth-first (sorted: directories first, then by name)
+ * @param root Root directory
+ * @param options Walk options
+ * @param visit Called for each entry, return false to stop walking
+ */
+export function walkDirectory(
+	root: string,
+	options: WalkOptions,
+	visit: (entry: WalkEntry) => boolean | void,
+): void {
+	const maxDepth = options.maxDepth ?? Infinity;
+	const respectGitignore = options.respectGitignore ?? true;
+	let stopped = false;
+
+	const walk = (
+		dir: string,
+		relDir: string,
+		depth: number,
+		rules: IgnoreRule[],
+	) => {
+		const dirRules = respectGitignore
+			? [...rules, ...loadGitignore(dir, relDir)]
+			: rules;
+
+		let dirents;
+		try {
+			dirents = readdirSync(dir, { withFileTypes: true });
+		} catch {
+			// Unreadable directory (permissions, etc.)
+			return;
+		}
+
+		// Symlinked directories are listed but not descended (avoids cycles)
+		const symlinkDirs = new Set<string>();
+		const entries: WalkEntry[] = dirents.map((dirent) => {
+			const fullPath = join(dir, dirent.name);
+			let isDirectory = dirent.isDirectory();
+			if (dirent.isSymbolicLink()) {
+				try {
+					isDirectory = statSync(fullPath).isDirectory();
+					if (isDirectory) symlinkDirs.add(dirent.name);
+				} catch {
+					// Broken link, treat as file
+				}
+			}
+			return {
+				path: relDir ? `${relDir}/${dirent.name}` : dirent.name,
+				fullPath,
+				name: dirent.name,
+				isDirectory,
+				depth,
+			};
+		});
+
+		entries.sort((a, b) =>
+			a.isDirectory === b.isDirectory
+				? a.name.localeCompare(b.name)
+				: a.isDirectory
+					? -1
+					: 1,
+		);
+
+		for (const entry of entries) {
+			if (stopped) return;
+			if (entry.isDirectory && ALWAYS_IGNORED_DIRS.has(entry.name)) continue;
+			if (respectGitignore && isIgnored(entry, dirRules)) continue;
+
+			if (visit(entry) === false) {
+				stopped = true;
+				return;
+			}
+
+			if (
+				entry.isDirectory &&
+				depth < maxDepth &&
+				!symlinkDirs.has(entry.name)
+			) {
+				walk(entry.fullPath, entry.path, depth + 1, dirRules);
+			}
+		}
+	};
+
+	walk(root, "", 0, []);
+}
+
+/**
+ * Check if path is an existing directory
+ */
+function checkDirectory(dirPath: string): string | null {
+	if (!existsSync(dirPath)) {
+		return "Directory not found";
+	}
+	if (!statSync(dirPath).isDirectory()) {
+		return "Not a directory";
+	}
+	return null;
+}
+
+/**
+ * List directory entries recursively (respecting .gitignore)
+ * @param dirPath Directory path
+ * @param maxDepth Maximum depth (0 = direct children only, default: 2)
+ * @param maxEntries Maximum entries to return (default: 500)
+ */
+export function listDirectory(
+	dirPath: string,
+	maxDepth: number = 2,
+	maxEntries: number = 500,
+): FileListResult {
+	try {
+		const error = checkDirectory(dirPath);
+		if (error) {
+			return { success: false, entries: [], truncated: false, error };
+		}
+
+		const entries: WalkEntry[] = [];
+		let truncated = false;
+
+		walkDirectory(dirPath, { maxDepth }, (entry) => {
+			if (entries.length >= maxEntries) {
+				truncated = true;
+				return false;
+			}
+			entries.push(entry);
+		});
+
+		return { success: true, entries, truncated };
+	} catch (err) {
+		return {
+			success: false,
+			entries: [],
+			truncated: false,
+			error: err instanceof Error ? err.message : String(err),
+		};
+	}
+}
+
+/**
+ * Find files matching a glob (respecting .gitignore)
+ * @param dirPath Directory to search from
+ * @param pattern Glob matched against the relative path (e.g. "src/**\/*.ts")
+ * @param maxResults Maximum files to return (default: 500)
+ */
+export function globFiles(
+	dirPath: string,
+	pattern: string,
+	maxResults: number = 500,
+): FileGlobResult {
+	try {
+		const error = checkDirectory(dirPath);
+		if (error) {
+			return { success: false, files: [], truncated: false, error };
+		}
+
+		const regex = globToRegExp(pattern);
+		const files: string[] = [];
+		let truncated = false;
+
+		walkDirectory(dirPath, {}, (entry) => {
+			if (entry.isDirectory || !regex.test(entry.path)) return;
+			if (files.length >= maxResults) {
+				truncated = true;
+				return false;
+			}
+			files.push(entry.path);
+		});
+
+		return { success: true, files, truncated };
+	} catch (err) {
+		return {
+			success: false,
+			files: [],
+			truncated: false,
+			error: err instanceof Error ? err.message : String(err),
+		};
+	}
+}
+
+/**
+ * Check if a file looks binary (contains NUL bytes in the first 8KB)
+ */
+function isBinaryFile(filePath: string): boolean {
+	let fd: number | undefined;
+	try {
+		fd = openSync(filePath, "r");
+		const buffer = Buffer.alloc(BINARY_SAMPLE_SIZE);
+		const bytesRead = readSync(fd, buffer, 0, BINARY_SAMPLE_SIZE, 0);
+		const sample = buffer.subarray(0, bytesRead);
+		// UTF-16 files contain NUL bytes but start with a BOM
+		if (
+			(sample[0] === 0xff && sample[1] === 0xfe) ||
+			(sample[0] === 0xfe && sample[1] === 0xff)
+		) {
+			return false;
+		}
+		return sample.includes(0);
+	} catch {
+		return true;
+	} finally {
+		if (fd !== undefined) closeSync(fd);
+	}
+}
+
+/**
+ * Search file contents recursively (respecting .gitignore)
+ * Each file is searched with searchInFile, so its encoding is auto-detected
+ * @param searchPath Directory (or single file) to search
+ * @param pattern Search pattern
+ * @param options Grep options
+ */
+export function grepFiles(
+	searchPath: string,
+	pattern: string,
+	options: FileGrepOptions = {},
+): FileGrepResult {
+	const empty: FileGrepResult = {
+		success: false,
+		files: [],
+		totalMatches: 0,
+		filesSearched: 0,
+		truncated: false,
+	};
+
+	try {
+		if (!existsSync(searchPath)) {
+			return { ...empty, error: "Path not found" };
+		}
+
+		const maxMatches = options.maxMatches ?? 200;
+		const contextLines = options.contextLines ?? 0;
+		const include = options.include ?? [];
+		const exclude = options.exclude ?? [];
+		const flags = options.ignoreCase ? "gmi" : "gm";
+		const regex = new RegExp(
+			options.regex ? pattern : escapeRegex(pattern),
+			flags,
+		);
+
+		const result: FileGrepResult = { ...empty, files: [], success: true };
+
+		const searchFile = (fullPath: string, relPath: string): boolean => {
+			const remaining = maxMatches - result.totalMatches;
+			if (remaining <= 0) {
+				result.truncated = true;
+				return false;
+			}
+			// Skip entries that cannot be read (e.g. dangling symlinks)
+			try {
+				if (statSync(fullPath).size > MAX_GREP_FILE_SIZE) return true;
+				if (isBinaryFile(fullPath)) return true;
+			} catch {
+				return true;
+			}
+
+			result.filesSearched++;
+			const fileResult = searchInFile(fullPath, regex, remaining, contextLines);
+			if (fileResult.success && fileResult.matches.length > 0) {
+				result.files.push({ path: relPath, matches: fileResult.matches });
+				result.totalMatches += fileResult.matches.length;
+			}
+			return true;
+		};
+
+		// Single file
+		if (!statSync(searchPath).isDirectory()) {
+			searchFile(searchPath, searchPath.replace(/\\/g, "/"));
+			return result;
+		}
+
+		walkDirectory(searchPath, {}, (entry) => {
+			if (entry.isDirectory) return;
+			if (
+				include.length > 0 &&
+				!include.some((g) => matchesGlob(entry.path, g))
+			)
+				return;
+			if (exclude.some((g) => matchesGlob(entry.path, g))) return;
+			return searchFile(entry.fullPath, entry.path);
+		});
+
+		return result;
+	} catch (err) {
+		return {
+			...empty,
+			files: [],
+			error: err instanceof Error ? err.message : String(err),
+		};
+	}
+}
@@ -0,0 +1,158 @@
+/**
+ * Background process handler
+ * Handles start, output, send, kill and list actions of the background tool
+ */
+
+import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import {
+	getBackgroundProcessManager,
+	type BackgroundProcessInfo,
+} from "../backgroundProcesses.js";
+
+/**
+ * Background handler - handles all __BG_* actions
+ */
+export const backgroundHandler: RegisteredHandler = {
+	name: "background",
+	matches: (ctx) => ctx.action.commandTemplate.startsWith("__BG_"),
+	handle: async (ctx) => {
+		const { tool, action, params, options } = ctx;
+
+		switch (action.commandTemplate) {
+			case "__BG_START__":
+				return handleStart(params, options?.cwd, tool.env);
+			case "__BG_OUTPUT__":
+				return handleOutput(params);
+			case "__BG_SEND__":
+				return handleSend(params);
+			case "__BG_KILL__":
+				return handleKill(params);
+			case "__BG_LIST__":
+				return handleList();
+			default:
+				return failure(`Unknown background action: ${action.commandTemplate}`);
+		}
+	},
+};
+
+function failure(error: string): ExecutionResult {
+	return {
+		success: false,
+		stdout: "",
+		stderr: "",
+		exitCode: null,
+		error,
+	};
+}
+
+/**
+ * Format process status, e.g. "running (pid 123)" or "exited (code 1)"
+ */
+export function formatProcessStatus(info: BackgroundProcessInfo): string {
+	switch (info.status) {
+		case "running":
+			return `running (pid ${info.pid ?? "?"})`;
+		case "exited":
+			return `exited (code ${info.exitCode ?? "?"})`;
+		case "killed":
+			return "killed";
+	}
+}
+
+function handleStart(
+	params: Record<string, unknown>,
+	cwd: string | undefined,
+	env: Record<string, string> | undefined,
+): ExecutionResult {
+	const command = String(params.command ?? "").trim();
+	if (!command) {
+		return failure("Command is required");
+	}
+
+	const info = getBackgroundProcessManager().start(command, { cwd, env });
+	return {
+		success: true,
+		stdout: `Started background process ${info.id}: ${command}\nUse output with id "${info.id}" to read its output.`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function handleOutput(params: Record<string, unknown>): ExecutionResult {
+	const id = String(params.id ?? "");
+	const output = getBackgroundProcessManager().poll(id);
+	if (!output) {
+		return failure(`Background process not found: ${id}`);
+	}
+
+	const lines = [`[${id}] ${formatProcessStatus(output.info)}`];
+	if (output.truncated) {
+		lines.push("[Earlier output was dropped]");
+	}
+	lines.push(
+		output.stdout || output.stderr ? output.stdout : "(no new output)",
+	);
+
+	return {
+		success: true,
+		stdout: lines.join("\n").trimEnd(),
+		stderr: output.stderr.trimEnd(),
+		exitCode: 0,
+	};
+}
+
+function handleSend(params: Record<string, unknown>): ExecutionResult {
+	const id = String(params.id ?? "");
+	const input = String(params.input ?? "");
+	const newline = params.newline !== false;
+
+	try {
+		getBackgroundProcessManager().write(id, newline ? `${input}\n` : input);
+	} catch (err) {
+		return failure(err instanceof Error ? err.message : String(err));
+	}
+	return {
+		success: true,
+		stdout: `Input sent to ${id}`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function handleKill(params: Record<string, unknown>): ExecutionResult {
+	const id = String(params.id ?? "");
+	const manager = getBackgroundProcessManager();
+	const info = manager.get(id);
+	if (!info) {
+		return failure(`Background process not found: ${id}`);
+	}
+	if (!manager.kill(id)) {
+		return failure(`Background process ${id} is not running`);
+	}
+	return {
+		success: true,
+		stdout: `Killed background process ${id}`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function handleList(): ExecutionResult {
+	const processes = getBackgroundProcessManager().list();
+	const output =
+		processes.length > 0
+			? processes
+					.map(
+						(info) =>
+							`${info.id}\t${formatProcessStatus(info)}\t${info.command}`,
+					)
+					.join("\n")
+			: "(no background processes)";
+
+	return {
+		success: true,
+		stdout: output,
+		stderr: "",
+		exitCode: 0,
+	};
+}
@@ -23,6 +23,7 @@ export const commandHandler: RegisteredHandler = {
 			cwd: options?.cwd,
 			env: tool.env,
 			timeout: options?.timeout,
+			onOutput: options?.onOutput,
 		});
 	},
 };
@@ -1,6 +1,6 @@
 /**
  * File operations handler
- * Handles file read, write, edit, search, and read_lines actions
+ * Handles file read, write, edit, search, read_lines, list, glob and grep actions
  */
 
 import { join, isAbsolute } from "node:path";
@@ -11,8 +11,22 @@ import {
 	editFileContent,
 	readFileLines,
 	searchInFile,
+	previewWriteFileContent,
+	previewEditFileContent,
 	type WriteMode,
+	type SearchMatch,
+	type FileChangePreview,
 } from "../fileOperations.js";
+import {
+	listDirectory,
+	globFiles,
+	grepFiles,
+	type FileGrepMatch,
+} from "../fileSearch.js";
+import { getCheckpointStore } from "../checkpointStore.js";
+
+// Long lines (e.g. minified files) are cut in list/grep output
+const MAX_OUTPUT_LINE_LENGTH = 500;
 
 /**
  * File handler - handles all __FILE_* actions
@@ -35,6 +49,12 @@ export const fileHandler: RegisteredHandler = {
 				return handleFileSearch(params, cwd);
 			case "__FILE_EDIT__":
 				return handleFileEdit(params, cwd);
+			case "__FILE_LIST__":
+				return handleFileList(params, cwd);
+			case "__FILE_GLOB__":
+				return handleFileGlob(params, cwd);
+			case "__FILE_GREP__":
+				return handleFileGrep(params, cwd);
 			default:
 				return {
 					success: false,
@@ -51,6 +71,46 @@ function resolvePath(path: string, cwd: string): string {
 	return isAbsolute(path) ? path : join(cwd, path);
 }
 
+/**
+ * Compute the pending change of a file_write / file_edit call without writing
+ * @returns Preview, or null for actions that do not modify files
+ */
+export function previewFileChange(
+	commandTemplate: string,
+	params: Record<string, unknown>,
+	cwd: string,
+): FileChangePreview | null {
+	// Invalid arguments are reported by the handler itself
+	if (typeof params.path !== "string") {
+		return null;
+	}
+
+	switch (commandTemplate) {
+		case "__FILE_WRITE__":
+			if (typeof params.content !== "string") return null;
+			return previewWriteFileContent(
+				resolvePath(params.path as string, cwd),
+				params.content as string,
+				(params.mode as WriteMode) || "overwrite",
+			);
+		case "__FILE_EDIT__":
+			if (
+				typeof params.old_content !== "string" ||
+				typeof params.new_content !== "string"
+			) {
+				return null;
+			}
+			return previewEditFileContent(
+				resolvePath(params.path as string, cwd),
+				params.old_content as string,
+				params.new_content as string,
+				params.replace_all === true,
+			);
+		default:
+			return null;
+	}
+}
+
 function handleFileRead(
 	params: Record<string, unknown>,
 	cwd: string,
@@ -106,6 +166,9 @@ function handleFileWrite(
 	const encoding = params.encoding as string | undefined;
 	const fullPath = resolvePath(path, cwd);
 
+	// Snapshot original content for /undo and /rewind
+	getCheckpointStore()?.captureFile(fullPath);
+
 	const result = writeFileContent(fullPath, content, mode, encoding);
 
 	return {
@@ -159,6 +222,9 @@ function handleFileEdit(
 	const replaceAll = params.replace_all === true;
 	const fullPath = resolvePath(path, cwd);
 
+	// Snapshot original content for /undo and /rewind
+	getCheckpointStore()?.captureFile(fullPath);
+
 	const result = editFileContent(fullPath, oldContent, newContent, replaceAll);
 
 	return {
@@ -171,3 +237,159 @@ function handleFileEdit(
 		error: result.error,
 	};
 }
+
+function handleFileList(
+	params: Record<string, unknown>,
+	cwd: string,
+): ExecutionResult {
+	const path = (params.path as string) || ".";
+	const maxDepth = (params.max_depth as number) ?? 2;
+	const maxEntries = (params.max_entries as number) || 500;
+	const fullPath = resolvePath(path, cwd);
+
+	const result = listDirectory(fullPath, maxDepth, maxEntries);
+	const lines = result.entries.map(
+		(entry) =>
+			"  ".repeat(entry.depth) + entry.name + (entry.isDirectory ? "/" : ""),
+	);
+	const footer = result.truncated
+		? `\n[Truncated at ${maxEntries} entries]`
+		: "";
+
+	return {
+		success: result.success,
+		stdout: result.success
+			? lines.length > 0
+				? lines.join("\n") + footer
+				: "(empty directory)"
+			: "",
+		stderr: "",
+		exitCode: result.success ? 0 : 1,
+		error: result.error,
+	};
+}
+
+function handleFileGlob(
+	params: Record<string, unknown>,
+	cwd: string,
+): ExecutionResult {
+	const pattern = params.pattern as string;
+	const path = (params.path as string) || ".";
+	const maxResults = (params.max_results as number) || 500;
+	const fullPath = resolvePath(path, cwd);
+
+	const result = globFiles(fullPath, pattern, maxResults);
+	const footer = result.truncated ? `\n[Truncated at ${maxResults} files]` : "";
+
+	return {
+		success: result.success,
+		stdout: result.success
+			? result.files.length > 0
+				? result.files.join("\n") + footer
+				: "(no files found)"
+			: "",
+		stderr: "",
+		exitCode: result.success ? 0 : 1,
+		error: result.error,
+	};
+}
+
+/**
+ * Split comma-separated globs
+ */
+function parseGlobList(value: unknown): string[] {
+	if (typeof value !== "string") return [];
+	return value
+		.split(",")
+		.map((glob) => glob.trim())
+		.filter(Boolean);
+}
+
+function truncateLine(line: string): string {
+	return line.length > MAX_OUTPUT_LINE_LENGTH
+		? line.slice(0, MAX_OUTPUT_LINE_LENGTH) + "…"
+		: line;
+}
+
+/**
+ * Format grep matches of one file (grep style)
+ * Match lines: "path:line:column: content", context lines: "path-line- content",
+ * non-adjacent groups separated by "--"
+ */
+function formatGrepFile(file: FileGrepMatch): string[] {
+	// Merge overlapping context of nearby matches
+	const lines = new Map<number, { text: string; match?: SearchMatch }>();
+	for (const match of file.matches) {
+		const before = match.before ?? [];
+		before.forEach((text, i) => {
+			const lineNo = match.line - before.length + i;
+			if (!lines.has(lineNo)) lines.set(lineNo, { text });
+		});
+		const existing = lines.get(match.line);
+		if (!existing?.match) {
+			lines.set(match.line, { text: match.content, match });
+		}
+		(match.after ?? []).forEach((text, i) => {
+			const lineNo = match.line + 1 + i;
+			if (!lines.has(lineNo)) lines.set(lineNo, { text });
+		});
+	}
+
+	const output: string[] = [];
+	let previous: number | undefined;
+	for (const lineNo of [...lines.keys()].sort((a, b) => a - b)) {
+		const { text, match } = lines.get(lineNo)!;
+		if (previous !== undefined && lineNo > previous + 1) {
+			output.push("--");
+		}
+		output.push(
+			match
+				? `${file.path}:${lineNo}:${match.column}: ${truncateLine(text)}`
+				: `${file.path}-${lineNo}- ${truncateLine(text)}`,
+		);
+		previous = lineNo;
+	}
+	return output;
+}
+
+function handleFileGrep(
+	params: Record<string, unknown>,
+	cwd: string,
+): ExecutionResult {
+	const pattern = params.pattern as string;
+	const path = (params.path as string) || ".";
+	const maxMatches = (params.max_matches as number) || 200;
+	const contextLines = (params.context_lines as number) || 0;
+	const fullPath = resolvePath(path, cwd);
+
+	const result = grepFiles(fullPath, pattern, {
+		regex: params.regex === true,
+		ignoreCase: params.ignore_case === true,
+		include: parseGlobList(params.include),
+		exclude: parseGlobList(params.exclude),
+		contextLines,
+		maxMatches,
+	});
+
+	let output = "";
+	if (result.success) {
+		const header = `[${result.totalMatches} match(es) in ${result.files.length} file(s), ${result.filesSearched} file(s) searched${result.truncated ? `, truncated at ${maxMatches} matches` : ""}]`;
+		const separator = contextLines > 0 ? "\n--\n" : "\n";
+		output =
+			result.totalMatches > 0
+				? header +
+					"\n" +
+					result.files
+						.map((file) => formatGrepFile(file).join("\n"))
+						.join(separator)
+				: "(no matches)";
+	}
+
+	return {
+		success: result.success,
+		stdout: output,
+		stderr: "",
+		exitCode: result.success ? 0 : 1,
+		error: result.error,
+	};
+}
@@ -0,0 +1,22 @@
+/**
+ * MCP handler
+ * Forwards actions of external MCP server tools to the MCP client manager
+ */
+
+import type { RegisteredHandler } from "./types.js";
+import { getMcpClientManager, MCP_COMMAND_TEMPLATE } from "../mcp/client.js";
+
+/**
+ * MCP handler - handles __MCP__ actions
+ */
+export const mcpHandler: RegisteredHandler = {
+	name: "mcp",
+	matches: (ctx) => ctx.action.commandTemplate === MCP_COMMAND_TEMPLATE,
+	handle: async (ctx) =>
+		getMcpClientManager().callTool(
+			ctx.tool.id,
+			ctx.action.name,
+			ctx.params,
+			ctx.options?.timeout,
+		),
+};
@@ -3,7 +3,11 @@
  * Handles running script content through interpreters
  */
 
-import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import type {
+	RegisteredHandler,
+	ExecutionResult,
+	OutputCallback,
+} from "./types.js";
 import {
 	writeScript,
 	buildScriptCommand,
@@ -58,6 +62,7 @@ export const scriptHandler: RegisteredHandler = {
 			env: tool.env,
 			timeout: options?.timeout,
 			prefix: tool.id,
+			onOutput: options?.onOutput,
 		});
 	},
 };
@@ -77,6 +82,7 @@ export async function executeScript(
 		env?: Record<string, string>;
 		timeout?: number;
 		prefix?: string;
+		onOutput?: OutputCallback;
 	},
 ): Promise<ExecutionResult> {
 	const cwd = options?.cwd || process.cwd();
@@ -94,6 +100,7 @@ export async function executeScript(
 			cwd,
 			env: options?.env,
 			timeout: options?.timeout,
+			onOutput: options?.onOutput,
 		});
 
 		// Prepend script path info to stdout for reference
@@ -15,6 +15,14 @@ export type ExecutionResult = {
 	error?: string;
 };
 
+/**
+ * Receives command output while the command is still running
+ */
+export type OutputCallback = (
+	chunk: string,
+	stream: "stdout" | "stderr",
+) => void;
+
 /**
  * Context passed to all handlers
  */
@@ -25,6 +33,8 @@ export type HandlerContext = {
 	options?: {
 		cwd?: string;
 		timeout?: number;
+		/** Live output of long-running commands (for UI display) */
+		onOutput?: OutputCallback;
 	};
 };
 
@@ -136,9 +136,10 @@ function getDefaultShellTools(): string[] {
  * Get builtin utility tools (cross-platform, always available)
  * - file: File operations with auto encoding detection
  * - askuser: Ask user questions and wait for response
+ * - background: Run long-running commands in the background
  */
 function getBuiltinUtilityTools(): string[] {
-	return ["file", "askuser"];
+	return ["file", "askuser", "background"];
 }
 
 /**
@@ -0,0 +1,468 @@
+/**
+ * MCP Client 管理器
+ * 连接外部 MCP Server，将其工具注册到 ToolRegistry
+ *
+ * 每个 server 注册为一个 DiscoveredTool（id 为 "mcp-<server>"），
+ * server 的每个 tool 对应一个 ToolAction，执行由 mcpHandler 转发到这里
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { ToolRegistry } from "../registry.js";
+import { getToolRegistry } from "../registry.js";
+import type { DiscoveredTool, ToolAction, ToolParameter } from "../types.js";
+import type { ExecutionResult } from "../handlers/types.js";
+import { getConfig, type McpServerConfig } from "../../../utils/config.js";
+import { getLocalSettings } from "../../../utils/localsettings.js";
+import { VERSION } from "../../../constants/meta.js";
+import { t } from "../../../i18n/index.js";
+
+// MCP 工具 ID 前缀
+export const MCP_TOOL_PREFIX = "mcp-";
+
+// MCP 动作的命令模板标记（由 mcpHandler 处理）
+export const MCP_COMMAND_TEMPLATE = "__MCP__";
+
+// 保留的 stderr 输出长度（用于连接失败时的错误信息）
+const MAX_STDERR_LENGTH = 2000;
+
+/**
+ * MCP Server 连接状态
+ */
+export type McpServerStatus =
+	"connecting" | "connected" | "failed" | "disabled";
+
+/**
+ * MCP Server 状态（用于 /mcp list）
+ */
+export type McpServerState = {
+	name: string;
+	toolId: string;
+	transport: "stdio" | "http";
+	status: McpServerStatus;
+	toolCount: number;
+	serverVersion?: string;
+	error?: string;
+};
+
+/**
+ * 根据配置创建传输层（测试时可替换为 InMemoryTransport）
+ */
+export type McpTransportFactory = (
+	name: string,
+	config: McpServerConfig,
+) => Transport;
+
+type McpConnection = {
+	name: string;
+	config: McpServerConfig;
+	status: McpServerStatus;
+	client?: Client;
+	/** 动作名 → 原始 MCP tool 名 */
+	toolNames: Map<string, string>;
+	serverVersion?: string;
+	error?: string;
+	stderr: string;
+};
+
+/**
+ * 将 server 名称转换为工具 ID（工具调用名按第一个下划线拆分，ID 中不能有下划线）
+ */
+export function getMcpToolId(serverName: string): string {
+	return `${MCP_TOOL_PREFIX}${serverName.replace(/[^a-zA-Z0-9-]/g, "-")}`;
+}
+
+/**
+ * 将 MCP tool 名称转换为合法的动作名
+ */
+function toActionName(toolName: string): string {
+	return toolName.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * 获取配置的传输类型
+ */
+function getTransportType(config: McpServerConfig): "stdio" | "http" {
+	return config.type === "http" ? "http" : "stdio";
+}
+
+/**
+ * 将 JSON Schema 属性转换为 ToolParameter（用于参数校验，复杂类型按 string 处理）
+ */
+function schemaToParams(schema: ToolAction["inputSchema"]): ToolParameter[] {
+	const required = new Set(schema?.required ?? []);
+	return Object.entries(schema?.properties ?? {}).map(([name, prop]) => {
+		const { type, description } = (prop ?? {}) as {
+			type?: unknown;
+			description?: unknown;
+		};
+		return {
+			name,
+			description: typeof description === "string" ? description : "",
+			type:
+				type === "number" || type === "integer"
+					? "number"
+					: type === "boolean"
+						? "boolean"
+						: "string",
+			required: required.has(name),
+		};
+	});
+}
+
+/**
+ * 将 MCP tool 调用结果的内容块转换为文本
+ */
+function contentToText(content: unknown[]): string {
+	return content
+		.map((block) => {
+			const item = block as {
+				type?: string;
+				text?: string;
+				mimeType?: string;
+				resource?: { uri?: string; text?: string };
+			};
+			switch (item.type) {
+				case "text":
+					return item.text ?? "";
+				case "image":
+				case "audio":
+					return `[${item.type}: ${item.mimeType ?? "unknown"}]`;
+				case "resource":
+					return item.resource?.text ?? `[resource: ${item.resource?.uri}]`;
+				default:
+					return JSON.stringify(block);
+			}
+		})
+		.join("\n");
+}
+
+/**
+ * 默认传输层：stdio 启动子进程，http 使用 Streamable HTTP
+ */
+function createDefaultTransport(
+	_name: string,
+	config: McpServerConfig,
+): Transport {
+	if (config.type === "http") {
+		return new StreamableHTTPClientTransport(new URL(config.url), {
+			requestInit: config.headers ? { headers: config.headers } : undefined,
+		});
+	}
+	return new StdioClientTransport({
+		command: config.command,
+		args: config.args,
+		env: config.env,
+		cwd: config.cwd,
+		// 避免子进程输出干扰 TUI，收集后用于错误信息
+		stderr: "pipe",
+	});
+}
+
+/**
+ * 读取 MCP Server 配置（项目 .axiomate/localsettings.json 覆盖 ~/.axiomate.json 中的同名配置）
+ */
+export function loadMcpServerConfigs(): Record<string, McpServerConfig> {
+	return {
+		...getConfig().mcpServers,
+		...getLocalSettings().mcpServers,
+	};
+}
+
+/**
+ * MCP Client 管理器
+ */
+export class McpClientManager {
+	private connections: Map<string, McpConnection> = new Map();
+	private listeners: Set<() => void> = new Set();
+
+	constructor(
+		private registry: ToolRegistry,
+		private createTransport: McpTransportFactory = createDefaultTransport,
+	) {}
+
+	/**
+	 * 连接所有配置的 server（单个失败不影响其他）
+	 */
+	async connectAll(configs: Record<string, McpServerConfig>): Promise<void> {
+		await Promise.all(
+			Object.entries(configs).map(([name, config]) => {
+				if (config.disabled) {
+					this.connections.set(name, {
+						name,
+						config,
+						status: "disabled",
+						toolNames: new Map(),
+						stderr: "",
+					});
+					return Promise.resolve();
+				}
+				return this.connect(name, config);
+			}),
+		);
+	}
+
+	/**
+	 * 重新连接 server（也用于启用已禁用的 server）
+	 */
+	async reconnect(name: string): Promise<McpServerState | undefined> {
+		const connection = this.connections.get(name);
+		if (!connection) return undefined;
+
+		await this.disconnect(connection);
+		await this.connect(name, connection.config);
+		return this.getState(name);
+	}
+
+	/**
+	 * 禁用 server：断开连接并移除其工具（仅当前运行有效）
+	 */
+	async disable(name: string): Promise<boolean> {
+		const connection = this.connections.get(name);
+		if (!connection) return false;
+
+		await this.disconnect(connection);
+		connection.status = "disabled";
+		connection.error = undefined;
+		this.notifyChange();
+		return true;
+	}
+
+	/**
+	 * 调用 MCP tool
+	 */
+	async callTool(
+		toolId: string,
+		actionName: string,
+		args: Record<string, unknown>,
+		timeout?: number,
+	): Promise<ExecutionResult> {
+		const connection = Array.from(this.connections.values()).find(
+			(c) => getMcpToolId(c.name) === toolId,
+		);
+		const toolName = connection?.toolNames.get(actionName);
+		if (!connection?.client || connection.status !== "connected" || !toolName) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: t("mcp.notConnected", { name: toolId }),
+			};
+		}
+
+		try {
+			const result = await connection.client.callTool(
+				{ name: toolName, arguments: args },
+				undefined,
+				timeout ? { timeout } : undefined,
+			);
+			const content = Array.isArray(result.content) ? result.content : [];
+			const text =
+				content.length > 0
+					? contentToText(content)
+					: result.structuredContent !== undefined
+						? JSON.stringify(result.structuredContent, null, 2)
+						: "";
+
+			if (result.isError) {
+				return {
+					success: false,
+					stdout: "",
+					stderr: text,
+					exitCode: null,
+					error: text || t("errors.commandExecutionFailed"),
+				};
+			}
+			return { success: true, stdout: text, stderr: "", exitCode: 0 };
+		} catch (error) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
+	/**
+	 * 列出所有 server 的状态
+	 */
+	listServers(): McpServerState[] {
+		return Array.from(this.connections.keys()).map((name) =>
+			this.getState(name)!,
+		);
+	}
+
+	/**
+	 * 获取单个 server 的状态
+	 */
+	getState(name: string): McpServerState | undefined {
+		const connection = this.connections.get(name);
+		if (!connection) return undefined;
+		return {
+			name,
+			toolId: getMcpToolId(name),
+			transport: getTransportType(connection.config),
+			status: connection.status,
+			toolCount: connection.toolNames.size,
+			serverVersion: connection.serverVersion,
+			error: connection.error,
+		};
+	}
+
+	/**
+	 * 断开所有连接
+	 */
+	async closeAll(): Promise<void> {
+		await Promise.all(
+			Array.from(this.connections.values()).map((c) => this.disconnect(c)),
+		);
+	}
+
+	/**
+	 * 监听 server 状态变化
+	 */
+	addChangeListener(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private notifyChange(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	private async connect(name: string, config: McpServerConfig): Promise<void> {
+		const connection: McpConnection = {
+			name,
+			config,
+			status: "connecting",
+			toolNames: new Map(),
+			stderr: "",
+		};
+		this.connections.set(name, connection);
+		this.notifyChange();
+
+		try {
+			const transport = this.createTransport(name, config);
+			if (transport instanceof StdioClientTransport) {
+				transport.stderr?.on("data", (chunk: Buffer) => {
+					connection.stderr = (connection.stderr + chunk.toString()).slice(
+						-MAX_STDERR_LENGTH,
+					);
+				});
+			}
+
+			const client = new Client({ name: "axiomate", version: VERSION });
+			await client.connect(transport);
+			connection.client = client;
+
+			const tools = await this.listAllTools(client);
+			const actions: ToolAction[] = tools.map((tool) => {
+				const actionName = toActionName(tool.name);
+				connection.toolNames.set(actionName, tool.name);
+				return {
+					name: actionName,
+					description: tool.description || tool.name,
+					parameters: schemaToParams(tool.inputSchema),
+					commandTemplate: MCP_COMMAND_TEMPLATE,
+					inputSchema: tool.inputSchema,
+					// server 声明的只读工具可与其他只读调用并行执行
+					readOnly: tool.annotations?.readOnlyHint,
+				};
+			});
+
+			connection.serverVersion = client.getServerVersion()?.version;
+			connection.status = "connected";
+			this.registry.registerTool(this.toDiscoveredTool(connection, actions));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			const stderr = connection.stderr.trim();
+			connection.status = "failed";
+			connection.error = stderr ? `${message}\n${stderr}` : message;
+			await connection.client?.close().catch(() => {});
+			connection.client = undefined;
+		}
+		this.notifyChange();
+	}
+
+	private async disconnect(connection: McpConnection): Promise<void> {
+		this.registry.unregisterTool(getMcpToolId(connection.name));
+		const client = connection.client;
+		connection.client = undefined;
+		connection.toolNames.clear();
+		if (client) {
+			await client.close().catch(() => {});
+		}
+	}
+
+	/**
+	 * 获取 server 的全部 tool（处理分页）
+	 */
+	private async listAllTools(client: Client) {
+		const tools = [];
+		let cursor: string | undefined;
+		do {
+			const page = await client.listTools(cursor ? { cursor } : undefined);
+			tools.push(...page.tools);
+			cursor = page.nextCursor;
+		} while (cursor);
+		return tools;
+	}
+
+	private toDiscoveredTool(
+		connection: McpConnection,
+		actions: ToolAction[],
+	): DiscoveredTool {
+		const { config } = connection;
+		return {
+			id: getMcpToolId(connection.name),
+			name: connection.name,
+			description: t("mcp.toolDescription", { name: connection.name }),
+			category: "mcp",
+			capabilities: ["execute"],
+			executablePath: config.type === "http" ? config.url : config.command,
+			version: connection.serverVersion,
+			actions,
+			installed: true,
+		};
+	}
+}
+
+// 单例实例
+let _instance: McpClientManager | null = null;
+let _initPromise: Promise<void> | null = null;
+
+/**
+ * 获取 MCP Client 管理器单例
+ */
+export function getMcpClientManager(): McpClientManager {
+	if (!_instance) {
+		_instance = new McpClientManager(getToolRegistry());
+	}
+	return _instance;
+}
+
+/**
+ * 连接配置的 MCP Server（只执行一次，重复调用返回同一个 Promise）
+ */
+export function initMcpClients(): Promise<void> {
+	if (!_initPromise) {
+		_initPromise = getMcpClientManager().connectAll(loadMcpServerConfigs());
+	}
+	return _initPromise;
+}
+
+/**
+ * 断开所有 MCP Server（退出前调用，结束 stdio 子进程）
+ */
+export async function closeMcpClients(): Promise<void> {
+	await _instance?.closeAll();
+}
@@ -11,6 +11,11 @@ import {
 	paramsToJsonSchema,
 } from "../executor.js";
 import { t } from "../../../i18n/index.js";
+import {
+	getToolUsageStats,
+	STATS_WINDOWS,
+	type StatsWindow,
+} from "../usageStats.js";
 
 export type McpTool = {
 	name: string;
@@ -73,7 +78,18 @@ export class InProcessMcpProvider {
 		tools.push({
 			name: "get_tools_stats",
 			description: t("tools.toolStatsDesc"),
-			inputSchema: { type: "object", properties: {}, required: [] },
+			inputSchema: {
+				type: "object",
+				properties: {
+					window: {
+						type: "string",
+						enum: STATS_WINDOWS,
+						description: t("tools.statsWindowDesc"),
+						default: "7d",
+					},
+				},
+				required: [],
+			},
 		});
 
 		// 每个工具的动作
@@ -101,7 +117,7 @@ export class InProcessMcpProvider {
 		}
 
 		if (name === "get_tools_stats") {
-			return this.handleGetStats();
+			return this.handleGetStats(args);
 		}
 
 		// 查找工具
@@ -151,8 +167,15 @@ export class InProcessMcpProvider {
 		};
 	}
 
-	private handleGetStats(): McpToolResult {
-		const stats = this.registry.getStats();
+	private handleGetStats(args: Record<string, unknown>): McpToolResult {
+		const window = STATS_WINDOWS.includes(args.window as StatsWindow)
+			? (args.window as StatsWindow)
+			: "7d";
+		// 安装统计 + 调用统计
+		const stats = {
+			...this.registry.getStats(),
+			usage: getToolUsageStats(window),
+		};
 		return {
 			content: [
 				{
@@ -0,0 +1,155 @@
+/**
+ * Tool call permission rules
+ * Matches tool calls against the allow list in .axiomate/localsettings.json
+ *
+ * Pattern formats:
+ * - "git_status"        call name (toolId_actionName), "*" matches anything
+ * - "file_read*"        glob on call name
+ * - "bash:npm test*"    toolId:glob on the call's subject (script content,
+ *                       rendered command, or path/url/command for builtin
+ *                       actions)
+ *                       "*" in a subject glob never matches newlines or
+ *                       shell control operators
+ */
+
+import type { DiscoveredTool, ToolAction } from "./types.js";
+import { renderCommandTemplate, fillDefaults } from "./executorUtils.js";
+import {
+	getLocalSettings,
+	updateLocalSettings,
+} from "../../utils/localsettings.js";
+
+/**
+ * Tools that never require approval
+ * - askuser: already an interaction with the user
+ * - plan: only touches .axiomate/plans/ and mode state
+ */
+const ALWAYS_ALLOWED_TOOL_IDS = new Set(["askuser", "plan"]);
+
+/**
+ * Read-only tool calls that never require approval
+ */
+const ALWAYS_ALLOWED_CALL_NAMES = new Set([
+	"background_output",
+	"background_list",
+]);
+
+/**
+ * Wildcard for call names: matches anything
+ */
+const ANY_WILDCARD = "[\\s\\S]*";
+
+/**
+ * Wildcard for subjects: stops at newlines, shell control operators
+ * (";", "&", "|", "`", "$(") and redirections (">", "<"), so
+ * "bash:npm test*" does not also approve "npm test && rm -rf ~",
+ * "npm test; curl ... | sh" or "echo x > ~/.bashrc" via "bash:echo *"
+ */
+const SUBJECT_WILDCARD = "(?:(?![\\r\\n;&|`<>]|\\$\\()[\\s\\S])*";
+
+/**
+ * Convert a glob pattern ("*" wildcard only) to a RegExp
+ */
+function globToRegExp(glob: string, wildcard = ANY_WILDCARD): RegExp {
+	const escaped = glob
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(wildcard);
+	return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Get the subject of a tool call, used by "toolId:glob" patterns
+ * - Script actions: the script content
+ * - Builtin actions (__XXX__ templates): the path, url or command parameter
+ * - Command template actions: the rendered command
+ */
+export function getPermissionSubject(
+	tool: DiscoveredTool,
+	action: ToolAction,
+	args: Record<string, unknown>,
+): string {
+	if (action.name === "run_script_content") {
+		return String(args.content ?? "");
+	}
+	if (/^__\w+__$/.test(action.commandTemplate)) {
+		return String(args.path ?? args.url ?? args.command ?? "");
+	}
+	return renderCommandTemplate(
+		action.commandTemplate,
+		fillDefaults(action, args),
+		tool,
+	);
+}
+
+/**
+ * Check whether a single pattern matches a tool call
+ */
+export function matchesPermissionPattern(
+	pattern: string,
+	toolId: string,
+	actionName: string,
+	subject: string,
+): boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed) return false;
+
+	const colonIndex = trimmed.indexOf(":");
+	if (colonIndex === -1) {
+		return globToRegExp(trimmed).test(`${toolId}_${actionName}`);
+	}
+
+	const patternToolId = trimmed.substring(0, colonIndex);
+	const subjectGlob = trimmed.substring(colonIndex + 1);
+	if (patternToolId !== toolId) return false;
+	return globToRegExp(subjectGlob, SUBJECT_WILDCARD).test(subject.trim());
+}
+
+/**
+ * Check whether a tool call may run without asking the user
+ */
+export function isToolCallAllowed(
+	tool: DiscoveredTool,
+	action: ToolAction,
+	args: Record<string, unknown>,
+	allowList: string[] = getLocalSettings().permissions.allow,
+): boolean {
+	if (
+		ALWAYS_ALLOWED_TOOL_IDS.has(tool.id) ||
+		ALWAYS_ALLOWED_CALL_NAMES.has(`${tool.id}_${action.name}`)
+	) {
+		return true;
+	}
+
+	const subject = getPermissionSubject(tool, action, args);
+	return allowList.some((pattern) =>
+		matchesPermissionPattern(pattern, tool.id, action.name, subject),
+	);
+}
+
+/**
+ * Build the pattern saved by "always allow"
+ * Single-line script content is allowed exactly; everything else by call name
+ */
+export function buildAllowPattern(
+	tool: DiscoveredTool,
+	action: ToolAction,
+	args: Record<string, unknown>,
+): string {
+	if (action.name === "run_script_content") {
+		const content = String(args.content ?? "").trim();
+		if (content && !content.includes("\n") && !content.includes("*")) {
+			return `${tool.id}:${content}`;
+		}
+	}
+	return `${tool.id}_${action.name}`;
+}
+
+/**
+ * Append a pattern to the allow list and save it to localsettings.json
+ */
+export function addAllowPattern(pattern: string): void {
+	const allow = getLocalSettings().permissions.allow;
+	if (allow.includes(pattern)) return;
+	updateLocalSettings({ permissions: { allow: [...allow, pattern] } });
+}
@@ -72,6 +72,13 @@ export class ToolRegistry implements IToolRegistry {
 			.catch(() => {
 				// 发现失败也标记为完成，使用已有的内置工具
 				this._discoveryStatus = "completed";
+
+				// 同样通知等待的回调，避免调用方一直等待
+				const tools = this.getAll();
+				for (const callback of this._discoveryCallbacks) {
+					callback(tools);
+				}
+				this._discoveryCallbacks = [];
 			});
 	}
 
@@ -163,6 +170,20 @@ export class ToolRegistry implements IToolRegistry {
 		return this.tools.get(id);
 	}
 
+	/**
+	 * 注册单个工具（如 MCP Server 提供的工具），同 ID 时覆盖
+	 */
+	registerTool(tool: DiscoveredTool): void {
+		this.tools.set(tool.id, tool);
+	}
+
+	/**
+	 * 移除单个工具
+	 */
+	unregisterTool(id: string): boolean {
+		return this.tools.delete(id);
+	}
+
 	/**
 	 * 获取统计信息
 	 */
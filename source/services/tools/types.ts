@@ -15,6 +15,7 @@ export type ToolCategory =
 	| "database" // 数据库工具 (mysql, psql, sqlite3)
 	| "web" // 网络工具 (web fetch)
 	| "utility" // 通用工具 (file, plan)
+	| "mcp" // 外部 MCP Server 提供的工具
 	| "other";
 
 // 工具能力
@@ -47,6 +48,15 @@ export type ToolAction = {
 	parameters: ToolParameter[];
 	// 命令模板，使用 {{param}} 占位符
 	commandTemplate: string;
+	// 只读动作（不修改文件/状态），同一轮中可与其他只读调用并行执行
+	// 未设置时根据工具能力判断（只有 read/search 能力的工具视为只读）
+	readOnly?: boolean;
+	// 原始 JSON Schema（MCP 工具），存在时代替 parameters 生成工具定义
+	inputSchema?: {
+		type: "object";
+		properties?: Record<string, unknown>;
+		required?: string[];
+	};
 };
 
 // 发现的本地工具
@@ -0,0 +1,186 @@
+/**
+ * Tool usage statistics
+ *
+ * Every executed tool call is appended as one JSON line to
+ * ~/.axiomate/tool-stats.jsonl. Statistics are computed on demand for a
+ * time window (/tools stats, get_tools_stats MCP tool).
+ */
+
+import { getToolStatsPath } from "../../utils/appdata.js";
+import {
+	appendJsonlRecord,
+	loadJsonlRecords,
+} from "../../utils/jsonlRecords.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Number of actions listed as most failing
+ */
+const MOST_FAILING_LIMIT = 5;
+
+/**
+ * One executed tool call
+ */
+export type ToolCallRecord = {
+	timestamp: number;
+	toolId: string;
+	action: string;
+	success: boolean;
+	/** Execution time in milliseconds */
+	duration: number;
+	/** Output size in characters */
+	outputSize: number;
+	sessionId?: string;
+};
+
+/**
+ * Selectable statistics time windows
+ */
+export type StatsWindow = "24h" | "7d" | "30d" | "all";
+
+export const STATS_WINDOWS: StatsWindow[] = ["24h", "7d", "30d", "all"];
+
+const WINDOW_DURATIONS: Record<StatsWindow, number | null> = {
+	"24h": 24 * 60 * 60 * 1000,
+	"7d": 7 * 24 * 60 * 60 * 1000,
+	"30d": 30 * 24 * 60 * 60 * 1000,
+	all: null,
+};
+
+/**
+ * Statistics of one tool action (toolId_action)
+ */
+export type ActionStats = {
+	name: string;
+	calls: number;
+	failures: number;
+	/** failures / calls, 0 ~ 1 */
+	failureRate: number;
+	p50Duration: number;
+	p95Duration: number;
+	avgOutputSize: number;
+};
+
+/**
+ * Aggregated statistics over a time window
+ */
+export type ToolUsageStats = {
+	window: StatsWindow;
+	totalCalls: number;
+	failures: number;
+	sessions: number;
+	/** Sorted by call count (descending) */
+	actions: ActionStats[];
+	/** Actions with at least one failure, sorted by failure count */
+	mostFailing: ActionStats[];
+};
+
+/**
+ * Append a tool call record (errors are logged, never thrown)
+ */
+export function recordToolCall(
+	record: ToolCallRecord,
+	file: string = getToolStatsPath(),
+): void {
+	try {
+		appendJsonlRecord(file, record);
+	} catch (error) {
+		logger.warn("Failed to record tool call", {
+			path: file,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * Load records with timestamp >= since (corrupt lines are skipped)
+ */
+export function loadToolCallRecords(
+	since: number = 0,
+	file: string = getToolStatsPath(),
+): ToolCallRecord[] {
+	return loadJsonlRecords<ToolCallRecord>(file, since);
+}
+
+/**
+ * Get the start timestamp of a time window
+ */
+export function getWindowStart(window: StatsWindow, now = Date.now()): number {
+	const duration = WINDOW_DURATIONS[window];
+	return duration === null ? 0 : now - duration;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+	if (sorted.length === 0) return 0;
+	const rank = Math.ceil((p / 100) * sorted.length);
+	return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+}
+
+/**
+ * Aggregate records into statistics
+ */
+export function computeToolStats(
+	records: ToolCallRecord[],
+	window: StatsWindow,
+): ToolUsageStats {
+	const groups = new Map<string, ToolCallRecord[]>();
+	for (const record of records) {
+		const name = `${record.toolId}_${record.action}`;
+		const group = groups.get(name);
+		if (group) {
+			group.push(record);
+		} else {
+			groups.set(name, [record]);
+		}
+	}
+
+	const actions: ActionStats[] = [...groups].map(([name, group]) => {
+		const durations = group.map((r) => r.duration).sort((a, b) => a - b);
+		const failures = group.filter((r) => !r.success).length;
+		const totalOutput = group.reduce((sum, r) => sum + r.outputSize, 0);
+		return {
+			name,
+			calls: group.length,
+			failures,
+			failureRate: failures / group.length,
+			p50Duration: percentile(durations, 50),
+			p95Duration: percentile(durations, 95),
+			avgOutputSize: Math.round(totalOutput / group.length),
+		};
+	});
+	actions.sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name));
+
+	const mostFailing = actions
+		.filter((a) => a.failures > 0)
+		.sort((a, b) => b.failures - a.failures || b.failureRate - a.failureRate)
+		.slice(0, MOST_FAILING_LIMIT);
+
+	const sessions = new Set(
+		records.map((r) => r.sessionId).filter((id) => id !== undefined),
+	);
+
+	return {
+		window,
+		totalCalls: records.length,
+		failures: records.filter((r) => !r.success).length,
+		sessions: sessions.size,
+		actions,
+		mostFailing,
+	};
+}
+
+/**
+ * Load records and compute statistics for a time window
+ */
+export function getToolUsageStats(
+	window: StatsWindow = "7d",
+	file: string = getToolStatsPath(),
+): ToolUsageStats {
+	return computeToolStats(
+		loadToolCallRecords(getWindowStart(window), file),
+		window,
+	);
+}
@@ -33,6 +33,20 @@ export function getSessionsPath(): string {
 	return path.join(getAppDataPath(), SUBDIRS.sessions);
 }
 
+/**
+ * 获取工具调用统计文件路径
+ */
+export function getToolStatsPath(): string {
+	return path.join(getAppDataPath(), "tool-stats.jsonl");
+}
+
+/**
+ * 获取模型用量与费用记录文件路径
+ */
+export function getUsagePath(): string {
+	return path.join(getAppDataPath(), "usage.jsonl");
+}
+
 /**
  * 初始化应用数据目录
  */
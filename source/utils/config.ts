@@ -6,8 +6,27 @@ const CONFIG_FILENAME = ".axiomate.json";
 
 /**
  * API 协议类型
+ * - openai: OpenAI Chat Completions 及兼容 API
+ * - anthropic: Anthropic Messages API
+ * - gemini: Google Gemini generateContent API
+ * - ollama: Ollama 原生 /api/chat
  */
-export type ApiProtocol = "openai" | "anthropic";
+export type ApiProtocol = "openai" | "anthropic" | "gemini" | "ollama";
+
+/**
+ * 模型价格（美元 / 百万 token）
+ * 缓存价格未设置时按 input 价格计算
+ */
+export type ModelPricing = {
+	/** 输入 token 价格 */
+	input: number;
+	/** 输出 token 价格 */
+	output: number;
+	/** 从 prompt 缓存读取的 token 价格 */
+	cacheRead?: number;
+	/** 写入 prompt 缓存的 token 价格 */
+	cacheWrite?: number;
+};
 
 /**
  * 模型配置（存储在配置文件中）
@@ -25,6 +44,8 @@ export type ModelConfig = {
 	supportsTools: boolean;
 	/** 模型是否具有 thinking/reasoning 能力（默认 false） */
 	supportsThinking?: boolean;
+	/** 模型是否支持图片输入（默认 false） */
+	supportsVision?: boolean;
 	/**
 	 * API 的 thinking 参数格式配置
 	 * - undefined: API 不支持 thinking 参数，不发送任何参数
@@ -42,8 +63,47 @@ export type ModelConfig = {
 	baseUrl: string;
 	/** API Key（可选，本地 API 如 Ollama 可不填） */
 	apiKey?: string;
+	/** 单次响应的最大输出 token 数（未设置时 Anthropic 默认 4096，OpenAI 不发送） */
+	maxOutputTokens?: number;
+	/** 采样温度（未设置时使用 API 默认值） */
+	temperature?: number;
+	/** 是否启用 prompt caching（仅 Anthropic 协议，默认 true） */
+	promptCaching?: boolean;
+	/** 请求失败（限流、过载等）时依次切换的备用模型 ID */
+	fallbackModels?: string[];
+	/** 价格（用于费用统计，未设置时费用记为 0） */
+	pricing?: ModelPricing;
 };
 
+/**
+ * MCP Server 连接配置
+ * - stdio：启动子进程，通过 stdin/stdout 通信（type 可省略）
+ * - http：Streamable HTTP 传输
+ */
+export type McpServerConfig =
+	| {
+			type?: "stdio";
+			/** 启动命令 */
+			command: string;
+			/** 命令参数 */
+			args?: string[];
+			/** 额外环境变量（与默认环境合并） */
+			env?: Record<string, string>;
+			/** 工作目录（默认当前目录） */
+			cwd?: string;
+			/** 是否禁用（禁用的 server 不会连接） */
+			disabled?: boolean;
+	  }
+	| {
+			type: "http";
+			/** Server URL */
+			url: string;
+			/** 额外请求头（如 Authorization） */
+			headers?: Record<string, string>;
+			/** 是否禁用（禁用的 server 不会连接） */
+			disabled?: boolean;
+	  };
+
 /**
  * 运行时配置结构
  */
@@ -60,6 +120,12 @@ export type Config = {
 	thinkingEnabled?: boolean;
 	/** 是否启用 Plan 模式（可选，默认 false，只有用户手动设置时才写入文件） */
 	planModeEnabled?: boolean;
+	/** 外部 MCP Server 配置，key 为 server 名称（可选） */
+	mcpServers?: Record<string, McpServerConfig>;
+	/** 同一轮中只读工具调用的最大并行数（可选，默认 4，1 表示顺序执行） */
+	toolConcurrency?: number;
+	/** 每日费用预算（美元，可选）：接近时警告，超出后阻止发送 */
+	dailyBudget?: number;
 };
 
 /**
@@ -77,6 +143,9 @@ const DEFAULT_CONFIG: Config = {
 // 运行时配置（单例）
 let runtimeConfig: Config | null = null;
 
+// 仅对本进程生效的 Plan 模式（null 表示使用配置文件中的值）
+let planModeOverride: boolean | null = null;
+
 /**
  * 获取当前配置（如果未初始化则自动初始化）
  * 返回深拷贝，防止外部直接修改内部状态
@@ -354,6 +423,16 @@ export function currentModelSupportsThinking(): boolean {
 	return model?.supportsThinking === true;
 }
 
+/**
+ * 检查模型是否支持图片输入（默认检查当前模型）
+ */
+export function modelSupportsVision(
+	modelId: string = getCurrentModelId(),
+): boolean {
+	if (!modelId) return false;
+	return getModelById(modelId)?.supportsVision === true;
+}
+
 /**
  * 获取当前模型的 thinking 参数配置
  * 根据用户开关状态和模型能力返回相应的参数，用于附加到请求 body
@@ -390,13 +469,52 @@ export function setThinkingEnabled(enabled: boolean): void {
  * 默认为 false（如果配置文件中未指定）
  */
 export function isPlanModeEnabled(): boolean {
+	if (planModeOverride !== null) {
+		return planModeOverride;
+	}
 	const config = getConfig();
 	return config.planModeEnabled === true;
 }
 
 /**
  * 设置是否启用 Plan 模式
+ * 设置了进程内 Plan 模式时只修改进程内的值，不写入配置文件
  */
 export function setPlanModeEnabled(enabled: boolean): void {
+	if (planModeOverride !== null) {
+		planModeOverride = enabled;
+		return;
+	}
 	updateConfig({ planModeEnabled: enabled });
 }
+
+/**
+ * 设置仅对本进程生效的 Plan 模式（null 恢复使用配置文件）
+ * headless 运行使用，避免修改交互模式和其他进程共享的配置文件
+ */
+export function setPlanModeOverride(enabled: boolean | null): void {
+	planModeOverride = enabled;
+}
+
+/**
+ * 默认的只读工具调用并行数
+ */
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/**
+ * 获取只读工具调用的最大并行数（无效值时使用默认值）
+ */
+export function getToolConcurrency(): number {
+	const value = getConfig().toolConcurrency;
+	return typeof value === "number" && Number.isInteger(value) && value >= 1
+		? value
+		: DEFAULT_TOOL_CONCURRENCY;
+}
+
+/**
+ * 获取每日费用预算（未设置或无效时返回 undefined）
+ */
+export function getDailyBudget(): number | undefined {
+	const value = getConfig().dailyBudget;
+	return typeof value === "number" && value > 0 ? value : undefined;
+}
@@ -0,0 +1,311 @@
+/**
+ * 自定义斜杠命令（Markdown 文件）
+ *
+ * 加载位置（同名时项目命令覆盖用户命令）：
+ * 1. ~/.axiomate/commands/*.md（用户）
+ * 2. <cwd>/.axiomate/commands/*.md（项目）
+ *
+ * 文件名即命令名，正文为 prompt 模板，支持 frontmatter：
+ * ---
+ * description: 命令描述
+ * argument-hint: <file> [focus]
+ * model: gpt-4o
+ * allowed-tools: git_status, file_read
+ * ---
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getAppDataPath } from "./appdata.js";
+
+export const CUSTOM_COMMANDS_DIRNAME = "commands";
+
+/**
+ * 自定义命令来源
+ */
+export type CustomCommandSource = "user" | "project";
+
+/**
+ * 已加载的自定义命令
+ */
+export type CustomCommand = {
+	name: string;
+	description: string;
+	/** 参数提示（显示在命令名后） */
+	argumentHint?: string;
+	/** 本条消息使用的模型 ID */
+	model?: string;
+	/** 无需确认即可执行的工具（权限模式，如 "git_status"、"bash:npm test*"） */
+	allowedTools?: string[];
+	/** prompt 模板（frontmatter 之后的正文） */
+	template: string;
+	source: CustomCommandSource;
+	filePath: string;
+};
+
+/**
+ * 获取用户级自定义命令目录
+ */
+export function getUserCommandsDir(): string {
+	return path.join(getAppDataPath(), CUSTOM_COMMANDS_DIRNAME);
+}
+
+/**
+ * 获取项目级自定义命令目录
+ */
+export function getProjectCommandsDir(cwd: string): string {
+	return path.join(cwd, ".axiomate", CUSTOM_COMMANDS_DIRNAME);
+}
+
+/**
+ * 去除 YAML 值两侧的引号
+ */
+function unquote(value: string): string {
+	const trimmed = value.trim();
+	if (
+		trimmed.length >= 2 &&
+		(trimmed[0] === '"' || trimmed[0] === "'") &&
+		trimmed.endsWith(trimmed[0])
+	) {
+		return trimmed.slice(1, -1);
+	}
+	return trimmed;
+}
+
+/**
+ * 解析命令文件的 frontmatter 和正文
+ * 只支持 "key: value"、行内列表 "[a, b]" 和 "- item" 块列表
+ */
+export function parseCommandFile(content: string): {
+	attributes: Record<string, string | string[]>;
+	body: string;
+} {
+	const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+	const match = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(normalized);
+	if (!match) {
+		return { attributes: {}, body: normalized.trim() };
+	}
+
+	const attributes: Record<string, string | string[]> = {};
+	let listKey: string | null = null;
+	for (const line of match[1]!.split("\n")) {
+		const item = /^\s*-\s+(.*)$/.exec(line);
+		if (item && listKey) {
+			(attributes[listKey] as string[]).push(unquote(item[1]!));
+			continue;
+		}
+
+		const pair = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(line);
+		if (!pair) continue;
+		const key = pair[1]!.toLowerCase();
+		const value = pair[2]!.trim();
+		listKey = null;
+
+		if (value === "") {
+			// 后续行可能是块列表
+			attributes[key] = [];
+			listKey = key;
+		} else if (value.startsWith("[") && value.endsWith("]")) {
+			attributes[key] = value
+				.slice(1, -1)
+				.split(",")
+				.map(unquote)
+				.filter(Boolean);
+		} else {
+			attributes[key] = unquote(value);
+		}
+	}
+
+	return {
+		attributes,
+		body: normalized.slice(match[0].length).trim(),
+	};
+}
+
+/**
+ * 读取字符串属性（列表取第一项）
+ */
+function getString(value: string | string[] | undefined): string | undefined {
+	const text = Array.isArray(value) ? value[0] : value;
+	return text ? text : undefined;
+}
+
+/**
+ * 读取列表属性（字符串按逗号分隔）
+ */
+function getList(value: string | string[] | undefined): string[] | undefined {
+	if (value === undefined) return undefined;
+	const items = (Array.isArray(value) ? value : value.split(","))
+		.map((item) => item.trim())
+		.filter(Boolean);
+	return items.length > 0 ? items : undefined;
+}
+
+/**
+ * 从 Markdown 文件创建自定义命令
+ */
+export function createCustomCommand(
+	name: string,
+	content: string,
+	source: CustomCommandSource,
+	filePath: string,
+): CustomCommand {
+	const { attributes, body } = parseCommandFile(content);
+	// 没有 description 时使用正文第一行
+	const firstLine = body.split("\n").find((line) => line.trim()) ?? "";
+	const fallback = firstLine.replace(/^#+\s*/, "").trim();
+
+	return {
+		name,
+		description:
+			getString(attributes["description"]) ??
+			(fallback.length > 60 ? `${fallback.slice(0, 60)}…` : fallback),
+		argumentHint: getString(attributes["argument-hint"]),
+		model: getString(attributes["model"]),
+		allowedTools: getList(attributes["allowed-tools"]),
+		template: body,
+		source,
+		filePath,
+	};
+}
+
+/**
+ * 加载单个目录中的命令（只读取顶层 .md 文件）
+ */
+function loadCommandsFromDir(
+	dir: string,
+	source: CustomCommandSource,
+): CustomCommand[] {
+	let entries: string[];
+	try {
+		entries = fs.readdirSync(dir);
+	} catch {
+		return [];
+	}
+
+	const commands: CustomCommand[] = [];
+	for (const entry of entries.sort()) {
+		if (path.extname(entry).toLowerCase() !== ".md") continue;
+		// 命令名不能包含空格（空格用于分隔参数）
+		const name = path.basename(entry, path.extname(entry));
+		if (!name || /\s/.test(name)) continue;
+
+		const filePath = path.join(dir, entry);
+		try {
+			if (!fs.statSync(filePath).isFile()) continue;
+			const content = fs.readFileSync(filePath, "utf-8");
+			commands.push(createCustomCommand(name, content, source, filePath));
+		} catch {
+			// 读取失败（如权限不足）时跳过
+		}
+	}
+	return commands;
+}
+
+/**
+ * 加载所有自定义命令（同名时项目命令覆盖用户命令）
+ */
+export function loadCustomCommands(
+	cwd: string = process.cwd(),
+	userDir: string = getUserCommandsDir(),
+): CustomCommand[] {
+	const commands = new Map<string, CustomCommand>();
+	for (const command of [
+		...loadCommandsFromDir(userDir, "user"),
+		...loadCommandsFromDir(getProjectCommandsDir(cwd), "project"),
+	]) {
+		commands.set(command.name, command);
+	}
+	return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 拆分命令参数（支持双引号和单引号包裹含空格的参数）
+ */
+export function splitArguments(args: string): string[] {
+	const result: string[] = [];
+	const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(args)) !== null) {
+		result.push(match[1] ?? match[2] ?? match[3]!);
+	}
+	return result;
+}
+
+/**
+ * 展开 prompt 模板
+ * - $ARGUMENTS 替换为完整参数
+ * - $1 ~ $9 替换为对应位置的参数（缺失时为空）
+ * - 模板中没有占位符但提供了参数时，参数追加到末尾
+ */
+export function expandCommandTemplate(template: string, args: string): string {
+	const trimmedArgs = args.trim();
+	const positional = splitArguments(trimmedArgs);
+	let hasPlaceholder = false;
+
+	const expanded = template.replace(
+		/\$(ARGUMENTS|[1-9])/g,
+		(_match, key: string) => {
+			hasPlaceholder = true;
+			if (key === "ARGUMENTS") return trimmedArgs;
+			return positional[Number(key) - 1] ?? "";
+		},
+	);
+
+	if (!hasPlaceholder && trimmedArgs) {
+		return `${expanded}\n\nARGUMENTS: ${trimmedArgs}`;
+	}
+	return expanded;
+}
+
+// ============================================================================
+// 热重载
+// ============================================================================
+
+type CustomCommandsChangeListener = () => void;
+
+const changeListeners: CustomCommandsChangeListener[] = [];
+
+/**
+ * 添加自定义命令变化监听器
+ */
+export function addCustomCommandsChangeListener(
+	listener: CustomCommandsChangeListener,
+): void {
+	changeListeners.push(listener);
+}
+
+/**
+ * 通知所有监听器
+ */
+function notifyCustomCommandsChange(): void {
+	for (const listener of changeListeners) {
+		listener();
+	}
+}
+
+/**
+ * 监听命令目录变化（目录不存在时跳过）
+ * @returns 停止监听的函数
+ */
+export function watchCustomCommands(
+	cwd: string = process.cwd(),
+	userDir: string = getUserCommandsDir(),
+): () => void {
+	const watchers: fs.FSWatcher[] = [];
+	for (const dir of [userDir, getProjectCommandsDir(cwd)]) {
+		try {
+			const watcher = fs.watch(dir, () => notifyCustomCommandsChange());
+			// 目录被删除等错误不影响主流程
+			watcher.on("error", () => watcher.close());
+			watchers.push(watcher);
+		} catch {
+			// 目录不存在或不支持监听
+		}
+	}
+	return () => {
+		for (const watcher of watchers) {
+			watcher.close();
+		}
+	};
+}
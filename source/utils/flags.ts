@@ -1,9 +1,39 @@
+/**
+ * 输出格式（仅用于 --print 无头模式）
+ */
+export type OutputFormat = "text" | "json" | "stream-json";
+
+/**
+ * 支持的输出格式列表
+ */
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+	"text",
+	"json",
+	"stream-json",
+];
+
 /**
  * CLI 命令行参数
  */
 export type CliFlags = {
 	help: boolean | undefined;
 	verbose: boolean | undefined;
+	/** 无头模式：不渲染 UI，直接把回答输出到 stdout */
+	print?: boolean;
+	/** 无头模式输出格式 */
+	outputFormat?: string;
+	/** 覆盖当前模型（仅本次运行，不写入配置） */
+	model?: string;
+	/** 以 Plan 模式运行 */
+	plan?: boolean;
+	/** 最大工具调用轮数 */
+	maxToolRounds?: number;
+	/** 无头模式下允许执行的工具调用（与 permissions.allow 相同的模式语法） */
+	allowedTools?: string[];
+	/** 打开当前目录最近的 session */
+	continue?: boolean;
+	/** 按 ID、名称或 ID 前缀打开 session（空字符串表示显示选择列表） */
+	resume?: string;
 };
 
 // 默认命令行参数
@@ -28,3 +58,10 @@ export function setFlags(flags: CliFlags): void {
 export function getFlags(): CliFlags {
 	return runtimeFlags;
 }
+
+/**
+ * 检查输出格式是否有效
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+	return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
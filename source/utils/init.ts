@@ -5,7 +5,7 @@
  *
  * 采用两阶段初始化策略实现瞬间启动：
  * 1. 快速阶段：加载内置工具 + 创建 AI 服务（毫秒级）
- * 2. 后台阶段：发现外部工具（不阻塞 UI）
+ * 2. 后台阶段：发现外部工具、连接 MCP Server（不阻塞 UI）
  */
 
 import { getToolRegistry } from "../services/tools/registry.js";
@@ -17,6 +17,7 @@ import {
 } from "../services/ai/index.js";
 import { t } from "../i18n/index.js";
 import { cleanupScriptsDir } from "../services/tools/scriptWriter.js";
+import { initMcpClients } from "../services/tools/mcp/client.js";
 
 export type InitResult = {
 	aiService: IAIService | null;
@@ -62,6 +63,9 @@ export async function initApp(
 		// 因为 AIService 通过 registry.getInstalled() 动态获取工具
 	});
 
+	// 阶段 4: 后台连接 MCP Server（连接成功后工具注册到 registry）
+	void initMcpClients();
+
 	// 完成
 	onProgress?.({ stage: "done", message: t("splash.loading") });
 
@@ -0,0 +1,82 @@
+/**
+ * JSONL 记录文件
+ *
+ * 每行一条带 timestamp 的 JSON 记录，只追加写入，按时间范围读取。
+ * 用量统计（usage.jsonl）和工具调用统计（tool-stats.jsonl）共用
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * 文件超过此大小时压缩
+ */
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 压缩时丢弃超过此时间的记录
+ */
+const MAX_RECORD_AGE = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * 带时间戳的记录
+ */
+export type TimestampedRecord = {
+	timestamp: number;
+};
+
+/**
+ * 追加一条记录，文件过大时压缩（出错时抛出，由调用方记录日志）
+ */
+export function appendJsonlRecord(
+	file: string,
+	record: TimestampedRecord,
+): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.appendFileSync(file, `${JSON.stringify(record)}\n`, "utf-8");
+	if (fs.statSync(file).size > MAX_FILE_SIZE) {
+		compactJsonlRecords(file, record.timestamp);
+	}
+}
+
+/**
+ * 丢弃过期记录，仍然过大时再丢弃最早的一半
+ */
+function compactJsonlRecords(file: string, now: number): void {
+	let records = loadJsonlRecords(file, now - MAX_RECORD_AGE);
+	const content = () =>
+		records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+	if (Buffer.byteLength(content()) > MAX_FILE_SIZE) {
+		records = records.slice(Math.floor(records.length / 2));
+	}
+	fs.writeFileSync(file, content(), "utf-8");
+}
+
+/**
+ * 加载 timestamp >= since 的记录（文件不存在时返回空数组，跳过损坏的行）
+ */
+export function loadJsonlRecords<T extends TimestampedRecord>(
+	file: string,
+	since: number = 0,
+): T[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(file, "utf-8");
+	} catch {
+		return [];
+	}
+
+	const records: T[] = [];
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const record = JSON.parse(line) as T;
+			if (typeof record.timestamp === "number" && record.timestamp >= since) {
+				records.push(record);
+			}
+		} catch {
+			// 写入到一半的行
+		}
+	}
+	return records;
+}
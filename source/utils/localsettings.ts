@@ -1,5 +1,6 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { McpServerConfig } from "./config.js";
 
 const LOCAL_DIR_NAME = ".axiomate";
 const LOCAL_SETTINGS_FILENAME = "localsettings.json";
@@ -16,6 +17,8 @@ export type Permissions = {
  */
 export type LocalSettings = {
 	permissions: Permissions;
+	/** 项目级 MCP Server 配置（同名时覆盖 ~/.axiomate.json 中的配置） */
+	mcpServers?: Record<string, McpServerConfig>;
 };
 
 /**
@@ -54,6 +57,7 @@ export function updateLocalSettings(
 			...runtimeLocalSettings.permissions,
 			...updates.permissions,
 		},
+		mcpServers: updates.mcpServers ?? runtimeLocalSettings.mcpServers,
 	};
 	runtimeLocalSettings = newSettings;
 	saveLocalSettingsFile(newSettings);
@@ -75,6 +79,7 @@ export function initLocalSettings(): LocalSettings {
 			...DEFAULT_LOCAL_SETTINGS.permissions,
 			...fileSettings.permissions,
 		},
+		mcpServers: fileSettings.mcpServers,
 	};
 
 	return runtimeLocalSettings;
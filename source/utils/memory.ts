@@ -0,0 +1,116 @@
+/**
+ * 项目记忆文件（AXIOMATE.md）
+ *
+ * 查找顺序（后面的更具体，优先级更高）：
+ * 1. ~/.axiomate/AXIOMATE.md（全局）
+ * 2. 从文件系统根目录到当前目录的每一级 AXIOMATE.md
+ *
+ * 合并后的内容注入到 System Prompt
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getAppDataPath } from "./appdata.js";
+
+export const MEMORY_FILENAME = "AXIOMATE.md";
+
+/**
+ * 已加载的记忆文件
+ */
+export type MemoryFile = {
+	path: string;
+	content: string;
+};
+
+/**
+ * 获取全局记忆文件路径
+ */
+export function getGlobalMemoryPath(): string {
+	return path.join(getAppDataPath(), MEMORY_FILENAME);
+}
+
+/**
+ * 获取项目记忆文件路径（当前目录下）
+ */
+export function getProjectMemoryPath(cwd: string): string {
+	return path.join(cwd, MEMORY_FILENAME);
+}
+
+/**
+ * 查找所有记忆文件候选路径（全局在前，然后从根目录到当前目录）
+ */
+export function findMemoryFiles(
+	cwd: string,
+	globalPath: string = getGlobalMemoryPath(),
+): string[] {
+	const dirs: string[] = [];
+	let dir = path.resolve(cwd);
+	while (true) {
+		dirs.unshift(dir);
+		const parent = path.dirname(dir);
+		if (parent === dir) break;
+		dir = parent;
+	}
+
+	const candidates = [globalPath, ...dirs.map(getProjectMemoryPath)];
+	return candidates.filter(
+		(file, index) => candidates.indexOf(file) === index && fs.existsSync(file),
+	);
+}
+
+/**
+ * 读取所有非空的记忆文件
+ */
+export function loadMemoryFiles(
+	cwd: string,
+	globalPath: string = getGlobalMemoryPath(),
+): MemoryFile[] {
+	const files: MemoryFile[] = [];
+	for (const file of findMemoryFiles(cwd, globalPath)) {
+		try {
+			const content = fs.readFileSync(file, "utf-8").trim();
+			if (content) {
+				files.push({ path: file, content });
+			}
+		} catch {
+			// 读取失败（如权限不足）时跳过
+		}
+	}
+	return files;
+}
+
+/**
+ * 合并记忆文件为 System Prompt 片段（无记忆时返回空字符串）
+ */
+export function formatMemory(files: MemoryFile[]): string {
+	return files
+		.map((file) => `### ${file.path}\n\n${file.content}`)
+		.join("\n\n");
+}
+
+/**
+ * 追加一条记忆到当前目录的 AXIOMATE.md（不存在时创建）
+ * @returns 记忆文件路径
+ */
+export function appendMemory(cwd: string, note: string): string {
+	const file = getProjectMemoryPath(cwd);
+	let prefix = "";
+	if (fs.existsSync(file)) {
+		const existing = fs.readFileSync(file, "utf-8");
+		if (existing && !existing.endsWith("\n")) {
+			prefix = "\n";
+		}
+	}
+	fs.appendFileSync(file, `${prefix}- ${note.trim()}\n`, "utf-8");
+	return file;
+}
+
+/**
+ * 解析输入框中的记忆快捷输入（单行且以 "# " 开头，如 "# 使用 pnpm"）
+ * "#123" 这类 issue 编号不视为记忆输入
+ * @returns 记忆内容，不是记忆输入时返回 null
+ */
+export function parseMemoryNote(text: string): string | null {
+	const match = /^#[ \t]+(.+)$/.exec(text.trim());
+	return match ? match[1]!.trim() : null;
+}
@@ -379,6 +379,42 @@ export function clearScreen(): void {
 	process.stdout.write("\x1b[2J\x1b[3J\x1b[H");
 }
 
+// ============================================================================
+// 跨平台打开文件
+// ============================================================================
+
+/**
+ * 用系统默认程序打开文件（不等待程序退出）
+ *
+ * Windows: cmd /c start
+ * macOS: open
+ * Linux: xdg-open
+ *
+ * 注意：不使用 $EDITOR，终端编辑器会与 Ink 争夺终端输入
+ */
+export function openWithDefaultApp(filePath: string): Promise<void> {
+	const os = platform();
+	const [command, args] =
+		os === "win32"
+			? ["cmd.exe", ["/c", "start", '""', filePath]]
+			: os === "darwin"
+				? ["open", [filePath]]
+				: ["xdg-open", [filePath]];
+
+	return new Promise((resolve, reject) => {
+		const child = spawn(command, args, {
+			detached: true,
+			stdio: "ignore",
+			windowsHide: true,
+		});
+		child.once("error", reject);
+		child.once("spawn", () => {
+			child.unref();
+			resolve();
+		});
+	});
+}
+
 // ============================================================================
 // 公开 API
 // ============================================================================
@@ -0,0 +1,25 @@
+/**
+ * 项目根目录
+ *
+ * 从工作目录向上查找 git 仓库根目录（包含 .git 目录或文件），
+ * 不在 git 仓库中时使用工作目录本身。用于按项目区分 session
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * 获取项目根目录（git 根目录或工作目录）
+ */
+export function findProjectRoot(cwd: string = process.cwd()): string {
+	const start = path.resolve(cwd);
+	let dir = start;
+	while (true) {
+		if (fs.existsSync(path.join(dir, ".git"))) {
+			return dir;
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) return start;
+		dir = parent;
+	}
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import React from "react";
+import { render } from "ink-testing-library";
+import DiffView from "../../source/components/DiffView.js";
+import { initI18n, setLocale } from "../../source/i18n/index.js";
+
+beforeAll(() => {
+	initI18n();
+	setLocale("en");
+});
+
+const diff = [
+	"--- a/f.txt",
+	"+++ b/f.txt",
+	"@@ -1,2 +1,2 @@",
+	" keep",
+	"-old",
+	"+new",
+].join("\n");
+
+describe("DiffView", () => {
+	it("should render all diff lines", () => {
+		const { lastFrame } = render(<DiffView diff={diff} width={80} />);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).toContain("@@ -1,2 +1,2 @@");
+		expect(frame).toContain("-old");
+		expect(frame).toContain("+new");
+	});
+
+	it("should truncate long diffs", () => {
+		const { lastFrame } = render(
+			<DiffView diff={diff} width={80} maxLines={3} />,
+		);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).not.toContain("+new");
+		expect(frame).toContain("3 more lines");
+	});
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import React from "react";
+import { render } from "ink-testing-library";
+import SessionPicker from "../../source/components/SessionPicker.js";
+import type { SessionInfo } from "../../source/services/ai/sessionStore.js";
+
+vi.mock("../../source/constants/meta.js", () => ({
+	APP_NAME: "TestApp",
+	VERSION: "1.0.0",
+}));
+
+vi.mock("../../source/hooks/useTerminalHeight.js", () => ({
+	default: vi.fn(() => 24),
+}));
+
+vi.mock("../../source/hooks/useTerminalWidth.js", () => ({
+	default: vi.fn(() => 80),
+}));
+
+vi.mock("../../source/hooks/useTranslation.js", () => ({
+	useTranslation: () => ({
+		t: (key: string, params?: Record<string, unknown>) =>
+			key === "sessionPicker.details"
+				? `${params?.id} | ${params?.count} msgs | ${params?.cwd}`
+				: key,
+	}),
+}));
+
+vi.mock("../../source/utils/stdin.js", () => ({
+	resumeInput: vi.fn(),
+}));
+
+vi.mock("../../source/components/Divider.js", () => ({
+	default: () => null,
+}));
+
+const sessions: SessionInfo[] = [
+	{
+		id: "aaaa1111-0000",
+		name: "Fix login bug",
+		createdAt: 1000,
+		updatedAt: 3000,
+		tokenUsage: 100,
+		messageCount: 4,
+		isActive: false,
+		cwd: "/work/app",
+	},
+	{
+		id: "bbbb2222-0000",
+		name: "Write docs",
+		createdAt: 1000,
+		updatedAt: 2000,
+		tokenUsage: 100,
+		messageCount: 2,
+		isActive: false,
+	},
+];
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe("SessionPicker", () => {
+	const getPreview = vi.fn((id: string) =>
+		id === "aaaa1111-0000"
+			? [
+					{ role: "user" as const, content: "login fails\non Safari" },
+					{ role: "assistant" as const, content: "Checked the cookie flags" },
+				]
+			: [],
+	);
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should list sessions with details and preview the selected one", () => {
+		const { lastFrame } = render(
+			<SessionPicker
+				sessions={sessions}
+				getPreview={getPreview}
+				onSelect={vi.fn()}
+				onCancel={vi.fn()}
+			/>,
+		);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).toContain("▸ Fix login bug");
+		expect(frame).toContain("Write docs");
+		expect(frame).toContain("aaaa1111 | 4 msgs | /work/app");
+		expect(frame).toContain("bbbb2222 | 2 msgs | -");
+		expect(frame).toContain("login fails on Safari");
+		expect(frame).toContain("Checked the cookie flags");
+		expect(frame).toContain("1/2");
+		expect(getPreview).toHaveBeenCalledWith("aaaa1111-0000", 4);
+	});
+
+	it("should move the selection and open the selected session", async () => {
+		const onSelect = vi.fn();
+		const { lastFrame, stdin } = render(
+			<SessionPicker
+				sessions={sessions}
+				getPreview={getPreview}
+				onSelect={onSelect}
+				onCancel={vi.fn()}
+			/>,
+		);
+		await delay();
+
+		stdin.write("\u001B[B");
+		await delay();
+		expect(lastFrame()).toContain("▸ Write docs");
+		expect(lastFrame()).toContain("sessionPicker.noPreview");
+
+		stdin.write("\r");
+		await delay();
+		expect(onSelect).toHaveBeenCalledWith("bbbb2222-0000");
+	});
+
+	it("should cancel on Escape", async () => {
+		const onCancel = vi.fn();
+		const { stdin } = render(
+			<SessionPicker
+				sessions={sessions}
+				getPreview={getPreview}
+				onSelect={vi.fn()}
+				onCancel={onCancel}
+			/>,
+		);
+		await delay();
+
+		stdin.write("\u001B");
+		await delay();
+		expect(onCancel).toHaveBeenCalled();
+	});
+});
@@ -6,13 +6,15 @@ import StatusBar from "../../source/components/StatusBar.js";
 // Mock useTranslation
 vi.mock("../../source/hooks/useTranslation.js", () => ({
 	useTranslation: () => ({
-		t: (key: string) => {
+		t: (key: string, params?: Record<string, string>) => {
 			const translations: Record<string, string> = {
 				"statusBar.notConfigured": "N/A",
 				"statusBar.planMode": "Plan",
 				"statusBar.actionMode": "Action",
+				"statusBar.cache": "cache {{read}} read / {{write}} write",
 			};
-			return translations[key] || key;
+			const text = translations[key] || key;
+			return text.replace(/\{\{(\w+)\}\}/g, (_, name) => params?.[name] ?? "");
 		},
 	}),
 }));
@@ -88,4 +90,38 @@ describe("StatusBar", () => {
 			expect(lastFrame()).toContain("(0%)");
 		});
 	});
+
+	describe("prompt cache display", () => {
+		it("should hide cache usage when nothing was cached", () => {
+			const { lastFrame } = render(<StatusBar contextWindow={32000} />);
+			expect(lastFrame()).not.toContain("cache");
+		});
+
+		it("should show cache read and write tokens", () => {
+			const { lastFrame } = render(
+				<StatusBar
+					contextWindow={200000}
+					cacheReadTokens={12000}
+					cacheCreationTokens={800}
+				/>,
+			);
+			expect(lastFrame()).toContain("cache 12k read / 800 write");
+		});
+	});
+
+	describe("session cost display", () => {
+		it("should hide cost before anything was spent", () => {
+			const { lastFrame } = render(
+				<StatusBar contextWindow={32000} sessionCost={0} />,
+			);
+			expect(lastFrame()).not.toContain("$");
+		});
+
+		it("should show session cost", () => {
+			const { lastFrame } = render(
+				<StatusBar contextWindow={32000} sessionCost={1.234} />,
+			);
+			expect(lastFrame()).toContain("$1.23");
+		});
+	});
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import React from "react";
+import { render } from "ink-testing-library";
+import ToolRunView from "../../source/components/ToolRunView.js";
+import type { ToolRun } from "../../source/models/toolRun.js";
+import { initI18n, setLocale } from "../../source/i18n/index.js";
+
+beforeAll(() => {
+	initI18n();
+	setLocale("en");
+});
+
+const run: ToolRun = {
+	id: "call_1",
+	name: "gradle_build",
+	arguments: '{"task":"build"}',
+	status: "running",
+	startedAt: 0,
+	tail: "one\ntwo\nthree\n",
+	newlines: 3,
+};
+
+describe("ToolRunView", () => {
+	it("should show elapsed time, arguments and the output tail while running", () => {
+		const { lastFrame } = render(
+			<ToolRunView run={run} width={80} now={12_000} previewLines={2} />,
+		);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).toContain("gradle_build");
+		expect(frame).toContain("12.0s");
+		expect(frame).toContain('"task": "build"');
+		expect(frame).not.toContain("one");
+		expect(frame).toContain("two");
+		expect(frame).toContain("three");
+	});
+
+	it("should show the badge, duration and a result preview when finished", () => {
+		const { lastFrame } = render(
+			<ToolRunView
+				run={{
+					...run,
+					status: "success",
+					duration: 182_000,
+					tail: "",
+					newlines: 0,
+					result: { lines: ["a", "b", "c"], lineCount: 10 },
+				}}
+				width={80}
+				previewLines={2}
+			/>,
+		);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).toContain("✓");
+		expect(frame).toContain("3m 2s");
+		expect(frame).toContain("10 lines");
+		expect(frame).toContain("│ b");
+		expect(frame).not.toContain("│ c");
+		expect(frame).toContain("8 more lines");
+	});
+
+	it("should show the error badge for failed calls", () => {
+		const { lastFrame } = render(
+			<ToolRunView
+				run={{
+					...run,
+					arguments: "{}",
+					status: "error",
+					result: { lines: ["Error: denied"], lineCount: 1 },
+				}}
+				width={80}
+			/>,
+		);
+		const frame = lastFrame() ?? "";
+
+		expect(frame).toContain("✗");
+		expect(frame).toContain("Error: denied");
+		expect(frame).not.toContain("{");
+	});
+});
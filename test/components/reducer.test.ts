@@ -431,6 +431,22 @@ describe("editorReducer", () => {
 			expect(state.instance.text.endsWith(" → ")).toBe(false);
 		});
 
+		it("ENTER_COMMAND_ARGS converts the path to plain command text", () => {
+			let state = editorReducer(initialState, { type: "ENTER_SLASH" });
+			state = editorReducer(state, {
+				type: "ENTER_SLASH_LEVEL",
+				name: "session",
+			});
+			state = editorReducer(state, {
+				type: "ENTER_COMMAND_ARGS",
+				name: "import",
+			});
+			expect(state.instance.text).toBe("/session import ");
+			expect(state.instance.cursor).toBe("/session import ".length);
+			expect(state.instance.commandPath).toEqual([]);
+			expect(isSlashMode(state.uiMode)).toBe(true);
+		});
+
 		it("EXIT_SLASH_LEVEL goes back one level", () => {
 			let state = editorReducer(initialState, { type: "ENTER_SLASH" });
 			state = editorReducer(state, {
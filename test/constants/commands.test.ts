@@ -31,6 +31,7 @@ vi.mock("../../source/services/ai/sessionStore.js", () => ({
 			{ id: "session2", name: "Session 2", messageCount: 10 },
 		]),
 		getActiveSessionId: vi.fn(() => "session1"),
+		listUserMessages: vi.fn(() => ["first question", "second\nquestion"]),
 	})),
 }));
 
@@ -114,6 +115,19 @@ describe("commands", () => {
 			expect(switchCmd!.children![0]!.name).toBe("Session 2");
 		});
 
+		it("should generate session fork commands, latest message first", () => {
+			const commands = getSlashCommands();
+			const sessionCmd = commands.find((c) => c.name === "session");
+			const forkCmd = sessionCmd!.children!.find((c) => c.name === "fork");
+
+			expect(forkCmd!.children!.map((c) => c.name)).toEqual(["2", "1"]);
+			expect(forkCmd!.children![0]!.description).toBe("second");
+			expect(forkCmd!.children![0]!.action).toEqual({
+				type: "internal",
+				handler: "session_fork",
+			});
+		});
+
 		it("should include compact command", () => {
 			const commands = getSlashCommands();
 			const compactCmd = commands.find((c) => c.name === "compact");
@@ -68,4 +68,25 @@ describe("prompts", () => {
 			expect(result.length).toBeGreaterThan(SYSTEM_PROMPT.length);
 		});
 	});
+
+	describe("buildSystemPrompt with memory", () => {
+		it("should append project memory after the environment section", () => {
+			const result = buildSystemPrompt(
+				"/path/to/project",
+				"nodejs",
+				false,
+				"### /path/to/project/AXIOMATE.md\n\nUse pnpm",
+			);
+			expect(result).toContain("## Project Memory");
+			expect(result).toContain("Use pnpm");
+			expect(result.indexOf("Project Memory")).toBeGreaterThan(
+				result.indexOf("Current Environment"),
+			);
+		});
+
+		it("should omit the memory section when memory is empty", () => {
+			const result = buildSystemPrompt("/path/to/project", "nodejs", false, "");
+			expect(result).not.toContain("Project Memory");
+		});
+	});
 });
@@ -0,0 +1,424 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PassThrough, Readable } from "node:stream";
+
+vi.mock("../source/services/tools/registry.js", () => {
+	const registry = {
+		loadBuiltinTools: vi.fn(() => Promise.resolve()),
+		discoverExternalAsync: vi.fn(),
+		onDiscoveryComplete: vi.fn((callback: () => void) => callback()),
+	};
+	return { getToolRegistry: vi.fn(() => registry) };
+});
+
+vi.mock("../source/services/tools/mcp/client.js", () => ({
+	initMcpClients: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock("../source/services/tools/scriptWriter.js", () => ({
+	cleanupScriptsDir: vi.fn(),
+}));
+
+vi.mock("../source/services/ai/index.js", () => ({
+	createAIServiceFromConfig: vi.fn(),
+	getCurrentModel: vi.fn(),
+	getModelById: vi.fn(),
+	getAllModels: vi.fn(() => []),
+}));
+
+vi.mock("../source/services/ai/costTracker.js", async (importOriginal) => ({
+	...(await importOriginal<
+		typeof import("../source/services/ai/costTracker.js")
+	>()),
+	checkDailyBudget: vi.fn(() => null),
+}));
+
+vi.mock("../source/utils/config.js", () => ({
+	setPlanModeOverride: vi.fn(),
+	getDailyBudget: vi.fn(() => undefined),
+}));
+
+import {
+	createAIServiceFromConfig,
+	getCurrentModel,
+	getModelById,
+	type IAIService,
+} from "../source/services/ai/index.js";
+import type {
+	StreamCallbacks,
+	ToolPermissionRequest,
+} from "../source/services/ai/types.js";
+import { checkDailyBudget } from "../source/services/ai/costTracker.js";
+import { setPlanModeOverride } from "../source/utils/config.js";
+import {
+	buildHeadlessPrompt,
+	parseAllowedTools,
+	createHeadlessPermissionHandler,
+	readPipedStdin,
+	runHeadless,
+} from "../source/headless.js";
+
+const model = {
+	model: "test-model",
+	name: "Test Model",
+	protocol: "openai",
+	supportsTools: true,
+	supportsThinking: false,
+	contextWindow: 32768,
+	baseUrl: "https://example.com",
+};
+
+function createOutput() {
+	let text = "";
+	return {
+		write: (chunk: string) => {
+			text += chunk;
+		},
+		get text() {
+			return text;
+		},
+	};
+}
+
+function createMockService(
+	impl: (callbacks: StreamCallbacks) => Promise<string>,
+): IAIService {
+	return {
+		streamMessage: vi.fn(
+			(
+				_message: string,
+				_context: unknown,
+				callbacks: StreamCallbacks,
+			): Promise<string> => impl(callbacks),
+		),
+		getSessionStatus: vi.fn(() => ({ usedTokens: 42 })),
+	} as unknown as IAIService;
+}
+
+const permissionRequest = (
+	toolId: string,
+	actionName: string,
+	subject: string,
+): ToolPermissionRequest => ({
+	toolId,
+	toolName: toolId,
+	actionName,
+	args: {},
+	subject,
+	allowPattern: `${toolId}_${actionName}`,
+});
+
+describe("headless", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(getCurrentModel).mockReturnValue(model as never);
+	});
+
+	describe("buildHeadlessPrompt", () => {
+		it("should use argument prompt alone", () => {
+			expect(buildHeadlessPrompt("  explain  ", "")).toBe("explain");
+		});
+
+		it("should use piped content alone", () => {
+			expect(buildHeadlessPrompt("", "diff --git\n")).toBe("diff --git");
+		});
+
+		it("should append piped content after argument prompt", () => {
+			expect(buildHeadlessPrompt("review", "diff\n")).toBe("review\n\ndiff");
+		});
+	});
+
+	describe("parseAllowedTools", () => {
+		it("should return empty list when not provided", () => {
+			expect(parseAllowedTools(undefined)).toEqual([]);
+		});
+
+		it("should split comma separated values", () => {
+			expect(
+				parseAllowedTools(["git_status, file_read*", "bash:npm test*"]),
+			).toEqual(["git_status", "file_read*", "bash:npm test*"]);
+		});
+	});
+
+	describe("createHeadlessPermissionHandler", () => {
+		it("should allow calls matching allowed tools", async () => {
+			const onDenied = vi.fn();
+			const handler = createHeadlessPermissionHandler(["git_*"], onDenied);
+			expect(
+				await handler(permissionRequest("git", "status", "git status")),
+			).toEqual({ type: "allow" });
+			expect(onDenied).not.toHaveBeenCalled();
+		});
+
+		it("should deny other calls with a note", async () => {
+			const onDenied = vi.fn();
+			const handler = createHeadlessPermissionHandler(
+				["bash:npm test*"],
+				onDenied,
+			);
+			const request = permissionRequest("bash", "run_script_content", "rm -rf");
+			const decision = await handler(request);
+			expect(decision.type).toBe("deny");
+			expect(decision.type === "deny" && decision.note).toContain(
+				"--allowed-tools",
+			);
+			expect(onDenied).toHaveBeenCalledWith(request);
+		});
+	});
+
+	describe("readPipedStdin", () => {
+		it("should return empty string for TTY", async () => {
+			const stream = { isTTY: true } as NodeJS.ReadStream;
+			expect(await readPipedStdin(stream)).toBe("");
+		});
+
+		it("should read all piped content", async () => {
+			const stream = Readable.from([
+				"hello ",
+				"world",
+			]) as unknown as NodeJS.ReadStream;
+			expect(await readPipedStdin(stream)).toBe("hello world");
+		});
+
+		it("should stop waiting when no data arrives in time", async () => {
+			const stream = new PassThrough() as unknown as NodeJS.ReadStream;
+			expect(await readPipedStdin(stream, 10)).toBe("");
+		});
+
+		it("should read to the end once data has arrived", async () => {
+			const stream = new PassThrough();
+			stream.write("hello ");
+			setTimeout(() => stream.end("world"), 30);
+			expect(
+				await readPipedStdin(stream as unknown as NodeJS.ReadStream, 10),
+			).toBe("hello world");
+		});
+	});
+
+	describe("runHeadless", () => {
+		it("should fail without prompt", async () => {
+			const stdout = createOutput();
+			const stderr = createOutput();
+			const code = await runHeadless({
+				prompt: "  ",
+				outputFormat: "text",
+				stdout,
+				stderr,
+			});
+			expect(code).toBe(1);
+			expect(stderr.text).toContain("No prompt provided");
+			expect(stdout.text).toBe("");
+		});
+
+		it("should fail for unknown model", async () => {
+			vi.mocked(getModelById).mockReturnValue(undefined);
+			const stderr = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				modelId: "missing",
+				stdout: createOutput(),
+				stderr,
+			});
+			expect(code).toBe(1);
+			expect(stderr.text).toContain("Unknown model: missing");
+		});
+
+		it("should refuse to run when the daily budget is exceeded", async () => {
+			vi.mocked(checkDailyBudget).mockReturnValueOnce({
+				state: "exceeded",
+				spent: 5.2,
+				budget: 5,
+			});
+			const stderr = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				stdout: createOutput(),
+				stderr,
+			});
+			expect(code).toBe(1);
+			expect(stderr.text).toContain(
+				"Daily budget exceeded: spent $5.20 of $5.00 today.",
+			);
+			expect(createAIServiceFromConfig).not.toHaveBeenCalled();
+		});
+
+		it("should warn when the daily budget is nearly used", async () => {
+			vi.mocked(checkDailyBudget).mockReturnValueOnce({
+				state: "warning",
+				spent: 4.5,
+				budget: 5,
+			});
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async () => "ok"),
+			);
+			const stderr = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				stdout: createOutput(),
+				stderr,
+			});
+			expect(code).toBe(0);
+			expect(stderr.text).toContain(
+				"Warning: spent $4.50 of the $5.00 daily budget today.",
+			);
+		});
+
+		it("should stream text output", async () => {
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async (callbacks) => {
+					callbacks.onChunk?.({ reasoning: "", content: "Hello" });
+					callbacks.onChunk?.({ reasoning: "", content: "Hello world" });
+					return "Hello world";
+				}),
+			);
+			const stdout = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				stdout,
+				stderr: createOutput(),
+			});
+			expect(code).toBe(0);
+			expect(stdout.text).toBe("Hello world\n");
+		});
+
+		it("should pass overrides to AI service", async () => {
+			vi.mocked(getModelById).mockReturnValue(model as never);
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async () => "ok"),
+			);
+			await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				modelId: "test-model",
+				maxToolRounds: 5,
+				stdout: createOutput(),
+				stderr: createOutput(),
+			});
+			expect(createAIServiceFromConfig).toHaveBeenCalledWith(
+				expect.anything(),
+				{ model, maxToolCallRounds: 5 },
+			);
+		});
+
+		it("should print a single json result", async () => {
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async (callbacks) => {
+					callbacks.onChunk?.({ reasoning: "", content: "Answer" });
+					return "Answer";
+				}),
+			);
+			const stdout = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "json",
+				stdout,
+				stderr: createOutput(),
+			});
+			expect(code).toBe(0);
+			const result = JSON.parse(stdout.text);
+			expect(result).toMatchObject({
+				type: "result",
+				isError: false,
+				result: "Answer",
+				model: "test-model",
+				usedTokens: 42,
+				deniedTools: [],
+			});
+		});
+
+		it("should emit stream-json events", async () => {
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async (callbacks) => {
+					callbacks.onChunk?.({ reasoning: "think", content: "" });
+					callbacks.onChunk?.({ reasoning: "think", content: "A" });
+					await callbacks.onToolPermission?.(
+						permissionRequest("git", "push", "git push"),
+					);
+					return "A";
+				}),
+			);
+			const stdout = createOutput();
+			await runHeadless({
+				prompt: "hi",
+				outputFormat: "stream-json",
+				stdout,
+				stderr: createOutput(),
+			});
+			const events = stdout.text
+				.trim()
+				.split("\n")
+				.map((line) => JSON.parse(line));
+			expect(events.map((e) => e.type)).toEqual([
+				"start",
+				"reasoning",
+				"content",
+				"tool_denied",
+				"result",
+			]);
+			expect(events[4].deniedTools).toEqual([
+				{ tool: "git_push", subject: "git push" },
+			]);
+		});
+
+		it("should report errors and exit non-zero", async () => {
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(
+				createMockService(async () => {
+					throw new Error("API error: 401");
+				}),
+			);
+			const stdout = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "json",
+				stdout,
+				stderr: createOutput(),
+			});
+			expect(code).toBe(1);
+			expect(JSON.parse(stdout.text)).toEqual({
+				type: "error",
+				isError: true,
+				error: "API error: 401",
+			});
+		});
+
+		it("should fail when AI service is not configured", async () => {
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(null);
+			const stderr = createOutput();
+			const code = await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				stdout: createOutput(),
+				stderr,
+			});
+			expect(code).toBe(1);
+			expect(stderr.text).toContain("not configured");
+		});
+
+		it("should enable plan mode for the run without changing config", async () => {
+			const service = createMockService(async () => {
+				expect(setPlanModeOverride).toHaveBeenLastCalledWith(true);
+				return "plan";
+			});
+			vi.mocked(createAIServiceFromConfig).mockReturnValue(service);
+
+			await runHeadless({
+				prompt: "hi",
+				outputFormat: "text",
+				planMode: true,
+				stdout: createOutput(),
+				stderr: createOutput(),
+			});
+
+			expect(service.streamMessage).toHaveBeenCalledWith(
+				"hi",
+				expect.anything(),
+				expect.anything(),
+				expect.objectContaining({ planMode: true }),
+			);
+			expect(setPlanModeOverride).toHaveBeenLastCalledWith(null);
+		});
+	});
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import {
+	applyToolOutputEvent,
+	finishRunningToolRuns,
+	formatElapsed,
+	formatToolRunArguments,
+	getToolRunLineCount,
+	getToolRunTailLines,
+	parseToolResultMessage,
+	type ToolRun,
+} from "../../source/models/toolRun.js";
+
+function startRun(): ToolRun[] {
+	return applyToolOutputEvent(
+		[],
+		{
+			type: "start",
+			callId: "call_1",
+			name: "bash_run",
+			arguments: '{"command":"make"}',
+		},
+		1000,
+	);
+}
+
+function output(runs: ToolRun[], chunk: string): ToolRun[] {
+	return applyToolOutputEvent(runs, {
+		type: "output",
+		callId: "call_1",
+		chunk,
+		stream: "stdout",
+	});
+}
+
+function end(runs: ToolRun[], success: boolean, result: string): ToolRun[] {
+	return applyToolOutputEvent(runs, {
+		type: "end",
+		callId: "call_1",
+		name: "bash_run",
+		arguments: '{"command":"make"}',
+		success,
+		duration: 250,
+		output: result,
+	});
+}
+
+describe("toolRun", () => {
+	describe("applyToolOutputEvent", () => {
+		it("should add a running tool on start", () => {
+			expect(startRun()).toEqual([
+				{
+					id: "call_1",
+					name: "bash_run",
+					arguments: '{"command":"make"}',
+					status: "running",
+					startedAt: 1000,
+					tail: "",
+					newlines: 0,
+				},
+			]);
+		});
+
+		it("should append output and count lines", () => {
+			let runs = output(startRun(), "one\ntw");
+			runs = output(runs, "o\nthree");
+
+			expect(runs[0]!.tail).toBe("one\ntwo\nthree");
+			expect(getToolRunLineCount(runs[0]!)).toBe(3);
+		});
+
+		it("should replace live output with the result preview on end", () => {
+			const runs = end(output(startRun(), "partial"), false, "a\nb\nc\n");
+
+			expect(runs[0]).toMatchObject({
+				status: "error",
+				duration: 250,
+				tail: "",
+				result: { lines: ["a", "b", "c"], lineCount: 3 },
+			});
+			expect(getToolRunLineCount(runs[0]!)).toBe(3);
+		});
+
+		it("should add calls that ended without starting", () => {
+			const runs = end([], false, "Error: denied");
+
+			expect(runs).toHaveLength(1);
+			expect(runs[0]).toMatchObject({
+				id: "call_1",
+				name: "bash_run",
+				status: "error",
+				result: { lines: ["Error: denied"], lineCount: 1 },
+			});
+		});
+
+		it("should keep only the first result lines", () => {
+			const runs = end(startRun(), true, "line\n".repeat(50));
+
+			expect(runs[0]!.result?.lines).toHaveLength(20);
+			expect(runs[0]!.result?.lineCount).toBe(50);
+		});
+
+		it("should ignore output for unknown calls", () => {
+			const runs = startRun();
+			expect(
+				applyToolOutputEvent(runs, {
+					type: "output",
+					callId: "call_2",
+					chunk: "x",
+					stream: "stderr",
+				}),
+			).toEqual(runs);
+		});
+
+		it("should keep only the end of long output", () => {
+			const runs = output(startRun(), "line\n".repeat(2000));
+
+			expect(runs[0]!.tail.length).toBeLessThanOrEqual(4096);
+			expect(getToolRunLineCount(runs[0]!)).toBe(2000);
+		});
+	});
+
+	describe("getToolRunTailLines", () => {
+		it("should return the last lines", () => {
+			const runs = output(startRun(), "a\nb\nc\nd\n");
+			expect(getToolRunTailLines(runs[0]!, 2)).toEqual(["c", "d"]);
+		});
+
+		it("should return no lines without output", () => {
+			expect(getToolRunTailLines(startRun()[0]!, 5)).toEqual([]);
+		});
+
+		it("should show only the last carriage return segment", () => {
+			const runs = output(startRun(), "progress 10%\rprogress 90%");
+			expect(getToolRunTailLines(runs[0]!, 5)).toEqual(["progress 90%"]);
+		});
+	});
+
+	describe("finishRunningToolRuns", () => {
+		it("should mark running tools as failed", () => {
+			const runs = finishRunningToolRuns(startRun(), 4000);
+			expect(runs[0]!.status).toBe("error");
+			expect(runs[0]!.duration).toBe(3000);
+		});
+	});
+
+	describe("formatToolRunArguments", () => {
+		it("should pretty-print JSON arguments", () => {
+			expect(formatToolRunArguments('{"path":"a.ts","line":3}')).toBe(
+				'{\n  "path": "a.ts",\n  "line": 3\n}',
+			);
+		});
+
+		it("should return an empty string for empty arguments", () => {
+			expect(formatToolRunArguments("{}")).toBe("");
+		});
+
+		it("should return invalid JSON as is", () => {
+			expect(formatToolRunArguments("{broken")).toBe("{broken");
+		});
+	});
+
+	describe("parseToolResultMessage", () => {
+		it("should parse the info line", () => {
+			expect(
+				parseToolResultMessage("[Git:status] (120ms)\nOn branch main"),
+			).toEqual({ success: true, duration: 120, output: "On branch main" });
+		});
+
+		it("should detect errors", () => {
+			expect(parseToolResultMessage("[Git:push]\nError: rejected")).toEqual({
+				success: false,
+				duration: undefined,
+				output: "Error: rejected",
+			});
+			expect(parseToolResultMessage('Error: Tool "x" not found').success).toBe(
+				false,
+			);
+		});
+	});
+
+	describe("formatElapsed", () => {
+		it("should format durations", () => {
+			expect(formatElapsed(850)).toBe("850ms");
+			expect(formatElapsed(12_300)).toBe("12.3s");
+			expect(formatElapsed(182_000)).toBe("3m 2s");
+		});
+	});
+});
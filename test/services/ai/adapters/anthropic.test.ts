@@ -6,6 +6,9 @@ import {
 	buildAnthropicToolResultMessage,
 	toAnthropicMessages,
 	extractSystemMessage,
+	cacheAnthropicSystem,
+	cacheAnthropicTools,
+	cacheAnthropicMessages,
 } from "../../../../source/services/ai/adapters/anthropic.js";
 import type { DiscoveredTool } from "../../../../source/services/tools/types.js";
 import type { ChatMessage } from "../../../../source/services/ai/types.js";
@@ -155,6 +158,26 @@ describe("Anthropic Adapter", () => {
 	});
 
 	describe("toAnthropicMessages", () => {
+		it("should send attached images as base64 image blocks before text", () => {
+			const result = toAnthropicMessages([
+				{
+					role: "user",
+					content: "What is this?",
+					images: [
+						{ mimeType: "image/png", data: "iVBORw0", width: 800, height: 600 },
+					],
+				},
+			]);
+
+			expect(result[0].content).toEqual([
+				{
+					type: "image",
+					source: { type: "base64", media_type: "image/png", data: "iVBORw0" },
+				},
+				{ type: "text", text: "What is this?" },
+			]);
+		});
+
 		it("should convert basic messages", () => {
 			const messages: ChatMessage[] = [
 				{ role: "user", content: "Hello" },
@@ -308,4 +331,84 @@ describe("Anthropic Adapter", () => {
 			expect(result).toBeUndefined();
 		});
 	});
+
+	describe("prompt caching", () => {
+		const ephemeral = { type: "ephemeral" };
+
+		it("should convert system prompt to a cached text block", () => {
+			expect(cacheAnthropicSystem("You are helpful")).toEqual([
+				{ type: "text", text: "You are helpful", cache_control: ephemeral },
+			]);
+		});
+
+		it("should mark only the last tool", () => {
+			const schema = {
+				type: "object" as const,
+				properties: {},
+				required: [],
+			};
+			const tools = [
+				{ name: "a", description: "A", input_schema: schema },
+				{ name: "b", description: "B", input_schema: schema },
+			];
+
+			const result = cacheAnthropicTools(tools);
+
+			expect(result[0]!.cache_control).toBeUndefined();
+			expect(result[1]!.cache_control).toEqual(ephemeral);
+			expect(tools[1]!.cache_control).toBeUndefined();
+			expect(cacheAnthropicTools([])).toEqual([]);
+		});
+
+		it("should convert string content of the last message to a cached block", () => {
+			const result = cacheAnthropicMessages([
+				{ role: "user", content: "First" },
+				{ role: "assistant", content: "Reply" },
+				{ role: "user", content: "Second" },
+			]);
+
+			expect(result[0]!.content).toBe("First");
+			expect(result[2]!.content).toEqual([
+				{ type: "text", text: "Second", cache_control: ephemeral },
+			]);
+		});
+
+		it("should mark the last block of tool results", () => {
+			const result = cacheAnthropicMessages([
+				{
+					role: "user",
+					content: [
+						{ type: "tool_result", tool_use_id: "1", content: "a" },
+						{ type: "tool_result", tool_use_id: "2", content: "b" },
+					],
+				},
+			]);
+
+			const content = result[0]!.content as Array<{ cache_control?: unknown }>;
+			expect(content[0]!.cache_control).toBeUndefined();
+			expect(content[1]!.cache_control).toEqual(ephemeral);
+		});
+
+		it("should skip thinking blocks", () => {
+			const result = cacheAnthropicMessages([
+				{
+					role: "assistant",
+					content: [
+						{ type: "text", text: "Answer" },
+						{ type: "thinking", thinking: "..." },
+					],
+				},
+			]);
+
+			const content = result[0]!.content as Array<{ cache_control?: unknown }>;
+			expect(content[0]!.cache_control).toEqual(ephemeral);
+			expect(content[1]!.cache_control).toBeUndefined();
+		});
+
+		it("should leave empty input unchanged", () => {
+			expect(cacheAnthropicMessages([])).toEqual([]);
+			const messages = [{ role: "user" as const, content: "" }];
+			expect(cacheAnthropicMessages(messages)).toBe(messages);
+		});
+	});
 });
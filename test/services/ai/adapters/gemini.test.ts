@@ -0,0 +1,273 @@
+import { describe, it, expect } from "vitest";
+import {
+	toGeminiTools,
+	toGeminiContents,
+	toGeminiSystemInstruction,
+	parseGeminiParts,
+} from "../../../../source/services/ai/adapters/gemini.js";
+import type {
+	ChatMessage,
+	OpenAITool,
+} from "../../../../source/services/ai/types.js";
+
+describe("Gemini Adapter", () => {
+	describe("toGeminiTools", () => {
+		it("should return empty array for no tools", () => {
+			expect(toGeminiTools([])).toEqual([]);
+		});
+
+		it("should put all functions into one tool", () => {
+			const tools: OpenAITool[] = [
+				{
+					type: "function",
+					function: {
+						name: "file_read",
+						description: "[File] Read a file",
+						parameters: {
+							type: "object",
+							properties: {
+								path: { type: "string", description: "File path" },
+								mode: {
+									type: "string",
+									enum: ["text", "binary"],
+									default: "text",
+								},
+								lines: { type: "array", items: { type: "number" } },
+							},
+							required: ["path"],
+						},
+					},
+				},
+				{
+					type: "function",
+					function: {
+						name: "git_status",
+						description: "[Git] Status",
+						parameters: { type: "object", properties: {}, required: [] },
+					},
+				},
+			];
+
+			expect(toGeminiTools(tools)).toEqual([
+				{
+					functionDeclarations: [
+						{
+							name: "file_read",
+							description: "[File] Read a file",
+							parameters: {
+								type: "object",
+								properties: {
+									path: { type: "string", description: "File path" },
+									mode: { type: "string", enum: ["text", "binary"] },
+									lines: { type: "array", items: { type: "number" } },
+								},
+								required: ["path"],
+							},
+						},
+						{ name: "git_status", description: "[Git] Status" },
+					],
+				},
+			]);
+		});
+
+		it("should drop enum on non-string types", () => {
+			const [tool] = toGeminiTools([
+				{
+					type: "function",
+					function: {
+						name: "t",
+						description: "T",
+						parameters: {
+							type: "object",
+							properties: { level: { type: "number", enum: [1, 2] } },
+							required: [],
+						},
+					},
+				},
+			]);
+
+			expect(
+				tool!.functionDeclarations[0]!.parameters!.properties!.level,
+			).toEqual({ type: "number" });
+		});
+	});
+
+	describe("toGeminiContents", () => {
+		it("should send attached images as inline data", () => {
+			const result = toGeminiContents([
+				{
+					role: "user",
+					content: "What is this?",
+					images: [
+						{ mimeType: "image/png", data: "iVBORw0", width: 800, height: 600 },
+					],
+				},
+			]);
+
+			expect(result[0]!.parts).toEqual([
+				{ text: "What is this?" },
+				{ inlineData: { mimeType: "image/png", data: "iVBORw0" } },
+			]);
+		});
+
+		it("should map roles and skip system messages", () => {
+			const messages: ChatMessage[] = [
+				{ role: "system", content: "System" },
+				{ role: "user", content: "Hi" },
+				{ role: "assistant", content: "Hello", reasoning_content: "Thought" },
+			];
+
+			expect(toGeminiContents(messages)).toEqual([
+				{ role: "user", parts: [{ text: "Hi" }] },
+				{ role: "model", parts: [{ text: "Hello" }] },
+			]);
+		});
+
+		it("should convert tool calls and merge tool results", () => {
+			const messages: ChatMessage[] = [
+				{ role: "user", content: "Check" },
+				{
+					role: "assistant",
+					content: "",
+					tool_calls: [
+						{
+							id: "call_1",
+							type: "function",
+							function: { name: "git_status", arguments: "" },
+						},
+						{
+							id: "call_2",
+							type: "function",
+							function: { name: "file_read", arguments: '{"path":"a.ts"}' },
+						},
+					],
+				},
+				{ role: "tool", content: "clean", tool_call_id: "call_1" },
+				{ role: "tool", content: "code", tool_call_id: "call_2" },
+				{ role: "assistant", content: "Done" },
+			];
+
+			expect(toGeminiContents(messages)).toEqual([
+				{ role: "user", parts: [{ text: "Check" }] },
+				{
+					role: "model",
+					parts: [
+						{ functionCall: { name: "git_status", args: {} } },
+						{ functionCall: { name: "file_read", args: { path: "a.ts" } } },
+					],
+				},
+				{
+					role: "user",
+					parts: [
+						{
+							functionResponse: {
+								name: "git_status",
+								response: { content: "clean" },
+							},
+						},
+						{
+							functionResponse: {
+								name: "file_read",
+								response: { content: "code" },
+							},
+						},
+					],
+				},
+				{ role: "model", parts: [{ text: "Done" }] },
+			]);
+		});
+
+		it("should flush trailing tool results", () => {
+			const contents = toGeminiContents([
+				{
+					role: "assistant",
+					content: "",
+					tool_calls: [
+						{
+							id: "call_1",
+							type: "function",
+							function: { name: "git_status", arguments: "{}" },
+						},
+					],
+				},
+				{ role: "tool", content: "clean", tool_call_id: "call_1" },
+			]);
+
+			expect(contents).toHaveLength(2);
+			expect(contents[1]!.role).toBe("user");
+		});
+	});
+
+	describe("toGeminiSystemInstruction", () => {
+		it("should build system instruction", () => {
+			expect(
+				toGeminiSystemInstruction([
+					{ role: "system", content: "Be brief" },
+					{ role: "user", content: "Hi" },
+				]),
+			).toEqual({ parts: [{ text: "Be brief" }] });
+		});
+
+		it("should return undefined without system message", () => {
+			expect(
+				toGeminiSystemInstruction([{ role: "user", content: "Hi" }]),
+			).toBeUndefined();
+		});
+	});
+
+	describe("parseGeminiParts", () => {
+		it("should separate text, thoughts and function calls", () => {
+			const result = parseGeminiParts(
+				[
+					{ text: "Thinking", thought: true },
+					{ text: "Answer" },
+					{ functionCall: { name: "git_status" } },
+					{ functionCall: { name: "file_read", args: { path: "a.ts" } } },
+				],
+				"call_x",
+			);
+
+			expect(result.content).toBe("Answer");
+			expect(result.reasoning).toBe("Thinking");
+			expect(result.toolCalls).toEqual([
+				{
+					id: "call_x_0",
+					type: "function",
+					function: { name: "git_status", arguments: "{}" },
+				},
+				{
+					id: "call_x_1",
+					type: "function",
+					function: { name: "file_read", arguments: '{"path":"a.ts"}' },
+				},
+			]);
+		});
+
+		it("should round-trip thought signatures on function calls", () => {
+			const { toolCalls } = parseGeminiParts(
+				[
+					{
+						functionCall: { name: "git_status", args: {} },
+						thoughtSignature: "sig_abc",
+					},
+					{ functionCall: { name: "file_read", args: { path: "a.ts" } } },
+				],
+				"call_x",
+			);
+
+			expect(toolCalls[0]!.thought_signature).toBe("sig_abc");
+			expect(toolCalls[1]!.thought_signature).toBeUndefined();
+
+			const contents = toGeminiContents([
+				{ role: "assistant", content: "", tool_calls: toolCalls },
+			]);
+			expect(contents[0]!.parts).toEqual([
+				{
+					functionCall: { name: "git_status", args: {} },
+					thoughtSignature: "sig_abc",
+				},
+				{ functionCall: { name: "file_read", args: { path: "a.ts" } } },
+			]);
+		});
+	});
+});
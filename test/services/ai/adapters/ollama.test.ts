@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+	toOllamaMessages,
+	parseOllamaToolCalls,
+} from "../../../../source/services/ai/adapters/ollama.js";
+import type { ChatMessage } from "../../../../source/services/ai/types.js";
+
+describe("Ollama Adapter", () => {
+	describe("toOllamaMessages", () => {
+		it("should send attached images as base64 strings", () => {
+			const result = toOllamaMessages([
+				{
+					role: "user",
+					content: "What is this?",
+					images: [
+						{ mimeType: "image/png", data: "iVBORw0", width: 800, height: 600 },
+					],
+				},
+			]);
+
+			expect(result[0]).toEqual({
+				role: "user",
+				content: "What is this?",
+				images: ["iVBORw0"],
+			});
+		});
+
+		it("should keep roles and content", () => {
+			const messages: ChatMessage[] = [
+				{ role: "system", content: "System" },
+				{ role: "user", content: "Hi", displayContent: "Hi" },
+			];
+
+			expect(toOllamaMessages(messages)).toEqual([
+				{ role: "system", content: "System" },
+				{ role: "user", content: "Hi" },
+			]);
+		});
+
+		it("should convert reasoning, tool calls and tool results", () => {
+			const messages: ChatMessage[] = [
+				{
+					role: "assistant",
+					content: "",
+					reasoning_content: "Need the file",
+					tool_calls: [
+						{
+							id: "call_1",
+							type: "function",
+							function: { name: "file_read", arguments: '{"path":"a.ts"}' },
+						},
+						{
+							id: "call_2",
+							type: "function",
+							function: { name: "git_status", arguments: "not json" },
+						},
+					],
+				},
+				{ role: "tool", content: "code", tool_call_id: "call_1" },
+				{ role: "tool", content: "orphan", tool_call_id: "call_9" },
+			];
+
+			expect(toOllamaMessages(messages)).toEqual([
+				{
+					role: "assistant",
+					content: "",
+					thinking: "Need the file",
+					tool_calls: [
+						{ function: { name: "file_read", arguments: { path: "a.ts" } } },
+						{ function: { name: "git_status", arguments: {} } },
+					],
+				},
+				{ role: "tool", content: "code", tool_name: "file_read" },
+				{ role: "tool", content: "orphan" },
+			]);
+		});
+	});
+
+	describe("parseOllamaToolCalls", () => {
+		it("should generate IDs and stringify arguments", () => {
+			expect(
+				parseOllamaToolCalls(
+					[
+						{ function: { name: "file_read", arguments: { path: "a.ts" } } },
+						{ function: { name: "git_status", arguments: {} } },
+					],
+					"call_x",
+				),
+			).toEqual([
+				{
+					id: "call_x_0",
+					type: "function",
+					function: { name: "file_read", arguments: '{"path":"a.ts"}' },
+				},
+				{
+					id: "call_x_1",
+					type: "function",
+					function: { name: "git_status", arguments: "{}" },
+				},
+			]);
+		});
+	});
+});
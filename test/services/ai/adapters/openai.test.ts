@@ -316,6 +316,26 @@ describe("OpenAI Adapter", () => {
 	});
 
 	describe("toOpenAIMessages", () => {
+		it("should send attached images as data URI content parts", () => {
+			const result = toOpenAIMessages([
+				{
+					role: "user",
+					content: "What is this?",
+					images: [
+						{ mimeType: "image/png", data: "iVBORw0", width: 800, height: 600 },
+					],
+				},
+			]);
+
+			expect(result[0].content).toEqual([
+				{ type: "text", text: "What is this?" },
+				{
+					type: "image_url",
+					image_url: { url: "data:image/png;base64,iVBORw0" },
+				},
+			]);
+		});
+
 		it("should convert basic messages", () => {
 			const messages: ChatMessage[] = [
 				{ role: "user", content: "Hello" },
@@ -24,9 +24,19 @@ vi.mock("../../../../source/services/ai/adapters/anthropic.js", () => ({
 			function: { name: b.name, arguments: JSON.stringify(b.input) },
 		})),
 	),
+	cacheAnthropicSystem: vi.fn((text) => [
+		{ type: "text", text, cache_control: { type: "ephemeral" } },
+	]),
+	cacheAnthropicTools: vi.fn((tools) => tools),
+	cacheAnthropicMessages: vi.fn((msgs) => msgs),
 }));
 
 import { AnthropicClient } from "../../../../source/services/ai/clients/anthropic.js";
+import { AIRequestError } from "../../../../source/services/ai/errors.js";
+import {
+	cacheAnthropicTools,
+	cacheAnthropicMessages,
+} from "../../../../source/services/ai/adapters/anthropic.js";
 import {
 	isThinkingEnabled,
 	currentModelSupportsThinking,
@@ -380,6 +390,7 @@ describe("AnthropicClient", () => {
 				apiKey: "test-key",
 				model: "claude-3-opus",
 				baseUrl: "https://api.anthropic.com/v1",
+				maxRetries: 1,
 			});
 
 			await expect(async () => {
@@ -573,6 +584,55 @@ describe("AnthropicClient", () => {
 			}).rejects.toThrow("Anthropic streaming error: Rate limit exceeded");
 		});
 
+		it("should classify overloaded and context errors in stream", async () => {
+			const encoder = new TextEncoder();
+			const cases = [
+				{
+					event:
+						'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+					kind: "retryable",
+				},
+				{
+					event:
+						'event: error\ndata: {"type":"error","error":{"type":"invalid_request_error","message":"prompt is too long: 210000 tokens > 200000 maximum"}}\n\n',
+					kind: "context_length",
+				},
+			];
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				baseUrl: "https://api.anthropic.com/v1",
+			});
+
+			for (const { event, kind } of cases) {
+				let sent = false;
+				mockFetch.mockResolvedValueOnce({
+					ok: true,
+					body: {
+						getReader: () => ({
+							read: vi.fn(async () => {
+								if (sent) return { done: true, value: undefined };
+								sent = true;
+								return { done: false, value: encoder.encode(event) };
+							}),
+						}),
+					},
+				});
+
+				const error = await (async () => {
+					for await (const _chunk of client.streamChat([
+						{ role: "user", content: "Hi" },
+					])) {
+						void _chunk; // consume
+					}
+				})().catch((e: unknown) => e);
+
+				expect(error).toBeInstanceOf(AIRequestError);
+				expect((error as AIRequestError).kind).toBe(kind);
+			}
+		});
+
 		it("should handle stream ending without explicit finish", async () => {
 			const encoder = new TextEncoder();
 			const events = [
@@ -714,4 +774,203 @@ describe("AnthropicClient", () => {
 			);
 		});
 	});
+
+	describe("request options", () => {
+		const okResponse = (usage: Record<string, number>) => ({
+			ok: true,
+			json: async () => ({
+				id: "msg_123",
+				type: "message",
+				role: "assistant",
+				content: [{ type: "text", text: "OK" }],
+				stop_reason: "end_turn",
+				usage,
+			}),
+		});
+
+		const sentBody = () =>
+			JSON.parse(mockFetch.mock.calls[0]![1].body as string) as Record<
+				string,
+				unknown
+			>;
+
+		const tools = [
+			{
+				type: "function" as const,
+				function: {
+					name: "test_tool",
+					description: "A test tool",
+					parameters: {},
+				},
+			},
+		];
+
+		beforeEach(() => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(false);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(false);
+		});
+
+		it("should use default max_tokens and enable prompt caching", async () => {
+			mockFetch.mockResolvedValueOnce(
+				okResponse({ input_tokens: 10, output_tokens: 5 }),
+			);
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+			});
+			await client.chat(
+				[
+					{ role: "system", content: "You are helpful" },
+					{ role: "user", content: "Hi" },
+				],
+				tools,
+			);
+
+			const body = sentBody();
+			expect(body.max_tokens).toBe(4096);
+			expect(body.temperature).toBeUndefined();
+			expect(body.system).toEqual([
+				{
+					type: "text",
+					text: "You are helpful",
+					cache_control: { type: "ephemeral" },
+				},
+			]);
+			expect(cacheAnthropicTools).toHaveBeenCalled();
+			expect(cacheAnthropicMessages).toHaveBeenCalled();
+		});
+
+		it("should use configured max tokens and temperature", async () => {
+			mockFetch.mockResolvedValueOnce(
+				okResponse({ input_tokens: 10, output_tokens: 5 }),
+			);
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				maxOutputTokens: 16000,
+				temperature: 0.2,
+			});
+			await client.chat([{ role: "user", content: "Hi" }]);
+
+			const body = sentBody();
+			expect(body.max_tokens).toBe(16000);
+			expect(body.temperature).toBe(0.2);
+		});
+
+		it("should omit temperature when thinking is enabled", async () => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(true);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			mockFetch.mockResolvedValueOnce(
+				okResponse({ input_tokens: 10, output_tokens: 5 }),
+			);
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				temperature: 0.2,
+			});
+			await client.chat([{ role: "user", content: "Hi" }]);
+
+			const body = sentBody();
+			expect(body.thinking).toBeDefined();
+			expect(body.temperature).toBeUndefined();
+		});
+
+		it("should not add cache breakpoints when prompt caching is disabled", async () => {
+			mockFetch.mockResolvedValueOnce(
+				okResponse({ input_tokens: 10, output_tokens: 5 }),
+			);
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				promptCaching: false,
+			});
+			await client.chat(
+				[
+					{ role: "system", content: "You are helpful" },
+					{ role: "user", content: "Hi" },
+				],
+				tools,
+			);
+
+			expect(sentBody().system).toBe("You are helpful");
+			expect(cacheAnthropicTools).not.toHaveBeenCalled();
+			expect(cacheAnthropicMessages).not.toHaveBeenCalled();
+		});
+
+		it("should report cache tokens in chat usage", async () => {
+			mockFetch.mockResolvedValueOnce(
+				okResponse({
+					input_tokens: 10,
+					output_tokens: 5,
+					cache_read_input_tokens: 1000,
+					cache_creation_input_tokens: 200,
+				}),
+			);
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+			});
+			const result = await client.chat([{ role: "user", content: "Hi" }]);
+
+			expect(result.usage).toEqual({
+				prompt_tokens: 1210,
+				completion_tokens: 5,
+				total_tokens: 1215,
+				cache_read_tokens: 1000,
+				cache_creation_tokens: 200,
+			});
+		});
+
+		it("should report cache tokens in stream usage", async () => {
+			const encoder = new TextEncoder();
+			const events = [
+				'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":10,"output_tokens":1,"cache_read_input_tokens":500}}}\n\n',
+				'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+				'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":7}}\n\n',
+				'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+			];
+
+			let eventIndex = 0;
+			const mockReader = {
+				read: vi.fn(async () => {
+					if (eventIndex < events.length) {
+						const value = encoder.encode(events[eventIndex]!);
+						eventIndex++;
+						return { done: false, value };
+					}
+					return { done: true, value: undefined };
+				}),
+			};
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				body: { getReader: () => mockReader },
+			});
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+			});
+
+			let usage;
+			for await (const chunk of client.streamChat([
+				{ role: "user", content: "Hi" },
+			])) {
+				if (chunk.usage) usage = chunk.usage;
+			}
+
+			expect(usage).toEqual({
+				prompt_tokens: 510,
+				completion_tokens: 7,
+				total_tokens: 517,
+				cache_read_tokens: 500,
+			});
+			expect(sentBody().stream).toBe(true);
+		});
+	});
 });
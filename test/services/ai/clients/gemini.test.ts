@@ -0,0 +1,444 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock config module
+vi.mock("../../../../source/utils/config.js", () => ({
+	isThinkingEnabled: vi.fn(() => false),
+	currentModelSupportsThinking: vi.fn(() => false),
+}));
+
+import { GeminiClient } from "../../../../source/services/ai/clients/gemini.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+} from "../../../../source/utils/config.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/**
+ * Recorded streamGenerateContent?alt=sse responses
+ */
+const TEXT_STREAM = [
+	'data: {"candidates":[{"content":{"parts":[{"text":"Let me think","thought":true}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":12,"totalTokenCount":12},"modelVersion":"gemini-2.5-flash"}\r\n\r\n',
+	'data: {"candidates":[{"content":{"parts":[{"text":"Hello"}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":12,"totalTokenCount":12},"modelVersion":"gemini-2.5-flash"}\r\n\r\n',
+	'data: {"candidates":[{"content":{"parts":[{"text":" World"}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":12,"candidatesTokenCount":3,"thoughtsTokenCount":20,"totalTokenCount":35},"modelVersion":"gemini-2.5-flash"}\r\n\r\n',
+];
+
+const TOOL_STREAM = [
+	'data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"git_status","args":{}}}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":120,"totalTokenCount":120}}\r\n\r\n',
+	'data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"file_read","args":{"path":"a.ts"}}}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":120,"candidatesTokenCount":18,"totalTokenCount":138}}\r\n\r\n',
+];
+
+function mockStream(events: string[]) {
+	const encoder = new TextEncoder();
+	let eventIndex = 0;
+	const mockReader = {
+		read: vi.fn(async () => {
+			if (eventIndex < events.length) {
+				const value = encoder.encode(events[eventIndex]!);
+				eventIndex++;
+				return { done: false, value };
+			}
+			return { done: true, value: undefined };
+		}),
+	};
+	mockFetch.mockResolvedValueOnce({
+		ok: true,
+		body: { getReader: () => mockReader },
+	});
+}
+
+function sentBody() {
+	return JSON.parse(mockFetch.mock.calls[0]![1].body as string);
+}
+
+describe("GeminiClient", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ shouldAdvanceTime: true });
+		vi.mocked(isThinkingEnabled).mockReturnValue(false);
+		vi.mocked(currentModelSupportsThinking).mockReturnValue(false);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("constructor", () => {
+		it("should create client with default config", () => {
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+
+			const config = client.getConfig();
+			expect(config.baseUrl).toBe(
+				"https://generativelanguage.googleapis.com/v1beta",
+			);
+			expect(config.timeout).toBe(60000);
+			expect(config.maxRetries).toBe(3);
+		});
+	});
+
+	describe("chat", () => {
+		it("should send generateContent request", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					candidates: [
+						{
+							content: { role: "model", parts: [{ text: "Hello!" }] },
+							finishReason: "STOP",
+						},
+					],
+					usageMetadata: {
+						promptTokenCount: 10,
+						candidatesTokenCount: 5,
+						cachedContentTokenCount: 4,
+					},
+				}),
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+				maxOutputTokens: 1024,
+				temperature: 0.7,
+			});
+
+			const result = await client.chat(
+				[
+					{ role: "system", content: "You are helpful" },
+					{ role: "user", content: "Hi" },
+				],
+				[
+					{
+						type: "function",
+						function: {
+							name: "git_status",
+							description: "Show status",
+							parameters: { type: "object", properties: {}, required: [] },
+						},
+					},
+				],
+			);
+
+			const [url, init] = mockFetch.mock.calls[0]!;
+			expect(url).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent",
+			);
+			expect(init.headers["x-goog-api-key"]).toBe("test-key");
+
+			const body = sentBody();
+			expect(body.systemInstruction).toEqual({
+				parts: [{ text: "You are helpful" }],
+			});
+			expect(body.contents).toEqual([
+				{ role: "user", parts: [{ text: "Hi" }] },
+			]);
+			expect(body.tools).toEqual([
+				{
+					functionDeclarations: [
+						{ name: "git_status", description: "Show status" },
+					],
+				},
+			]);
+			expect(body.generationConfig).toEqual({
+				maxOutputTokens: 1024,
+				temperature: 0.7,
+			});
+
+			expect(result.message.content).toBe("Hello!");
+			expect(result.finish_reason).toBe("stop");
+			expect(result.usage).toEqual({
+				prompt_tokens: 10,
+				completion_tokens: 5,
+				total_tokens: 15,
+				cache_read_tokens: 4,
+			});
+		});
+
+		it("should request thoughts when thinking is enabled", async () => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(true);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					candidates: [
+						{
+							content: {
+								role: "model",
+								parts: [
+									{ text: "Reasoning", thought: true },
+									{ text: "Answer" },
+								],
+							},
+							finishReason: "STOP",
+						},
+					],
+				}),
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-pro",
+			});
+			const result = await client.chat([{ role: "user", content: "Hi" }]);
+
+			expect(sentBody().generationConfig).toEqual({
+				thinkingConfig: { includeThoughts: true },
+			});
+			expect(result.message.reasoning_content).toBe("Reasoning");
+			expect(result.message.content).toBe("Answer");
+		});
+
+		it("should return tool calls with tool_calls finish reason", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					candidates: [
+						{
+							content: {
+								role: "model",
+								parts: [
+									{
+										functionCall: { name: "file_read", args: { path: "a.ts" } },
+									},
+								],
+							},
+							finishReason: "STOP",
+						},
+					],
+				}),
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+			const result = await client.chat([{ role: "user", content: "Read" }]);
+
+			expect(result.finish_reason).toBe("tool_calls");
+			expect(result.message.tool_calls).toHaveLength(1);
+			expect(result.message.tool_calls![0]!.function).toEqual({
+				name: "file_read",
+				arguments: '{"path":"a.ts"}',
+			});
+		});
+
+		it("should map MAX_TOKENS to length", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					candidates: [
+						{
+							content: { role: "model", parts: [{ text: "Partial" }] },
+							finishReason: "MAX_TOKENS",
+						},
+					],
+				}),
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+			const result = await client.chat([{ role: "user", content: "Hi" }]);
+
+			expect(result.finish_reason).toBe("length");
+		});
+
+		it("should handle API error response", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 400,
+				statusText: "Bad Request",
+				text: async () => "API key not valid",
+			});
+
+			const client = new GeminiClient({
+				apiKey: "bad-key",
+				model: "gemini-2.5-flash",
+				maxRetries: 1,
+			});
+
+			await expect(
+				client.chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("Gemini API error: 400 Bad Request");
+		});
+
+		it("should throw when there are no candidates", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ promptFeedback: { blockReason: "SAFETY" } }),
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+				maxRetries: 1,
+			});
+
+			await expect(
+				client.chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("No response from Gemini API");
+		});
+	});
+
+	describe("streamChat", () => {
+		it("should stream text and thoughts", async () => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(true);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			mockStream(TEXT_STREAM);
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+
+			const content: string[] = [];
+			const reasoning: string[] = [];
+			let last;
+			for await (const chunk of client.streamChat([
+				{ role: "user", content: "Hi" },
+			])) {
+				if (chunk.delta.content) content.push(chunk.delta.content);
+				if (chunk.delta.reasoning_content) {
+					reasoning.push(chunk.delta.reasoning_content);
+				}
+				last = chunk;
+			}
+
+			expect(mockFetch.mock.calls[0]![0]).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse",
+			);
+			expect(content).toEqual(["Hello", " World"]);
+			expect(reasoning).toEqual(["Let me think"]);
+			expect(last?.finish_reason).toBe("stop");
+			expect(last?.usage).toEqual({
+				prompt_tokens: 12,
+				completion_tokens: 23,
+				total_tokens: 35,
+			});
+		});
+
+		it("should collect function calls across chunks", async () => {
+			mockStream(TOOL_STREAM);
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+
+			const chunks = [];
+			for await (const chunk of client.streamChat([
+				{ role: "user", content: "Check the repo" },
+			])) {
+				chunks.push(chunk);
+			}
+
+			const last = chunks[chunks.length - 1]!;
+			expect(last.finish_reason).toBe("tool_calls");
+			const toolCalls = last.delta.tool_calls!;
+			expect(toolCalls.map((tc) => tc.function.name)).toEqual([
+				"git_status",
+				"file_read",
+			]);
+			expect(new Set(toolCalls.map((tc) => tc.id)).size).toBe(2);
+			expect(toolCalls[1]!.function.arguments).toBe('{"path":"a.ts"}');
+		});
+
+		it("should handle streaming API error", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: false,
+				status: 429,
+				statusText: "Too Many Requests",
+				text: async () => "Resource exhausted",
+			});
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+				maxRetries: 1,
+			});
+
+			await expect(async () => {
+				for await (const _chunk of client.streamChat([
+					{ role: "user", content: "Hi" },
+				])) {
+					void _chunk;
+				}
+			}).rejects.toThrow("Gemini API error: 429 Too Many Requests");
+		});
+
+		it("should retry rate limited stream requests after Retry-After", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: false,
+				status: 429,
+				statusText: "Too Many Requests",
+				headers: new Headers({ "retry-after": "2" }),
+				text: async () => "Resource exhausted",
+			});
+			mockStream(TEXT_STREAM);
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+
+			const chunks = [];
+			for await (const chunk of client.streamChat([
+				{ role: "user", content: "Hi" },
+			])) {
+				chunks.push(chunk);
+			}
+
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+			expect(chunks[chunks.length - 1]!.finish_reason).toBe("stop");
+		});
+
+		it("should not retry invalid API keys", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 403,
+				statusText: "Forbidden",
+				text: async () => "Permission denied",
+			});
+
+			const client = new GeminiClient({
+				apiKey: "bad-key",
+				model: "gemini-2.5-flash",
+			});
+
+			await expect(async () => {
+				for await (const _chunk of client.streamChat([
+					{ role: "user", content: "Hi" },
+				])) {
+					void _chunk;
+				}
+			}).rejects.toThrow("Gemini API error: 403 Forbidden");
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
+		it("should throw when external signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			const client = new GeminiClient({
+				apiKey: "test-key",
+				model: "gemini-2.5-flash",
+			});
+
+			await expect(async () => {
+				for await (const _chunk of client.streamChat(
+					[{ role: "user", content: "Hi" }],
+					undefined,
+					{ signal: controller.signal },
+				)) {
+					void _chunk;
+				}
+			}).rejects.toThrow("Request was aborted");
+		});
+	});
+});
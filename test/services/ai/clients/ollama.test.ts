@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock config module
+vi.mock("../../../../source/utils/config.js", () => ({
+	isThinkingEnabled: vi.fn(() => false),
+	currentModelSupportsThinking: vi.fn(() => false),
+}));
+
+import { OllamaClient } from "../../../../source/services/ai/clients/ollama.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+} from "../../../../source/utils/config.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/**
+ * Recorded /api/chat NDJSON responses
+ */
+const TEXT_STREAM = [
+	'{"model":"qwen3:8b","created_at":"2025-06-01T10:00:00.1Z","message":{"role":"assistant","content":"","thinking":"The user greets"},"done":false}\n',
+	'{"model":"qwen3:8b","created_at":"2025-06-01T10:00:00.2Z","message":{"role":"assistant","content":"Hello"},"done":false}\n{"model":"qwen3:8b","created_at":"2025-06-01T10:00:00.3Z","message":{"role":"assistant","content":" World"},"done":false}\n',
+	'{"model":"qwen3:8b","created_at":"2025-06-01T10:00:00.4Z","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","total_duration":412000000,"prompt_eval_count":26,"eval_count":9}\n',
+];
+
+const TOOL_STREAM = [
+	'{"model":"qwen3:8b","created_at":"2025-06-01T10:00:01.1Z","message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"file_read","arguments":{"path":"a.ts"}}}]},"done":false}\n',
+	'{"model":"qwen3:8b","created_at":"2025-06-01T10:00:01.2Z","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":180,"eval_count":24}\n',
+];
+
+function mockStream(lines: string[]) {
+	const encoder = new TextEncoder();
+	let lineIndex = 0;
+	const mockReader = {
+		read: vi.fn(async () => {
+			if (lineIndex < lines.length) {
+				const value = encoder.encode(lines[lineIndex]!);
+				lineIndex++;
+				return { done: false, value };
+			}
+			return { done: true, value: undefined };
+		}),
+	};
+	mockFetch.mockResolvedValueOnce({
+		ok: true,
+		body: { getReader: () => mockReader },
+	});
+}
+
+function sentBody() {
+	return JSON.parse(mockFetch.mock.calls[0]![1].body as string);
+}
+
+async function collect(client: OllamaClient) {
+	const chunks = [];
+	for await (const chunk of client.streamChat([
+		{ role: "user", content: "Hi" },
+	])) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+describe("OllamaClient", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ shouldAdvanceTime: true });
+		vi.mocked(isThinkingEnabled).mockReturnValue(false);
+		vi.mocked(currentModelSupportsThinking).mockReturnValue(false);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("constructor", () => {
+		it("should default to local Ollama", () => {
+			const client = new OllamaClient({ model: "qwen3:8b" });
+
+			expect(client.getConfig().baseUrl).toBe("http://localhost:11434");
+		});
+	});
+
+	describe("chat", () => {
+		it("should send native chat request", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					model: "qwen3:8b",
+					message: { role: "assistant", content: "Hello!" },
+					done: true,
+					done_reason: "stop",
+					prompt_eval_count: 10,
+					eval_count: 5,
+				}),
+			});
+
+			const client = new OllamaClient({
+				model: "qwen3:8b",
+				baseUrl: "http://localhost:11434/v1",
+				maxOutputTokens: 512,
+				temperature: 0.1,
+			});
+
+			const result = await client.chat([{ role: "user", content: "Hi" }]);
+
+			const [url, init] = mockFetch.mock.calls[0]!;
+			expect(url).toBe("http://localhost:11434/api/chat");
+			expect(init.headers.Authorization).toBeUndefined();
+
+			const body = sentBody();
+			expect(body.stream).toBe(false);
+			expect(body.think).toBeUndefined();
+			expect(body.options).toEqual({ num_predict: 512, temperature: 0.1 });
+
+			expect(result.message.content).toBe("Hello!");
+			expect(result.finish_reason).toBe("stop");
+			expect(result.usage).toEqual({
+				prompt_tokens: 10,
+				completion_tokens: 5,
+				total_tokens: 15,
+			});
+		});
+
+		it("should send think flag for thinking models", async () => {
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					model: "qwen3:8b",
+					message: { role: "assistant", content: "Hi" },
+					done: true,
+				}),
+			});
+
+			const client = new OllamaClient({ model: "qwen3:8b" });
+			await client.chat([{ role: "user", content: "Hi" }]);
+
+			expect(sentBody().think).toBe(false);
+		});
+
+		it("should parse thinking and tool calls", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					model: "qwen3:8b",
+					message: {
+						role: "assistant",
+						content: "",
+						thinking: "Need to read the file",
+						tool_calls: [
+							{ function: { name: "file_read", arguments: { path: "a.ts" } } },
+						],
+					},
+					done: true,
+					done_reason: "stop",
+				}),
+			});
+
+			const client = new OllamaClient({ model: "qwen3:8b", apiKey: "key" });
+			const result = await client.chat([{ role: "user", content: "Read" }]);
+
+			expect(mockFetch.mock.calls[0]![1].headers.Authorization).toBe(
+				"Bearer key",
+			);
+			expect(result.finish_reason).toBe("tool_calls");
+			expect(result.message.reasoning_content).toBe("Need to read the file");
+			expect(result.message.tool_calls![0]!.function).toEqual({
+				name: "file_read",
+				arguments: '{"path":"a.ts"}',
+			});
+		});
+
+		it("should handle API error response", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 404,
+				statusText: "Not Found",
+				text: async () => '{"error":"model not found"}',
+			});
+
+			const client = new OllamaClient({ model: "missing", maxRetries: 1 });
+
+			await expect(
+				client.chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("Ollama API error: 404 Not Found");
+		});
+	});
+
+	describe("streamChat", () => {
+		it("should stream content and thinking", async () => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(true);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			mockStream(TEXT_STREAM);
+
+			const client = new OllamaClient({ model: "qwen3:8b" });
+			const chunks = await collect(client);
+
+			expect(sentBody().think).toBe(true);
+			expect(sentBody().stream).toBe(true);
+			expect(chunks.map((c) => c.delta.content).filter((text) => text)).toEqual(
+				["Hello", " World"],
+			);
+			expect(chunks[0]!.delta.reasoning_content).toBe("The user greets");
+
+			const last = chunks[chunks.length - 1]!;
+			expect(last.finish_reason).toBe("stop");
+			expect(last.usage).toEqual({
+				prompt_tokens: 26,
+				completion_tokens: 9,
+				total_tokens: 35,
+			});
+		});
+
+		it("should return tool calls on the final chunk", async () => {
+			mockStream(TOOL_STREAM);
+
+			const client = new OllamaClient({ model: "qwen3:8b" });
+			const chunks = await collect(client);
+
+			const last = chunks[chunks.length - 1]!;
+			expect(last.finish_reason).toBe("tool_calls");
+			expect(last.delta.tool_calls).toHaveLength(1);
+			expect(last.delta.tool_calls![0]!.function.name).toBe("file_read");
+			expect(last.usage?.total_tokens).toBe(204);
+		});
+
+		it("should throw on error line", async () => {
+			mockStream(['{"error":"model requires more system memory"}\n']);
+
+			const client = new OllamaClient({ model: "qwen3:8b" });
+
+			await expect(collect(client)).rejects.toThrow(
+				"Ollama stream error: model requires more system memory",
+			);
+		});
+
+		it("should finish when stream ends without done line", async () => {
+			mockStream([TEXT_STREAM[1]!]);
+
+			const client = new OllamaClient({ model: "qwen3:8b" });
+			const chunks = await collect(client);
+
+			expect(chunks[chunks.length - 1]!.finish_reason).toBe("stop");
+		});
+	});
+});
@@ -98,6 +98,47 @@ describe("OpenAIClient", () => {
 			expect(result.usage?.total_tokens).toBe(15);
 		});
 
+		it("should send configured max tokens and temperature and report cached tokens", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					choices: [
+						{
+							index: 0,
+							message: { role: "assistant", content: "Hello!" },
+							finish_reason: "stop",
+						},
+					],
+					usage: {
+						prompt_tokens: 1000,
+						completion_tokens: 5,
+						total_tokens: 1005,
+						prompt_tokens_details: { cached_tokens: 800 },
+					},
+				}),
+			});
+
+			const client = new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				baseUrl: "https://api.openai.com/v1",
+				maxOutputTokens: 2048,
+				temperature: 0.5,
+			});
+
+			const result = await client.chat([{ role: "user", content: "Hi" }]);
+
+			const body = JSON.parse(mockFetch.mock.calls[0]![1].body as string);
+			expect(body.max_tokens).toBe(2048);
+			expect(body.temperature).toBe(0.5);
+			expect(result.usage).toEqual({
+				prompt_tokens: 1000,
+				completion_tokens: 5,
+				total_tokens: 1005,
+				cache_read_tokens: 800,
+			});
+		});
+
 		it("should handle API error response", async () => {
 			mockFetch.mockResolvedValue({
 				ok: false,
@@ -472,6 +513,7 @@ describe("OpenAIClient", () => {
 				apiKey: "test-key",
 				model: "gpt-4",
 				baseUrl: "https://api.openai.com/v1",
+				maxRetries: 1,
 			});
 
 			await expect(async () => {
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	withRetry,
+	getRetryDelay,
+} from "../../../../source/services/ai/clients/retry.js";
+import { AIRequestError } from "../../../../source/services/ai/errors.js";
+
+describe("withRetry", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should retry retryable errors until success", async () => {
+		const request = vi
+			.fn()
+			.mockRejectedValueOnce(new AIRequestError("overloaded", "retryable"))
+			.mockResolvedValueOnce("ok");
+
+		const promise = withRetry(request, { maxRetries: 3 });
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await expect(promise).resolves.toBe("ok");
+		expect(request).toHaveBeenCalledTimes(2);
+	});
+
+	it("should not retry auth or context length errors", async () => {
+		for (const kind of ["auth", "context_length"] as const) {
+			const request = vi.fn().mockRejectedValue(new AIRequestError(kind, kind));
+
+			await expect(withRetry(request, { maxRetries: 3 })).rejects.toThrow(kind);
+			expect(request).toHaveBeenCalledTimes(1);
+		}
+	});
+
+	it("should throw the last error after max retries", async () => {
+		const request = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+
+		const promise = withRetry(request, { maxRetries: 2 });
+		const assertion = expect(promise).rejects.toThrow("fetch failed");
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await assertion;
+		expect(request).toHaveBeenCalledTimes(2);
+	});
+
+	it("should wait for Retry-After before retrying", async () => {
+		const request = vi
+			.fn()
+			.mockRejectedValueOnce(
+				new AIRequestError("rate limited", "retryable", {
+					retryAfterMs: 5000,
+				}),
+			)
+			.mockResolvedValueOnce("ok");
+
+		const promise = withRetry(request, { maxRetries: 3 });
+		await vi.advanceTimersByTimeAsync(4000);
+		expect(request).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await expect(promise).resolves.toBe("ok");
+	});
+
+	it("should stop waiting when aborted", async () => {
+		const controller = new AbortController();
+		const request = vi
+			.fn()
+			.mockRejectedValue(new AIRequestError("overloaded", "retryable"));
+
+		const promise = withRetry(request, {
+			maxRetries: 3,
+			signal: controller.signal,
+		});
+		const assertion = expect(promise).rejects.toThrow("Request was aborted");
+		await vi.advanceTimersByTimeAsync(0);
+		controller.abort();
+
+		await assertion;
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("getRetryDelay", () => {
+	it("should use exponential backoff by default", () => {
+		expect(getRetryDelay(new Error("x"), 0)).toBe(1000);
+		expect(getRetryDelay(new Error("x"), 2)).toBe(4000);
+	});
+
+	it("should cap long Retry-After values", () => {
+		const error = new AIRequestError("x", "retryable", {
+			retryAfterMs: 3600000,
+		});
+
+		expect(getRetryDelay(error, 0)).toBe(60000);
+	});
+});
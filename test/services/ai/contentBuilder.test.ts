@@ -1,4 +1,12 @@
-import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
+import {
+	describe,
+	it,
+	expect,
+	vi,
+	beforeEach,
+	beforeAll,
+	afterEach,
+} from "vitest";
 import { initI18n, setLocale } from "../../../source/i18n/index.js";
 
 beforeAll(() => {
@@ -18,6 +26,7 @@ vi.mock("../../../source/services/ai/fileReader.js", () => ({
 
 vi.mock("../../../source/services/ai/tokenEstimator.js", () => ({
 	estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+	estimateImagesTokens: vi.fn((images: unknown[]) => images.length * 1000),
 	truncateFilesProportionally: vi.fn((files, limit) => {
 		return files.map((f: any) => ({
 			...f,
@@ -27,8 +36,12 @@ vi.mock("../../../source/services/ai/tokenEstimator.js", () => ({
 	}),
 }));
 
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import {
 	buildMessageContent,
+	extractFileReferences,
 	transformUserMessage,
 } from "../../../source/services/ai/contentBuilder.js";
 import { readFileContents } from "../../../source/services/ai/fileReader.js";
@@ -327,5 +340,87 @@ describe("contentBuilder", () => {
 			expect(result.fileSummary).toContain("1 file");
 			expect(result.fileSummary).toContain("components");
 		});
+
+		it("should attach images and count their tokens", async () => {
+			const image = {
+				mimeType: "image/png",
+				data: "iVBORw0",
+				width: 800,
+				height: 600,
+			};
+			vi.mocked(readFileContents).mockResolvedValue({
+				files: [
+					{ path: "shot.png", content: "", size: 5, isDirectory: false, image },
+					{
+						path: "app.ts",
+						content: "const x = 1;",
+						size: 12,
+						isDirectory: false,
+					},
+				],
+				totalSize: 17,
+				errors: [],
+			});
+
+			const result = await buildMessageContent({
+				userMessage: "Why does @shot.png not match @app.ts",
+				files: [
+					{ path: "shot.png", isDirectory: false },
+					{ path: "app.ts", isDirectory: false },
+				],
+				cwd: "/project",
+				availableTokens: 10000,
+			});
+
+			expect(result.images).toEqual([image]);
+			expect(result.estimatedTokens).toBeGreaterThan(1000);
+			expect(result.wasTruncated).toBe(false);
+		});
+
+		it("should return no images without files", async () => {
+			const result = await buildMessageContent({
+				userMessage: "Hello",
+				files: [],
+				cwd: "/project",
+				availableTokens: 10000,
+			});
+
+			expect(result.images).toEqual([]);
+		});
+	});
+
+	describe("extractFileReferences", () => {
+		let tempDir: string;
+
+		beforeEach(() => {
+			tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "content-builder-"));
+			fs.mkdirSync(path.join(tempDir, "src"));
+			fs.writeFileSync(path.join(tempDir, "src", "app.ts"), "");
+		});
+
+		afterEach(() => {
+			fs.rmSync(tempDir, { recursive: true, force: true });
+		});
+
+		it("should extract existing files and directories", () => {
+			const files = extractFileReferences(
+				"Compare @src/app.ts with @src/ and @src/app.ts",
+				tempDir,
+			);
+
+			expect(files).toEqual([
+				{ path: "src/app.ts", isDirectory: false },
+				{ path: "src", isDirectory: true },
+			]);
+		});
+
+		it("should ignore paths that do not exist and email addresses", () => {
+			const files = extractFileReferences(
+				"Mail user@src/app.ts about @missing.ts",
+				tempDir,
+			);
+
+			expect(files).toEqual([]);
+		});
 	});
 });
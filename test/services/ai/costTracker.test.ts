@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	calculateCost,
+	recordUsage,
+	loadUsageRecords,
+	summarizeUsage,
+	getTodayCost,
+	checkDailyBudget,
+	getDayStart,
+	formatCost,
+	type UsageRecord,
+} from "../../../source/services/ai/costTracker.js";
+
+const NOW = new Date(2025, 5, 15, 12, 0, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+	return {
+		timestamp: NOW,
+		model: "gpt-4o",
+		sessionId: "session-1",
+		promptTokens: 1000,
+		completionTokens: 100,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		cost: 0.01,
+		...overrides,
+	};
+}
+
+describe("costTracker", () => {
+	let tmpDir: string;
+	let file: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-usage-"));
+		file = path.join(tmpDir, "nested", "usage.jsonl");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("calculateCost", () => {
+		it("should return 0 without pricing", () => {
+			expect(
+				calculateCost(
+					{ prompt_tokens: 1000, completion_tokens: 10, total_tokens: 1010 },
+					undefined,
+				),
+			).toBe(0);
+		});
+
+		it("should price input and output per million tokens", () => {
+			expect(
+				calculateCost(
+					{
+						prompt_tokens: 1_000_000,
+						completion_tokens: 500_000,
+						total_tokens: 1_500_000,
+					},
+					{ input: 3, output: 15 },
+				),
+			).toBeCloseTo(10.5);
+		});
+
+		it("should price cached tokens separately", () => {
+			const cost = calculateCost(
+				{
+					prompt_tokens: 1_000_000,
+					completion_tokens: 0,
+					total_tokens: 1_000_000,
+					cache_read_tokens: 600_000,
+					cache_creation_tokens: 200_000,
+				},
+				{ input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+			);
+			// 200k uncached * 3 + 600k * 0.3 + 200k * 3.75
+			expect(cost).toBeCloseTo(0.6 + 0.18 + 0.75);
+		});
+
+		it("should fall back to input price for cache tokens", () => {
+			const cost = calculateCost(
+				{
+					prompt_tokens: 1_000_000,
+					completion_tokens: 0,
+					total_tokens: 1_000_000,
+					cache_read_tokens: 500_000,
+				},
+				{ input: 2, output: 8 },
+			);
+			expect(cost).toBeCloseTo(2);
+		});
+	});
+
+	describe("recordUsage / loadUsageRecords", () => {
+		it("should append records and load them back", () => {
+			recordUsage(record({ timestamp: 1000 }), file);
+			recordUsage(record({ timestamp: 2000, model: "claude" }), file);
+
+			expect(loadUsageRecords(0, file)).toHaveLength(2);
+			expect(loadUsageRecords(1500, file)).toEqual([
+				record({ timestamp: 2000, model: "claude" }),
+			]);
+		});
+
+		it("should skip corrupted lines", () => {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(
+				file,
+				`${JSON.stringify(record())}\n{"timestamp":\n`,
+				"utf-8",
+			);
+
+			expect(loadUsageRecords(0, file)).toEqual([record()]);
+		});
+
+		it("should return empty list when file is missing", () => {
+			expect(loadUsageRecords(0, file)).toEqual([]);
+		});
+	});
+
+	describe("summarizeUsage", () => {
+		it("should total records by model and by day", () => {
+			const summary = summarizeUsage([
+				record({ cost: 0.01 }),
+				record({ model: "claude", cost: 0.05, cacheReadTokens: 200 }),
+				record({ timestamp: NOW - DAY, cost: 0.02 }),
+			]);
+
+			expect(summary.total.requests).toBe(3);
+			expect(summary.total.cost).toBeCloseTo(0.08);
+			expect(summary.byModel.map((m) => m.model)).toEqual(["claude", "gpt-4o"]);
+			expect(summary.byModel[1]!.requests).toBe(2);
+			expect(summary.byModel[0]!.cacheReadTokens).toBe(200);
+			expect(summary.byDay.map((d) => d.day)).toEqual([
+				"2025-06-15",
+				"2025-06-14",
+			]);
+			expect(summary.byDay[0]!.cost).toBeCloseTo(0.06);
+		});
+	});
+
+	describe("daily budget", () => {
+		beforeEach(() => {
+			recordUsage(record({ timestamp: getDayStart(NOW) - 1, cost: 10 }), file);
+			recordUsage(record({ timestamp: NOW - 1000, cost: 3 }), file);
+			recordUsage(record({ timestamp: NOW, cost: 1 }), file);
+		});
+
+		it("should only count today's records", () => {
+			expect(getTodayCost(file, NOW)).toBeCloseTo(4);
+		});
+
+		it("should return null without budget", () => {
+			expect(checkDailyBudget(undefined, file, NOW)).toBeNull();
+		});
+
+		it("should report ok, warning and exceeded", () => {
+			expect(checkDailyBudget(10, file, NOW)?.state).toBe("ok");
+			expect(checkDailyBudget(4.5, file, NOW)?.state).toBe("warning");
+			expect(checkDailyBudget(4, file, NOW)).toEqual({
+				state: "exceeded",
+				spent: 4,
+				budget: 4,
+			});
+		});
+	});
+
+	describe("formatCost", () => {
+		it("should show more decimals for small amounts", () => {
+			expect(formatCost(0)).toBe("$0.00");
+			expect(formatCost(0.0012)).toBe("$0.0012");
+			expect(formatCost(1.234)).toBe("$1.23");
+		});
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+	AIRequestError,
+	classifyHttpError,
+	parseRetryAfter,
+	createHttpError,
+	getErrorKind,
+	isContextLengthError,
+} from "../../../source/services/ai/errors.js";
+
+function headers(values: Record<string, string>) {
+	return new Headers(values);
+}
+
+describe("AI errors", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("classifyHttpError", () => {
+		it("should classify auth errors", () => {
+			expect(classifyHttpError(401, "invalid x-api-key")).toBe("auth");
+			expect(classifyHttpError(403, "permission denied")).toBe("auth");
+		});
+
+		it("should classify rate limits and overloads as retryable", () => {
+			expect(classifyHttpError(429, "rate limit")).toBe("retryable");
+			expect(classifyHttpError(529, '{"type":"overloaded_error"}')).toBe(
+				"retryable",
+			);
+			expect(classifyHttpError(503, "unavailable")).toBe("retryable");
+		});
+
+		it("should classify by status before matching the response body", () => {
+			expect(
+				classifyHttpError(
+					429,
+					'{"error":{"message":"Rate limit reached: too many tokens per minute"}}',
+				),
+			).toBe("retryable");
+			expect(
+				classifyHttpError(503, "Safety service temporarily unavailable"),
+			).toBe("retryable");
+			expect(classifyHttpError(422, "context window exceeded")).toBe("other");
+		});
+
+		it("should detect context length errors from provider messages", () => {
+			expect(
+				classifyHttpError(
+					400,
+					'{"error":{"code":"context_length_exceeded","message":"This model\'s maximum context length is 128000 tokens"}}',
+				),
+			).toBe("context_length");
+			expect(
+				classifyHttpError(
+					400,
+					'{"error":{"type":"invalid_request_error","message":"prompt is too long: 210000 tokens > 200000 maximum"}}',
+				),
+			).toBe("context_length");
+			expect(
+				classifyHttpError(
+					400,
+					"The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).",
+				),
+			).toBe("context_length");
+			expect(classifyHttpError(413, "Payload Too Large")).toBe(
+				"context_length",
+			);
+		});
+
+		it("should detect content filter errors", () => {
+			expect(
+				classifyHttpError(
+					400,
+					'{"error":{"code":"content_filter","message":"The response was filtered"}}',
+				),
+			).toBe("content_filter");
+		});
+
+		it("should treat other client errors as non-retryable", () => {
+			expect(classifyHttpError(400, "invalid model")).toBe("other");
+			expect(classifyHttpError(404, "not found")).toBe("other");
+		});
+	});
+
+	describe("parseRetryAfter", () => {
+		it("should parse seconds", () => {
+			expect(parseRetryAfter(headers({ "retry-after": "3" }))).toBe(3000);
+		});
+
+		it("should prefer retry-after-ms", () => {
+			expect(
+				parseRetryAfter(
+					headers({ "retry-after": "3", "retry-after-ms": "1500" }),
+				),
+			).toBe(1500);
+		});
+
+		it("should parse HTTP dates", () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date("2025-06-01T10:00:00Z"));
+
+			expect(
+				parseRetryAfter(
+					headers({ "retry-after": "Sun, 01 Jun 2025 10:00:05 GMT" }),
+				),
+			).toBe(5000);
+		});
+
+		it("should return undefined without header", () => {
+			expect(parseRetryAfter(headers({}))).toBeUndefined();
+			expect(parseRetryAfter(undefined)).toBeUndefined();
+		});
+	});
+
+	describe("createHttpError", () => {
+		it("should keep the provider message and attach classification", async () => {
+			const error = await createHttpError("OpenAI", {
+				status: 429,
+				statusText: "Too Many Requests",
+				headers: headers({ "retry-after": "2" }),
+				text: async () => "Rate limit reached",
+			} as Response);
+
+			expect(error).toBeInstanceOf(AIRequestError);
+			expect(error.message).toBe(
+				"OpenAI API error: 429 Too Many Requests - Rate limit reached",
+			);
+			expect(error.kind).toBe("retryable");
+			expect(error.status).toBe(429);
+			expect(error.retryAfterMs).toBe(2000);
+		});
+	});
+
+	describe("getErrorKind", () => {
+		it("should treat unclassified errors as retryable network failures", () => {
+			expect(getErrorKind(new TypeError("fetch failed"))).toBe("retryable");
+		});
+
+		it("should not retry aborts", () => {
+			expect(
+				getErrorKind(new DOMException("Request was aborted", "AbortError")),
+			).toBe("other");
+		});
+
+		it("should detect context length errors", () => {
+			expect(
+				isContextLengthError(new AIRequestError("too long", "context_length")),
+			).toBe(true);
+			expect(isContextLengthError(new Error("too long"))).toBe(false);
+		});
+	});
+});
@@ -10,6 +10,7 @@ vi.mock("node:fs", () => ({
 }));
 
 import * as fs from "node:fs";
+import * as path from "node:path";
 import {
 	readFileContents,
 	formatFilesAsXml,
@@ -101,6 +102,51 @@ describe("fileReader", () => {
 			);
 		});
 
+		it("should read images as base64 attachments", async () => {
+			const png = Buffer.alloc(24);
+			Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png);
+			png.write("IHDR", 12, "ascii");
+			png.writeUInt32BE(640, 16);
+			png.writeUInt32BE(480, 20);
+			vi.mocked(fs.promises.stat).mockResolvedValue({ size: 24 } as any);
+			vi.mocked(fs.promises.readFile).mockResolvedValue(png);
+
+			const result = await readFileContents(
+				[{ path: "shot.png", isDirectory: false }],
+				"/project",
+			);
+
+			expect(fs.promises.readFile).toHaveBeenCalledWith(
+				path.join("/project", "shot.png"),
+			);
+			expect(result.files[0]).toEqual({
+				path: "shot.png",
+				content: "",
+				size: 24,
+				isDirectory: false,
+				image: {
+					mimeType: "image/png",
+					data: png.toString("base64"),
+					width: 640,
+					height: 480,
+				},
+			});
+		});
+
+		it("should report images over the size limit as errors", async () => {
+			vi.mocked(fs.promises.stat).mockResolvedValue({
+				size: 10 * 1024 * 1024,
+			} as any);
+
+			const result = await readFileContents(
+				[{ path: "huge.jpg", isDirectory: false }],
+				"/project",
+			);
+
+			expect(result.files[0]!.error).toContain("Image too large");
+			expect(fs.promises.readFile).not.toHaveBeenCalled();
+		});
+
 		it("should handle non-Error exceptions", async () => {
 			vi.mocked(fs.promises.stat).mockRejectedValue("String error");
 
@@ -114,6 +160,20 @@ describe("fileReader", () => {
 	});
 
 	describe("formatFilesAsXml", () => {
+		it("should reference images by path and size", () => {
+			const result = formatFilesAsXml([
+				{
+					path: "shot.png",
+					content: "",
+					size: 24,
+					isDirectory: false,
+					image: { mimeType: "image/png", data: "", width: 640, height: 480 },
+				},
+			]);
+
+			expect(result).toBe('<image path="shot.png" width="640" height="480" />');
+		});
+
 		it("should format file as XML", () => {
 			const files: FileContent[] = [
 				{
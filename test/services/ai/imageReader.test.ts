@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	getImageMimeType,
+	isImageFile,
+	getImageSize,
+	readImageFile,
+	MAX_IMAGE_BYTES,
+} from "../../../source/services/ai/imageReader.js";
+
+function png(width: number, height: number): Buffer {
+	const buffer = Buffer.alloc(24);
+	Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer);
+	buffer.writeUInt32BE(13, 8);
+	buffer.write("IHDR", 12, "ascii");
+	buffer.writeUInt32BE(width, 16);
+	buffer.writeUInt32BE(height, 20);
+	return buffer;
+}
+
+function gif(width: number, height: number): Buffer {
+	const buffer = Buffer.alloc(10);
+	buffer.write("GIF89a", 0, "ascii");
+	buffer.writeUInt16LE(width, 6);
+	buffer.writeUInt16LE(height, 8);
+	return buffer;
+}
+
+function jpeg(width: number, height: number): Buffer {
+	// SOI, APP0 (length 16), SOF0
+	const app0 = Buffer.alloc(18);
+	app0.writeUInt16BE(0xffe0, 0);
+	app0.writeUInt16BE(16, 2);
+	const sof = Buffer.alloc(11);
+	sof.writeUInt16BE(0xffc0, 0);
+	sof.writeUInt16BE(17, 2);
+	sof[4] = 8;
+	sof.writeUInt16BE(height, 5);
+	sof.writeUInt16BE(width, 7);
+	return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+function webp(chunk: "VP8 " | "VP8L" | "VP8X", width: number, height: number) {
+	const buffer = Buffer.alloc(30);
+	buffer.write("RIFF", 0, "ascii");
+	buffer.write("WEBP", 8, "ascii");
+	buffer.write(chunk, 12, "ascii");
+	if (chunk === "VP8 ") {
+		buffer.writeUInt16LE(width, 26);
+		buffer.writeUInt16LE(height, 28);
+	} else if (chunk === "VP8L") {
+		buffer[20] = 0x2f;
+		buffer.writeUInt32LE((width - 1) | ((height - 1) << 14), 21);
+	} else {
+		buffer.writeUIntLE(width - 1, 24, 3);
+		buffer.writeUIntLE(height - 1, 27, 3);
+	}
+	return buffer;
+}
+
+describe("imageReader", () => {
+	describe("getImageMimeType", () => {
+		it("should detect supported image extensions", () => {
+			expect(getImageMimeType("shot.PNG")).toBe("image/png");
+			expect(getImageMimeType("photo.jpeg")).toBe("image/jpeg");
+			expect(getImageMimeType("anim.gif")).toBe("image/gif");
+			expect(getImageMimeType("img.webp")).toBe("image/webp");
+			expect(isImageFile("icon.svg")).toBe(false);
+			expect(isImageFile("app.ts")).toBe(false);
+		});
+	});
+
+	describe("getImageSize", () => {
+		it("should read PNG, GIF and JPEG dimensions", () => {
+			expect(getImageSize(png(800, 600), "image/png")).toEqual({
+				width: 800,
+				height: 600,
+			});
+			expect(getImageSize(gif(32, 16), "image/gif")).toEqual({
+				width: 32,
+				height: 16,
+			});
+			expect(getImageSize(jpeg(1920, 1080), "image/jpeg")).toEqual({
+				width: 1920,
+				height: 1080,
+			});
+		});
+
+		it("should read all WebP variants", () => {
+			for (const chunk of ["VP8 ", "VP8L", "VP8X"] as const) {
+				expect(getImageSize(webp(chunk, 640, 480), "image/webp")).toEqual({
+					width: 640,
+					height: 480,
+				});
+			}
+		});
+
+		it("should return null for mismatched content", () => {
+			expect(getImageSize(Buffer.from("not an image"), "image/png")).toBeNull();
+			expect(getImageSize(png(1, 1), "image/jpeg")).toBeNull();
+		});
+	});
+
+	describe("readImageFile", () => {
+		let tmpDir: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-image-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should read image as base64 with dimensions", async () => {
+			const file = path.join(tmpDir, "shot.png");
+			fs.writeFileSync(file, png(800, 600));
+
+			expect(await readImageFile(file)).toEqual({
+				mimeType: "image/png",
+				data: png(800, 600).toString("base64"),
+				width: 800,
+				height: 600,
+			});
+		});
+
+		it("should reject files over the size limit", async () => {
+			const file = path.join(tmpDir, "big.png");
+			fs.writeFileSync(
+				file,
+				Buffer.concat([png(800, 600), Buffer.alloc(MAX_IMAGE_BYTES)]),
+			);
+
+			await expect(readImageFile(file)).rejects.toThrow("Image too large");
+			await expect(readImageFile(file)).rejects.toThrow(
+				"re-save it as a compressed JPEG/WebP",
+			);
+		});
+
+		it("should reject images over the dimension limit", async () => {
+			const file = path.join(tmpDir, "wide.png");
+			fs.writeFileSync(file, png(9000, 100));
+
+			await expect(readImageFile(file)).rejects.toThrow(
+				"Image too large: 9000x100 pixels",
+			);
+			await expect(readImageFile(file)).rejects.toThrow(
+				"Resize it so both sides are at most 8000 pixels",
+			);
+		});
+
+		it("should reject corrupted images", async () => {
+			const file = path.join(tmpDir, "broken.jpg");
+			fs.writeFileSync(file, "not a jpeg");
+
+			await expect(readImageFile(file)).rejects.toThrow("Invalid");
+		});
+	});
+});
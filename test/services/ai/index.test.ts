@@ -6,6 +6,8 @@ import {
 } from "../../../source/services/ai/index.js";
 import { OpenAIClient } from "../../../source/services/ai/clients/openai.js";
 import { AnthropicClient } from "../../../source/services/ai/clients/anthropic.js";
+import { GeminiClient } from "../../../source/services/ai/clients/gemini.js";
+import { OllamaClient } from "../../../source/services/ai/clients/ollama.js";
 import { AIService } from "../../../source/services/ai/service.js";
 import type { ModelConfig } from "../../../source/constants/models.js";
 import type { IToolRegistry } from "../../../source/services/tools/types.js";
@@ -78,6 +80,54 @@ describe("AI Service index", () => {
 			expect(result).toBeInstanceOf(AnthropicClient);
 		});
 
+		it("should create Gemini client for gemini protocol", () => {
+			vi.mocked(getModelApiConfig).mockReturnValue({
+				protocol: "gemini",
+				apiKey: "test-api-key",
+				baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+				apiModel: "gemini-2.5-flash",
+			});
+
+			const result = createAIClient({ ...baseModel, protocol: "gemini" });
+
+			expect(result).toBeInstanceOf(GeminiClient);
+		});
+
+		it("should create Ollama client for ollama protocol", () => {
+			vi.mocked(getModelApiConfig).mockReturnValue({
+				protocol: "ollama",
+				baseUrl: "http://localhost:11434",
+				apiModel: "qwen3:8b",
+			});
+
+			const result = createAIClient({ ...baseModel, protocol: "ollama" });
+
+			expect(result).toBeInstanceOf(OllamaClient);
+		});
+
+		it("should pass generation options from model config", () => {
+			vi.mocked(getModelApiConfig).mockReturnValue({
+				protocol: "anthropic",
+				apiKey: "test-api-key",
+				baseUrl: "https://api.anthropic.com",
+				apiModel: "claude-3-opus",
+			});
+
+			const result = createAIClient({
+				...baseModel,
+				apiProtocol: "anthropic",
+				maxOutputTokens: 8192,
+				temperature: 0.3,
+				promptCaching: false,
+			});
+
+			expect(result?.getConfig()).toMatchObject({
+				maxOutputTokens: 8192,
+				temperature: 0.3,
+				promptCaching: false,
+			});
+		});
+
 		it("should default to OpenAI client for unknown protocol", () => {
 			vi.mocked(getModelApiConfig).mockReturnValue({
 				protocol: "unknown" as any,
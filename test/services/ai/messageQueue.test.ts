@@ -6,6 +6,7 @@ import {
 	type QueuedMessage,
 	type StreamContent,
 } from "../../../source/services/ai/messageQueue.js";
+import type { ToolOutputEvent } from "../../../source/services/ai/types.js";
 
 describe("MessageQueue", () => {
 	let mockProcessor: MessageProcessor;
@@ -22,6 +23,7 @@ describe("MessageQueue", () => {
 			onStreamStart: vi.fn(),
 			onStreamChunk: vi.fn(),
 			onStreamEnd: vi.fn(),
+			onToolOutput: vi.fn(),
 		};
 	});
 
@@ -327,6 +329,28 @@ describe("MessageQueue", () => {
 			});
 		});
 
+		it("should forward tool output events", async () => {
+			const event: ToolOutputEvent = {
+				type: "output",
+				callId: "call_1",
+				chunk: "building...\n",
+				stream: "stdout",
+			};
+			const processor: MessageProcessor = vi
+				.fn()
+				.mockImplementation((_, options) => {
+					options?.streamCallbacks?.onToolOutput?.(event);
+					return Promise.resolve("done");
+				});
+
+			const queue = new MessageQueue(processor, mockCallbacks);
+			const id = queue.enqueue("message");
+
+			await vi.waitFor(() => {
+				expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(id, event);
+			});
+		});
+
 		it("should not forward callbacks when stopped", async () => {
 			let triggerChunk: (() => void) | null = null;
 			const processor: MessageProcessor = vi
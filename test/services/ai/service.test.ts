@@ -42,6 +42,21 @@ vi.mock("../../../source/constants/prompts.js", () => ({
 	buildSystemPrompt: vi.fn(() => "Built system prompt"),
 }));
 
+vi.mock("../../../source/utils/memory.js", () => ({
+	loadMemoryFiles: vi.fn(() => []),
+	formatMemory: vi.fn(() => ""),
+}));
+
+vi.mock(
+	"../../../source/services/ai/costTracker.js",
+	async (importOriginal) => ({
+		...(await importOriginal<
+			typeof import("../../../source/services/ai/costTracker.js")
+		>()),
+		recordUsage: vi.fn(),
+	}),
+);
+
 import {
 	AIService,
 	createAIService,
@@ -57,6 +72,14 @@ import type {
 } from "../../../source/services/tools/types.js";
 import { detectProjectType } from "../../../source/services/tools/matcher.js";
 import { buildSystemPrompt } from "../../../source/constants/prompts.js";
+import { formatMemory } from "../../../source/utils/memory.js";
+import { AIRequestError } from "../../../source/services/ai/errors.js";
+import { recordUsage } from "../../../source/services/ai/costTracker.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+import { ToolRegistry } from "../../../source/services/tools/registry.js";
+import { McpClientManager } from "../../../source/services/tools/mcp/client.js";
 
 // Helper to create mock client
 function createMockClient(overrides?: Partial<IAIClient>): IAIClient {
@@ -79,6 +102,7 @@ function createMockRegistry(tools: ToolDefinition[] = []): IToolRegistry {
 		getInstalledTools: vi.fn(() => tools.filter((t) => t.installed)),
 		discoverTools: vi.fn(async () => {}),
 		getToolsByType: vi.fn(() => []),
+		getByCategory: vi.fn(() => []),
 		addTool: vi.fn(),
 		updateTool: vi.fn(),
 		removeTool: vi.fn(),
@@ -281,7 +305,12 @@ describe("AIService", () => {
 
 			await service.sendMessage("Hello", { cwd: "/project" });
 
-			expect(buildSystemPrompt).toHaveBeenCalledWith("/project", "node", false);
+			expect(buildSystemPrompt).toHaveBeenCalledWith(
+				"/project",
+				"node",
+				false,
+				"",
+			);
 		});
 
 		it("should not re-inject context on subsequent messages", async () => {
@@ -295,6 +324,23 @@ describe("AIService", () => {
 			expect(buildSystemPrompt).not.toHaveBeenCalled();
 		});
 
+		it("should re-inject context when memory files change", async () => {
+			const service = new AIService({ client: mockClient }, mockRegistry);
+
+			await service.sendMessage("Hello", { cwd: "/project" });
+			vi.mocked(buildSystemPrompt).mockClear();
+			vi.mocked(formatMemory).mockReturnValueOnce("- Use pnpm");
+
+			await service.sendMessage("World", { cwd: "/project" });
+
+			expect(buildSystemPrompt).toHaveBeenCalledWith(
+				"/project",
+				"node",
+				false,
+				"- Use pnpm",
+			);
+		});
+
 		it("should detect project type from cwd", async () => {
 			const service = new AIService({ client: mockClient }, mockRegistry);
 
@@ -410,6 +456,212 @@ describe("AIService", () => {
 			).rejects.toThrow("Request was aborted");
 		});
 
+		it("should use the override model client for one message", async () => {
+			const overrideClient = createMockClient({
+				chat: vi.fn(
+					async (): Promise<ChatResponse> => ({
+						message: { role: "assistant", content: "Override response" },
+						finish_reason: "stop",
+					}),
+				),
+			});
+			const createClient = vi.fn(() => overrideClient);
+			const service = new AIService(
+				{ client: mockClient, createClient },
+				mockRegistry,
+			);
+
+			const result = await service.streamMessage(
+				"Hello",
+				{},
+				{},
+				{ modelId: "other-model" },
+			);
+			expect(result).toBe("Override response");
+			expect(createClient).toHaveBeenCalledWith("other-model");
+
+			// 下一条消息恢复默认客户端
+			expect(await service.streamMessage("Again")).toBe("Test response");
+		});
+
+		it("should record overrides on the user message", async () => {
+			const service = new AIService({ client: mockClient }, mockRegistry);
+			const overrides = { allowedTools: ["git_status"] };
+
+			await service.streamMessage("Hello", {}, {}, { overrides });
+
+			expect(service.getSession().getLastUserMessage()?.overrides).toEqual(
+				overrides,
+			);
+		});
+
+		it("should reject unconfigured override models before changing history", async () => {
+			const service = new AIService(
+				{ client: mockClient, createClient: () => null },
+				mockRegistry,
+			);
+
+			await expect(
+				service.streamMessage("Hello", {}, {}, { modelId: "missing" }),
+			).rejects.toThrow('Model "missing" is not configured');
+			expect(service.getHistory()).toHaveLength(0);
+		});
+
+		describe("fallback models", () => {
+			const overloaded = new AIRequestError(
+				"Anthropic API error: 529 Overloaded",
+				"retryable",
+				{ status: 529 },
+			);
+
+			const failingStream = (): AsyncGenerator<StreamChunk> => {
+				throw overloaded;
+			};
+
+			function createStreamClient(content: string): IAIClient {
+				return createMockClient({
+					streamChat: vi.fn(async function* () {
+						yield { delta: { content }, finish_reason: "stop" as const };
+					}),
+				});
+			}
+
+			it("should switch to the next fallback model when the request fails", async () => {
+				mockClient.streamChat = vi.fn(() => failingStream());
+				const fallbackClient = createStreamClient("Fallback answer");
+				const createClient = vi.fn((modelId: string) =>
+					modelId === "backup" ? fallbackClient : null,
+				);
+				const service = new AIService(
+					{
+						client: mockClient,
+						createClient,
+						fallbackModels: ["missing", "backup"],
+					},
+					mockRegistry,
+				);
+				const onModelFallback = vi.fn();
+
+				const result = await service.streamMessage(
+					"Hello",
+					{},
+					{ onModelFallback },
+				);
+
+				expect(result).toBe("Fallback answer");
+				expect(onModelFallback).toHaveBeenCalledWith("backup", overloaded);
+				expect(service.getHistory()).toHaveLength(2);
+
+				// 下一条消息重新从主模型开始尝试
+				await service.streamMessage("Again");
+				expect(mockClient.streamChat).toHaveBeenCalledTimes(2);
+				expect(onModelFallback).toHaveBeenCalledTimes(1);
+			});
+
+			it("should skip fallback models without vision when images are sent", async () => {
+				mockClient.streamChat = vi.fn(() => failingStream());
+				const createClient = vi.fn((modelId: string) =>
+					createStreamClient(`Answer from ${modelId}`),
+				);
+				const service = new AIService(
+					{
+						client: mockClient,
+						createClient,
+						fallbackModels: ["text-only", "vision"],
+						supportsVision: (modelId) => modelId === "vision",
+					},
+					mockRegistry,
+				);
+				const images = [
+					{ mimeType: "image/png", data: "AAAA", width: 1, height: 1 },
+				];
+
+				const result = await service.streamMessage(
+					"Describe",
+					{},
+					{},
+					{ images },
+				);
+
+				expect(result).toBe("Answer from vision");
+				expect(createClient).toHaveBeenCalledTimes(1);
+				expect(createClient).toHaveBeenCalledWith("vision");
+			});
+
+			it("should not switch after content has been streamed", async () => {
+				mockClient.streamChat = vi.fn(async function* () {
+					yield { delta: { content: "Partial" }, finish_reason: null };
+					throw overloaded;
+				});
+				const createClient = vi.fn(() => createStreamClient("Fallback"));
+				const service = new AIService(
+					{ client: mockClient, createClient, fallbackModels: ["backup"] },
+					mockRegistry,
+				);
+
+				await expect(service.streamMessage("Hello")).rejects.toThrow(
+					"529 Overloaded",
+				);
+				expect(createClient).not.toHaveBeenCalled();
+			});
+
+			it("should not switch on context length errors", async () => {
+				mockClient.streamChat = vi.fn(() => {
+					throw new AIRequestError("prompt is too long", "context_length");
+				});
+				const createClient = vi.fn(() => createStreamClient("Fallback"));
+				const service = new AIService(
+					{ client: mockClient, createClient, fallbackModels: ["backup"] },
+					mockRegistry,
+				);
+
+				await expect(service.streamMessage("Hello")).rejects.toThrow(
+					"prompt is too long",
+				);
+				expect(createClient).not.toHaveBeenCalled();
+			});
+
+			it("should not use fallbacks for override models", async () => {
+				const createClient = vi.fn((modelId: string) =>
+					modelId === "other-model"
+						? createMockClient({ streamChat: vi.fn(() => failingStream()) })
+						: createStreamClient("Fallback"),
+				);
+				const service = new AIService(
+					{ client: mockClient, createClient, fallbackModels: ["backup"] },
+					mockRegistry,
+				);
+
+				await expect(
+					service.streamMessage("Hello", {}, {}, { modelId: "other-model" }),
+				).rejects.toThrow("529 Overloaded");
+				expect(createClient).toHaveBeenCalledTimes(1);
+			});
+		});
+
+		it("should rollback session on error (non-abort)", async () => {
+			async function* mockStreamChat(): AsyncGenerator<StreamChunk> {
+				yield { delta: { content: "Start" }, finish_reason: null };
+				throw new Error("Network error");
+			}
+
+			mockClient.streamChat = vi.fn(() => mockStreamChat());
+
+			const service = new AIService({ client: mockClient }, mockRegistry);
+
+			// First, add some history
+			await service.sendMessage("Setup");
+			const historyBefore = service.getHistory().length;
+
+			// Now try streaming which will fail
+			await expect(service.streamMessage("Fail")).rejects.toThrow(
+				"Network error",
+			);
+
+			// History should be restored (rollback)
+			expect(service.getHistory().length).toBe(historyBefore);
+		});
+
 		it("should rollback session on error (non-abort)", async () => {
 			async function* mockStreamChat(): AsyncGenerator<StreamChunk> {
 				yield { delta: { content: "Start" }, finish_reason: null };
@@ -792,6 +1044,62 @@ describe("AIService", () => {
 		});
 	});
 
+	describe("MCP tools", () => {
+		it("should always offer tools of connected MCP servers", async () => {
+			const server = new McpServer({ name: "stub", version: "1.0.0" });
+			server.registerTool(
+				"echo",
+				{
+					description: "Echo the text back",
+					inputSchema: { text: z.string() },
+				},
+				async ({ text }) => ({
+					content: [{ type: "text" as const, text }],
+				}),
+			);
+			const registry = new ToolRegistry();
+			const manager = new McpClientManager(registry, () => {
+				const [clientTransport, serverTransport] =
+					InMemoryTransport.createLinkedPair();
+				void server.connect(serverTransport);
+				return clientTransport;
+			});
+			await manager.connectAll({ stub: { command: "stub-server" } });
+
+			try {
+				mockMatcherInstance.autoSelect.mockReturnValue([]);
+				mockMatcherInstance.match.mockReturnValue([]);
+				const streamChat = vi.fn(async function* (
+					_messages: unknown,
+					_tools?: unknown,
+				) {
+					yield { delta: { content: "Done" }, finish_reason: "stop" as const };
+				});
+				const service = new AIService(
+					{ client: createMockClient({ streamChat }) },
+					registry,
+				);
+
+				await service.streamMessage("Hello", { cwd: "/project" });
+				expect(streamChat.mock.calls[0]![1]).toEqual([
+					{ type: "function", function: { name: "mcp-stub" } },
+				]);
+
+				// Plan mode only offers the plan tool
+				await service.streamMessage(
+					"Plan it",
+					{ cwd: "/project" },
+					{},
+					{ planMode: true },
+				);
+				expect(streamChat.mock.calls[1]![1] ?? []).toEqual([]);
+			} finally {
+				await manager.closeAll();
+				await server.close();
+			}
+		});
+	});
+
 	describe("context aware disabled", () => {
 		it("should not use tools when contextAwareEnabled is false", async () => {
 			const tools: ToolDefinition[] = [
@@ -822,6 +1130,49 @@ describe("AIService", () => {
 		});
 	});
 
+	describe("cost tracking", () => {
+		it("should price usage with the model pricing and record it", async () => {
+			const client = createMockClient({
+				chat: vi.fn(
+					async (): Promise<ChatResponse> => ({
+						message: { role: "assistant", content: "Priced" },
+						finish_reason: "stop",
+						usage: {
+							prompt_tokens: 1_000_000,
+							completion_tokens: 100_000,
+							total_tokens: 1_100_000,
+						},
+					}),
+				),
+				getConfig: () => ({ model: "priced-model" }),
+			});
+			const getPricing = vi.fn(() => ({ input: 2, output: 10 }));
+			const service = new AIService({ client, getPricing }, mockRegistry);
+
+			await service.sendMessage("Hello");
+
+			expect(getPricing).toHaveBeenCalledWith("priced-model");
+			expect(service.getSessionStatus().totalCost).toBeCloseTo(3);
+			expect(recordUsage).toHaveBeenCalledWith(
+				expect.objectContaining({
+					model: "priced-model",
+					promptTokens: 1_000_000,
+					completionTokens: 100_000,
+					cost: expect.closeTo(3),
+				}),
+			);
+		});
+
+		it("should not record responses without usage", async () => {
+			const service = new AIService({ client: mockClient }, mockRegistry);
+
+			await service.sendMessage("Hello");
+
+			expect(recordUsage).not.toHaveBeenCalled();
+			expect(service.getSessionStatus().totalCost).toBe(0);
+		});
+	});
+
 	describe("createAIService", () => {
 		it("should create an AIService instance", () => {
 			const service = createAIService({ client: mockClient }, mockRegistry);
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // Mock dependencies
 vi.mock("../../../source/services/ai/tokenEstimator.js", () => ({
 	estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+	estimateImagesTokens: vi.fn((images: unknown[]) => images.length * 1000),
 }));
 
 vi.mock("../../../source/utils/logger.js", () => ({
@@ -93,6 +94,23 @@ describe("Session", () => {
 			expect(messages[0]).toEqual({ role: "user", content: "Hello" });
 		});
 
+		it("should attach images and count their tokens", () => {
+			const session = new Session(defaultConfig);
+			const before = session.getStatus().usedTokens;
+			const image = {
+				mimeType: "image/png",
+				data: "iVBORw0",
+				width: 750,
+				height: 1000,
+			};
+			session.addUserMessage("What is this?", undefined, [image]);
+
+			expect(session.getMessages()[0]!.images).toEqual([image]);
+			expect(session.getStatus().usedTokens - before).toBeGreaterThanOrEqual(
+				1000,
+			);
+		});
+
 		it("should add multiple user messages", () => {
 			const session = new Session(defaultConfig);
 			session.addUserMessage("Hello");
@@ -387,6 +405,218 @@ describe("Session", () => {
 
 			expect(session.getStatus().messageCount).toBe(2);
 		});
+
+		it("should rollback cache token counters", () => {
+			const session = new Session(defaultConfig);
+			const checkpoint = session.checkpoint();
+
+			session.addUserMessage("Message 1");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Response 1" },
+				{
+					prompt_tokens: 100,
+					completion_tokens: 10,
+					total_tokens: 110,
+					cache_read_tokens: 80,
+				},
+			);
+			expect(session.getStatus().cacheReadTokens).toBe(80);
+
+			session.rollback(checkpoint);
+
+			expect(session.getStatus().cacheReadTokens).toBe(0);
+		});
+	});
+
+	describe("rollbackLastTurn", () => {
+		const toolCall = (id: string) => ({
+			id,
+			type: "function" as const,
+			function: { name: "test", arguments: "{}" },
+		});
+
+		it("should remove the last user message with its tool rounds", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Message 1");
+			session.addAssistantMessage({ role: "assistant", content: "Response 1" });
+			session.addUserMessage("full content", "Message 2");
+			session.addAssistantMessage({
+				role: "assistant",
+				content: "Checking",
+				tool_calls: [toolCall("call_1")],
+			});
+			session.addToolMessage({
+				role: "tool",
+				content: "Result",
+				tool_call_id: "call_1",
+			});
+			session.addAssistantMessage({ role: "assistant", content: "Response 2" });
+
+			expect(session.getLastUserMessage()?.displayContent).toBe("Message 2");
+
+			const message = session.rollbackLastTurn();
+
+			expect(message).toMatchObject({
+				role: "user",
+				content: "full content",
+				displayContent: "Message 2",
+			});
+			expect(session.getHistory().map((m) => m.content)).toEqual([
+				"Message 1",
+				"Response 1",
+			]);
+			expect(session.validateMessages().valid).toBe(true);
+		});
+
+		it("should return the overrides of the removed message", () => {
+			const session = new Session(defaultConfig);
+			const overrides = { model: "other-model", allowedTools: ["git_*"] };
+			session.addUserMessage("Message 1", undefined, undefined, overrides);
+			session.addAssistantMessage({ role: "assistant", content: "Response 1" });
+
+			expect(session.rollbackLastTurn()?.overrides).toEqual(overrides);
+		});
+
+		it("should return null when there is no user message", () => {
+			const session = new Session(defaultConfig);
+			session.compactWith("Summary");
+
+			expect(session.getLastUserMessage()).toBeNull();
+			expect(session.rollbackLastTurn()).toBeNull();
+			expect(session.getStatus().messageCount).toBe(1);
+		});
+
+		it("should remove completion tokens of the removed replies", () => {
+			const session = new Session(defaultConfig);
+			const usage = (completion: number): TokenUsage => ({
+				prompt_tokens: 100,
+				completion_tokens: completion,
+				total_tokens: 100 + completion,
+				cache_read_tokens: 50,
+			});
+			session.addUserMessage("Message 1");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Response 1" },
+				usage(10),
+			);
+			session.addUserMessage("Message 2");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Response 2" },
+				usage(30),
+			);
+
+			session.rollbackLastTurn();
+
+			const state = session.getInternalState();
+			expect(state.actualCompletionTokens).toBe(10);
+			expect(state.actualPromptTokens).toBe(0);
+			// 缓存统计是已产生的用量，不回滚
+			expect(state.cacheReadTokens).toBe(100);
+		});
+
+		it("should repair tool calls left unanswered by an earlier turn", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Message 1");
+			// 被中止的轮次：tool_call 没有结果
+			session.addAssistantMessage({
+				role: "assistant",
+				content: "",
+				tool_calls: [toolCall("call_1")],
+			});
+			session.addUserMessage("Message 2");
+			session.addAssistantMessage({ role: "assistant", content: "Response 2" });
+
+			session.rollbackLastTurn();
+
+			expect(session.validateMessages().valid).toBe(true);
+		});
+	});
+
+	describe("prompt cache tokens", () => {
+		it("should accumulate cache tokens from usage", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi" },
+				{
+					prompt_tokens: 1200,
+					completion_tokens: 10,
+					total_tokens: 1210,
+					cache_creation_tokens: 1000,
+				},
+			);
+			session.addUserMessage("Again");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi again" },
+				{
+					prompt_tokens: 1300,
+					completion_tokens: 10,
+					total_tokens: 1310,
+					cache_read_tokens: 1000,
+					cache_creation_tokens: 50,
+				},
+			);
+
+			const status = session.getStatus();
+			expect(status.cacheReadTokens).toBe(1000);
+			expect(status.cacheCreationTokens).toBe(1050);
+		});
+
+		it("should reset cache tokens on clear", () => {
+			const session = new Session(defaultConfig);
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi" },
+				{
+					prompt_tokens: 100,
+					completion_tokens: 10,
+					total_tokens: 110,
+					cache_read_tokens: 90,
+				},
+			);
+
+			session.clear();
+
+			expect(session.getStatus().cacheReadTokens).toBe(0);
+		});
+
+		it("should restore state saved without cache tokens", () => {
+			const session = new Session(defaultConfig);
+			session.restoreFromState({
+				messages: [],
+				systemPrompt: null,
+				actualPromptTokens: 0,
+				actualCompletionTokens: 0,
+			});
+
+			const status = session.getStatus();
+			expect(status.cacheReadTokens).toBe(0);
+			expect(status.cacheCreationTokens).toBe(0);
+		});
+	});
+
+	describe("session cost", () => {
+		it("should accumulate cost and keep it through rollback and compact", () => {
+			const session = new Session(defaultConfig);
+			session.addCost(0.25);
+			const checkpoint = session.checkpoint();
+			session.addCost(0.5);
+			session.rollback(checkpoint);
+			session.compactWith("Summary");
+
+			expect(session.getStatus().totalCost).toBeCloseTo(0.75);
+		});
+
+		it("should persist cost and reset it on clear", () => {
+			const session = new Session(defaultConfig);
+			session.addCost(1.5);
+
+			const restored = new Session(defaultConfig);
+			restored.restoreFromState(session.getInternalState());
+			expect(restored.getStatus().totalCost).toBe(1.5);
+
+			session.clear();
+			expect(session.getStatus().totalCost).toBe(0);
+		});
 	});
 
 	describe("validateMessages", () => {
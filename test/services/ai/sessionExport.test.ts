@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	buildTranscript,
+	renderMarkdown,
+	renderHtml,
+	renderJson,
+	exportSession,
+	parseSessionExport,
+} from "../../../source/services/ai/sessionExport.js";
+import type { SerializedSession } from "../../../source/services/ai/sessionStore.js";
+import type { ChatMessage } from "../../../source/services/ai/types.js";
+
+function entry(message: ChatMessage, timestamp = 1000) {
+	return { message, tokens: 1, isActual: false, timestamp };
+}
+
+const session: SerializedSession = {
+	info: {
+		id: "12345678-aaaa-bbbb-cccc-dddddddddddd",
+		name: "Fix <bug>",
+		createdAt: 0,
+		updatedAt: 60000,
+		tokenUsage: 120,
+		messageCount: 6,
+		isActive: true,
+	},
+	messages: [
+		entry({
+			role: "user",
+			content: "Fix it\n\n<file>...</file>",
+			displayContent: "Fix it @a.ts",
+		}),
+		entry({
+			role: "assistant",
+			content: "",
+			reasoning_content: "Look at the file",
+			tool_calls: [
+				{
+					id: "call_1",
+					type: "function",
+					function: { name: "file_read", arguments: '{"path":"a.ts"}' },
+				},
+				{
+					id: "call_2",
+					type: "function",
+					function: {
+						name: "askuser_ask",
+						arguments:
+							'{"question":"Which fix?","options":"[\\"A\\",\\"B\\"]"}',
+					},
+				},
+			],
+		}),
+		entry({ role: "tool", tool_call_id: "call_1", content: "const a = 1;" }),
+		entry({
+			role: "tool",
+			tool_call_id: "call_2",
+			content: "[Ask User] User answered: B",
+		}),
+		entry({ role: "assistant", content: "Done with ```code```" }),
+	],
+	tokenState: { actualPromptTokens: 100, actualCompletionTokens: 20 },
+};
+
+describe("sessionExport", () => {
+	describe("buildTranscript", () => {
+		it("should attach tool results and ask_user answers", () => {
+			const transcript = buildTranscript(session.messages);
+
+			expect(transcript).toHaveLength(3);
+			expect(transcript[0]).toEqual({
+				type: "user",
+				content: "Fix it @a.ts",
+				timestamp: 1000,
+			});
+			expect(transcript[1]).toMatchObject({
+				type: "assistant",
+				reasoning: "Look at the file",
+				toolCalls: [
+					{
+						name: "file_read",
+						arguments: '{\n  "path": "a.ts"\n}',
+						result: "const a = 1;",
+					},
+				],
+				askUser: { question: "Which fix?", options: ["A", "B"], answer: "B" },
+			});
+		});
+	});
+
+	describe("renderMarkdown", () => {
+		it("should include header, messages and tool calls", () => {
+			const markdown = renderMarkdown(session, "gpt-4o", 120000);
+
+			expect(markdown).toContain("# Fix <bug>");
+			expect(markdown).toContain("- **Model:** gpt-4o");
+			expect(markdown).toContain("prompt 100, completion 20");
+			expect(markdown).toContain("- **Exported:** 1970-01-01T00:02:00.000Z");
+			expect(markdown).toContain("> Look at the file");
+			expect(markdown).toContain("**Tool call:** `file_read`");
+			expect(markdown).toContain("**Answer:** B");
+			expect(markdown).not.toContain("<file>");
+		});
+	});
+
+	describe("renderHtml", () => {
+		it("should escape content and use collapsible blocks", () => {
+			const html = renderHtml(session, null);
+
+			expect(html).toContain("<title>Fix &lt;bug&gt;</title>");
+			expect(html).toContain("<details><summary>Reasoning</summary>");
+			expect(html).toContain("Tool call: <code>file_read</code>");
+			expect(html).not.toContain("<bug>");
+		});
+	});
+
+	describe("JSON round trip", () => {
+		it("should parse exported JSON back into session data", () => {
+			const parsed = parseSessionExport(renderJson(session, "gpt-4o"));
+			expect(parsed).toEqual(session);
+		});
+
+		it("should accept raw session files", () => {
+			expect(parseSessionExport(JSON.stringify(session))).toEqual(session);
+		});
+
+		it("should reject unrelated JSON", () => {
+			expect(() => parseSessionExport('{"foo":1}')).toThrow(
+				"Not an axiomate session export",
+			);
+		});
+	});
+
+	describe("exportSession", () => {
+		let tmpDir: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-export-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should write to the default file name in cwd", () => {
+			const file = exportSession(session, "md", { cwd: tmpDir, model: null });
+
+			expect(file).toBe(path.join(tmpDir, "session-12345678.md"));
+			expect(fs.readFileSync(file, "utf-8")).toContain("## User");
+		});
+
+		it("should write to a relative target path", () => {
+			const file = exportSession(session, "json", {
+				target: "out/chat.json",
+				cwd: tmpDir,
+				model: null,
+			});
+
+			expect(file).toBe(path.join(tmpDir, "out", "chat.json"));
+			expect(JSON.parse(fs.readFileSync(file, "utf-8")).type).toBe(
+				"axiomate-session",
+			);
+		});
+	});
+});
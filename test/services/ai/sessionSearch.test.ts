@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	SessionSearchIndex,
+	parseSearchQuery,
+	createSnippet,
+	highlightSnippet,
+} from "../../../source/services/ai/sessionSearch.js";
+import type {
+	SerializedSession,
+	SessionInfo,
+} from "../../../source/services/ai/sessionStore.js";
+import type { ChatMessage } from "../../../source/services/ai/types.js";
+
+function info(id: string, updatedAt = 1000): SessionInfo {
+	return {
+		id,
+		name: `Session ${id}`,
+		createdAt: 1000,
+		updatedAt,
+		tokenUsage: 0,
+		messageCount: 0,
+		isActive: false,
+	};
+}
+
+function session(
+	id: string,
+	messages: ChatMessage[],
+	updatedAt = 1000,
+): SerializedSession {
+	return {
+		info: info(id, updatedAt),
+		messages: messages.map((message, i) => ({
+			message,
+			tokens: 1,
+			isActual: false,
+			timestamp: i + 1,
+		})),
+		tokenState: { actualPromptTokens: 0, actualCompletionTokens: 0 },
+	};
+}
+
+describe("sessionSearch", () => {
+	describe("parseSearchQuery", () => {
+		it("should escape keywords and keep quoted phrases together", () => {
+			const patterns = parseSearchQuery('crlf "line endings" a.b');
+
+			expect(patterns.map((p) => p.source)).toEqual([
+				"crlf",
+				"line endings",
+				"a\\.b",
+			]);
+			expect(patterns.every((p) => p.flags === "gi")).toBe(true);
+		});
+
+		it("should parse /regex/flags", () => {
+			const [pattern] = parseSearchQuery("/CR\\s?LF/i");
+
+			expect(pattern!.source).toBe("CR\\s?LF");
+			expect(pattern!.flags).toBe("gi");
+		});
+
+		it("should throw on invalid regex", () => {
+			expect(() => parseSearchQuery("/(unclosed/")).toThrow();
+		});
+	});
+
+	describe("createSnippet", () => {
+		it("should cut context around the first match and highlight matches", () => {
+			const text = `${"x ".repeat(60)}fix the CRLF bug\nin the parser ${"y ".repeat(60)}`;
+			const snippet = createSnippet(text, parseSearchQuery("crlf parser"));
+
+			expect(snippet.text.startsWith("...")).toBe(true);
+			expect(snippet.text.endsWith("...")).toBe(true);
+			expect(highlightSnippet(snippet, (s) => `[${s}]`)).toContain(
+				"fix the [CRLF] bug in the [parser]",
+			);
+		});
+
+		it("should merge overlapping highlights", () => {
+			const snippet = createSnippet("abcdef", parseSearchQuery("/abc|bcd/"));
+
+			expect(snippet.highlights).toEqual([[0, 3]]);
+			expect(createSnippet("abcdef", [/abc/g, /bcd/g]).highlights).toEqual([
+				[0, 4],
+			]);
+		});
+	});
+
+	describe("SessionSearchIndex", () => {
+		let tmpDir: string;
+		let indexDir: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-search-"));
+			indexDir = path.join(tmpDir, "search-index");
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should search user text, assistant text and tool output", () => {
+			const index = new SessionSearchIndex(indexDir);
+			index.update(
+				session("a", [
+					{ role: "system", content: "system crlf" },
+					{
+						role: "user",
+						content: "<file>...</file> why does git show changes",
+						displayContent: "@a.ts why does git show changes",
+					},
+					{ role: "assistant", content: "Line endings differ (CRLF)." },
+					{ role: "tool", content: "warning: LF will be replaced by CRLF" },
+				]),
+			);
+			index.update(session("b", [{ role: "user", content: "unrelated" }]));
+
+			const results = index.search(parseSearchQuery("crlf"), [
+				info("b"),
+				info("a"),
+			]);
+
+			expect(results).toHaveLength(1);
+			expect(results[0]!.session.id).toBe("a");
+			expect(results[0]!.matches).toBe(2);
+			expect(results[0]!.snippet.text).toBe(
+				"warning: LF will be replaced by CRLF",
+			);
+			expect(index.search(parseSearchQuery("@a.ts"), [info("a")])).toHaveLength(
+				1,
+			);
+		});
+
+		it("should require every keyword somewhere in the session", () => {
+			const index = new SessionSearchIndex(indexDir);
+			index.update(
+				session("a", [
+					{ role: "user", content: "the parser fails" },
+					{ role: "assistant", content: "it is a CRLF issue" },
+				]),
+			);
+
+			expect(
+				index.search(parseSearchQuery("crlf parser"), [info("a")]),
+			).toHaveLength(1);
+			expect(
+				index.search(parseSearchQuery("crlf lexer"), [info("a")]),
+			).toHaveLength(0);
+		});
+
+		it("should append new messages and rebuild after a rewind", () => {
+			const index = new SessionSearchIndex(indexDir);
+			const messages: ChatMessage[] = [{ role: "user", content: "first" }];
+			index.update(session("a", messages));
+			index.update(
+				session("a", [...messages, { role: "assistant", content: "second" }]),
+			);
+			expect(
+				index.search(parseSearchQuery("first second"), [info("a")]),
+			).toHaveLength(1);
+
+			index.update(session("a", [{ role: "user", content: "replaced" }]));
+			expect(index.search(parseSearchQuery("second"), [info("a")])).toEqual([]);
+			expect(
+				index.search(parseSearchQuery("replaced"), [info("a")]),
+			).toHaveLength(1);
+		});
+
+		it("should persist the index and track freshness", () => {
+			const index = new SessionSearchIndex(indexDir);
+			index.update(session("a", [{ role: "user", content: "hello" }], 2000));
+			index.save();
+
+			const reloaded = new SessionSearchIndex(indexDir);
+			expect(reloaded.isUpToDate(info("a", 2000))).toBe(true);
+			expect(reloaded.isUpToDate(info("a", 3000))).toBe(false);
+			expect(reloaded.isUpToDate(info("b"))).toBe(false);
+
+			reloaded.remove("a");
+			expect(new SessionSearchIndex(indexDir).isUpToDate(info("a"))).toBe(
+				false,
+			);
+		});
+
+		it("should start from an empty entry when the file is corrupted", () => {
+			fs.mkdirSync(indexDir);
+			fs.writeFileSync(path.join(indexDir, "a.json"), "{not json");
+			const index = new SessionSearchIndex(indexDir);
+
+			expect(index.search(parseSearchQuery("x"), [info("a")])).toEqual([]);
+			expect(index.isUpToDate(info("a"))).toBe(false);
+		});
+
+		it("should only write sessions updated since the last save", () => {
+			const index = new SessionSearchIndex(indexDir);
+			index.update(session("a", [{ role: "user", content: "first" }]));
+			index.update(session("b", [{ role: "user", content: "second" }]));
+			index.save();
+			expect(fs.readdirSync(indexDir).sort()).toEqual(["a.json", "b.json"]);
+
+			const aPath = path.join(indexDir, "a.json");
+			fs.writeFileSync(aPath, "untouched");
+			index.update(
+				session("b", [
+					{ role: "user", content: "second" },
+					{ role: "assistant", content: "changed" },
+				]),
+			);
+			index.save();
+
+			expect(fs.readFileSync(aPath, "utf-8")).toBe("untouched");
+			expect(fs.readFileSync(path.join(indexDir, "b.json"), "utf-8")).toContain(
+				"changed",
+			);
+		});
+
+		it("should delete every entry on clear", () => {
+			const index = new SessionSearchIndex(indexDir);
+			index.update(session("a", [{ role: "user", content: "hello" }]));
+			index.save();
+
+			index.clear();
+
+			expect(fs.existsSync(indexDir)).toBe(false);
+			expect(index.isUpToDate(info("a", 0))).toBe(false);
+		});
+
+		it("should stop at the result limit", () => {
+			const index = new SessionSearchIndex(indexDir);
+			for (const id of ["a", "b", "c"]) {
+				index.update(session(id, [{ role: "user", content: "match" }]));
+			}
+
+			expect(
+				index.search(
+					parseSearchQuery("match"),
+					[info("a"), info("b"), info("c")],
+					2,
+				),
+			).toHaveLength(2);
+		});
+	});
+});
@@ -9,6 +9,7 @@ vi.mock("node:fs", () => ({
 	mkdirSync: vi.fn(),
 	renameSync: vi.fn(),
 	unlinkSync: vi.fn(),
+	rmSync: vi.fn(),
 }));
 
 const mockRandomUUID = vi.fn(() => "test-uuid-1234");
@@ -170,6 +171,13 @@ describe("SessionStore", () => {
 			const session = store.createSession("My Custom Session");
 			expect(session.name).toBe("My Custom Session");
 		});
+
+		it("should record the working directory", async () => {
+			const store = new SessionStore(4096);
+			await store.initialize();
+
+			expect(store.createSession().cwd).toBe(process.cwd());
+		});
 	});
 
 	describe("getActiveSession", () => {
@@ -282,6 +290,55 @@ describe("SessionStore", () => {
 		});
 	});
 
+	describe("importSession", () => {
+		it("should save imported data as a new inactive session", async () => {
+			const store = new SessionStore(4096);
+			await store.initialize();
+			mockRandomUUID.mockReturnValue("imported-uuid");
+
+			const info = store.importSession({
+				info: {
+					id: "original-id",
+					name: "Shared chat",
+					createdAt: 1000,
+					updatedAt: 2000,
+					tokenUsage: 42,
+					messageCount: 1,
+					isActive: true,
+				},
+				messages: [
+					{
+						message: { role: "user", content: "Hi" },
+						tokens: 1,
+						isActual: false,
+						timestamp: 1000,
+					},
+				],
+				tokenState: { actualPromptTokens: 10, actualCompletionTokens: 5 },
+			});
+
+			expect(info).toMatchObject({
+				id: "imported-uuid",
+				name: "Shared chat",
+				createdAt: 1000,
+				tokenUsage: 42,
+				messageCount: 1,
+				isActive: false,
+			});
+			expect(info.cwd).toBeUndefined();
+			expect(store.getSessionById("imported-uuid")).toBe(info);
+			const written = vi
+				.mocked(fs.writeFileSync)
+				.mock.calls.find(([file]) =>
+					String(file).includes("imported-uuid.json"),
+				);
+			expect(JSON.parse(String(written![1])).tokenState).toEqual({
+				actualPromptTokens: 10,
+				actualCompletionTokens: 5,
+			});
+		});
+	});
+
 	describe("deleteSession", () => {
 		it("should not delete active session", async () => {
 			vi.mocked(fs.existsSync).mockReturnValue(false);
@@ -475,6 +532,61 @@ describe("SessionStore", () => {
 			// Should not call writeFileSync for session data (only index)
 			expect(mockSession.getInternalState).not.toHaveBeenCalled();
 		});
+
+		it("should persist cost and cache tokens across save and load", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+
+			const store = new SessionStore(4096);
+			await store.initialize();
+
+			const mockSession = {
+				getInternalState: vi.fn(() => ({
+					messages: [],
+					systemPrompt: null,
+					actualPromptTokens: 10,
+					actualCompletionTokens: 20,
+					cacheReadTokens: 300,
+					cacheCreationTokens: 40,
+					totalCost: 0.125,
+				})),
+				getStatus: vi.fn(() => ({
+					usedTokens: 30,
+					messageCount: 0,
+				})),
+			};
+
+			vi.mocked(fs.writeFileSync).mockClear();
+			store.saveSession(mockSession as any, "test-uuid-1234");
+
+			const written = vi
+				.mocked(fs.writeFileSync)
+				.mock.calls.find(([file]) =>
+					String(file).includes("test-uuid-1234.json"),
+				);
+			expect(written).toBeDefined();
+			const data = JSON.parse(String(written![1]));
+			expect(data.tokenState).toEqual({
+				actualPromptTokens: 10,
+				actualCompletionTokens: 20,
+				cacheReadTokens: 300,
+				cacheCreationTokens: 40,
+				totalCost: 0.125,
+			});
+
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(data));
+
+			const session = await store.loadSession("test-uuid-1234");
+			expect(session!.restoreFromState).toHaveBeenCalledWith(
+				expect.objectContaining({
+					actualPromptTokens: 10,
+					actualCompletionTokens: 20,
+					cacheReadTokens: 300,
+					cacheCreationTokens: 40,
+					totalCost: 0.125,
+				}),
+			);
+		});
 	});
 
 	describe("initialize with existing sessions and no active", () => {
@@ -546,6 +658,415 @@ describe("SessionStore", () => {
 		});
 	});
 
+	describe("resume lookups", () => {
+		const session = (
+			id: string,
+			name: string,
+			updatedAt: number,
+			extra: Record<string, unknown> = {},
+		) => ({
+			id,
+			name,
+			createdAt: 1000,
+			updatedAt,
+			tokenUsage: 100,
+			messageCount: 2,
+			isActive: false,
+			...extra,
+		});
+
+		async function loadStore(sessions: ReturnType<typeof session>[]) {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ version: 1, activeSessionId: null, sessions }),
+			);
+			const store = new SessionStore(4096);
+			await store.initialize();
+			return store;
+		}
+
+		it("should find the latest non-empty session for a directory", async () => {
+			const store = await loadStore([
+				session("aaa11111", "Old", 1000, { cwd: "/work/app" }),
+				session("bbb22222", "Newer", 2000, { cwd: "/work/app" }),
+				session("ccc33333", "Other dir", 3000, { cwd: "/work/other" }),
+				session("ddd44444", "Legacy", 4000),
+			]);
+
+			expect(store.getLatestSessionForCwd("/work/app/")?.id).toBe("bbb22222");
+			expect(store.getLatestSessionForCwd("/work/none")).toBeNull();
+		});
+
+		it("should find sessions by id, name or id prefix", async () => {
+			const store = await loadStore([
+				session("abc11111", "Fix login", 1000),
+				session("abc22222", "fix login", 2000),
+				session("def33333", "Refactor", 3000),
+			]);
+
+			expect(store.findSessions("def33333").map((s) => s.id)).toEqual([
+				"def33333",
+			]);
+			expect(store.findSessions("FIX LOGIN").map((s) => s.id)).toEqual([
+				"abc22222",
+				"abc11111",
+			]);
+			expect(store.findSessions("abc").map((s) => s.id)).toEqual([
+				"abc22222",
+				"abc11111",
+			]);
+			expect(store.findSessions("zzz")).toEqual([]);
+			expect(store.findSessions("  ")).toEqual([]);
+		});
+
+		it("should preview the last user and assistant messages", async () => {
+			const store = await loadStore([session("abc11111", "Chat", 1000)]);
+			const message = (role: string, content: string, extra = {}) => ({
+				message: { role, content, ...extra },
+				tokens: 1,
+				isActual: false,
+				timestamp: 1000,
+			});
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					info: session("abc11111", "Chat", 1000),
+					messages: [
+						message("user", "first"),
+						message("assistant", "reply"),
+						message("user", "<file>...</file> second", {
+							displayContent: "@a.ts second",
+						}),
+						message("assistant", "", { tool_calls: [] }),
+						message("tool", "tool output"),
+						message("assistant", "done"),
+					],
+					tokenState: { actualPromptTokens: 0, actualCompletionTokens: 0 },
+				}),
+			);
+
+			expect(store.getSessionPreview("abc11111", 3)).toEqual([
+				{ role: "assistant", content: "reply" },
+				{ role: "user", content: "@a.ts second" },
+				{ role: "assistant", content: "done" },
+			]);
+			expect(store.getSessionPreview("missing")).toEqual([]);
+		});
+	});
+
+	describe("project scoping", () => {
+		const session = (id: string, updatedAt: number, projectRoot?: string) => ({
+			id,
+			name: id,
+			createdAt: 1000,
+			updatedAt,
+			tokenUsage: 100,
+			messageCount: 2,
+			isActive: false,
+			...(projectRoot ? { projectRoot } : {}),
+		});
+
+		async function loadStore(index: Record<string, unknown>) {
+			vi.mocked(fs.existsSync).mockImplementation(
+				(p) => typeof p === "string" && p.includes("index.json"),
+			);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ version: 1, activeSessionId: null, ...index }),
+			);
+			const store = new SessionStore(4096, "/work/app");
+			await store.initialize();
+			return store;
+		}
+
+		function lastSavedIndex() {
+			const calls = vi
+				.mocked(fs.writeFileSync)
+				.mock.calls.filter(([file]) => String(file).includes("index.json"));
+			return JSON.parse(String(calls[calls.length - 1]![1]));
+		}
+
+		it("should restore the last active session of this project", async () => {
+			const store = await loadStore({
+				activeSessionId: "other-1",
+				activeSessionIds: { "/work/app": "app-1", "/work/other": "other-1" },
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("app-2", 2000, "/work/app"),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+
+			expect(store.getActiveSessionId()).toBe("app-1");
+		});
+
+		it("should not restore a global active session from another project", async () => {
+			const store = await loadStore({
+				activeSessionId: "other-1",
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+
+			expect(store.getActiveSessionId()).toBe("app-1");
+		});
+
+		it("should create a session when this project has none", async () => {
+			mockRandomUUID.mockReturnValue("new-app-session");
+			const store = await loadStore({
+				activeSessionId: "other-1",
+				activeSessionIds: { "/work/other": "other-1" },
+				sessions: [session("other-1", 3000, "/work/other")],
+			});
+
+			expect(store.getActiveSessionId()).toBe("new-app-session");
+			expect(store.getActiveSession()!.projectRoot).toBe("/work/app");
+			expect(lastSavedIndex().activeSessionIds).toEqual({
+				"/work/app": "new-app-session",
+				"/work/other": "other-1",
+			});
+		});
+
+		it("should list this project's and legacy sessions unless all is requested", async () => {
+			const store = await loadStore({
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("legacy", 2000),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+
+			expect(store.listSessions().map((s) => s.id)).toEqual([
+				"legacy",
+				"app-1",
+			]);
+			expect(store.listSessions({ all: true }).map((s) => s.id)).toEqual([
+				"other-1",
+				"legacy",
+				"app-1",
+			]);
+		});
+
+		it("should forget active sessions that were deleted", async () => {
+			const store = await loadStore({
+				activeSessionIds: { "/work/app": "app-1", "/work/other": "other-1" },
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+
+			store.deleteSession("other-1");
+
+			expect(lastSavedIndex().activeSessionIds).toEqual({
+				"/work/app": "app-1",
+			});
+		});
+
+		it("should only clear this project's sessions", async () => {
+			const store = await loadStore({
+				activeSessionIds: { "/work/app": "app-1", "/work/other": "other-1" },
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("legacy", 2000),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+			mockRandomUUID.mockReturnValue("new-app-session");
+
+			store.clearAllSessions();
+
+			expect(store.listSessions({ all: true }).map((s) => s.id)).toEqual([
+				"new-app-session",
+				"other-1",
+			]);
+			expect(fs.unlinkSync).not.toHaveBeenCalledWith(
+				expect.stringContaining("other-1"),
+			);
+			expect(lastSavedIndex().activeSessionIds).toEqual({
+				"/work/app": "new-app-session",
+				"/work/other": "other-1",
+			});
+		});
+
+		it("should clear every project's sessions with all", async () => {
+			const store = await loadStore({
+				activeSessionIds: { "/work/app": "app-1", "/work/other": "other-1" },
+				sessions: [
+					session("app-1", 1000, "/work/app"),
+					session("other-1", 3000, "/work/other"),
+				],
+			});
+			mockRandomUUID.mockReturnValue("new-app-session");
+
+			store.clearAllSessions({ all: true });
+
+			expect(store.listSessions({ all: true }).map((s) => s.id)).toEqual([
+				"new-app-session",
+			]);
+		});
+	});
+
+	describe("forkSession", () => {
+		const parent = {
+			id: "parent-id",
+			name: "Refactor parser",
+			createdAt: 1000,
+			updatedAt: 2000,
+			tokenUsage: 500,
+			messageCount: 4,
+			isActive: false,
+			cwd: "/work/app/src",
+			projectRoot: "/work/app",
+		};
+		const message = (role: string, content: string, tokens: number) => ({
+			message: { role, content },
+			tokens,
+			isActual: false,
+			timestamp: 1000,
+		});
+
+		async function loadStore() {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockImplementation((p) =>
+				String(p).endsWith("index.json")
+					? JSON.stringify({
+							version: 1,
+							activeSessionId: "parent-id",
+							sessions: [parent],
+						})
+					: JSON.stringify({
+							info: parent,
+							messages: [
+								message("user", "first", 10),
+								message("assistant", "answer one", 20),
+								message("user", "second", 30),
+								message("assistant", "answer two", 40),
+							],
+							tokenState: {
+								actualPromptTokens: 300,
+								actualCompletionTokens: 60,
+							},
+						}),
+			);
+			const store = new SessionStore(4096, "/work/app");
+			await store.initialize();
+			mockRandomUUID.mockReturnValue("fork-id");
+			return store;
+		}
+
+		function writtenSession(id: string) {
+			const call = vi
+				.mocked(fs.writeFileSync)
+				.mock.calls.find(([file]) => String(file).includes(`${id}.json`));
+			return JSON.parse(String(call![1]));
+		}
+
+		it("should list user messages in order", async () => {
+			const store = await loadStore();
+
+			expect(store.listUserMessages("parent-id")).toEqual(["first", "second"]);
+		});
+
+		it("should copy the whole history with a parent link", async () => {
+			const store = await loadStore();
+
+			const fork = store.forkSession("parent-id");
+
+			expect(fork).toMatchObject({
+				id: "fork-id",
+				name: "Refactor parser (fork)",
+				messageCount: 4,
+				tokenUsage: 500,
+				parentId: "parent-id",
+				projectRoot: "/work/app",
+				cwd: "/work/app/src",
+			});
+			expect(fork!.forkPoint).toBeUndefined();
+			expect(writtenSession("fork-id").tokenState).toEqual({
+				actualPromptTokens: 300,
+				actualCompletionTokens: 60,
+			});
+			expect(store.getActiveSessionId()).toBe("parent-id");
+		});
+
+		it("should copy the history before the chosen user message", async () => {
+			const store = await loadStore();
+
+			const fork = store.forkSession("parent-id", 2);
+
+			expect(fork).toMatchObject({
+				messageCount: 2,
+				tokenUsage: 30,
+				forkPoint: 2,
+			});
+			const data = writtenSession("fork-id");
+			expect(
+				data.messages.map(
+					(m: { message: { content: string } }) => m.message.content,
+				),
+			).toEqual(["first", "answer one"]);
+			expect(data.tokenState).toEqual({
+				actualPromptTokens: 0,
+				actualCompletionTokens: 0,
+			});
+		});
+
+		it("should return null for an invalid message number or session", async () => {
+			const store = await loadStore();
+
+			expect(store.forkSession("parent-id", 3)).toBeNull();
+			expect(store.forkSession("missing")).toBeNull();
+		});
+	});
+
+	describe("searchSessions", () => {
+		it("should index sessions missing from the search index before searching", async () => {
+			const info = {
+				id: "abc11111",
+				name: "CRLF fix",
+				createdAt: 1000,
+				updatedAt: 2000,
+				tokenUsage: 100,
+				messageCount: 1,
+				isActive: false,
+			};
+			vi.mocked(fs.existsSync).mockImplementation(
+				(p) => typeof p === "string" && !p.includes("search-index"),
+			);
+			vi.mocked(fs.readFileSync).mockImplementation((p) =>
+				String(p).includes("index.json")
+					? JSON.stringify({
+							version: 1,
+							activeSessionId: "abc11111",
+							sessions: [info],
+						})
+					: JSON.stringify({
+							info,
+							messages: [
+								{
+									message: { role: "user", content: "fix the CRLF bug" },
+									tokens: 1,
+									isActual: false,
+									timestamp: 1000,
+								},
+							],
+							tokenState: { actualPromptTokens: 0, actualCompletionTokens: 0 },
+						}),
+			);
+			const store = new SessionStore(4096);
+			await store.initialize();
+
+			const results = store.searchSessions("crlf");
+
+			expect(results.map((r) => r.session.id)).toEqual(["abc11111"]);
+			expect(fs.writeFileSync).toHaveBeenCalledWith(
+				"/mock/sessions/search-index/abc11111.json.tmp",
+				expect.stringContaining("fix the CRLF bug"),
+			);
+			expect(store.searchSessions("lexer")).toEqual([]);
+		});
+	});
+
 	describe("rebuildIndexFromFiles", () => {
 		it("should rebuild from session files", async () => {
 			vi.mocked(fs.existsSync).mockImplementation((p) => {
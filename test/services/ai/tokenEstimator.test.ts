@@ -2,6 +2,8 @@ import { describe, it, expect, beforeAll } from "vitest";
 import { initI18n, setLocale } from "../../../source/i18n/index.js";
 import {
 	estimateTokens,
+	estimateImageTokens,
+	estimateImagesTokens,
 	fitsInContext,
 	truncateToFit,
 	truncateFilesProportionally,
@@ -72,6 +74,30 @@ describe("tokenEstimator", () => {
 		});
 	});
 
+	describe("estimateImageTokens", () => {
+		it("should estimate by pixel count", () => {
+			expect(estimateImageTokens(750, 100)).toBe(100);
+		});
+
+		it("should account for server-side downscaling of large images", () => {
+			// 3136x3136 is scaled to 1568x1568
+			expect(estimateImageTokens(3136, 3136)).toBe(
+				estimateImageTokens(1568, 1568),
+			);
+			expect(estimateImageTokens(1568, 1568)).toBe(3279);
+		});
+
+		it("should sum tokens of multiple images", () => {
+			expect(
+				estimateImagesTokens([
+					{ width: 750, height: 100 },
+					{ width: 750, height: 200 },
+				]),
+			).toBe(300);
+			expect(estimateImagesTokens([])).toBe(0);
+		});
+	});
+
 	describe("fitsInContext", () => {
 		it("should return true for short content", () => {
 			const result = fitsInContext("hello", 10000);
@@ -1,4 +1,15 @@
-import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
+import {
+	describe,
+	it,
+	expect,
+	vi,
+	beforeEach,
+	afterEach,
+	beforeAll,
+} from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
 	ToolCallHandler,
 	createToolCallHandler,
@@ -23,6 +34,28 @@ import {
 	getToolAction,
 } from "../../../source/services/tools/executor.js";
 
+// Mock localsettings (permission allow list)
+vi.mock("../../../source/utils/localsettings.js", () => ({
+	getLocalSettings: vi.fn(() => ({ permissions: { allow: [] } })),
+	updateLocalSettings: vi.fn(),
+}));
+
+import {
+	getLocalSettings,
+	updateLocalSettings,
+} from "../../../source/utils/localsettings.js";
+
+// Mock usage statistics (do not write to the real app data directory)
+vi.mock("../../../source/services/tools/usageStats.js", () => ({
+	recordToolCall: vi.fn(),
+}));
+
+vi.mock("../../../source/services/ai/sessionStore.js", () => ({
+	getSessionStore: vi.fn(() => ({ getActiveSessionId: () => "session-1" })),
+}));
+
+import { recordToolCall } from "../../../source/services/tools/usageStats.js";
+
 describe("ToolCallHandler", () => {
 	let registry: IToolRegistry;
 	let handler: ToolCallHandler;
@@ -222,6 +255,57 @@ describe("ToolCallHandler", () => {
 			expect(results[0].content).toContain("On branch main");
 		});
 
+		it("should record executed tool calls for usage statistics", async () => {
+			const action = {
+				name: "status",
+				description: "Show status",
+				parameters: [],
+			};
+			const tool = {
+				id: "git",
+				name: "Git",
+				description: "Git version control",
+				category: "shell" as const,
+				installed: true,
+				actions: [action],
+			};
+			vi.mocked(registry.getTool).mockImplementation((id) =>
+				id === "git" ? tool : undefined,
+			);
+			vi.mocked(getToolAction).mockReturnValue(action);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: 128,
+				error: "not a git repository",
+			});
+
+			await handler.handleToolCalls([
+				{
+					id: "call_1",
+					type: "function",
+					function: { name: "git_status", arguments: "{}" },
+				},
+				{
+					id: "call_2",
+					type: "function",
+					function: { name: "missing_tool", arguments: "{}" },
+				},
+			]);
+
+			expect(recordToolCall).toHaveBeenCalledTimes(1);
+			expect(recordToolCall).toHaveBeenCalledWith(
+				expect.objectContaining({
+					toolId: "git",
+					action: "status",
+					success: false,
+					outputSize: "not a git repository".length,
+					sessionId: "session-1",
+				}),
+			);
+		});
+
 		it("should handle empty stdout with success message", async () => {
 			const action = {
 				name: "init",
@@ -643,6 +727,539 @@ describe("ToolCallHandler", () => {
 		});
 	});
 
+	describe("permission gate", () => {
+		const pushAction = {
+			name: "push",
+			description: "Push changes",
+			parameters: [],
+			commandTemplate: "git push",
+		};
+
+		const pushCall: ToolCall[] = [
+			{
+				id: "call_push",
+				type: "function",
+				function: { name: "git_push", arguments: "{}" },
+			},
+		];
+
+		beforeEach(() => {
+			vi.mocked(getLocalSettings).mockReturnValue({
+				permissions: { allow: [] },
+			});
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "git",
+				name: "Git",
+				description: "Git version control",
+				category: "vcs",
+				capabilities: ["execute"],
+				executablePath: "git",
+				installed: true,
+				actions: [pushAction],
+			});
+			vi.mocked(getToolAction).mockReturnValue(pushAction);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "pushed",
+				stderr: "",
+				exitCode: 0,
+			});
+		});
+
+		it("should not ask without a permission callback", async () => {
+			const results = await handler.handleToolCalls(pushCall);
+
+			expect(executeToolAction).toHaveBeenCalled();
+			expect(results[0].content).toContain("pushed");
+		});
+
+		it("should run allowed calls without asking", async () => {
+			vi.mocked(getLocalSettings).mockReturnValue({
+				permissions: { allow: ["git_*"] },
+			});
+			const onToolPermission = vi.fn();
+
+			const results = await handler.handleToolCalls(
+				pushCall,
+				undefined,
+				onToolPermission,
+			);
+
+			expect(onToolPermission).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("pushed");
+		});
+
+		it("should ask for calls not in the allow list", async () => {
+			const onToolPermission = vi.fn().mockResolvedValue({ type: "allow" });
+
+			const results = await handler.handleToolCalls(
+				pushCall,
+				undefined,
+				onToolPermission,
+			);
+
+			expect(onToolPermission).toHaveBeenCalledWith({
+				toolId: "git",
+				toolName: "Git",
+				actionName: "push",
+				args: {},
+				subject: "git push",
+				allowPattern: "git_push",
+			});
+			expect(results[0].content).toContain("pushed");
+			expect(updateLocalSettings).not.toHaveBeenCalled();
+		});
+
+		it("should save the pattern when always allowed", async () => {
+			const onToolPermission = vi.fn().mockResolvedValue({ type: "always" });
+
+			await handler.handleToolCalls(pushCall, undefined, onToolPermission);
+
+			expect(updateLocalSettings).toHaveBeenCalledWith({
+				permissions: { allow: ["git_push"] },
+			});
+			expect(executeToolAction).toHaveBeenCalled();
+		});
+
+		it("should skip denied calls and return the note", async () => {
+			const onToolPermission = vi
+				.fn()
+				.mockResolvedValue({ type: "deny", note: "use a PR instead" });
+
+			const results = await handler.handleToolCalls(
+				pushCall,
+				undefined,
+				onToolPermission,
+			);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].tool_call_id).toBe("call_push");
+			expect(results[0].content).toContain("User denied permission");
+			expect(results[0].content).toContain("use a PR instead");
+		});
+
+		it("should report errors thrown by the permission callback", async () => {
+			const onToolPermission = vi.fn().mockRejectedValue(new Error("closed"));
+
+			const results = await handler.handleToolCalls(
+				pushCall,
+				undefined,
+				onToolPermission,
+			);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("Permission request failed");
+		});
+	});
+
+	describe("file change review", () => {
+		const editAction = {
+			name: "edit",
+			description: "Edit file",
+			parameters: [],
+			commandTemplate: "__FILE_EDIT__",
+		};
+
+		let root: string;
+
+		const editCall = (args: Record<string, unknown>): ToolCall[] => [
+			{
+				id: "call_edit",
+				type: "function",
+				function: { name: "file_edit", arguments: JSON.stringify(args) },
+			},
+		];
+
+		beforeEach(() => {
+			root = mkdtempSync(join(tmpdir(), "axiomate-review-"));
+			writeFileSync(join(root, "a.txt"), "one\ntwo\nthree\n");
+			handler = new ToolCallHandler(registry, { cwd: root });
+			vi.mocked(getLocalSettings).mockReturnValue({
+				permissions: { allow: [] },
+			});
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "file",
+				name: "File",
+				description: "File operations",
+				category: "utility",
+				capabilities: ["read", "write"],
+				executablePath: "builtin",
+				installed: true,
+				actions: [editAction],
+			});
+			vi.mocked(getToolAction).mockReturnValue(editAction);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "Replaced 1 occurrence(s)",
+				stderr: "",
+				exitCode: 0,
+			});
+		});
+
+		afterEach(() => {
+			rmSync(root, { recursive: true, force: true });
+		});
+
+		it("should show the diff instead of asking permission", async () => {
+			const onToolPermission = vi.fn();
+			const onFileChangeReview = vi.fn().mockResolvedValue({ type: "accept" });
+
+			const results = await handler.handleToolCalls(
+				editCall({ path: "a.txt", old_content: "two", new_content: "2" }),
+				undefined,
+				onToolPermission,
+				onFileChangeReview,
+			);
+
+			expect(onToolPermission).not.toHaveBeenCalled();
+			expect(onFileChangeReview).toHaveBeenCalledWith({
+				toolId: "file",
+				actionName: "edit",
+				path: join(root, "a.txt"),
+				diff: [
+					"--- a/a.txt",
+					"+++ b/a.txt",
+					"@@ -1,3 +1,3 @@",
+					" one",
+					"-two",
+					"+2",
+					" three",
+				].join("\n"),
+				isNewFile: false,
+				additions: 1,
+				deletions: 1,
+			});
+			expect(executeToolAction).toHaveBeenCalled();
+			expect(results[0].content).toContain("Replaced 1 occurrence(s)");
+		});
+
+		it("should skip rejected changes and return the note", async () => {
+			const onFileChangeReview = vi
+				.fn()
+				.mockResolvedValue({ type: "reject", note: "keep the word" });
+
+			const results = await handler.handleToolCalls(
+				editCall({ path: "a.txt", old_content: "two", new_content: "2" }),
+				undefined,
+				undefined,
+				onFileChangeReview,
+			);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("User rejected the change");
+			expect(results[0].content).toContain("keep the word");
+		});
+
+		it("should not ask when the preview fails", async () => {
+			const onFileChangeReview = vi.fn();
+
+			await handler.handleToolCalls(
+				editCall({ path: "a.txt", old_content: "missing", new_content: "" }),
+				undefined,
+				undefined,
+				onFileChangeReview,
+			);
+
+			expect(onFileChangeReview).not.toHaveBeenCalled();
+			expect(executeToolAction).toHaveBeenCalled();
+		});
+
+		it("should fall back to the permission check when the preview fails", async () => {
+			const onToolPermission = vi.fn().mockResolvedValue({ type: "deny" });
+			const onFileChangeReview = vi.fn();
+
+			const results = await handler.handleToolCalls(
+				editCall({ path: "a.txt", old_content: "missing", new_content: "" }),
+				undefined,
+				onToolPermission,
+				onFileChangeReview,
+			);
+
+			expect(onFileChangeReview).not.toHaveBeenCalled();
+			expect(onToolPermission).toHaveBeenCalled();
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("User denied permission");
+		});
+
+		it("should report errors thrown by the review callback", async () => {
+			const onFileChangeReview = vi.fn().mockRejectedValue(new Error("closed"));
+
+			const results = await handler.handleToolCalls(
+				editCall({ path: "a.txt", old_content: "two", new_content: "2" }),
+				undefined,
+				undefined,
+				onFileChangeReview,
+			);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("File change review failed");
+		});
+	});
+
+	describe("tool output events", () => {
+		it("should report start, output and end of executed calls", async () => {
+			const action = {
+				name: "build",
+				description: "Build",
+				parameters: [],
+				commandTemplate: "gradle build",
+			};
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "gradle",
+				name: "Gradle",
+				description: "Gradle build tool",
+				category: "build",
+				capabilities: ["execute"],
+				executablePath: "gradle",
+				installed: true,
+				actions: [action],
+			});
+			vi.mocked(getToolAction).mockReturnValue(action);
+			vi.mocked(executeToolAction).mockImplementation(
+				async (_tool, _action, _args, options) => {
+					options?.onOutput?.("Compiling...\n", "stdout");
+					return {
+						success: true,
+						stdout: "Compiling...",
+						stderr: "",
+						exitCode: 0,
+					};
+				},
+			);
+			const onToolOutput = vi.fn();
+
+			await handler.handleToolCalls(
+				[
+					{
+						id: "call_1",
+						type: "function",
+						function: { name: "gradle_build", arguments: "{}" },
+					},
+				],
+				undefined,
+				undefined,
+				undefined,
+				onToolOutput,
+			);
+
+			expect(onToolOutput.mock.calls.map(([event]) => event)).toEqual([
+				{
+					type: "start",
+					callId: "call_1",
+					name: "gradle_build",
+					arguments: "{}",
+				},
+				{
+					type: "output",
+					callId: "call_1",
+					chunk: "Compiling...\n",
+					stream: "stdout",
+				},
+				{
+					type: "end",
+					callId: "call_1",
+					name: "gradle_build",
+					arguments: "{}",
+					success: true,
+					duration: expect.any(Number),
+					output: "Compiling...",
+				},
+			]);
+		});
+
+		it("should report only the result of calls that fail before execution", async () => {
+			vi.mocked(registry.getTool).mockReturnValue(undefined);
+			const onToolOutput = vi.fn();
+
+			await handler.handleToolCalls(
+				[
+					{
+						id: "call_1",
+						type: "function",
+						function: { name: "missing_run", arguments: "{}" },
+					},
+				],
+				undefined,
+				undefined,
+				undefined,
+				onToolOutput,
+			);
+
+			expect(onToolOutput).toHaveBeenCalledTimes(1);
+			expect(onToolOutput).toHaveBeenCalledWith({
+				type: "end",
+				callId: "call_1",
+				name: "missing_run",
+				arguments: "{}",
+				success: false,
+				duration: undefined,
+				output: 'Error: Tool "missing" not found',
+			});
+		});
+	});
+
+	describe("parallel execution", () => {
+		const readAction = {
+			name: "read",
+			description: "Read a file",
+			parameters: [],
+			commandTemplate: "__FILE_READ__",
+			readOnly: true,
+		};
+		const writeAction = {
+			name: "write",
+			description: "Write a file",
+			parameters: [],
+			commandTemplate: "__FILE_WRITE__",
+		};
+
+		let running: number;
+		let maxRunning: number;
+		let order: string[];
+
+		const call = (id: string, action: string): ToolCall => ({
+			id,
+			type: "function",
+			function: { name: `file_${action}`, arguments: "{}" },
+		});
+
+		beforeEach(() => {
+			running = 0;
+			maxRunning = 0;
+			order = [];
+			const tool = {
+				id: "file",
+				name: "File",
+				description: "File operations",
+				category: "utility" as const,
+				capabilities: ["read" as const, "write" as const],
+				executablePath: "builtin",
+				installed: true,
+				actions: [readAction, writeAction],
+			};
+			vi.mocked(registry.getTool).mockReturnValue(tool);
+			vi.mocked(getToolAction).mockImplementation((_tool, name) =>
+				name === "read" ? readAction : writeAction,
+			);
+			vi.mocked(executeToolAction).mockImplementation(async (_tool, action) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				order.push(`start:${action.name}`);
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				running--;
+				order.push(`end:${action.name}`);
+				return {
+					success: true,
+					stdout: action.name,
+					stderr: "",
+					exitCode: 0,
+				};
+			});
+		});
+
+		it("should run consecutive read-only calls concurrently", async () => {
+			const results = await handler.handleToolCalls([
+				call("call_1", "read"),
+				call("call_2", "read"),
+				call("call_3", "read"),
+			]);
+
+			expect(maxRunning).toBe(3);
+			expect(results.map((r) => r.tool_call_id)).toEqual([
+				"call_1",
+				"call_2",
+				"call_3",
+			]);
+		});
+
+		it("should respect the concurrency limit", async () => {
+			handler = new ToolCallHandler(registry, { concurrency: 2 });
+
+			const results = await handler.handleToolCalls([
+				call("call_1", "read"),
+				call("call_2", "read"),
+				call("call_3", "read"),
+				call("call_4", "read"),
+				call("call_5", "read"),
+			]);
+
+			expect(maxRunning).toBe(2);
+			expect(results).toHaveLength(5);
+		});
+
+		it("should run write calls in order after preceding reads", async () => {
+			const results = await handler.handleToolCalls([
+				call("call_1", "read"),
+				call("call_2", "read"),
+				call("call_3", "write"),
+				call("call_4", "read"),
+			]);
+
+			expect(order).toEqual([
+				"start:read",
+				"start:read",
+				"end:read",
+				"end:read",
+				"start:write",
+				"end:write",
+				"start:read",
+				"end:read",
+			]);
+			expect(results.map((r) => r.tool_call_id)).toEqual([
+				"call_1",
+				"call_2",
+				"call_3",
+				"call_4",
+			]);
+		});
+
+		it("should treat tools with only read capabilities as read-only", async () => {
+			const statusAction = {
+				name: "status",
+				description: "Show status",
+				parameters: [],
+				commandTemplate: "git status",
+			};
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "git",
+				name: "Git",
+				description: "Git version control",
+				category: "vcs",
+				capabilities: ["read"],
+				executablePath: "git",
+				installed: true,
+				actions: [statusAction],
+			});
+			vi.mocked(getToolAction).mockReturnValue(statusAction);
+
+			await handler.handleToolCalls([
+				{
+					id: "call_1",
+					type: "function",
+					function: { name: "git_status", arguments: "{}" },
+				},
+				{
+					id: "call_2",
+					type: "function",
+					function: { name: "git_status", arguments: "{}" },
+				},
+			]);
+
+			expect(maxRunning).toBe(2);
+		});
+
+		it("should run calls sequentially when concurrency is 1", async () => {
+			handler = new ToolCallHandler(registry, { concurrency: 1 });
+
+			await handler.handleToolCalls([
+				call("call_1", "read"),
+				call("call_2", "read"),
+			]);
+
+			expect(maxRunning).toBe(1);
+		});
+	});
+
 	describe("createToolCallHandler", () => {
 		it("should create a ToolCallHandler instance", () => {
 			const result = createToolCallHandler(registry);
@@ -59,6 +59,11 @@ vi.mock("../../source/constants/commands.js", () => ({
 			description: "Stop",
 			action: { type: "internal", handler: "stop" },
 		},
+		{
+			name: "cost",
+			description: "Cost",
+			action: { type: "internal", handler: "cost" },
+		},
 		{
 			name: "suggestion",
 			children: [
@@ -127,6 +132,34 @@ vi.mock("../../source/constants/commands.js", () => ({
 					description: "Clear",
 					action: { type: "internal", handler: "session_clear" },
 				},
+				{
+					name: "export",
+					action: { type: "internal", handler: "session_export" },
+				},
+				{
+					name: "import",
+					action: { type: "internal", handler: "session_import" },
+				},
+				{
+					name: "fork",
+					action: { type: "internal", handler: "session_fork" },
+					children: [
+						{
+							name: "2",
+							action: { type: "internal", handler: "session_fork" },
+						},
+					],
+				},
+				{
+					name: "search",
+					action: { type: "internal", handler: "session_search" },
+					children: [
+						{
+							name: "1",
+							action: { type: "internal", handler: "session_search_select" },
+						},
+					],
+				},
 				{
 					name: "switch",
 					children: [
@@ -190,10 +223,129 @@ vi.mock("../../source/constants/commands.js", () => ({
 				{
 					name: "stats",
 					description: "Tool stats",
+					children: [
+						{
+							name: "24h",
+							description: "Last 24 hours",
+							action: { type: "internal", handler: "tools_stats" },
+						},
+					],
 					action: { type: "internal", handler: "tools_stats" },
 				},
 			],
 		},
+		{
+			name: "autoaccept",
+			children: [
+				{
+					name: "on",
+					description: "Enable",
+					action: { type: "internal", handler: "autoaccept_on" },
+				},
+				{
+					name: "off",
+					description: "Disable",
+					action: { type: "internal", handler: "autoaccept_off" },
+				},
+			],
+		},
+		{
+			name: "mcp",
+			children: [
+				{
+					name: "list",
+					description: "List MCP servers",
+					action: { type: "internal", handler: "mcp_list" },
+				},
+				{
+					name: "reconnect",
+					children: [
+						{
+							name: "stub",
+							description: "stdio",
+							action: { type: "internal", handler: "mcp_reconnect" },
+						},
+					],
+					action: { type: "internal", handler: "mcp_empty" },
+				},
+				{
+					name: "disable",
+					children: [
+						{
+							name: "stub",
+							description: "stdio",
+							action: { type: "internal", handler: "mcp_disable" },
+						},
+					],
+					action: { type: "internal", handler: "mcp_empty" },
+				},
+			],
+		},
+		{
+			name: "bg",
+			children: [
+				{
+					name: "list",
+					description: "List background processes",
+					action: { type: "internal", handler: "bg_list" },
+				},
+				{
+					name: "kill",
+					children: [
+						{
+							name: "bg-1",
+							description: "npm run dev",
+							action: { type: "internal", handler: "bg_kill" },
+						},
+					],
+					action: { type: "internal", handler: "bg_empty" },
+				},
+			],
+		},
+		{
+			name: "memory",
+			children: [
+				{
+					name: "show",
+					description: "Show memory",
+					action: { type: "internal", handler: "memory_show" },
+				},
+				{
+					name: "add",
+					description: "Add memory",
+					action: { type: "internal", handler: "memory_add" },
+				},
+			],
+		},
+		{
+			name: "undo",
+			description: "Undo",
+			action: { type: "internal", handler: "undo" },
+		},
+		{
+			name: "rewind",
+			children: [
+				{
+					name: "1",
+					description: "first turn",
+					action: { type: "internal", handler: "rewind_select" },
+				},
+				{
+					name: "99",
+					description: "missing turn",
+					action: { type: "internal", handler: "rewind_select" },
+				},
+			],
+			action: { type: "internal", handler: "rewind_empty" },
+		},
+		{
+			name: "retry",
+			action: { type: "internal", handler: "retry" },
+		},
+		{
+			name: "edit",
+			action: { type: "internal", handler: "edit_last_message" },
+		},
 		{
 			name: "no-action",
 			description: "Command without action",
@@ -213,6 +365,21 @@ vi.mock("../../source/constants/commands.js", () => ({
 			description: "Prompt command",
 			action: { type: "prompt", template: "Test prompt" },
 		},
+		{
+			name: "review",
+			description: "Custom command",
+			action: {
+				type: "prompt",
+				template: "Review $1 focusing on $2",
+				model: "test-model",
+				allowedTools: ["git_diff"],
+			},
+		},
+		{
+			name: "bad-model",
+			description: "Custom command with unknown model",
+			action: { type: "prompt", template: "Hi", model: "missing-model" },
+		},
 		{
 			name: "config-cmd",
 			description: "Config command",
@@ -250,6 +417,7 @@ vi.mock("../../source/utils/config.js", () => ({
 	setSuggestionModelId: vi.fn(),
 	setSuggestionEnabled: vi.fn(),
 	setThinkingEnabled: vi.fn(),
+	getDailyBudget: vi.fn(() => 5),
 }));
 
 vi.mock("../../source/i18n/index.js", () => ({
@@ -264,7 +432,7 @@ vi.mock("../../source/i18n/index.js", () => ({
 
 vi.mock("../../source/services/ai/sessionStore.js", () => ({
 	getSessionStore: vi.fn(() => ({
-		listSessions: vi.fn(() => [
+		listSessions: vi.fn((options?: { all?: boolean }) => [
 			{
 				id: "session-1",
 				name: "Session 1",
@@ -277,15 +445,162 @@ vi.mock("../../source/services/ai/sessionStore.js", () => ({
 				updatedAt: Date.now(),
 				messageCount: 3,
 			},
+			...(options?.all
+				? [
+						{
+							id: "session-3",
+							name: "Other Project",
+							updatedAt: Date.now(),
+							messageCount: 2,
+							projectRoot: "/work/other",
+						},
+					]
+				: []),
 		]),
 		getActiveSessionId: vi.fn(() => "session-1"),
+		setAutoAcceptEdits: vi.fn(() => true),
+		getSessionData: vi.fn(() => null),
+		getSessionById: vi.fn((id: string) => ({ id })),
+		listUserMessages: vi.fn(() => ["first", "second"]),
+		searchSessions: (query: string) => mockSearchSessions(query),
 	})),
 }));
 
+const mockSearchSessions = vi.fn((query: string): unknown[] => {
+	if (query.startsWith("/("))
+		throw new SyntaxError("Invalid regular expression");
+	return query === "crlf"
+		? [
+				{
+					session: {
+						id: "session-2",
+						name: "Session 2",
+						updatedAt: Date.now(),
+					},
+					matches: 3,
+					snippet: {
+						text: "...fix the CRLF bug...",
+						highlights: [[11, 15]],
+					},
+				},
+			]
+		: [];
+});
+
+vi.mock("../../source/services/tools/checkpointStore.js", () => ({
+	getCheckpointStore: vi.fn(() => ({
+		listTurns: vi.fn(() => [
+			{ id: 1, prompt: "first", files: [] },
+			{ id: 2, prompt: "second", files: [] },
+		]),
+		getLastTurn: vi.fn(() => ({ id: 2, prompt: "second", files: [] })),
+	})),
+}));
+
+vi.mock("../../source/services/tools/mcp/client.js", () => {
+	const server = {
+		name: "stub",
+		toolId: "mcp-stub",
+		transport: "stdio",
+		status: "connected",
+		toolCount: 3,
+		serverVersion: "1.0.0",
+	};
+	return {
+		getMcpClientManager: vi.fn(() => ({
+			listServers: vi.fn(() => [server]),
+			reconnect: vi.fn(async () => server),
+			disable: vi.fn(async () => true),
+		})),
+	};
+});
+
+vi.mock("../../source/services/tools/usageStats.js", () => {
+	const action = {
+		name: "git_status",
+		calls: 4,
+		failures: 1,
+		failureRate: 0.25,
+		p50Duration: 120,
+		p95Duration: 2400,
+		avgOutputSize: 100,
+	};
+	return {
+		STATS_WINDOWS: ["24h", "7d", "30d", "all"],
+		getToolUsageStats: vi.fn((window: string) => ({
+			window,
+			totalCalls: 4,
+			failures: 1,
+			sessions: 2,
+			actions: [action],
+			mostFailing: [action],
+		})),
+	};
+});
+
+vi.mock("../../source/services/ai/costTracker.js", async (importOriginal) => {
+	const record = {
+		timestamp: Date.now(),
+		model: "claude-sonnet",
+		sessionId: "session-1",
+		promptTokens: 12000,
+		completionTokens: 800,
+		cacheReadTokens: 10000,
+		cacheCreationTokens: 0,
+		cost: 1.25,
+	};
+	return {
+		...(await importOriginal<
+			typeof import("../../source/services/ai/costTracker.js")
+		>()),
+		loadUsageRecords: vi.fn(() => [
+			record,
+			{ ...record, sessionId: "session-2", model: "gpt-4o", cost: 0.5 },
+		]),
+	};
+});
+
+vi.mock("../../source/services/tools/backgroundProcesses.js", () => ({
+	getBackgroundProcessManager: vi.fn(() => ({
+		list: vi.fn(() => [
+			{
+				id: "bg-1",
+				command: "npm run dev",
+				cwd: "/project",
+				pid: 123,
+				status: "running",
+				exitCode: null,
+				startedAt: 0,
+			},
+		]),
+		kill: vi.fn((id: string) => id === "bg-1"),
+	})),
+}));
+
+vi.mock("../../source/utils/memory.js", () => ({
+	MEMORY_FILENAME: "AXIOMATE.md",
+	loadMemoryFiles: vi.fn(() => [
+		{ path: "/project/AXIOMATE.md", content: "Use pnpm" },
+	]),
+	getProjectMemoryPath: vi.fn(() => "/project/AXIOMATE.md"),
+}));
+
+vi.mock("../../source/utils/platform.js", () => ({
+	openWithDefaultApp: vi.fn(() => Promise.resolve()),
+}));
+
+import { getCheckpointStore } from "../../source/services/tools/checkpointStore.js";
+import { loadMemoryFiles } from "../../source/utils/memory.js";
+import { getMcpClientManager } from "../../source/services/tools/mcp/client.js";
+import { getBackgroundProcessManager } from "../../source/services/tools/backgroundProcesses.js";
+import { getToolUsageStats } from "../../source/services/tools/usageStats.js";
+import { loadUsageRecords } from "../../source/services/ai/costTracker.js";
+import { getSessionStore } from "../../source/services/ai/sessionStore.js";
 import {
 	findCommandByPath,
 	getCommandAction,
 	handleCommand,
+	parseCommandText,
 	type CommandContext,
 	type CommandCallbacks,
 } from "../../source/services/commandHandler.js";
@@ -306,8 +621,12 @@ describe("commandHandler", () => {
 		exit: vi.fn(),
 		sessionNew: vi.fn().mockResolvedValue(undefined),
 		sessionSwitch: vi.fn().mockResolvedValue(undefined),
+		sessionFork: vi.fn().mockResolvedValue(undefined),
 		sessionDelete: vi.fn(),
 		sessionClear: vi.fn().mockResolvedValue(undefined),
+		rewind: vi.fn().mockResolvedValue(undefined),
+		retry: vi.fn().mockResolvedValue(undefined),
+		editLastMessage: vi.fn(),
 	});
 
 	beforeEach(() => {
@@ -343,6 +662,24 @@ describe("commandHandler", () => {
 		});
 	});
 
+	describe("parseCommandText", () => {
+		it("should split typed text into path and arguments", () => {
+			expect(parseCommandText("/review src/app.ts  now")).toEqual({
+				path: ["review"],
+				args: "src/app.ts  now",
+			});
+			expect(parseCommandText("/language ja")).toEqual({
+				path: ["language", "ja"],
+				args: "",
+			});
+		});
+
+		it("should return null for unknown commands", () => {
+			expect(parseCommandText("/nonexistent arg")).toBeNull();
+			expect(parseCommandText("review")).toBeNull();
+		});
+	});
+
 	describe("getCommandAction", () => {
 		it("should get action from command", () => {
 			const action = getCommandAction(["exit"]);
@@ -432,6 +769,34 @@ describe("commandHandler", () => {
 			expect(callbacks.showMessage).toHaveBeenCalled();
 		});
 
+		it("should list only this project's sessions by default", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "list"], context, callbacks);
+
+			const output = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(output).toContain("session.listTitle");
+			expect(output).toContain("**Session 2**");
+			expect(output).not.toContain("Other Project");
+			expect(output).toContain("session.otherProjects");
+		});
+
+		it("should list sessions from all projects with --all", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "list"],
+				context,
+				callbacks,
+				undefined,
+				"--all",
+			);
+
+			const output = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(output).toContain("session.listTitleAll");
+			expect(output).toContain("**Other Project**");
+			expect(output).toContain("| /work/other");
+			expect(output).not.toContain("session.otherProjects");
+		});
+
 		it("should handle session new command", async () => {
 			const callbacks = createMockCallbacks();
 			await handleCommand(["session", "new"], context, callbacks);
@@ -445,7 +810,207 @@ describe("commandHandler", () => {
 			await handleCommand(["session", "clear"], context, callbacks);
 
 			expect(callbacks.stop).toHaveBeenCalled();
-			expect(callbacks.sessionClear).toHaveBeenCalled();
+			expect(callbacks.sessionClear).toHaveBeenCalledWith(false);
+		});
+
+		it("should clear every project's sessions with --all", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "clear"],
+				context,
+				callbacks,
+				undefined,
+				"--all",
+			);
+
+			expect(callbacks.sessionClear).toHaveBeenCalledWith(true);
+		});
+
+		it("should handle mcp list command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "list"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("**stub** 1.0.0 `mcp-stub` (stdio)"),
+			);
+		});
+
+		it("should show hint when no mcp servers are configured", async () => {
+			vi.mocked(getMcpClientManager).mockReturnValueOnce({
+				listServers: vi.fn(() => []),
+			} as any);
+
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "list"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("mcp.noServers");
+		});
+
+		it("should handle mcp reconnect command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "reconnect", "stub"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("mcp.status.connected"),
+			);
+		});
+
+		it("should handle mcp disable command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "disable", "stub"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("mcp.disabled"),
+			);
+		});
+
+		it("should list background processes", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["bg", "list"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("● **bg-1** `npm run dev`"),
+			);
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("background.status.running"),
+			);
+		});
+
+		it("should show hint when there are no background processes", async () => {
+			vi.mocked(getBackgroundProcessManager).mockReturnValueOnce({
+				list: vi.fn(() => []),
+			} as any);
+
+			const callbacks = createMockCallbacks();
+			await handleCommand(["bg", "list"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"background.noProcesses",
+			);
+		});
+
+		it("should kill a background process", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["bg", "kill", "bg-1"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("background.killed"),
+			);
+		});
+
+		it("should show effective memory", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["memory", "show"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("### /project/AXIOMATE.md"),
+			);
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("Use pnpm"),
+			);
+		});
+
+		it("should show hint when there is no memory", async () => {
+			vi.mocked(loadMemoryFiles).mockReturnValueOnce([]);
+
+			const callbacks = createMockCallbacks();
+			await handleCommand(["memory", "show"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("memory.empty"),
+			);
+		});
+
+		it("should explain how to add memory", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["memory", "add"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("memory.addHint"),
+			);
+		});
+
+		it("should handle autoaccept on command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["autoaccept", "on"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"commandHandler.autoAcceptEnabled",
+			);
+		});
+
+		it("should handle autoaccept off command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["autoaccept", "off"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"commandHandler.autoAcceptDisabled",
+			);
+		});
+
+		it("should handle undo command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["undo"], context, callbacks);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.rewind).toHaveBeenCalledWith(2);
+		});
+
+		it("should show message when there is nothing to undo", async () => {
+			vi.mocked(getCheckpointStore).mockReturnValueOnce(null);
+			const callbacks = createMockCallbacks();
+			await handleCommand(["undo"], context, callbacks);
+
+			expect(callbacks.rewind).not.toHaveBeenCalled();
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"checkpoint.nothingToUndo",
+			);
+		});
+
+		it("should handle rewind to a turn", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["rewind", "1"], context, callbacks);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.rewind).toHaveBeenCalledWith(1);
+		});
+
+		it("should show error for unknown rewind turn", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["rewind", "99"], context, callbacks);
+
+			expect(callbacks.rewind).not.toHaveBeenCalled();
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"Error: checkpoint.notFound",
+			);
+		});
+
+		it("should show message for rewind without turns", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["rewind"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				"checkpoint.nothingToUndo",
+			);
+		});
+
+		it("should stop processing before retrying the last turn", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["retry"], context, callbacks);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.retry).toHaveBeenCalled();
+			expect(
+				vi.mocked(callbacks.stop).mock.invocationCallOrder[0],
+			).toBeLessThan(vi.mocked(callbacks.retry).mock.invocationCallOrder[0]!);
+		});
+
+		it("should handle edit command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["edit"], context, callbacks);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.editLastMessage).toHaveBeenCalled();
 		});
 
 		it("should handle tools list command", async () => {
@@ -470,6 +1035,197 @@ describe("commandHandler", () => {
 			expect(callbacks.sendToAI).toHaveBeenCalledWith("Test prompt");
 		});
 
+		it("should expand prompt arguments and pass overrides", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["review"],
+				context,
+				callbacks,
+				undefined,
+				'app.ts "error handling"',
+			);
+
+			expect(callbacks.sendToAI).toHaveBeenCalledWith(
+				"Review app.ts focusing on error handling",
+				{ model: "test-model", allowedTools: ["git_diff"] },
+			);
+		});
+
+		it("should reject prompt commands with unknown models", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["bad-model"], context, callbacks);
+
+			expect(callbacks.sendToAI).not.toHaveBeenCalled();
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("customCommands.unknownModel"),
+			);
+		});
+
+		it("should fork the whole session by default", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "fork"], context, callbacks);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.sessionFork).toHaveBeenCalledWith(undefined);
+		});
+
+		it("should fork before a selected or typed user message", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "fork", "2"], context, callbacks);
+			await handleCommand(
+				["session", "fork"],
+				context,
+				callbacks,
+				undefined,
+				"1",
+			);
+
+			expect(callbacks.sessionFork).toHaveBeenNthCalledWith(1, 2);
+			expect(callbacks.sessionFork).toHaveBeenNthCalledWith(2, 1);
+		});
+
+		it("should reject invalid fork points", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "fork"],
+				context,
+				callbacks,
+				undefined,
+				"3",
+			);
+
+			expect(callbacks.sessionFork).not.toHaveBeenCalled();
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.forkInvalid"),
+			);
+		});
+
+		it("should show forks as a tree under their parent", async () => {
+			vi.mocked(getSessionStore).mockReturnValueOnce({
+				listSessions: vi.fn(() => [
+					{ id: "fork-b", name: "Fork B", parentId: "root", updatedAt: 4 },
+					{ id: "other", name: "Other", updatedAt: 3 },
+					{
+						id: "fork-a",
+						name: "Fork A",
+						parentId: "root",
+						forkPoint: 2,
+						updatedAt: 2,
+					},
+					{ id: "nested", name: "Nested", parentId: "fork-a", updatedAt: 2 },
+					{ id: "root", name: "Root", updatedAt: 1 },
+				]),
+				getActiveSessionId: vi.fn(() => "fork-a"),
+			} as any);
+
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "list"], context, callbacks);
+
+			const output: string = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			const titles = output.split("\n").filter((line) => line.includes("**"));
+			expect(titles).toEqual([
+				"○ **Other**",
+				"○ **Root**",
+				"└ ○ **Fork B**",
+				"└ ▸ **Fork A** (session.active)",
+				"│ └ ○ **Nested**",
+			]);
+			expect(output).toContain("session.forkedBefore");
+		});
+
+		it("should show usage when searching without a query", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "search"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("session.searchUsage");
+		});
+
+		it("should show highlighted search results", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "search"],
+				context,
+				callbacks,
+				undefined,
+				"crlf",
+			);
+
+			const output = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(output).toContain("1. **Session 2**");
+			expect(output).toContain("`session-`");
+			expect(output).toContain("> ...fix the **CRLF** bug...");
+			expect(output).toContain("session.searchSelectHint");
+		});
+
+		it("should switch to a selected search result", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "search"],
+				context,
+				callbacks,
+				undefined,
+				"crlf",
+			);
+			await handleCommand(["session", "search", "1"], context, callbacks);
+
+			expect(callbacks.sessionSwitch).toHaveBeenCalledWith("session-2");
+		});
+
+		it("should report no results and invalid queries", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "search"],
+				context,
+				callbacks,
+				undefined,
+				"nothing",
+			);
+			await handleCommand(
+				["session", "search"],
+				context,
+				callbacks,
+				undefined,
+				"/(unclosed/",
+			);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.searchNoResults"),
+			);
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.searchInvalid"),
+			);
+		});
+
+		it("should report empty sessions on export", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "export"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("session.exportEmpty");
+		});
+
+		it("should show usage when importing without a file", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "import"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("session.importUsage");
+			expect(callbacks.sessionSwitch).not.toHaveBeenCalled();
+		});
+
+		it("should show error when the import file cannot be read", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "import"],
+				context,
+				callbacks,
+				undefined,
+				"/nonexistent/chat.json",
+			);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.importFailed"),
+			);
+		});
+
 		it("should handle config command", async () => {
 			const callbacks = createMockCallbacks();
 			// Note: config-cmd needs to find its action through nested path
@@ -615,6 +1371,62 @@ describe("commandHandler", () => {
 			expect(callbacks.showMessage).toHaveBeenCalled();
 		});
 
+		it("should show tool usage statistics for the selected window", async () => {
+			const { getToolRegistry } =
+				await import("../../source/services/tools/registry.js");
+			vi.mocked(getToolRegistry).mockReturnValue({
+				isDiscovered: true,
+				getStats: vi.fn(() => ({
+					installed: 5,
+					notInstalled: 2,
+					byCategory: {},
+				})),
+			} as any);
+
+			const callbacks = createMockCallbacks();
+			await handleCommand(["tools", "stats", "24h"], context, callbacks);
+
+			expect(getToolUsageStats).toHaveBeenCalledWith("24h");
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("| git_status | 4 | 25% | 120ms | 2.4s |");
+			expect(message).toContain("- git_status: 1/4 (25%)");
+		});
+
+		it("should default tool usage statistics to 7 days", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["tools", "stats"], context, callbacks);
+
+			expect(getToolUsageStats).toHaveBeenCalledWith("7d");
+		});
+
+		it("should show cost by session, model and day", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["cost"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain('cost.session: {"cost":"$1.25","requests":1}');
+			expect(message).toContain('cost.today: {"cost":"$1.75","requests":2}');
+			expect(message).toContain(
+				'cost.budget: {"budget":"$5.00","percent":"35%"}',
+			);
+			expect(message).toContain(
+				"| claude-sonnet | 1 | 12,000 | 800 | 10,000 | $1.25 |",
+			);
+			expect(message).toContain(
+				"| gpt-4o | 1 | 12,000 | 800 | 10,000 | $0.50 |",
+			);
+		});
+
+		it("should show empty cost report without usage", async () => {
+			vi.mocked(loadUsageRecords).mockReturnValueOnce([]);
+			const callbacks = createMockCallbacks();
+			await handleCommand(["cost"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("cost.empty");
+			expect(message).not.toContain("cost.byModel");
+		});
+
 		it("should handle unknown action type", async () => {
 			const callbacks = createMockCallbacks();
 			await handleCommand(["unknown-action-type"], context, callbacks);
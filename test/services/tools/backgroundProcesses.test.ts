@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { BackgroundProcessManager } from "../../../source/services/tools/backgroundProcesses.js";
+
+/**
+ * Build a shell command that runs an inline Node.js script
+ */
+function nodeCommand(script: string): string {
+	return `"${process.execPath}" -e ${JSON.stringify(script)}`;
+}
+
+/**
+ * Wait until the condition holds or the timeout expires
+ */
+async function waitFor(
+	condition: () => boolean,
+	timeout = 5000,
+): Promise<void> {
+	const start = Date.now();
+	while (!condition()) {
+		if (Date.now() - start > timeout) {
+			throw new Error("waitFor timed out");
+		}
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+}
+
+describe("BackgroundProcessManager", () => {
+	let manager: BackgroundProcessManager;
+
+	beforeEach(() => {
+		manager = new BackgroundProcessManager();
+	});
+
+	afterEach(() => {
+		manager.killAll();
+	});
+
+	it("should start a process and report its exit", async () => {
+		const info = manager.start(
+			nodeCommand("console.log('hello'); console.error('oops')"),
+		);
+
+		expect(info.id).toBe("bg-1");
+		expect(info.status).toBe("running");
+
+		await waitFor(() => manager.get(info.id)?.status === "exited");
+
+		const output = manager.poll(info.id);
+		expect(output?.stdout.trim()).toBe("hello");
+		expect(output?.stderr.trim()).toBe("oops");
+		expect(output?.info.exitCode).toBe(0);
+	});
+
+	it("should return only new output on each poll", async () => {
+		const info = manager.start(
+			nodeCommand(
+				"process.stdin.on('data', d => console.log('echo:' + d.toString().trim()))",
+			),
+		);
+
+		manager.write(info.id, "one\n");
+		await waitFor(() => (manager.poll(info.id)?.stdout ?? "") !== "");
+		expect(manager.poll(info.id)?.stdout).toBe("");
+
+		manager.write(info.id, "two\n");
+		let stdout = "";
+		await waitFor(() => {
+			stdout += manager.poll(info.id)?.stdout ?? "";
+			return stdout.includes("\n");
+		});
+		expect(stdout.trim()).toBe("echo:two");
+	});
+
+	it("should kill running processes", async () => {
+		const info = manager.start(nodeCommand("setInterval(() => {}, 1000)"));
+
+		expect(manager.kill(info.id)).toBe(true);
+		expect(manager.get(info.id)?.status).toBe("killed");
+		await waitFor(() => manager.get(info.id)?.endedAt !== undefined);
+
+		expect(manager.get(info.id)?.status).toBe("killed");
+		expect(manager.kill(info.id)).toBe(false);
+		expect(() => manager.write(info.id, "x")).toThrow("is not running");
+	});
+
+	it("should list processes and notify listeners", async () => {
+		let changes = 0;
+		manager.addChangeListener(() => changes++);
+
+		manager.start(nodeCommand("setInterval(() => {}, 1000)"));
+		manager.start(nodeCommand(""));
+
+		expect(manager.list().map((info) => info.id)).toEqual(["bg-1", "bg-2"]);
+		await waitFor(() => manager.get("bg-2")?.status === "exited");
+		expect(manager.getRunningCount()).toBe(1);
+		expect(changes).toBeGreaterThanOrEqual(3);
+	});
+
+	it("should handle unknown process IDs", () => {
+		expect(manager.poll("bg-99")).toBeNull();
+		expect(manager.get("bg-99")).toBeNull();
+		expect(manager.kill("bg-99")).toBe(false);
+		expect(() => manager.write("bg-99", "x")).toThrow(
+			"Background process not found: bg-99",
+		);
+	});
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+	mkdtempSync,
+	mkdirSync,
+	writeFileSync,
+	readFileSync,
+	existsSync,
+	rmSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import iconv from "iconv-lite";
+import {
+	CheckpointStore,
+	getCheckpointsDir,
+	getCheckpointStore,
+	initCheckpointStore,
+	deleteCheckpoints,
+	resetCheckpointStore,
+	addCheckpointChangeListener,
+} from "../../../source/services/tools/checkpointStore.js";
+
+const sessionCp = (messageCount: number) => ({
+	messageCount,
+	actualPromptTokens: 0,
+	actualCompletionTokens: 0,
+});
+
+describe("checkpointStore", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "axiomate-checkpoint-"));
+		resetCheckpointStore();
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	describe("CheckpointStore", () => {
+		it("should not create a directory for turns without file changes", () => {
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("hello", sessionCp(0));
+
+			expect(existsSync(getCheckpointsDir(root, "s1"))).toBe(false);
+			expect(store.listTurns()).toHaveLength(1);
+		});
+
+		it("should capture only the first version of a file in a turn", () => {
+			const file = join(root, "a.txt");
+			writeFileSync(file, "original");
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("edit", sessionCp(0));
+
+			store.captureFile(file);
+			writeFileSync(file, "changed once");
+			store.captureFile(file);
+			writeFileSync(file, "changed twice");
+
+			expect(store.getLastTurn()?.files).toHaveLength(1);
+			const result = store.restoreTo(1);
+			expect(result?.restoredFiles).toEqual([file]);
+			expect(readFileSync(file, "utf-8")).toBe("original");
+		});
+
+		it("should delete files created during the turn", () => {
+			const file = join(root, "new", "created.txt");
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("create", sessionCp(0));
+
+			store.captureFile(file);
+			mkdirSync(join(root, "new"));
+			writeFileSync(file, "new file");
+
+			store.restoreTo(1);
+			expect(existsSync(file)).toBe(false);
+		});
+
+		it("should preserve original bytes and record encoding", () => {
+			const file = join(root, "legacy.txt");
+			const original = iconv.encode(
+				"# 配置文件说明\n这是一个使用简体中文编写的配置文件，用于测试编码检测功能是否正常工作。\n",
+				"gbk",
+			);
+			writeFileSync(file, original);
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("edit", sessionCp(0));
+
+			store.captureFile(file);
+			writeFileSync(file, "utf-8 content");
+
+			expect(store.getLastTurn()?.files[0]).toMatchObject({
+				existed: true,
+				hasBOM: false,
+			});
+			store.restoreTo(1);
+			expect(readFileSync(file).equals(original)).toBe(true);
+		});
+
+		it("should rewind several turns to the earliest state", () => {
+			const file = join(root, "a.txt");
+			writeFileSync(file, "v0");
+			const store = new CheckpointStore(root, "s1");
+
+			store.beginTurn("first", sessionCp(0));
+			store.captureFile(file);
+			writeFileSync(file, "v1");
+
+			store.beginTurn("second", sessionCp(2));
+			store.captureFile(file);
+			writeFileSync(file, "v2");
+
+			store.beginTurn("third", sessionCp(4));
+			store.captureFile(file);
+			writeFileSync(file, "v3");
+
+			const result = store.restoreTo(2);
+			expect(readFileSync(file, "utf-8")).toBe("v1");
+			expect(result?.turn.session.messageCount).toBe(2);
+			expect(store.listTurns().map((turn) => turn.id)).toEqual([1]);
+		});
+
+		it("should finish restoring when a backup cannot be removed", () => {
+			const first = join(root, "a.txt");
+			const second = join(root, "b.txt");
+			writeFileSync(first, "a0");
+			writeFileSync(second, "b0");
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("edit", sessionCp(0));
+			store.captureFile(first);
+			store.captureFile(second);
+			writeFileSync(first, "a1");
+			writeFileSync(second, "b1");
+
+			// A non-empty directory in place of the backup makes rmSync throw
+			const backup = join(
+				getCheckpointsDir(root, "s1"),
+				store.getLastTurn()!.files[0]!.backup!,
+			);
+			rmSync(backup);
+			mkdirSync(join(backup, "nested"), { recursive: true });
+
+			const result = store.restoreTo(1);
+
+			expect(result?.restoredFiles).toEqual([second]);
+			expect(result?.failedFiles).toEqual([first]);
+			expect(readFileSync(second, "utf-8")).toBe("b0");
+			expect(store.listTurns()).toEqual([]);
+		});
+
+		it("should return null for unknown turn", () => {
+			const store = new CheckpointStore(root, "s1");
+			expect(store.restoreTo(1)).toBeNull();
+		});
+
+		it("should persist turns across instances", () => {
+			const file = join(root, "a.txt");
+			writeFileSync(file, "v0");
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("first", sessionCp(0));
+			store.captureFile(file);
+			writeFileSync(file, "v1");
+
+			const reloaded = new CheckpointStore(root, "s1");
+			expect(reloaded.getLastTurn()?.prompt).toBe("first");
+			reloaded.restoreTo(1);
+			expect(readFileSync(file, "utf-8")).toBe("v0");
+		});
+
+		it("should continue turn IDs after restore", () => {
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("first", sessionCp(0));
+			store.beginTurn("second", sessionCp(2));
+			store.restoreTo(2);
+
+			expect(store.beginTurn("again", sessionCp(2)).id).toBe(2);
+		});
+
+		it("should ignore captures before any turn", () => {
+			const file = join(root, "a.txt");
+			writeFileSync(file, "v0");
+			const store = new CheckpointStore(root, "s1");
+
+			store.captureFile(file);
+			expect(store.listTurns()).toEqual([]);
+		});
+
+		it("should clear all checkpoints", () => {
+			const file = join(root, "a.txt");
+			writeFileSync(file, "v0");
+			const store = new CheckpointStore(root, "s1");
+			store.beginTurn("first", sessionCp(0));
+			store.captureFile(file);
+
+			store.clear();
+			expect(store.listTurns()).toEqual([]);
+			expect(existsSync(getCheckpointsDir(root, "s1"))).toBe(false);
+		});
+	});
+
+	describe("singleton", () => {
+		it("should be null until initialized", () => {
+			expect(getCheckpointStore()).toBeNull();
+			const store = initCheckpointStore(root, "s1");
+			expect(getCheckpointStore()).toBe(store);
+		});
+
+		it("should notify listeners on changes", () => {
+			let count = 0;
+			addCheckpointChangeListener(() => {
+				count++;
+			});
+
+			const store = initCheckpointStore(root, "s1");
+			store.beginTurn("first", sessionCp(0));
+			store.restoreTo(1);
+			expect(count).toBe(3);
+		});
+
+		it("should delete checkpoints of one or all sessions", () => {
+			for (const id of ["s1", "s2"]) {
+				const file = join(root, `${id}.txt`);
+				writeFileSync(file, id);
+				const store = new CheckpointStore(root, id);
+				store.beginTurn("edit", sessionCp(0));
+				store.captureFile(file);
+			}
+
+			deleteCheckpoints(root, "s1");
+			expect(existsSync(getCheckpointsDir(root, "s1"))).toBe(false);
+			expect(existsSync(getCheckpointsDir(root, "s2"))).toBe(true);
+
+			deleteCheckpoints(root);
+			expect(existsSync(getCheckpointsDir(root))).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+	splitLines,
+	diffLines,
+	createUnifiedDiff,
+} from "../../../source/services/tools/diff.js";
+
+describe("diff", () => {
+	describe("splitLines", () => {
+		it("should ignore trailing newline", () => {
+			expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+			expect(splitLines("a\nb")).toEqual(["a", "b"]);
+		});
+
+		it("should handle CRLF and empty text", () => {
+			expect(splitLines("a\r\nb\r\n")).toEqual(["a", "b"]);
+			expect(splitLines("")).toEqual([]);
+		});
+	});
+
+	describe("diffLines", () => {
+		it("should reproduce both inputs", () => {
+			const a = ["a", "b", "c", "a", "b", "b", "a"];
+			const b = ["c", "b", "a", "b", "a", "c"];
+			const ops = diffLines(a, b);
+
+			expect(
+				ops.filter((op) => op.type !== "insert").map((op) => op.line),
+			).toEqual(a);
+			expect(
+				ops.filter((op) => op.type !== "delete").map((op) => op.line),
+			).toEqual(b);
+		});
+
+		it("should find a minimal edit script", () => {
+			const ops = diffLines(["a", "b", "c"], ["a", "x", "c"]);
+
+			expect(ops).toEqual([
+				{ type: "equal", line: "a" },
+				{ type: "delete", line: "b" },
+				{ type: "insert", line: "x" },
+				{ type: "equal", line: "c" },
+			]);
+		});
+	});
+
+	describe("createUnifiedDiff", () => {
+		it("should return empty diff for identical content", () => {
+			expect(createUnifiedDiff("a\nb\n", "a\nb\n", "f.txt")).toEqual({
+				text: "",
+				additions: 0,
+				deletions: 0,
+			});
+		});
+
+		it("should create hunks with context", () => {
+			const oldText = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n";
+			const newText = "1\nTWO\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n";
+			const diff = createUnifiedDiff(oldText, newText, "f.txt");
+
+			expect(diff.text).toBe(
+				[
+					"--- a/f.txt",
+					"+++ b/f.txt",
+					"@@ -1,5 +1,5 @@",
+					" 1",
+					"-2",
+					"+TWO",
+					" 3",
+					" 4",
+					" 5",
+					"@@ -10,3 +10,4 @@",
+					" 10",
+					" 11",
+					" 12",
+					"+13",
+				].join("\n"),
+			);
+			expect(diff.additions).toBe(2);
+			expect(diff.deletions).toBe(1);
+		});
+
+		it("should merge nearby changes into one hunk", () => {
+			const diff = createUnifiedDiff("a\nb\nc\nd\n", "A\nb\nc\nD\n", "f.txt", {
+				contextLines: 1,
+			});
+
+			expect(diff.text.match(/^@@/gm)).toHaveLength(1);
+		});
+
+		it("should use /dev/null for new files", () => {
+			const diff = createUnifiedDiff("", "x\ny\n", "new.txt", {
+				isNewFile: true,
+			});
+
+			expect(diff.text).toBe(
+				["--- /dev/null", "+++ b/new.txt", "@@ -0,0 +1,2 @@", "+x", "+y"].join(
+					"\n",
+				),
+			);
+		});
+	});
+});
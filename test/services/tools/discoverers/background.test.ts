@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { detectBackground } from "../../../../source/services/tools/discoverers/background.js";
+
+describe("background discoverer", () => {
+	describe("detectBackground", () => {
+		it("should return an installed builtin tool", async () => {
+			const result = await detectBackground();
+
+			expect(result.installed).toBe(true);
+			expect(result.id).toBe("background");
+			expect(result.category).toBe("utility");
+			expect(result.executablePath).toBe("builtin");
+		});
+
+		it("should have start, output, send, kill and list actions", async () => {
+			const result = await detectBackground();
+
+			expect(result.actions.map((a) => [a.name, a.commandTemplate])).toEqual([
+				["start", "__BG_START__"],
+				["output", "__BG_OUTPUT__"],
+				["send", "__BG_SEND__"],
+				["kill", "__BG_KILL__"],
+				["list", "__BG_LIST__"],
+			]);
+		});
+
+		it("should require command for start and id for process actions", async () => {
+			const result = await detectBackground();
+			const required = (name: string) =>
+				result.actions
+					.find((a) => a.name === name)
+					?.parameters.filter((p) => p.required)
+					.map((p) => p.name);
+
+			expect(required("start")).toEqual(["command"]);
+			expect(required("output")).toEqual(["id"]);
+			expect(required("send")).toEqual(["id", "input"]);
+			expect(required("kill")).toEqual(["id"]);
+			expect(required("list")).toEqual([]);
+		});
+	});
+});
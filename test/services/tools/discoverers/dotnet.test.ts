@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { detectDotnet } from "../../../../source/services/tools/discoverers/dotnet.js";
+import {
+	renderCommandTemplate,
+	fillDefaults,
+} from "../../../../source/services/tools/executorUtils.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	commandExists: vi.fn(),
+	getExecutablePath: vi.fn(),
+	getVersion: vi.fn(),
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+	createNotInstalledTool: vi.fn((def) => ({
+		...def,
+		executablePath: "",
+		installed: false,
+	})),
+}));
+
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+} from "../../../../source/services/tools/discoverers/base.js";
+
+describe("dotnet discoverer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("detectDotnet", () => {
+		it("should return not installed tool with install hint when dotnet is not found", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectDotnet();
+
+			expect(commandExists).toHaveBeenCalledWith("dotnet");
+			expect(result.installed).toBe(false);
+			expect(result.id).toBe("dotnet");
+			expect(result.installHint).toContain("dotnet.microsoft.com");
+		});
+
+		it("should return installed tool when dotnet exists", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/dotnet");
+			vi.mocked(getVersion).mockResolvedValue("8.0.100");
+
+			const result = await detectDotnet();
+
+			expect(result.installed).toBe(true);
+			expect(result.executablePath).toBe("/usr/bin/dotnet");
+			expect(result.version).toBe("8.0.100");
+		});
+
+		it("should parse version from dotnet output", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/dotnet");
+			vi.mocked(getVersion).mockImplementation(async (_cmd, _args, options) =>
+				options?.parseOutput ? options.parseOutput("8.0.100") : null,
+			);
+
+			const result = await detectDotnet();
+
+			expect(result.version).toBe("8.0.100");
+		});
+
+		it("should handle null executable path", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue(null);
+			vi.mocked(getVersion).mockResolvedValue(null);
+
+			const result = await detectDotnet();
+
+			expect(result.executablePath).toBe("dotnet");
+			expect(result.version).toBeUndefined();
+		});
+
+		it("should have expected actions", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectDotnet();
+
+			expect(result.actions.map((a) => a.name)).toEqual([
+				"build",
+				"test",
+				"restore",
+				"run",
+				"add_package",
+			]);
+		});
+
+		it("should render the add_package command", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectDotnet();
+			const action = result.actions.find((a) => a.name === "add_package")!;
+
+			expect(
+				renderCommandTemplate(
+					action.commandTemplate,
+					fillDefaults(action, { package: "Newtonsoft.Json" }),
+				),
+			).toBe("dotnet add package Newtonsoft.Json");
+		});
+	});
+});
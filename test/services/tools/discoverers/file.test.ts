@@ -150,16 +150,70 @@ describe("file discoverer", () => {
 			expect(maxMatchesParam?.default).toBe(100);
 		});
 
-		it("should have all 5 actions", async () => {
+		it("should have list action with optional directory path", async () => {
 			const result = await detectFile();
 
-			expect(result.actions?.length).toBe(5);
+			const listAction = result.actions?.find((a) => a.name === "list");
+			expect(listAction).toBeDefined();
+			expect(listAction?.commandTemplate).toBe("__FILE_LIST__");
+
+			const pathParam = listAction?.parameters?.find((p) => p.name === "path");
+			expect(pathParam?.type).toBe("directory");
+			expect(pathParam?.required).toBe(false);
+			expect(pathParam?.default).toBe(".");
+
+			const depthParam = listAction?.parameters?.find(
+				(p) => p.name === "max_depth",
+			);
+			expect(depthParam?.default).toBe(2);
+		});
+
+		it("should have glob action with required pattern", async () => {
+			const result = await detectFile();
+
+			const globAction = result.actions?.find((a) => a.name === "glob");
+			expect(globAction).toBeDefined();
+			expect(globAction?.commandTemplate).toBe("__FILE_GLOB__");
+
+			const patternParam = globAction?.parameters?.find(
+				(p) => p.name === "pattern",
+			);
+			expect(patternParam?.required).toBe(true);
+		});
+
+		it("should have grep action with filter and context parameters", async () => {
+			const result = await detectFile();
+
+			const grepAction = result.actions?.find((a) => a.name === "grep");
+			expect(grepAction).toBeDefined();
+			expect(grepAction?.commandTemplate).toBe("__FILE_GREP__");
+
+			const paramNames = grepAction?.parameters?.map((p) => p.name);
+			expect(paramNames).toEqual([
+				"pattern",
+				"path",
+				"regex",
+				"ignore_case",
+				"include",
+				"exclude",
+				"context_lines",
+				"max_matches",
+			]);
+		});
+
+		it("should have all 8 actions", async () => {
+			const result = await detectFile();
+
+			expect(result.actions?.length).toBe(8);
 			const actionNames = result.actions?.map((a) => a.name);
 			expect(actionNames).toContain("read");
 			expect(actionNames).toContain("read_lines");
 			expect(actionNames).toContain("write");
 			expect(actionNames).toContain("edit");
 			expect(actionNames).toContain("search");
+			expect(actionNames).toContain("list");
+			expect(actionNames).toContain("glob");
+			expect(actionNames).toContain("grep");
 		});
 
 		it("should call createInstalledTool with correct arguments", async () => {
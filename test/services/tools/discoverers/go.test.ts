@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { detectGo } from "../../../../source/services/tools/discoverers/go.js";
+import {
+	renderCommandTemplate,
+	fillDefaults,
+} from "../../../../source/services/tools/executorUtils.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	commandExists: vi.fn(),
+	getExecutablePath: vi.fn(),
+	getVersion: vi.fn(),
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+	createNotInstalledTool: vi.fn((def) => ({
+		...def,
+		executablePath: "",
+		installed: false,
+	})),
+}));
+
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+} from "../../../../source/services/tools/discoverers/base.js";
+
+describe("go discoverer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("detectGo", () => {
+		it("should return not installed tool with install hint when go is not found", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectGo();
+
+			expect(commandExists).toHaveBeenCalledWith("go");
+			expect(result.installed).toBe(false);
+			expect(result.id).toBe("go");
+			expect(result.installHint).toContain("go.dev");
+		});
+
+		it("should return installed tool when go exists", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/local/go/bin/go");
+			vi.mocked(getVersion).mockResolvedValue("1.21.5");
+
+			const result = await detectGo();
+
+			expect(result.installed).toBe(true);
+			expect(result.executablePath).toBe("/usr/local/go/bin/go");
+			expect(result.version).toBe("1.21.5");
+		});
+
+		it("should parse version from go output", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/local/go/bin/go");
+			vi.mocked(getVersion).mockImplementation(async (_cmd, _args, options) =>
+				options?.parseOutput
+					? options.parseOutput("go version go1.21.5 linux/amd64")
+					: null,
+			);
+
+			const result = await detectGo();
+
+			expect(result.version).toBe("1.21.5");
+		});
+
+		it("should handle null executable path", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue(null);
+			vi.mocked(getVersion).mockResolvedValue(null);
+
+			const result = await detectGo();
+
+			expect(result.executablePath).toBe("go");
+			expect(result.version).toBeUndefined();
+		});
+
+		it("should have expected actions", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectGo();
+
+			expect(result.actions.map((a) => a.name)).toEqual([
+				"build",
+				"test",
+				"vet",
+				"mod_tidy",
+				"run",
+			]);
+		});
+
+		it("should render the test command", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectGo();
+			const action = result.actions.find((a) => a.name === "test")!;
+
+			expect(
+				renderCommandTemplate(
+					action.commandTemplate,
+					fillDefaults(action, { args: "-v" }),
+				),
+			).toBe("go test -v ./...");
+		});
+	});
+});
@@ -81,6 +81,24 @@ vi.mock("../../../../source/services/tools/discoverers/build.js", () => ({
 	detectMaven: vi.fn(() => Promise.resolve({ id: "maven", installed: false })),
 }));
 
+vi.mock("../../../../source/services/tools/discoverers/rust.js", () => ({
+	detectRust: vi.fn(() => Promise.resolve({ id: "rust", installed: false })),
+}));
+
+vi.mock("../../../../source/services/tools/discoverers/go.js", () => ({
+	detectGo: vi.fn(() => Promise.resolve({ id: "go", installed: false })),
+}));
+
+vi.mock("../../../../source/services/tools/discoverers/dotnet.js", () => ({
+	detectDotnet: vi.fn(() =>
+		Promise.resolve({ id: "dotnet", installed: false }),
+	),
+}));
+
+vi.mock("../../../../source/services/tools/discoverers/svn.js", () => ({
+	detectSvn: vi.fn(() => Promise.resolve({ id: "svn", installed: false })),
+}));
+
 vi.mock("../../../../source/services/tools/discoverers/database.js", () => ({
 	detectMysql: vi.fn(() => Promise.resolve({ id: "mysql", installed: false })),
 	detectPsql: vi.fn(() => Promise.resolve({ id: "psql", installed: false })),
@@ -109,6 +127,12 @@ vi.mock("../../../../source/services/tools/discoverers/ask_user.js", () => ({
 	),
 }));
 
+vi.mock("../../../../source/services/tools/discoverers/background.js", () => ({
+	detectBackground: vi.fn(() =>
+		Promise.resolve({ id: "background", installed: true }),
+	),
+}));
+
 describe("discoverers index", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
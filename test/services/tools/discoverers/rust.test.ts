@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { detectRust } from "../../../../source/services/tools/discoverers/rust.js";
+import {
+	renderCommandTemplate,
+	fillDefaults,
+} from "../../../../source/services/tools/executorUtils.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	commandExists: vi.fn(),
+	getExecutablePath: vi.fn(),
+	getVersion: vi.fn(),
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+	createNotInstalledTool: vi.fn((def) => ({
+		...def,
+		executablePath: "",
+		installed: false,
+	})),
+}));
+
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+} from "../../../../source/services/tools/discoverers/base.js";
+
+describe("rust discoverer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("detectRust", () => {
+		it("should return not installed tool with install hint when cargo is not found", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectRust();
+
+			expect(commandExists).toHaveBeenCalledWith("cargo");
+			expect(result.installed).toBe(false);
+			expect(result.id).toBe("rust");
+			expect(result.installHint).toContain("rustup");
+		});
+
+		it("should return installed tool when cargo exists", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/cargo");
+			vi.mocked(getVersion).mockResolvedValue("1.75.0");
+
+			const result = await detectRust();
+
+			expect(result.installed).toBe(true);
+			expect(result.executablePath).toBe("/usr/bin/cargo");
+			expect(result.version).toBe("1.75.0");
+		});
+
+		it("should parse version from cargo output", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/cargo");
+			vi.mocked(getVersion).mockImplementation(async (_cmd, _args, options) =>
+				options?.parseOutput
+					? options.parseOutput("cargo 1.75.0 (1d8b05cdd 2023-11-20)")
+					: null,
+			);
+
+			const result = await detectRust();
+
+			expect(result.version).toBe("1.75.0");
+		});
+
+		it("should handle null executable path", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue(null);
+			vi.mocked(getVersion).mockResolvedValue(null);
+
+			const result = await detectRust();
+
+			expect(result.executablePath).toBe("cargo");
+			expect(result.version).toBeUndefined();
+		});
+
+		it("should have expected actions", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectRust();
+
+			expect(result.actions.map((a) => a.name)).toEqual([
+				"build",
+				"check",
+				"test",
+				"clippy",
+				"fmt",
+				"run",
+			]);
+		});
+
+		it("should render the test command", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectRust();
+			const action = result.actions.find((a) => a.name === "test")!;
+
+			expect(
+				renderCommandTemplate(
+					action.commandTemplate,
+					fillDefaults(action, { filter: "parser", args: "--release" }),
+				),
+			).toBe("cargo test --release parser");
+		});
+	});
+});
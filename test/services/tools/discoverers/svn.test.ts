@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { detectSvn } from "../../../../source/services/tools/discoverers/svn.js";
+import {
+	renderCommandTemplate,
+	fillDefaults,
+} from "../../../../source/services/tools/executorUtils.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	commandExists: vi.fn(),
+	getExecutablePath: vi.fn(),
+	getVersion: vi.fn(),
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+	createNotInstalledTool: vi.fn((def) => ({
+		...def,
+		executablePath: "",
+		installed: false,
+	})),
+}));
+
+import {
+	commandExists,
+	getExecutablePath,
+	getVersion,
+} from "../../../../source/services/tools/discoverers/base.js";
+
+describe("svn discoverer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("detectSvn", () => {
+		it("should return not installed tool with install hint when svn is not found", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectSvn();
+
+			expect(commandExists).toHaveBeenCalledWith("svn");
+			expect(result.installed).toBe(false);
+			expect(result.id).toBe("svn");
+			expect(result.installHint).toContain("subversion.apache.org");
+		});
+
+		it("should return installed tool when svn exists", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/svn");
+			vi.mocked(getVersion).mockResolvedValue("1.14.2");
+
+			const result = await detectSvn();
+
+			expect(result.installed).toBe(true);
+			expect(result.executablePath).toBe("/usr/bin/svn");
+			expect(result.version).toBe("1.14.2");
+		});
+
+		it("should parse version from svn output", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/svn");
+			vi.mocked(getVersion).mockImplementation(async (_cmd, _args, options) =>
+				options?.parseOutput ? options.parseOutput("1.14.2 (r1899510)") : null,
+			);
+
+			const result = await detectSvn();
+
+			expect(result.version).toBe("1.14.2");
+		});
+
+		it("should handle null executable path", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue(null);
+			vi.mocked(getVersion).mockResolvedValue(null);
+
+			const result = await detectSvn();
+
+			expect(result.executablePath).toBe("svn");
+			expect(result.version).toBeUndefined();
+		});
+
+		it("should have expected actions", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectSvn();
+
+			expect(result.actions.map((a) => a.name)).toEqual([
+				"status",
+				"diff",
+				"log",
+				"update",
+				"commit",
+			]);
+		});
+
+		it("should render the log command", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			const result = await detectSvn();
+			const action = result.actions.find((a) => a.name === "log")!;
+
+			expect(
+				renderCommandTemplate(action.commandTemplate, fillDefaults(action, {})),
+			).toBe("svn log -l 10");
+		});
+	});
+});
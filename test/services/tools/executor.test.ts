@@ -16,6 +16,9 @@ import type {
 import * as scriptWriter from "../../../source/services/tools/scriptWriter.js";
 import * as fileOperations from "../../../source/services/tools/fileOperations.js";
 import * as config from "../../../source/utils/config.js";
+import { getMcpClientManager } from "../../../source/services/tools/mcp/client.js";
+import { detectBackground } from "../../../source/services/tools/discoverers/background.js";
+import { killAllBackgroundProcesses } from "../../../source/services/tools/backgroundProcesses.js";
 
 // Mock config module
 vi.mock("../../../source/utils/config.js", () => ({
@@ -38,6 +41,12 @@ vi.mock("../../../source/services/tools/discoverers/plan.js", () => ({
 	getPlanFilePath: vi.fn(() => "/test/.axiomate/plans/plan.md"),
 }));
 
+// Mock MCP client manager
+vi.mock("../../../source/services/tools/mcp/client.js", () => ({
+	MCP_COMMAND_TEMPLATE: "__MCP__",
+	getMcpClientManager: vi.fn(),
+}));
+
 describe("Tool Executor", () => {
 	describe("renderCommandTemplate", () => {
 		it("should replace parameter placeholders", () => {
@@ -331,6 +340,17 @@ describe("Tool Executor", () => {
 			// Note: On Windows with shell=true, env variable expansion might differ
 			expect(result.success).toBe(true);
 		});
+
+		it("should stream output while the command runs", async () => {
+			const chunks: string[] = [];
+			const result = await executeCommand("echo hello", {
+				timeout: 5000,
+				onOutput: (chunk, stream) => chunks.push(`${stream}:${chunk}`),
+			});
+
+			expect(result.stdout).toContain("hello");
+			expect(chunks.join("")).toContain("stdout:hello");
+		});
 	});
 
 	describe("executeToolAction", () => {
@@ -1574,4 +1594,109 @@ describe("Tool Executor", () => {
 			expect(config.setPlanModeEnabled).toHaveBeenCalledWith(false);
 		});
 	});
+
+	describe("MCP actions", () => {
+		it("should forward __MCP__ actions to the MCP client manager", async () => {
+			const callTool = vi.fn().mockResolvedValue({
+				success: true,
+				stdout: "echo: hi",
+				stderr: "",
+				exitCode: 0,
+			});
+			vi.mocked(getMcpClientManager).mockReturnValue({ callTool } as any);
+
+			const mcpTool: DiscoveredTool = {
+				id: "mcp-stub",
+				name: "stub",
+				description: "Stub MCP server",
+				category: "mcp",
+				capabilities: ["execute"],
+				executablePath: "stub-server",
+				actions: [],
+				installed: true,
+			};
+			const action: ToolAction = {
+				name: "echo",
+				description: "Echo",
+				commandTemplate: "__MCP__",
+				parameters: [
+					{
+						name: "text",
+						description: "Text",
+						type: "string",
+						required: true,
+					},
+				],
+			};
+
+			const result = await executeToolAction(
+				mcpTool,
+				action,
+				{ text: "hi" },
+				{ timeout: 5000 },
+			);
+
+			expect(result.stdout).toBe("echo: hi");
+			expect(callTool).toHaveBeenCalledWith(
+				"mcp-stub",
+				"echo",
+				{ text: "hi" },
+				5000,
+			);
+		});
+	});
+
+	describe("executeToolAction - background", () => {
+		afterEach(() => {
+			killAllBackgroundProcesses();
+		});
+
+		it("should start, poll, list and kill a background process", async () => {
+			const tool = await detectBackground();
+			const action = (name: string) => getToolAction(tool, name)!;
+			const command = `"${process.execPath}" -e "console.log('ready'); setInterval(() => {}, 1000)"`;
+
+			const started = await executeToolAction(tool, action("start"), {
+				command,
+			});
+			expect(started.success).toBe(true);
+			const id = /Started background process (bg-\d+)/.exec(
+				started.stdout,
+			)![1]!;
+
+			let output = "";
+			for (let i = 0; i < 100 && !output.includes("ready"); i++) {
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				output += (await executeToolAction(tool, action("output"), { id }))
+					.stdout;
+			}
+			expect(output).toContain(`[${id}] running`);
+			expect(output).toContain("ready");
+
+			const listed = await executeToolAction(tool, action("list"), {});
+			expect(listed.stdout).toContain(`${id}\trunning`);
+
+			const killed = await executeToolAction(tool, action("kill"), { id });
+			expect(killed.success).toBe(true);
+
+			const sent = await executeToolAction(tool, action("send"), {
+				id,
+				input: "x",
+			});
+			expect(sent.success).toBe(false);
+			expect(sent.error).toContain("is not running");
+		});
+
+		it("should fail for unknown process IDs", async () => {
+			const tool = await detectBackground();
+			const result = await executeToolAction(
+				tool,
+				getToolAction(tool, "output")!,
+				{ id: "bg-missing" },
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Background process not found: bg-missing");
+		});
+	});
 });
@@ -4,6 +4,8 @@ import {
 	readFileContent,
 	writeFileContent,
 	editFileContent,
+	previewWriteFileContent,
+	previewEditFileContent,
 	readFileLines,
 	searchInFile,
 } from "../../../source/services/tools/fileOperations.js";
@@ -466,6 +468,98 @@ describe("fileOperations", () => {
 		});
 	});
 
+	describe("previewWriteFileContent", () => {
+		beforeEach(() => {
+			vi.mocked(existsSync).mockReturnValue(true);
+			vi.mocked(statSync).mockReturnValue({
+				size: 1024,
+			} as ReturnType<typeof statSync>);
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("old\n"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+		});
+
+		it("should preview a new file", () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const result = previewWriteFileContent("/path/new.txt", "content");
+
+			expect(result).toMatchObject({
+				success: true,
+				oldContent: "",
+				newContent: "content",
+				isNewFile: true,
+			});
+		});
+
+		it("should preview overwrite and append", () => {
+			expect(
+				previewWriteFileContent("/path/file.txt", "new\n").newContent,
+			).toBe("new\n");
+			expect(
+				previewWriteFileContent("/path/file.txt", "more\n", "append")
+					.newContent,
+			).toBe("old\nmore\n");
+		});
+
+		it("should not write anything", () => {
+			previewWriteFileContent("/path/file.txt", "new");
+
+			expect(writeFileSync).not.toHaveBeenCalled();
+			expect(appendFileSync).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("previewEditFileContent", () => {
+		beforeEach(() => {
+			vi.mocked(existsSync).mockReturnValue(true);
+			vi.mocked(statSync).mockReturnValue({
+				size: 1024,
+			} as ReturnType<typeof statSync>);
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("foo foo foo"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+		});
+
+		it("should preview replacement without writing", () => {
+			const result = previewEditFileContent("/path/file.txt", "foo", "bar");
+
+			expect(result).toMatchObject({
+				success: true,
+				oldContent: "foo foo foo",
+				newContent: "bar foo foo",
+				isNewFile: false,
+			});
+			expect(writeFileSync).not.toHaveBeenCalled();
+		});
+
+		it("should preview replace all", () => {
+			const result = previewEditFileContent(
+				"/path/file.txt",
+				"foo",
+				"bar",
+				true,
+			);
+
+			expect(result.newContent).toBe("bar bar bar");
+		});
+
+		it("should fail when old content not found", () => {
+			const result = previewEditFileContent("/path/file.txt", "baz", "bar");
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Old content not found in file");
+		});
+	});
+
 	describe("readFileLines", () => {
 		beforeEach(() => {
 			vi.mocked(existsSync).mockReturnValue(true);
@@ -745,5 +839,38 @@ describe("fileOperations", () => {
 			expect(result.success).toBe(true);
 			expect(result.matches.length).toBe(3);
 		});
+
+		it("should include context lines when requested", () => {
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("a\nb\nfoo\nc\nd"));
+
+			const result = searchInFile("/path/to/file.txt", "foo", 100, 1);
+
+			expect(result.matches[0]).toEqual({
+				line: 3,
+				column: 1,
+				content: "foo",
+				match: "foo",
+				before: ["b"],
+				after: ["c"],
+			});
+		});
+
+		it("should clip context at file boundaries", () => {
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("foo\nbar"));
+
+			const result = searchInFile("/path/to/file.txt", "foo", 100, 3);
+
+			expect(result.matches[0].before).toEqual([]);
+			expect(result.matches[0].after).toEqual(["bar"]);
+		});
+
+		it("should not include context by default", () => {
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("a\nfoo"));
+
+			const result = searchInFile("/path/to/file.txt", "foo");
+
+			expect(result.matches[0].before).toBeUndefined();
+			expect(result.matches[0].after).toBeUndefined();
+		});
 	});
 });
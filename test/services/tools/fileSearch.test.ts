@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+	mkdtempSync,
+	mkdirSync,
+	writeFileSync,
+	rmSync,
+	symlinkSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import iconv from "iconv-lite";
+import {
+	globToRegExp,
+	matchesGlob,
+	parseGitignore,
+	walkDirectory,
+	listDirectory,
+	globFiles,
+	grepFiles,
+} from "../../../source/services/tools/fileSearch.js";
+
+describe("fileSearch", () => {
+	let root: string;
+
+	const write = (relPath: string, content: string | Buffer) => {
+		const fullPath = join(root, relPath);
+		mkdirSync(dirname(fullPath), { recursive: true });
+		writeFileSync(fullPath, content);
+	};
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "axiomate-filesearch-"));
+		write("package.json", "{}");
+		write("src/index.ts", "export const foo = 1;\n");
+		write("src/utils/helper.ts", "// TODO: fix\nexport function foo() {}\n");
+		write("src/utils/helper.test.ts", "foo();\n");
+		write("src/app.js", "console.log('foo');\n");
+		write("dist/index.js", "foo\n");
+		write("node_modules/pkg/index.js", "foo\n");
+		write(".gitignore", "dist/\n*.log\n");
+		write("debug.log", "foo\n");
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	describe("globToRegExp", () => {
+		it("should match single segment wildcard", () => {
+			expect(globToRegExp("*.ts").test("index.ts")).toBe(true);
+			expect(globToRegExp("*.ts").test("src/index.ts")).toBe(false);
+		});
+
+		it("should match across directories with **", () => {
+			const regex = globToRegExp("**/*.ts");
+			expect(regex.test("index.ts")).toBe(true);
+			expect(regex.test("src/utils/helper.ts")).toBe(true);
+			expect(globToRegExp("src/**").test("src/a/b.ts")).toBe(true);
+		});
+
+		it("should support braces, ? and character classes", () => {
+			expect(globToRegExp("*.{ts,tsx}").test("a.tsx")).toBe(true);
+			expect(globToRegExp("*.{ts,tsx}").test("a.js")).toBe(false);
+			expect(globToRegExp("file?.txt").test("file1.txt")).toBe(true);
+			expect(globToRegExp("[ab].txt").test("b.txt")).toBe(true);
+			expect(globToRegExp("[!ab].txt").test("b.txt")).toBe(false);
+		});
+
+		it("should escape regex characters", () => {
+			expect(globToRegExp("a.b").test("axb")).toBe(false);
+			expect(globToRegExp("(x)+").test("(x)+")).toBe(true);
+		});
+	});
+
+	describe("matchesGlob", () => {
+		it("should match base name when glob has no slash", () => {
+			expect(matchesGlob("src/utils/helper.test.ts", "*.test.ts")).toBe(true);
+		});
+
+		it("should match full path when glob has a slash", () => {
+			expect(matchesGlob("src/utils/helper.ts", "src/*.ts")).toBe(false);
+			expect(matchesGlob("src/utils/helper.ts", "src/**/*.ts")).toBe(true);
+		});
+	});
+
+	describe("parseGitignore", () => {
+		it("should skip comments and blank lines", () => {
+			expect(parseGitignore("# comment\n\n*.log\n", "")).toHaveLength(1);
+		});
+
+		it("should parse negation, directory-only and anchored rules", () => {
+			const [negated, dirOnly, anchored] = parseGitignore(
+				"!keep.log\nbuild/\n/docs/api\n",
+				"",
+			);
+			expect(negated).toMatchObject({ negate: true, anchored: false });
+			expect(dirOnly).toMatchObject({ dirOnly: true, anchored: false });
+			expect(anchored).toMatchObject({ anchored: true });
+			expect(anchored?.regex.test("docs/api")).toBe(true);
+		});
+	});
+
+	describe("walkDirectory", () => {
+		it("should respect .gitignore and skip node_modules", () => {
+			const paths: string[] = [];
+			walkDirectory(root, {}, (entry) => {
+				paths.push(entry.path);
+			});
+
+			expect(paths).toContain("src/utils/helper.ts");
+			expect(paths).not.toContain("dist");
+			expect(paths).not.toContain("dist/index.js");
+			expect(paths).not.toContain("debug.log");
+			expect(paths).not.toContain("node_modules");
+		});
+
+		it("should include ignored entries when gitignore is disabled", () => {
+			const paths: string[] = [];
+			walkDirectory(root, { respectGitignore: false }, (entry) => {
+				paths.push(entry.path);
+			});
+
+			expect(paths).toContain("dist/index.js");
+			expect(paths).toContain("debug.log");
+		});
+
+		it("should apply nested .gitignore and negation", () => {
+			write("src/.gitignore", "*.js\n!app.js\n");
+			write("src/other.js", "");
+			const paths: string[] = [];
+			walkDirectory(root, {}, (entry) => {
+				paths.push(entry.path);
+			});
+
+			expect(paths).toContain("src/app.js");
+			expect(paths).not.toContain("src/other.js");
+		});
+
+		it("should stop when visitor returns false", () => {
+			let count = 0;
+			walkDirectory(root, {}, () => {
+				count++;
+				return false;
+			});
+			expect(count).toBe(1);
+		});
+	});
+
+	describe("listDirectory", () => {
+		it("should list directories first with depth", () => {
+			const result = listDirectory(root, 1);
+
+			expect(result.success).toBe(true);
+			const paths = result.entries.map((e) => e.path);
+			expect(paths.indexOf("src")).toBeLessThan(paths.indexOf("package.json"));
+			expect(paths).toContain("src/utils");
+			expect(paths).not.toContain("src/utils/helper.ts");
+		});
+
+		it("should truncate at max entries", () => {
+			const result = listDirectory(root, 5, 2);
+
+			expect(result.entries).toHaveLength(2);
+			expect(result.truncated).toBe(true);
+		});
+
+		it("should fail for missing directory", () => {
+			const result = listDirectory(join(root, "missing"));
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Directory not found");
+		});
+
+		it("should fail for a file", () => {
+			const result = listDirectory(join(root, "package.json"));
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Not a directory");
+		});
+	});
+
+	describe("globFiles", () => {
+		it("should find files by relative path glob", () => {
+			const result = globFiles(root, "**/*.ts");
+
+			expect(result.success).toBe(true);
+			expect(result.files).toEqual([
+				"src/utils/helper.test.ts",
+				"src/utils/helper.ts",
+				"src/index.ts",
+			]);
+		});
+
+		it("should not return ignored files", () => {
+			const result = globFiles(root, "**/*.js");
+
+			expect(result.files).toEqual(["src/app.js"]);
+		});
+
+		it("should truncate at max results", () => {
+			const result = globFiles(root, "**/*", 1);
+
+			expect(result.files).toHaveLength(1);
+			expect(result.truncated).toBe(true);
+		});
+	});
+
+	describe("grepFiles", () => {
+		it("should search recursively respecting .gitignore", () => {
+			const result = grepFiles(root, "foo");
+
+			expect(result.success).toBe(true);
+			expect(result.files.map((f) => f.path)).toEqual([
+				"src/utils/helper.test.ts",
+				"src/utils/helper.ts",
+				"src/app.js",
+				"src/index.ts",
+			]);
+			expect(result.totalMatches).toBe(4);
+		});
+
+		it("should apply include and exclude globs", () => {
+			const result = grepFiles(root, "foo", {
+				include: ["*.ts"],
+				exclude: ["*.test.ts"],
+			});
+
+			expect(result.files.map((f) => f.path)).toEqual([
+				"src/utils/helper.ts",
+				"src/index.ts",
+			]);
+		});
+
+		it("should support regex and ignore case", () => {
+			const result = grepFiles(root, "todo:\\s+\\w+", {
+				regex: true,
+				ignoreCase: true,
+			});
+
+			expect(result.totalMatches).toBe(1);
+			expect(result.files[0]?.matches[0]?.match).toBe("TODO: fix");
+		});
+
+		it("should treat plain patterns literally", () => {
+			const result = grepFiles(root, "foo()");
+
+			expect(result.files.map((f) => f.path)).toEqual([
+				"src/utils/helper.test.ts",
+				"src/utils/helper.ts",
+			]);
+		});
+
+		it("should include context lines", () => {
+			const result = grepFiles(root, "export function", { contextLines: 1 });
+
+			expect(result.files[0]?.matches[0]).toMatchObject({
+				line: 2,
+				before: ["// TODO: fix"],
+				after: [""],
+			});
+		});
+
+		it("should cap total matches", () => {
+			const result = grepFiles(root, "foo", { maxMatches: 2 });
+
+			expect(result.totalMatches).toBe(2);
+			expect(result.truncated).toBe(true);
+		});
+
+		it("should match GBK encoded files", () => {
+			write(
+				"src/legacy.txt",
+				iconv.encode(
+					"# 配置文件说明\n这是一个使用简体中文编写的配置文件，用于测试编码检测功能是否正常工作。\n数据库连接配置\n",
+					"gbk",
+				),
+			);
+
+			const result = grepFiles(root, "数据库连接");
+
+			expect(result.files.map((f) => f.path)).toEqual(["src/legacy.txt"]);
+		});
+
+		it("should skip binary files", () => {
+			write("src/image.bin", Buffer.from([0x66, 0x6f, 0x6f, 0x00, 0x01]));
+
+			const result = grepFiles(root, "foo");
+
+			expect(result.files.map((f) => f.path)).not.toContain("src/image.bin");
+		});
+
+		it("should skip dangling symlinks", () => {
+			symlinkSync(join(root, "missing.ts"), join(root, "src", "broken.ts"));
+
+			const result = grepFiles(root, "foo");
+
+			expect(result.success).toBe(true);
+			expect(result.totalMatches).toBe(4);
+		});
+
+		it("should search a single file", () => {
+			const result = grepFiles(join(root, "src", "index.ts"), "foo");
+
+			expect(result.totalMatches).toBe(1);
+			expect(result.filesSearched).toBe(1);
+		});
+
+		it("should report invalid regex", () => {
+			const result = grepFiles(root, "foo(", { regex: true });
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("Invalid regular expression");
+		});
+	});
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+import { ToolRegistry } from "../../../../source/services/tools/registry.js";
+import {
+	McpClientManager,
+	getMcpToolId,
+	MCP_COMMAND_TEMPLATE,
+} from "../../../../source/services/tools/mcp/client.js";
+import type { McpServerConfig } from "../../../../source/utils/config.js";
+import { initI18n, setLocale } from "../../../../source/i18n/index.js";
+
+beforeAll(() => {
+	initI18n();
+	setLocale("en");
+});
+
+/**
+ * 创建进程内 stub server
+ */
+function createStubServer(): McpServer {
+	const server = new McpServer({ name: "stub", version: "1.2.3" });
+
+	server.registerTool(
+		"echo",
+		{
+			description: "Echo the text back",
+			inputSchema: { text: z.string().describe("Text to echo") },
+		},
+		async ({ text }) => ({
+			content: [{ type: "text" as const, text: `echo: ${text}` }],
+		}),
+	);
+
+	server.registerTool(
+		"add.numbers",
+		{
+			description: "Add numbers",
+			inputSchema: { a: z.number(), b: z.number().optional() },
+		},
+		async ({ a, b }) => ({
+			content: [{ type: "text" as const, text: String(a + (b ?? 0)) }],
+		}),
+	);
+
+	server.registerTool("fail", { description: "Always fails" }, async () => ({
+		content: [{ type: "text" as const, text: "boom" }],
+		isError: true,
+	}));
+
+	return server;
+}
+
+const stdioConfig: McpServerConfig = { command: "stub-server" };
+
+describe("McpClientManager", () => {
+	let registry: ToolRegistry;
+	let manager: McpClientManager;
+	let servers: McpServer[];
+
+	beforeEach(() => {
+		registry = new ToolRegistry();
+		servers = [];
+		manager = new McpClientManager(registry, (name) => {
+			if (name === "broken") {
+				throw new Error("spawn failed");
+			}
+			const [clientTransport, serverTransport] =
+				InMemoryTransport.createLinkedPair();
+			const server = createStubServer();
+			servers.push(server);
+			void server.connect(serverTransport);
+			return clientTransport;
+		});
+	});
+
+	afterEach(async () => {
+		await manager.closeAll();
+		await Promise.all(servers.map((server) => server.close()));
+	});
+
+	it("should register server tools into the registry", async () => {
+		await manager.connectAll({ stub: stdioConfig });
+
+		const tool = registry.getTool("mcp-stub");
+		expect(tool).toBeDefined();
+		expect(tool!.category).toBe("mcp");
+		expect(tool!.version).toBe("1.2.3");
+		expect(tool!.installed).toBe(true);
+		expect(tool!.actions.map((a) => a.name)).toEqual([
+			"echo",
+			"add_numbers",
+			"fail",
+		]);
+
+		const echo = tool!.actions[0]!;
+		expect(echo.commandTemplate).toBe(MCP_COMMAND_TEMPLATE);
+		expect(echo.parameters).toEqual([
+			{
+				name: "text",
+				description: "Text to echo",
+				type: "string",
+				required: true,
+			},
+		]);
+		expect(echo.inputSchema?.required).toEqual(["text"]);
+	});
+
+	it("should call tools by their original name", async () => {
+		await manager.connectAll({ stub: stdioConfig });
+
+		const echo = await manager.callTool("mcp-stub", "echo", { text: "hi" });
+		expect(echo).toEqual({
+			success: true,
+			stdout: "echo: hi",
+			stderr: "",
+			exitCode: 0,
+		});
+
+		const sum = await manager.callTool("mcp-stub", "add_numbers", {
+			a: 2,
+			b: 3,
+		});
+		expect(sum.stdout).toBe("5");
+	});
+
+	it("should return tool errors as failed results", async () => {
+		await manager.connectAll({ stub: stdioConfig });
+
+		const result = await manager.callTool("mcp-stub", "fail", {});
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("boom");
+	});
+
+	it("should record connection failures without affecting other servers", async () => {
+		await manager.connectAll({ broken: stdioConfig, stub: stdioConfig });
+
+		const broken = manager.getState("broken");
+		expect(broken?.status).toBe("failed");
+		expect(broken?.error).toContain("spawn failed");
+		expect(registry.getTool("mcp-broken")).toBeUndefined();
+		expect(manager.getState("stub")?.status).toBe("connected");
+	});
+
+	it("should skip servers disabled in config", async () => {
+		await manager.connectAll({ stub: { ...stdioConfig, disabled: true } });
+
+		expect(manager.getState("stub")?.status).toBe("disabled");
+		expect(registry.getTool("mcp-stub")).toBeUndefined();
+	});
+
+	it("should disable and reconnect servers", async () => {
+		await manager.connectAll({ stub: stdioConfig });
+
+		expect(await manager.disable("stub")).toBe(true);
+		expect(manager.getState("stub")?.status).toBe("disabled");
+		expect(registry.getTool("mcp-stub")).toBeUndefined();
+
+		const result = await manager.callTool("mcp-stub", "echo", { text: "x" });
+		expect(result.success).toBe(false);
+
+		const state = await manager.reconnect("stub");
+		expect(state?.status).toBe("connected");
+		expect(state?.toolCount).toBe(3);
+		expect(registry.getTool("mcp-stub")).toBeDefined();
+	});
+
+	it("should return false or undefined for unknown servers", async () => {
+		expect(await manager.disable("missing")).toBe(false);
+		expect(await manager.reconnect("missing")).toBeUndefined();
+	});
+
+	it("should notify listeners on state changes", async () => {
+		let calls = 0;
+		const remove = manager.addChangeListener(() => calls++);
+		await manager.connectAll({ stub: stdioConfig });
+		remove();
+
+		expect(calls).toBeGreaterThan(0);
+	});
+});
+
+describe("getMcpToolId", () => {
+	it("should replace characters that are not allowed in tool ids", () => {
+		expect(getMcpToolId("my_server.v2")).toBe("mcp-my-server-v2");
+		expect(getMcpToolId("github")).toBe("mcp-github");
+	});
+});
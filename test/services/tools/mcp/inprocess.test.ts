@@ -12,6 +12,18 @@ beforeAll(() => {
 });
 
 // Mock executor module
+vi.mock("../../../../source/services/tools/usageStats.js", () => ({
+	STATS_WINDOWS: ["24h", "7d", "30d", "all"],
+	getToolUsageStats: vi.fn((window: string) => ({
+		window,
+		totalCalls: 1,
+		failures: 0,
+		sessions: 1,
+		actions: [],
+		mostFailing: [],
+	})),
+}));
+
 vi.mock("../../../../source/services/tools/executor.js", () => ({
 	executeToolAction: vi.fn(),
 	paramsToJsonSchema: vi.fn((params) => ({
@@ -198,6 +210,19 @@ describe("InProcessMcpProvider", () => {
 			const data = JSON.parse(result.content[0]!.text);
 			expect(data.total).toBe(3);
 			expect(data.installed).toBe(2);
+			expect(data.usage).toMatchObject({ window: "7d", totalCalls: 1 });
+		});
+
+		it("should pass the time window to usage statistics", async () => {
+			const result = await provider.callTool("get_tools_stats", {
+				window: "30d",
+			});
+			expect(JSON.parse(result.content[0]!.text).usage.window).toBe("30d");
+
+			const fallback = await provider.callTool("get_tools_stats", {
+				window: "1y",
+			});
+			expect(JSON.parse(fallback.content[0]!.text).usage.window).toBe("7d");
 		});
 
 		it("should return error for unknown tool", async () => {
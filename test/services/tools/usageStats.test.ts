@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	recordToolCall,
+	loadToolCallRecords,
+	computeToolStats,
+	getToolUsageStats,
+	getWindowStart,
+	percentile,
+	type ToolCallRecord,
+} from "../../../source/services/tools/usageStats.js";
+
+function record(overrides: Partial<ToolCallRecord> = {}): ToolCallRecord {
+	return {
+		timestamp: 1000,
+		toolId: "git",
+		action: "status",
+		success: true,
+		duration: 100,
+		outputSize: 10,
+		...overrides,
+	};
+}
+
+describe("usageStats", () => {
+	let tmpDir: string;
+	let file: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-stats-"));
+		file = path.join(tmpDir, "nested", "tool-stats.jsonl");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("recordToolCall / loadToolCallRecords", () => {
+		it("should append records and load them back", () => {
+			recordToolCall(record({ timestamp: 1000 }), file);
+			recordToolCall(record({ timestamp: 2000, success: false }), file);
+
+			expect(loadToolCallRecords(0, file)).toHaveLength(2);
+			expect(loadToolCallRecords(1500, file)).toEqual([
+				record({ timestamp: 2000, success: false }),
+			]);
+		});
+
+		it("should skip corrupt lines and missing files", () => {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(
+				file,
+				`${JSON.stringify(record())}\n{"timestamp":\n\n`,
+				"utf-8",
+			);
+
+			expect(loadToolCallRecords(0, file)).toEqual([record()]);
+			expect(loadToolCallRecords(0, path.join(tmpDir, "none.jsonl"))).toEqual(
+				[],
+			);
+		});
+	});
+
+	describe("percentile", () => {
+		it("should use the nearest rank", () => {
+			const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+			expect(percentile(values, 50)).toBe(50);
+			expect(percentile(values, 95)).toBe(100);
+			expect(percentile([7], 95)).toBe(7);
+			expect(percentile([], 50)).toBe(0);
+		});
+	});
+
+	describe("computeToolStats", () => {
+		it("should aggregate per action with failure rates and durations", () => {
+			const stats = computeToolStats(
+				[
+					record({ duration: 100, sessionId: "a" }),
+					record({ duration: 300, success: false, sessionId: "a" }),
+					record({ duration: 200, sessionId: "b" }),
+					record({ action: "diff", duration: 50, outputSize: 1000 }),
+					record({ toolId: "npm", action: "test", success: false }),
+				],
+				"7d",
+			);
+
+			expect(stats).toMatchObject({
+				window: "7d",
+				totalCalls: 5,
+				failures: 2,
+				sessions: 2,
+			});
+			expect(stats.actions.map((a) => a.name)).toEqual([
+				"git_status",
+				"git_diff",
+				"npm_test",
+			]);
+			expect(stats.actions[0]).toEqual({
+				name: "git_status",
+				calls: 3,
+				failures: 1,
+				failureRate: 1 / 3,
+				p50Duration: 200,
+				p95Duration: 300,
+				avgOutputSize: 10,
+			});
+			expect(stats.mostFailing.map((a) => a.name)).toEqual([
+				"npm_test",
+				"git_status",
+			]);
+		});
+	});
+
+	describe("getToolUsageStats", () => {
+		it("should only include records inside the window", () => {
+			const now = Date.now();
+			recordToolCall(record({ timestamp: now - 2 * 86400000 }), file);
+			recordToolCall(record({ timestamp: now - 1000 }), file);
+
+			expect(getToolUsageStats("24h", file).totalCalls).toBe(1);
+			expect(getToolUsageStats("7d", file).totalCalls).toBe(2);
+			expect(getWindowStart("all", now)).toBe(0);
+		});
+	});
+});
@@ -472,6 +472,28 @@ describe("config", () => {
 		});
 	});
 
+	describe("plan mode override", () => {
+		it("should keep plan mode changes in memory while overridden", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(fs.writeFileSync).mockReturnValue(undefined);
+
+			const { setPlanModeOverride, setPlanModeEnabled, isPlanModeEnabled } =
+				await resetConfigModule();
+			vi.mocked(fs.writeFileSync).mockClear();
+
+			setPlanModeOverride(true);
+			expect(isPlanModeEnabled()).toBe(true);
+			setPlanModeEnabled(false);
+			expect(isPlanModeEnabled()).toBe(false);
+			expect(fs.writeFileSync).not.toHaveBeenCalled();
+
+			setPlanModeOverride(null);
+			setPlanModeEnabled(true);
+			expect(isPlanModeEnabled()).toBe(true);
+			expect(fs.writeFileSync).toHaveBeenCalled();
+		});
+	});
+
 	describe("currentModelSupportsThinking", () => {
 		it("should return false when no current model", async () => {
 			vi.mocked(fs.existsSync).mockReturnValue(false);
@@ -516,6 +538,25 @@ describe("config", () => {
 		});
 	});
 
+	describe("modelSupportsVision", () => {
+		it("should check the current model or the given model", async () => {
+			const config = {
+				models: {
+					"vision-model": { model: "vision-model", supportsVision: true },
+					"text-model": { model: "text-model" },
+				},
+				currentModel: "vision-model",
+			};
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(config));
+
+			const { modelSupportsVision } = await resetConfigModule();
+			expect(modelSupportsVision()).toBe(true);
+			expect(modelSupportsVision("text-model")).toBe(false);
+			expect(modelSupportsVision("missing")).toBe(false);
+		});
+	});
+
 	describe("getThinkingParams", () => {
 		it("should return null when no current model", async () => {
 			vi.mocked(fs.existsSync).mockReturnValue(false);
@@ -609,4 +650,36 @@ describe("config", () => {
 			expect(getThinkingParams()).toEqual({ enable_thinking: false });
 		});
 	});
+
+	describe("tool concurrency", () => {
+		it("should return the default when not configured", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(fs.writeFileSync).mockReturnValue(undefined);
+
+			const { getToolConcurrency, DEFAULT_TOOL_CONCURRENCY } =
+				await resetConfigModule();
+			expect(getToolConcurrency()).toBe(DEFAULT_TOOL_CONCURRENCY);
+		});
+
+		it("should return the configured value", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ toolConcurrency: 8 }),
+			);
+
+			const { getToolConcurrency } = await resetConfigModule();
+			expect(getToolConcurrency()).toBe(8);
+		});
+
+		it("should ignore invalid values", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ toolConcurrency: 0.5 }),
+			);
+
+			const { getToolConcurrency, DEFAULT_TOOL_CONCURRENCY } =
+				await resetConfigModule();
+			expect(getToolConcurrency()).toBe(DEFAULT_TOOL_CONCURRENCY);
+		});
+	});
 });
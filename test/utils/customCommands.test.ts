@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	parseCommandFile,
+	createCustomCommand,
+	loadCustomCommands,
+	splitArguments,
+	expandCommandTemplate,
+	getProjectCommandsDir,
+} from "../../source/utils/customCommands.js";
+
+describe("customCommands", () => {
+	describe("parseCommandFile", () => {
+		it("should parse scalar, inline list and block list attributes", () => {
+			const { attributes, body } = parseCommandFile(
+				[
+					"---",
+					'description: "Review code"',
+					"allowed-tools: [git_diff, 'bash:npm test*']",
+					"tags:",
+					"  - a",
+					"  - b",
+					"---",
+					"",
+					"Body text",
+				].join("\n"),
+			);
+
+			expect(attributes).toEqual({
+				description: "Review code",
+				"allowed-tools": ["git_diff", "bash:npm test*"],
+				tags: ["a", "b"],
+			});
+			expect(body).toBe("Body text");
+		});
+
+		it("should treat files without frontmatter as body only", () => {
+			expect(parseCommandFile("Just a prompt\r\n")).toEqual({
+				attributes: {},
+				body: "Just a prompt",
+			});
+		});
+	});
+
+	describe("createCustomCommand", () => {
+		it("should read frontmatter fields", () => {
+			const command = createCustomCommand(
+				"review",
+				[
+					"---",
+					"description: Review a file",
+					"argument-hint: <file>",
+					"model: gpt-4o",
+					"allowed-tools: git_diff, file_read",
+					"---",
+					"Review $1",
+				].join("\n"),
+				"project",
+				"/p/review.md",
+			);
+
+			expect(command).toEqual({
+				name: "review",
+				description: "Review a file",
+				argumentHint: "<file>",
+				model: "gpt-4o",
+				allowedTools: ["git_diff", "file_read"],
+				template: "Review $1",
+				source: "project",
+				filePath: "/p/review.md",
+			});
+		});
+
+		it("should fall back to the first body line for description", () => {
+			const command = createCustomCommand(
+				"explain",
+				"\n# Explain the code\n\nDetails",
+				"user",
+				"/u/explain.md",
+			);
+
+			expect(command.description).toBe("Explain the code");
+			expect(command.allowedTools).toBeUndefined();
+		});
+	});
+
+	describe("loadCustomCommands", () => {
+		let tmpDir: string;
+		let userDir: string;
+		let projectDir: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-commands-"));
+			userDir = path.join(tmpDir, "home", "commands");
+			projectDir = path.join(tmpDir, "project");
+			fs.mkdirSync(userDir, { recursive: true });
+			fs.mkdirSync(getProjectCommandsDir(projectDir), { recursive: true });
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should load both directories with project commands winning", () => {
+			fs.writeFileSync(path.join(userDir, "review.md"), "user review");
+			fs.writeFileSync(path.join(userDir, "explain.md"), "user explain");
+			fs.writeFileSync(
+				path.join(getProjectCommandsDir(projectDir), "review.md"),
+				"project review",
+			);
+			fs.writeFileSync(path.join(userDir, "notes.txt"), "ignored");
+			fs.writeFileSync(path.join(userDir, "has space.md"), "ignored");
+
+			const commands = loadCustomCommands(projectDir, userDir);
+
+			expect(commands.map((c) => [c.name, c.source, c.template])).toEqual([
+				["explain", "user", "user explain"],
+				["review", "project", "project review"],
+			]);
+		});
+
+		it("should return empty list when directories do not exist", () => {
+			expect(
+				loadCustomCommands(
+					path.join(tmpDir, "missing"),
+					path.join(tmpDir, "none"),
+				),
+			).toEqual([]);
+		});
+	});
+
+	describe("splitArguments", () => {
+		it("should keep quoted arguments together", () => {
+			expect(splitArguments(`a "b c" 'd e'  f`)).toEqual([
+				"a",
+				"b c",
+				"d e",
+				"f",
+			]);
+		});
+	});
+
+	describe("expandCommandTemplate", () => {
+		it("should replace $ARGUMENTS and positional placeholders", () => {
+			expect(
+				expandCommandTemplate(
+					"Fix $1 in $2. Full: $ARGUMENTS. $3",
+					"bug app.ts",
+				),
+			).toBe("Fix bug in app.ts. Full: bug app.ts. ");
+		});
+
+		it("should append arguments when the template has no placeholders", () => {
+			expect(expandCommandTemplate("Explain this", " foo ")).toBe(
+				"Explain this\n\nARGUMENTS: foo",
+			);
+			expect(expandCommandTemplate("Explain this", "")).toBe("Explain this");
+		});
+	});
+});
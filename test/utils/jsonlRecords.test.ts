@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	appendJsonlRecord,
+	loadJsonlRecords,
+} from "../../source/utils/jsonlRecords.js";
+
+type TestRecord = { timestamp: number; value: string };
+
+describe("jsonlRecords", () => {
+	let tmpDir: string;
+	let file: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-jsonl-"));
+		file = path.join(tmpDir, "nested", "records.jsonl");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("should append records and create parent directories", () => {
+		appendJsonlRecord(file, { timestamp: 1, value: "a" });
+		appendJsonlRecord(file, { timestamp: 2, value: "b" });
+
+		expect(loadJsonlRecords<TestRecord>(file)).toEqual([
+			{ timestamp: 1, value: "a" },
+			{ timestamp: 2, value: "b" },
+		]);
+	});
+
+	it("should filter records by timestamp", () => {
+		appendJsonlRecord(file, { timestamp: 1, value: "a" });
+		appendJsonlRecord(file, { timestamp: 5, value: "b" });
+
+		expect(loadJsonlRecords<TestRecord>(file, 2)).toEqual([
+			{ timestamp: 5, value: "b" },
+		]);
+	});
+
+	it("should return empty array for missing file", () => {
+		expect(loadJsonlRecords(file)).toEqual([]);
+	});
+
+	it("should skip corrupt lines and records without timestamp", () => {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(
+			file,
+			'{"timestamp":1,"value":"a"}\n{"timest\n{"value":"b"}\n\n',
+		);
+
+		expect(loadJsonlRecords<TestRecord>(file)).toEqual([
+			{ timestamp: 1, value: "a" },
+		]);
+	});
+
+	it("should drop expired records when the file grows too large", () => {
+		const now = Date.now();
+		const old = JSON.stringify({ timestamp: 1, value: "x".repeat(1000) });
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, `${old}\n`.repeat(5300));
+
+		appendJsonlRecord(file, { timestamp: now, value: "new" });
+
+		expect(loadJsonlRecords<TestRecord>(file)).toEqual([
+			{ timestamp: now, value: "new" },
+		]);
+	});
+});
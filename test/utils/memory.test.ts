@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	findMemoryFiles,
+	loadMemoryFiles,
+	formatMemory,
+	appendMemory,
+	parseMemoryNote,
+	MEMORY_FILENAME,
+} from "../../source/utils/memory.js";
+
+describe("memory", () => {
+	let tmpDir: string;
+	let projectDir: string;
+	let subDir: string;
+	let globalPath: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-memory-"));
+		projectDir = path.join(tmpDir, "project");
+		subDir = path.join(projectDir, "packages", "app");
+		fs.mkdirSync(subDir, { recursive: true });
+		fs.mkdirSync(path.join(tmpDir, "home"));
+		globalPath = path.join(tmpDir, "home", MEMORY_FILENAME);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("findMemoryFiles", () => {
+		it("should return global file first, then parents before cwd", () => {
+			fs.writeFileSync(globalPath, "global");
+			fs.writeFileSync(path.join(projectDir, MEMORY_FILENAME), "project");
+			fs.writeFileSync(path.join(subDir, MEMORY_FILENAME), "app");
+
+			expect(findMemoryFiles(subDir, globalPath)).toEqual([
+				globalPath,
+				path.join(projectDir, MEMORY_FILENAME),
+				path.join(subDir, MEMORY_FILENAME),
+			]);
+		});
+
+		it("should return empty array when no memory files exist", () => {
+			expect(findMemoryFiles(subDir, globalPath)).toEqual([]);
+		});
+	});
+
+	describe("loadMemoryFiles", () => {
+		it("should skip empty files and trim content", () => {
+			fs.writeFileSync(globalPath, "  \n");
+			fs.writeFileSync(path.join(projectDir, MEMORY_FILENAME), "\nUse pnpm\n");
+
+			expect(loadMemoryFiles(subDir, globalPath)).toEqual([
+				{ path: path.join(projectDir, MEMORY_FILENAME), content: "Use pnpm" },
+			]);
+		});
+	});
+
+	describe("formatMemory", () => {
+		it("should join files with path headings", () => {
+			expect(
+				formatMemory([
+					{ path: "/a/AXIOMATE.md", content: "one" },
+					{ path: "/a/b/AXIOMATE.md", content: "two" },
+				]),
+			).toBe("### /a/AXIOMATE.md\n\none\n\n### /a/b/AXIOMATE.md\n\ntwo");
+		});
+
+		it("should return empty string without files", () => {
+			expect(formatMemory([])).toBe("");
+		});
+	});
+
+	describe("appendMemory", () => {
+		it("should create the file and append bullet notes", () => {
+			const file = appendMemory(projectDir, "Use pnpm");
+			appendMemory(projectDir, " Never edit dist/ ");
+
+			expect(file).toBe(path.join(projectDir, MEMORY_FILENAME));
+			expect(fs.readFileSync(file, "utf-8")).toBe(
+				"- Use pnpm\n- Never edit dist/\n",
+			);
+		});
+
+		it("should start a new line when the file has no trailing newline", () => {
+			const file = path.join(projectDir, MEMORY_FILENAME);
+			fs.writeFileSync(file, "# Notes");
+			appendMemory(projectDir, "Use pnpm");
+
+			expect(fs.readFileSync(file, "utf-8")).toBe("# Notes\n- Use pnpm\n");
+		});
+	});
+
+	describe("parseMemoryNote", () => {
+		it("should parse single-line # notes", () => {
+			expect(parseMemoryNote("# Use pnpm")).toBe("Use pnpm");
+			expect(parseMemoryNote("  #   Use pnpm  ")).toBe("Use pnpm");
+		});
+
+		it("should ignore other input", () => {
+			expect(parseMemoryNote("Use pnpm")).toBeNull();
+			expect(parseMemoryNote("#123 is broken")).toBeNull();
+			expect(parseMemoryNote("# ")).toBeNull();
+			expect(parseMemoryNote("# Title\n\nBody")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { findProjectRoot } from "../../source/utils/project.js";
+
+describe("findProjectRoot", () => {
+	let tmpDir: string;
+	let subDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "axiomate-project-"));
+		subDir = path.join(tmpDir, "repo", "packages", "app");
+		fs.mkdirSync(subDir, { recursive: true });
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("should return the nearest git root", () => {
+		fs.mkdirSync(path.join(tmpDir, "repo", ".git"));
+
+		expect(findProjectRoot(subDir)).toBe(path.join(tmpDir, "repo"));
+	});
+
+	it("should accept a .git file (worktrees and submodules)", () => {
+		fs.writeFileSync(path.join(subDir, ".git"), "gitdir: ../../.git/x");
+
+		expect(findProjectRoot(subDir)).toBe(subDir);
+	});
+
+	it("should fall back to the working directory outside git", () => {
+		expect(findProjectRoot(subDir)).toBe(subDir);
+	});
+});